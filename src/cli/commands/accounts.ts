@@ -1,7 +1,9 @@
 import type { Command } from "commander";
 import { accountsRepo } from "../../db/repositories/accounts.repo";
 import { logger } from "../../core/logger";
-import { validateTransition } from "../../domain/account-state-machine";
+import { accountProxyService } from "../../services/account-proxy.service";
+import { browserProfileService } from "../../services/browser-profile.service";
+import { accountQuarantineService } from "../../services/account-quarantine.service";
 
 export const commands = (program: Command) => {
   program
@@ -56,9 +58,164 @@ export const commands = (program: Command) => {
         process.exit(1);
       }
 
-      validateTransition(account.status, options.status as any);
-
-      await accountsRepo.updateStatus(id, options.status as any);
+      await accountQuarantineService.setStatus(account, options.status as any);
       logger.info({ id, from: account.status, to: options.status }, "Account status updated");
     });
+
+  program
+    .command("accounts:set-proxy")
+    .requiredOption("--id <id>", "Account ID")
+    .requiredOption("--server <server>", "Proxy server, e.g. http://proxy.example.com:8080 or socks5://host:1080")
+    .option("--username <username>", "Proxy username")
+    .option("--password-env <name>", "Read the proxy password from this environment variable")
+    .option("--bypass <hosts>", "Comma-separated hosts that skip the proxy")
+    .option("--clear-credentials", "Remove the stored username and password")
+    .action(async (options) => {
+      const id = parseInt(options.id, 10);
+      const account = await accountsRepo.findById(id);
+
+      if (!account) {
+        logger.error({ id }, "Account not found");
+        process.exit(1);
+      }
+
+      // Read from the environment so the password stays out of shell history and process lists.
+      const password = options.passwordEnv ? process.env[options.passwordEnv] : undefined;
+      if (options.passwordEnv && !password) {
+        logger.error({ variable: options.passwordEnv }, "Proxy password environment variable is empty");
+        process.exit(1);
+      }
+
+      try {
+        const updated = await accountProxyService.setProxy(account, {
+          server: options.server,
+          username: options.clearCredentials ? null : options.username,
+          password: options.clearCredentials ? null : password,
+          bypass: options.bypass !== undefined ? options.bypass.split(",") : undefined,
+        });
+        logger.info({ id, proxy: accountProxyService.describe(updated) }, "Proxy saved. Run 'auth:check' to verify it.");
+      } catch (error: any) {
+        logger.error({ id, error: error.message }, "Failed to set proxy");
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("accounts:clear-proxy")
+    .requiredOption("--id <id>", "Account ID")
+    .action(async (options) => {
+      const id = parseInt(options.id, 10);
+      const account = await accountsRepo.findById(id);
+
+      if (!account) {
+        logger.error({ id }, "Account not found");
+        process.exit(1);
+      }
+
+      await accountProxyService.clearProxy(account);
+      logger.info({ id }, "Proxy removed; the account now uses the machine's own connection");
+    });
+
+  program
+    .command("accounts:show-proxy")
+    .requiredOption("--id <id>", "Account ID")
+    .action(async (options) => {
+      const id = parseInt(options.id, 10);
+      const account = await accountsRepo.findById(id);
+
+      if (!account) {
+        logger.error({ id }, "Account not found");
+        process.exit(1);
+      }
+
+      const proxy = accountProxyService.describe(account);
+      if (!proxy) {
+        console.log(`  [${account.id}] ${account.platform}/${account.handle}: no proxy (direct connection)`);
+        return;
+      }
+
+      console.log(`  [${account.id}] ${account.platform}/${account.handle}: ${proxy.server}`);
+      console.log(`  Credentials: ${proxy.username ? `${proxy.username} / ${proxy.hasPassword ? "password set" : "no password"}` : "none"}`);
+      console.log(`  Bypass: ${proxy.bypass.length > 0 ? proxy.bypass.join(", ") : "-"}`);
+      console.log(
+        `  Last check: ${proxy.checkedAt ? `${new Date(proxy.checkedAt * 1000).toISOString()} (egress ${proxy.egressIp ?? "unknown"})` : "never"}`
+      );
+    });
+
+  program
+    .command("accounts:show-fingerprint")
+    .requiredOption("--id <id>", "Account ID")
+    .option("--regenerate", "Replace the fingerprint (re-run 'auth:login' afterwards)")
+    .action(async (options) => {
+      const id = parseInt(options.id, 10);
+      const account = await accountsRepo.findById(id);
+
+      if (!account) {
+        logger.error({ id }, "Account not found");
+        process.exit(1);
+      }
+
+      const profile = options.regenerate
+        ? await browserProfileService.regenerate(account)
+        : await browserProfileService.getOrCreate(account);
+
+      console.log(`  [${account.id}] ${account.platform}/${account.handle}`);
+      console.log(`  User agent: ${profile.userAgent}`);
+      console.log(`  Locale: ${profile.locale}, timezone: ${profile.timezoneId}`);
+      console.log(
+        `  Viewport: ${profile.viewport.width}x${profile.viewport.height} @${profile.deviceScaleFactor}x, color scheme: ${profile.colorScheme}`
+      );
+      if (options.regenerate) {
+        logger.warn({ id }, "Fingerprint replaced; run 'auth:login' so the session matches the new browser");
+      }
+    });
+
+  program
+    .command("accounts:quarantines")
+    .requiredOption("--id <id>", "Account ID")
+    .option("--limit <n>", "Number of entries to show", "20")
+    .action(async (options) => {
+      const id = parseInt(options.id, 10);
+      const account = await accountsRepo.findById(id);
+
+      if (!account) {
+        logger.error({ id }, "Account not found");
+        process.exit(1);
+      }
+
+      const history = await accountQuarantineService.listHistory(id, parseInt(options.limit, 10));
+      console.log(`  [${account.id}] ${account.platform}/${account.handle} (${account.status})`);
+      if (account.status === "quarantined") {
+        console.log(`  ${accountQuarantineService.describe(account)}`);
+      }
+      if (history.length === 0) {
+        console.log("  No quarantines recorded");
+        return;
+      }
+      for (const entry of history) {
+        const released = entry.releasedAt
+          ? `released ${new Date(entry.releasedAt * 1000).toISOString()} (${entry.releaseKind})`
+          : `until ${new Date(entry.releaseAt * 1000).toISOString()}`;
+        console.log(`  ${new Date(entry.startedAt * 1000).toISOString()} level ${entry.level}, ${released}: ${entry.reason}`);
+      }
+    });
+
+  program
+    .command("accounts:release-quarantine")
+    .requiredOption("--id <id>", "Account ID")
+    .action(async (options) => {
+      const id = parseInt(options.id, 10);
+      const account = await accountsRepo.findById(id);
+
+      if (!account) {
+        logger.error({ id }, "Account not found");
+        process.exit(1);
+      }
+      if (account.status !== "quarantined") {
+        logger.error({ id, status: account.status }, "Account is not quarantined");
+        process.exit(1);
+      }
+
+      await accountQuarantineService.release(account, "manual");
+    });
 };
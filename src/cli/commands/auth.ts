@@ -17,6 +17,10 @@ import {
   hasSessionState,
 } from "../../services/playwright-session-state";
 import { createSessionBlob, decodeSessionBlob } from "../../services/session-blob";
+import { accountProxyService } from "../../services/account-proxy.service";
+import { accountQuarantineService } from "../../services/account-quarantine.service";
+import { browserProfileService } from "../../services/browser-profile.service";
+import { newAccountContext } from "../../services/browser-session";
 
 function getPlatformAdapter(platform: string) {
   return platform === "threads" ? new ThreadsAdapter() : new XAdapter();
@@ -49,8 +53,11 @@ export const commands = (program: Command) => {
         browser = await chromium.launch({
           headless: false,
           slowMo: env.PLAYWRIGHT_SLOW_MO,
+          proxy: accountProxyService.getBrowserProxy(account),
+        });
+        context = await newAccountContext(browser, {
+          browserProfile: await browserProfileService.getOrCreate(account),
         });
-        context = await browser.newContext();
 
         const adapter = getPlatformAdapter(account.platform);
         await adapter.performLogin(await context.newPage(), account.handle);
@@ -59,13 +66,12 @@ export const commands = (program: Command) => {
         const sessionStateJson = serializeStorageState(state);
 
         await accountsRepo.update(id, {
-          status: "active",
           sessionStateJson,
           lastAuthAt: Math.floor(Date.now() / 1000),
           lastAuthCheckAt: Math.floor(Date.now() / 1000),
         });
 
-        await accountsRepo.clearAuthError(id);
+        await accountQuarantineService.markAuthenticated(account);
 
         logger.info(
           { accountId: id, cookieCount: state.cookies?.length || 0 },
@@ -100,7 +106,7 @@ export const commands = (program: Command) => {
       try {
         if (!hasSessionState(account)) {
           logger.warn({ accountId: id }, "No session state in database");
-          await accountsRepo.setNeedsReauth(id, "SESSION_STATE_MISSING", "No session state in database");
+          await accountQuarantineService.markNeedsReauth(account, "SESSION_STATE_MISSING", "No session state in database");
           return;
         }
 
@@ -109,11 +115,29 @@ export const commands = (program: Command) => {
         browser = await chromium.launch({
           headless: true,
           slowMo: env.PLAYWRIGHT_SLOW_MO,
+          proxy: accountProxyService.getBrowserProxy(account),
         });
-        context = await browser.newContext({
-          storageState: storageState as any,
+        context = await newAccountContext(browser, {
+          storageState,
+          browserProfile: await browserProfileService.getOrCreate(account),
         });
 
+        if (account.proxyServer) {
+          const proxyCheck = await accountProxyService.checkProxy(account, context);
+          if (!proxyCheck.ok) {
+            // An unreachable proxy says nothing about the session, so the account keeps its status.
+            logger.error({ accountId: id, proxy: account.proxyServer, error: proxyCheck.error }, "Proxy check failed");
+            await accountsRepo.update(id, {
+              lastAuthCheckAt: Math.floor(Date.now() / 1000),
+              lastErrorCode: "PROXY_FAILED",
+              lastErrorDetail: proxyCheck.error,
+              lastErrorAt: Math.floor(Date.now() / 1000),
+            });
+            return;
+          }
+          logger.info({ accountId: id, proxy: account.proxyServer, egressIp: proxyCheck.egressIp }, "Proxy reachable");
+        }
+
         const adapter = getPlatformAdapter(account.platform);
         const authState = await adapter.validateSession(
           await context.newPage(),
@@ -124,23 +148,22 @@ export const commands = (program: Command) => {
         });
 
         if (authState.isValid) {
-          await accountsRepo.update(id, { status: "active" });
-          await accountsRepo.clearAuthError(id);
+          await accountQuarantineService.markAuthenticated(account);
           logger.info({ accountId: id }, "Session is valid");
         } else {
           logger.warn(
             { accountId: id, error: authState.error },
             "Session is invalid",
           );
-          await accountsRepo.setNeedsReauth(
-            id,
+          await accountQuarantineService.markNeedsReauth(
+            account,
             "SESSION_INVALID",
             authState.error || "Unknown error",
           );
         }
       } catch (error: any) {
         logger.error(error, "Session check failed");
-        await accountsRepo.setNeedsReauth(id, "CHECK_FAILED", error.message);
+        await accountQuarantineService.markNeedsReauth(account, "CHECK_FAILED", error.message);
       } finally {
         if (context) await context.close();
         if (browser) await browser.close();
@@ -200,12 +223,11 @@ export const commands = (program: Command) => {
         const sessionStateJson = serializeStorageState(decoded.state);
 
         await accountsRepo.update(id, {
-          status: "active",
           sessionStateJson,
           lastAuthAt: Math.floor(Date.now() / 1000),
           lastAuthCheckAt: Math.floor(Date.now() / 1000),
         });
-        await accountsRepo.clearAuthError(id);
+        await accountQuarantineService.markAuthenticated(account);
 
         logger.info(
           {
@@ -0,0 +1,34 @@
+import type { Command } from "commander";
+import { llmLedgerService } from "../../services/llm-ledger.service";
+import type { LlmUsageRow } from "../../db/repositories/llm-calls.repo";
+import { logger } from "../../core/logger";
+
+function formatUsageRow(label: string, row: Omit<LlmUsageRow, "key">): string {
+  return `  ${label.padEnd(14)} calls=${row.calls} failed=${row.failedCalls} tokens=${row.promptTokens}+${row.completionTokens} cost=$${row.costUsd.toFixed(4)} avgLatency=${row.avgLatencyMs}ms retries=${row.retries}`;
+}
+
+export const commands = (program: Command) => {
+  program
+    .command("llm:usage")
+    .option("--days <n>", "Look-back window in days", "7")
+    .option("--account <id>", "Filter by account ID")
+    .action(async (options) => {
+      const days = parseInt(options.days, 10);
+      const accountId = options.account ? parseInt(options.account, 10) : undefined;
+
+      const report = await llmLedgerService.getUsageReport({ days, accountId });
+      logger.info({ days, accountId, calls: report.totals.calls }, "LLM usage report");
+
+      console.log(`LLM usage over the last ${days} day(s)${accountId ? ` for account ${accountId}` : ""}`);
+      console.log(formatUsageRow("total", report.totals));
+
+      console.log("\nBy stage:");
+      for (const row of report.byStage) console.log(formatUsageRow(row.key, row));
+
+      console.log("\nBy account:");
+      for (const row of report.byAccount) console.log(formatUsageRow(row.key, row));
+
+      console.log("\nBy day:");
+      for (const row of report.byDay) console.log(formatUsageRow(row.key, row));
+    });
+};
@@ -0,0 +1,35 @@
+import type { Command } from "commander";
+import { notificationsRepo } from "../../db/repositories/notifications.repo";
+import { NotificationKindSchema } from "../../domain/models";
+import { logger } from "../../core/logger";
+
+export const commands = (program: Command) => {
+  program
+    .command("notifications:list")
+    .requiredOption("--account <id>", "Account ID")
+    .option("--kind <kind>", "Filter by kind (mention, reply, quote)")
+    .option("--limit <n>", "Max notifications to show", "20")
+    .action(async (options) => {
+      const accountId = parseInt(options.account, 10);
+      const kind = options.kind ? NotificationKindSchema.safeParse(options.kind) : null;
+      if (kind && !kind.success) {
+        logger.error({ kind: options.kind }, "Invalid notification kind");
+        process.exit(1);
+      }
+
+      const notifications = await notificationsRepo.listByAccount(accountId, {
+        kind: kind?.data,
+        limit: parseInt(options.limit, 10),
+      });
+
+      if (notifications.length === 0) {
+        console.log(`No notifications collected for account ${accountId}`);
+        return;
+      }
+
+      for (const n of notifications) {
+        const body = (n.post.bodyText || "").slice(0, 80);
+        console.log(`[${n.id}] ${n.kind.padEnd(7)} @${n.actorHandle} post=${n.postId} ${body}`);
+      }
+    });
+};
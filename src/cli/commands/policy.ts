@@ -1,6 +1,7 @@
 import type { Command } from "commander";
 import { engagementPoliciesRepo } from "../../db/repositories/engagement-policies.repo";
 import { logger } from "../../core/logger";
+import { SelectionOverridesSchema } from "../../domain/selection";
 
 export const commands = (program: Command) => {
   program
@@ -22,6 +23,19 @@ export const commands = (program: Command) => {
       console.log(`  Avoid: ${JSON.stringify(JSON.parse(policy.avoidListJson))}`);
       console.log(`  Tone: ${policy.toneIdentity}`);
       console.log(`  Languages: ${JSON.stringify(JSON.parse(policy.preferredLanguagesJson))}`);
+      console.log(
+        `  Triage LLM: model=${policy.triageModel ?? "(default)"} temperature=${policy.triageTemperature ?? "(default)"} maxTokens=${policy.triageMaxTokens ?? "(default)"}`
+      );
+      console.log(
+        `  Draft LLM: model=${policy.draftModel ?? "(default)"} temperature=${policy.draftTemperature ?? "(default)"} maxTokens=${policy.draftMaxTokens ?? "(default)"}`
+      );
+      console.log(`  Author allow list: ${policy.authorAllowListJson}`);
+      console.log(`  Author deny list: ${policy.authorDenyListJson}`);
+      console.log(`  Exclude patterns: ${policy.excludePatternsJson}`);
+      console.log(
+        `  Min body length: ${policy.minBodyLength ?? "(none)"}  Max post age: ${policy.maxPostAgeHours ? `${policy.maxPostAgeHours}h` : "(none)"}`
+      );
+      console.log(`  Selection: ${policy.selectionConfigJson ?? "(defaults)"}`);
     });
 
   program
@@ -33,9 +47,59 @@ export const commands = (program: Command) => {
     .option("--avoid <items...>", "Topics to avoid (space-separated)")
     .option("--tone <tone>", "Tone/identity description")
     .option("--languages <langs...>", "Preferred languages (space-separated)")
+    .option("--triage-model <model>", "Triage model override (defaults to LLM_TRIAGE_MODEL / provider default)")
+    .option("--triage-temperature <n>", "Triage temperature override (0-2)")
+    .option("--triage-max-tokens <n>", "Triage max tokens override")
+    .option("--draft-model <model>", "Draft model override (defaults to LLM_DRAFT_MODEL / provider default)")
+    .option("--draft-temperature <n>", "Draft temperature override (0-2)")
+    .option("--draft-max-tokens <n>", "Draft max tokens override")
+    .option("--author-allow <handles...>", "Authors that always pass the pre-filter")
+    .option("--author-deny <handles...>", "Authors dropped by the pre-filter")
+    .option("--exclude-patterns <patterns...>", "Regex patterns (case-insensitive) dropped by the pre-filter")
+    .option("--min-body-length <n>", "Drop posts shorter than this many characters")
+    .option("--max-post-age-hours <n>", "Drop posts published longer ago than this")
+    .option("--selection-strategy <name>", "Selection strategy (top_score, author_diverse, engagement_velocity, reply_first, recency_decay)")
+    .option("--selection-top-n <n>", "Number of posts to select per run")
+    .option("--selection-threshold <n>", "Minimum relevance score for deep scraping (0-100)")
+    .option("--max-per-author <n>", "Cap selected posts per author")
+    .option("--recency-half-life <hours>", "Half-life in hours for the recency_decay strategy")
     .action(async (options) => {
       const accountId = parseInt(options.account, 10);
 
+      const parseOptionalNumber = (value: string | undefined, flag: string, integer: boolean): number | null => {
+        if (value === undefined) return null;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+          logger.error({ flag, value }, "Invalid numeric option");
+          process.exit(1);
+        }
+        return parsed;
+      };
+
+      for (const pattern of options.excludePatterns || []) {
+        try {
+          new RegExp(pattern, "i");
+        } catch {
+          logger.error({ pattern }, "Invalid exclude pattern");
+          process.exit(1);
+        }
+      }
+
+      const selectionOverrides = Object.fromEntries(
+        Object.entries({
+          strategy: options.selectionStrategy,
+          topN: parseOptionalNumber(options.selectionTopN, "--selection-top-n", true),
+          scoreThreshold: parseOptionalNumber(options.selectionThreshold, "--selection-threshold", false),
+          maxPerAuthor: parseOptionalNumber(options.maxPerAuthor, "--max-per-author", true),
+          recencyHalfLifeHours: parseOptionalNumber(options.recencyHalfLife, "--recency-half-life", false),
+        }).filter(([, value]) => value !== undefined && value !== null)
+      );
+      const selection = SelectionOverridesSchema.safeParse(selectionOverrides);
+      if (!selection.success) {
+        logger.error({ issues: selection.error.issues }, "Invalid selection options");
+        process.exit(1);
+      }
+
       const policy = await engagementPoliciesRepo.upsertByAccountId(accountId, {
         name: options.name,
         topicsJson: JSON.stringify(options.topics || []),
@@ -43,6 +107,18 @@ export const commands = (program: Command) => {
         avoidListJson: JSON.stringify(options.avoid || []),
         toneIdentity: options.tone || "Friendly and helpful",
         preferredLanguagesJson: JSON.stringify(options.languages || ["en"]),
+        triageModel: options.triageModel || null,
+        triageTemperature: parseOptionalNumber(options.triageTemperature, "--triage-temperature", false),
+        triageMaxTokens: parseOptionalNumber(options.triageMaxTokens, "--triage-max-tokens", true),
+        draftModel: options.draftModel || null,
+        draftTemperature: parseOptionalNumber(options.draftTemperature, "--draft-temperature", false),
+        draftMaxTokens: parseOptionalNumber(options.draftMaxTokens, "--draft-max-tokens", true),
+        authorAllowListJson: JSON.stringify(options.authorAllow || []),
+        authorDenyListJson: JSON.stringify(options.authorDeny || []),
+        excludePatternsJson: JSON.stringify(options.excludePatterns || []),
+        minBodyLength: parseOptionalNumber(options.minBodyLength, "--min-body-length", true),
+        maxPostAgeHours: parseOptionalNumber(options.maxPostAgeHours, "--max-post-age-hours", true),
+        selectionConfigJson: Object.keys(selection.data).length > 0 ? JSON.stringify(selection.data) : null,
         isActive: 1,
       });
 
@@ -17,7 +17,7 @@ export const commands = (program: Command) => {
 
         const runAccounts = await runsRepo.findByRunId(run.id);
         for (const ra of runAccounts) {
-          const statusIcon = ra.status === "success" ? "✓" : ra.status === "skipped_needs_reauth" ? "⊘" : ra.status === "failed" ? "✗" : "○";
+          const statusIcon = ra.status === "success" ? "✓" : ra.status === "skipped_needs_reauth" || ra.status === "quota_exhausted" ? "⊘" : ra.status === "failed" ? "✗" : "○";
           console.log(`    ${statusIcon} Account ${ra.accountId}: ${ra.status} (${ra.postsFound} posts, ${ra.commentsFound} comments)`);
         }
       }
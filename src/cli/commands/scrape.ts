@@ -4,6 +4,7 @@ import { engagementPipelineCoordinator } from "../../orchestration/engagement-pi
 import { runsRepo } from "../../db/repositories/runs.repo";
 import { logger } from "../../core/logger";
 import { env } from "../../core/config";
+import type { PageCaptureOptions } from "../../services/page-capture";
 
 export const commands = (program: Command) => {
   program
@@ -18,10 +19,19 @@ export const commands = (program: Command) => {
     .option("--search <queries...>", "Search queries (space-separated)")
     .option("--no-pipeline", "Skip engagement pipeline after scrape")
     .option("--with-drafts", "Generate reply drafts (requires --pipeline and DRAFTS_ENABLED)")
+    .option("--incremental", "Stop scrolling each source after already-seen posts")
+    .option("--concurrency <n>", "Accounts to scrape in parallel (default: SCRAPER_ACCOUNT_CONCURRENCY; capped per platform)")
     .action(async (options) => {
       logger.info("Starting daily scrape");
 
-      const collectHome = (options.home ?? true) && (options.notifications ?? true);
+      const concurrency = options.concurrency !== undefined ? parseInt(options.concurrency, 10) : undefined;
+      if (concurrency !== undefined && (isNaN(concurrency) || concurrency < 1)) {
+        logger.error({ concurrency: options.concurrency }, "--concurrency must be a positive integer");
+        process.exit(1);
+      }
+
+      const collectHome = options.home ?? true;
+      const collectNotifications = options.notifications ?? true;
       const collectProfiles = (options.profiles ?? true) && (options.ownThreads ?? true);
       const runPipeline = options.pipeline !== false;
       const generateDrafts = options.withDrafts === true;
@@ -34,6 +44,9 @@ export const commands = (program: Command) => {
         collectProfiles,
         profileHandles: options.profileHandle || [],
         searchQueries: options.search || [],
+        collectNotifications,
+        incremental: options.incremental === true,
+        concurrency,
       });
 
       logger.info({
@@ -43,7 +56,10 @@ export const commands = (program: Command) => {
         accountsSucceeded: result.accountsSucceeded,
         accountsFailed: result.accountsFailed,
         accountsSkipped: result.accountsSkipped,
+        accountsQuotaExhausted: result.accountsQuotaExhausted,
         totalPostsFound: result.totalPostsFound,
+        totalPostsNew: result.totalPostsNew,
+        totalPostsReseen: result.totalPostsReseen,
         totalCommentsFound: result.totalCommentsFound,
         totalSnapshotsWritten: result.totalSnapshotsWritten,
       }, "Daily scrape completed");
@@ -70,10 +86,24 @@ export const commands = (program: Command) => {
     .option("--search <queries...>", "Search queries (space-separated)")
     .option("--no-pipeline", "Skip engagement pipeline after scrape")
     .option("--with-drafts", "Generate reply drafts (requires --pipeline and DRAFTS_ENABLED)")
+    .option("--incremental", "Stop scrolling each source after already-seen posts")
+    .option("--record <dir>", "Save a page capture per source (home, profile, search, thread) to this directory")
+    .option("--replay <dir>", "Scrape offline from page captures recorded with --record")
     .action(async (options) => {
       const accountId = parseInt(options.account, 10);
 
-      const collectHome = (options.home ?? true) && (options.notifications ?? true);
+      if (options.record && options.replay) {
+        logger.error("--record and --replay cannot be used together");
+        process.exit(1);
+      }
+      const capture: PageCaptureOptions | undefined = options.record
+        ? { mode: "record", dir: options.record }
+        : options.replay
+          ? { mode: "replay", dir: options.replay }
+          : undefined;
+
+      const collectHome = options.home ?? true;
+      const collectNotifications = options.notifications ?? true;
       const collectProfiles = (options.profiles ?? true) && (options.ownThreads ?? true);
       const runPipeline = options.pipeline !== false;
       const generateDrafts = options.withDrafts === true;
@@ -94,6 +124,9 @@ export const commands = (program: Command) => {
         collectProfiles,
         profileHandles: options.profileHandle || [],
         searchQueries: options.search || [],
+        collectNotifications,
+        capture,
+        incremental: options.incremental === true,
       });
 
       logger.info({
@@ -103,7 +136,10 @@ export const commands = (program: Command) => {
         accountsSucceeded: result.accountsSucceeded,
         accountsFailed: result.accountsFailed,
         accountsSkipped: result.accountsSkipped,
+        accountsQuotaExhausted: result.accountsQuotaExhausted,
         totalPostsFound: result.totalPostsFound,
+        totalPostsNew: result.totalPostsNew,
+        totalPostsReseen: result.totalPostsReseen,
         totalCommentsFound: result.totalCommentsFound,
         totalSnapshotsWritten: result.totalSnapshotsWritten,
       }, "Account scrape completed");
@@ -140,10 +176,12 @@ export const commands = (program: Command) => {
       });
 
       console.log("Pipeline completed:");
-      console.log(`  Triage: ${result.triage.triagedPosts}/${result.triage.totalPosts} posts (${result.triage.failedPosts} failed)`);
-      console.log(`  Selection: ${result.selection.top20Count} top20, ${result.selection.selectedForDeepScrape} for deep scrape`);
-      console.log(`  Deep scrape: ${result.deepScrape.successCount}/${result.deepScrape.totalTasks} tasks, ${result.deepScrape.commentsCollected} comments`);
-      console.log(`  Drafts: ${result.drafts.draftsGenerated} for ${result.drafts.totalPosts} posts`);
+      console.log(`  Pre-filter: ${result.prefilter.filteredPosts}/${result.prefilter.totalPosts} posts dropped`);
+      console.log(`  Triage: ${result.triage.triagedPosts}/${result.triage.totalPosts} posts (${result.triage.failedPosts} failed, ${result.triage.postsPerMinute} posts/min)`);
+      console.log(`  Triage cache: ${result.triage.cacheHits} hits, ${result.triage.cacheMisses} misses`);
+      console.log(`  Selection (${result.selection.strategy ?? "n/a"}): ${result.selection.selectedCount} selected, ${result.selection.selectedForDeepScrape} for deep scrape`);
+      console.log(`  Deep scrape: ${result.deepScrape.successCount}/${result.deepScrape.totalTasks} tasks, ${result.deepScrape.commentsCollected} comments, ${result.deepScrape.authorsEnriched} author profiles${result.deepScrape.quotaExhausted ? " (stopped: quota_exhausted)" : ""}${result.deepScrape.quarantined ? " (stopped: account quarantined)" : ""}`);
+      console.log(`  Drafts: ${result.drafts.draftsGenerated} for ${result.drafts.totalPosts} posts (${result.drafts.postsPerMinute} posts/min)`);
 
       if (result.errors.length > 0) {
         console.log(`  Errors: ${result.errors.length}`);
@@ -160,7 +198,8 @@ async function runPipelineForScrapeRun(runId: number, generateDrafts: boolean) {
   const runAccounts = await runsRepo.findByRunId(runId);
 
   for (const runAccount of runAccounts) {
-    if (runAccount.status !== "success") {
+    // Quota-limited accounts still stored posts; triage needs no browser, and deep scrape stops on the same quota.
+    if (runAccount.status !== "success" && runAccount.status !== "quota_exhausted") {
       continue;
     }
 
@@ -0,0 +1,55 @@
+import type { Command } from "commander";
+import { scrapeHealthService } from "../../services/scrape-health.service";
+import { logger } from "../../core/logger";
+
+export const commands = (program: Command) => {
+  program
+    .command("selectors:check")
+    .description("Check THREADS_SELECTORS against a live page or saved capture, and flag drift in recent runs")
+    .option("--account <id>", "Check live through this account's browser session (also scopes the drift check)")
+    .option("--url <url>", "Page to open for a live check (defaults to the home feed)")
+    .option("--capture <file>", "Check a page capture JSON recorded with scrape:account --record")
+    .option("--json", "Print the full report as JSON")
+    .action(async (options) => {
+      const accountId = options.account ? parseInt(options.account, 10) : undefined;
+
+      try {
+        const selectors =
+          accountId !== undefined || options.capture
+            ? await scrapeHealthService.checkSelectors({ accountId, url: options.url, capturePath: options.capture })
+            : null;
+        const drift = await scrapeHealthService.detectDrift({ accountId });
+
+        if (options.json) {
+          console.log(JSON.stringify({ selectors, drift }, null, 2));
+          return;
+        }
+
+        if (selectors) {
+          console.log(`Selector check (${selectors.target}) on ${selectors.url}`);
+          for (const group of selectors.groups) {
+            console.log(
+              `  ${group.group.padEnd(12)} ${group.status.padEnd(8)} ${group.matchedFields}/${group.totalFields} fields matched`
+            );
+            for (const field of group.fields) {
+              console.log(`    ${field.count === 0 ? "x" : "✓"} ${field.field}: ${field.count}`);
+            }
+          }
+          console.log("");
+        }
+
+        if (drift.alerts.length === 0) {
+          console.log(`No drift detected across ${drift.samplesChecked} successful run accounts`);
+          return;
+        }
+
+        console.log("Likely breakage:");
+        for (const alert of drift.alerts) {
+          console.log(`  [account ${alert.accountId}] run-account ${alert.runAccountId} ${alert.kind}: ${alert.message}`);
+        }
+      } catch (error) {
+        logger.error({ error }, "Selector check failed");
+        process.exit(1);
+      }
+    });
+};
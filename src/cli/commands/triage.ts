@@ -8,15 +8,15 @@ export const commands = (program: Command) => {
     .command("triage:list")
     .requiredOption("--run-account <id>", "Run Account ID")
     .option("--limit <n>", "Number of results to show", "50")
-    .option("--top20", "Show only top 20")
+    .option("--picked", "Show only posts picked by the selection strategy")
     .option("--selected", "Show only selected for deep scrape")
     .action(async (options) => {
       const runAccountId = parseInt(options.runAccount, 10);
       const limit = parseInt(options.limit, 10);
 
       let triageResults;
-      if (options.top20) {
-        triageResults = await postTriageRepo.listTop20(runAccountId);
+      if (options.picked) {
+        triageResults = await postTriageRepo.listSelected(runAccountId);
       } else if (options.selected) {
         triageResults = await postTriageRepo.listSelectedForDeepScrape(runAccountId);
       } else {
@@ -29,11 +29,11 @@ export const commands = (program: Command) => {
       for (const t of triageResults) {
         const post = await postsRepo.findById(t.postId);
         const labelIcon = t.relevanceLabel === "keep" ? "✓" : t.relevanceLabel === "maybe" ? "?" : "✗";
-        const selectedIcon = t.selectedForDeepScrape ? "★" : t.isTop20 ? "○" : " ";
+        const selectedIcon = t.selectedForDeepScrape ? "★" : t.isSelected ? "○" : " ";
         const rankStr = t.rank ? `#${t.rank.toString().padStart(2, " ")}` : "   ";
 
         console.log(
-          `${selectedIcon} ${rankStr} [${t.id}] score=${t.relevanceScore.toString().padStart(3, " ")} ${labelIcon} ${t.action.padEnd(6)} @${post?.authorHandle || "unknown"}`
+          `${selectedIcon} ${rankStr} [${t.id}] score=${t.relevanceScore.toString().padStart(3, " ")} ${labelIcon} ${t.action.padEnd(6)} @${post?.authorHandle || "unknown"}${t.selectionStrategy ? ` (${t.selectionStrategy})` : ""}`
         );
         const reasons = JSON.parse(t.reasonsJson) as string[];
         if (reasons.length > 0) {
@@ -67,7 +67,7 @@ export const commands = (program: Command) => {
       console.log(`  Action: ${triage.action}`);
       console.log(`  Confidence: ${triage.confidence}%`);
       console.log(`  Rank: ${triage.rank ?? "unranked"}`);
-      console.log(`  Top 20: ${triage.isTop20 ? "Yes" : "No"}`);
+      console.log(`  Selected: ${triage.isSelected ? `Yes (${triage.selectionStrategy ?? "unknown strategy"})` : "No"}`);
       console.log(`  Selected for Deep Scrape: ${triage.selectedForDeepScrape ? "Yes" : "No"}`);
       console.log("");
       console.log(`  Reasons:`);
@@ -10,6 +10,9 @@ import { commands as policyCommands } from "./commands/policy";
 import { commands as triageCommands } from "./commands/triage";
 import { commands as draftsCommands } from "./commands/drafts";
 import { commands as cronCommands } from "./commands/cron";
+import { commands as llmCommands } from "./commands/llm";
+import { commands as notificationsCommands } from "./commands/notifications";
+import { commands as selectorsCommands } from "./commands/selectors";
 
 const program = new Command();
 
@@ -25,5 +28,8 @@ policyCommands(program);
 triageCommands(program);
 draftsCommands(program);
 cronCommands(program);
+llmCommands(program);
+notificationsCommands(program);
+selectorsCommands(program);
 
 program.parse();
@@ -0,0 +1,79 @@
+import { sleep } from "./retry";
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` in flight at once.
+ * Results keep the input order. Workers are expected to handle their own errors;
+ * a rejection aborts the remaining queue and is rethrown.
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index]!, index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runNext));
+  return results;
+}
+
+// Rounded to one decimal for logs and stage results.
+export function throughputPerMinute(count: number, durationMs: number): number {
+  if (durationMs <= 0) return 0;
+  return Math.round((count / durationMs) * 600000) / 10;
+}
+
+/**
+ * Spaces calls evenly to stay under a requests-per-minute budget. A limit of 0 disables spacing.
+ * `pauseFor` holds every caller until the pause ends, e.g. after a provider returns Retry-After.
+ */
+export class RateLimiter {
+  private nextSlotAt = 0;
+  private pausedUntil = 0;
+
+  constructor(private requestsPerMinute: number) {}
+
+  async acquire(): Promise<void> {
+    const intervalMs = this.requestsPerMinute > 0 ? 60000 / this.requestsPerMinute : 0;
+    const now = Date.now();
+    const slotAt = Math.max(now, this.nextSlotAt, this.pausedUntil);
+    this.nextSlotAt = slotAt + intervalMs;
+
+    if (slotAt > now) {
+      await sleep(slotAt - now);
+    }
+
+    // A pause may have been set by another caller while this one was waiting.
+    if (this.pausedUntil > Date.now()) {
+      return this.acquire();
+    }
+  }
+
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}
+
+export function parseRetryAfterMs(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
@@ -15,9 +15,29 @@ const envSchema = z.object({
   SCRAPER_ACTION_DELAY_MIN_MS: z.coerce.number().default(600),
   SCRAPER_ACTION_DELAY_MAX_MS: z.coerce.number().default(1800),
   SCRAPER_ACCOUNT_TIMEOUT_SECONDS: z.coerce.number().default(600),
+  SCRAPER_INCREMENTAL_STOP_AFTER_KNOWN: z.coerce.number().int().min(1).default(5),
+  SCRAPER_ACCOUNT_CONCURRENCY: z.coerce.number().int().min(1).default(1),
+  SCRAPER_MAX_CONCURRENCY_THREADS: z.coerce.number().int().min(1).optional(),
+  SCRAPER_MAX_CONCURRENCY_X: z.coerce.number().int().min(1).optional(),
+  SCRAPER_EGRESS_NAVIGATIONS_PER_MINUTE: z.coerce.number().min(0).default(0),
+  PACING_HOURLY_NAVIGATIONS: z.coerce.number().int().min(0).default(150),
+  PACING_DAILY_NAVIGATIONS: z.coerce.number().int().min(0).default(1000),
+  PACING_HOURLY_SCROLLS: z.coerce.number().int().min(0).default(600),
+  PACING_DAILY_SCROLLS: z.coerce.number().int().min(0).default(4000),
+  PACING_HOURLY_EXPANSIONS: z.coerce.number().int().min(0).default(300),
+  PACING_DAILY_EXPANSIONS: z.coerce.number().int().min(0).default(2000),
+  PACING_SLOWDOWN_THRESHOLD: z.coerce.number().min(0).max(1).default(0.7),
+  PACING_MAX_DELAY_MULTIPLIER: z.coerce.number().min(1).default(3),
+  QUARANTINE_BASE_MINUTES: z.coerce.number().positive().default(60),
+  QUARANTINE_MAX_HOURS: z.coerce.number().positive().default(72),
+  QUARANTINE_RESET_DAYS: z.coerce.number().positive().default(7),
+  THREADS_EXTRACTION_MODE: z.enum(["network", "dom"]).default("network"),
   RUN_LOCK_TIMEOUT_SECONDS: z.coerce.number().default(3600),
   TRIAGE_ENABLED: z.string().default("false").transform((v) => v === "true"),
+  TRIAGE_CACHE_ENABLED: z.string().default("true").transform((v) => v === "true"),
   DEEP_SCRAPE_ENABLED: z.string().default("false").transform((v) => v === "true"),
+  AUTHOR_ENRICHMENT_ENABLED: z.string().default("false").transform((v) => v === "true"),
+  AUTHOR_PROFILE_REFRESH_HOURS: z.coerce.number().positive().default(168),
   DRAFTS_ENABLED: z.string().default("false").transform((v) => v === "true"),
   API_ENABLED: z.string().default("false").transform((v) => v === "true"),
   SCHEDULER_ENABLED: z.string().default("false").transform((v) => v === "true"),
@@ -25,10 +45,33 @@ const envSchema = z.object({
   OPENROUTER_API_KEY: z.string().optional(),
   OPENROUTER_MODEL: z.string().default("google/gemini-2.5-flash"),
   OPENROUTER_BASE_URL: z.string().default("https://openrouter.ai/api/v1"),
+  OPENROUTER_RATE_LIMIT_RPM: z.coerce.number().default(60),
+  OPENAI_COMPATIBLE_BASE_URL: z.string().default("http://127.0.0.1:11434/v1"),
+  OPENAI_COMPATIBLE_API_KEY: z.string().default("not-needed"),
+  OPENAI_COMPATIBLE_MODEL: z.string().default("llama3.1"),
+  OPENAI_COMPATIBLE_RATE_LIMIT_RPM: z.coerce.number().default(0),
+  LLM_TRIAGE_PROVIDER: z.enum(["openrouter", "openai_compatible", "fake"]).default("openrouter"),
+  LLM_TRIAGE_MODEL: z.string().optional(),
+  LLM_DRAFT_PROVIDER: z.enum(["openrouter", "openai_compatible", "fake"]).default("openrouter"),
+  LLM_DRAFT_MODEL: z.string().optional(),
+  LLM_STAGE_CONCURRENCY: z.coerce.number().int().min(1).default(4),
   SESSION_BLOB_SECRET: z.string().optional(),
   SESSION_BLOB_TTL_SECONDS: z.coerce.number().default(600),
+  ACCOUNT_SECRETS_KEY: z.string().optional(),
+  PROXY_CHECK_URL: z.string().default("https://api.ipify.org?format=json"),
   SELECTION_TOP_N: z.coerce.number().default(20),
   SELECTION_SCORE_THRESHOLD: z.coerce.number().default(75),
+  SELECTION_STRATEGY: z
+    .enum(["top_score", "author_diverse", "engagement_velocity", "reply_first", "recency_decay"])
+    .default("top_score"),
+  SELECTION_MAX_PER_AUTHOR: z.coerce.number().int().min(1).optional(),
+  SELECTION_RECENCY_HALF_LIFE_HOURS: z.coerce.number().positive().default(24),
+  METRICS_RISING_MIN_VELOCITY: z.coerce.number().min(0).default(10),
+  MEDIA_DOWNLOAD_ENABLED: z.string().default("false").transform((v) => v === "true"),
+  MEDIA_MAX_BYTES: z.coerce.number().int().positive().default(20_000_000),
+  RUN_ARTIFACTS_MODE: z.enum(["off", "on_failure", "always"]).default("on_failure"),
+  RUN_ARTIFACTS_TRACE: z.string().default("false").transform((v) => v === "true"),
+  RUN_ARTIFACTS_RETENTION_DAYS: z.coerce.number().positive().default(14),
   API_PORT: z.coerce.number().default(3000),
   API_HOST: z.string().default("127.0.0.1"),
 });
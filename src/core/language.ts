@@ -0,0 +1,61 @@
+const SCRIPT_LANGUAGES: Array<{ language: string; pattern: RegExp }> = [
+  { language: "ja", pattern: /[぀-ヿ]/g },
+  { language: "ko", pattern: /[가-힯]/g },
+  { language: "zh", pattern: /[一-鿿]/g },
+  { language: "th", pattern: /[฀-๿]/g },
+  { language: "ar", pattern: /[؀-ۿ]/g },
+  { language: "he", pattern: /[֐-׿]/g },
+  { language: "hi", pattern: /[ऀ-ॿ]/g },
+  { language: "ru", pattern: /[Ѐ-ӿ]/g },
+  { language: "el", pattern: /[Ͱ-Ͽ]/g },
+];
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "is", "are", "you", "that", "this", "with", "for", "was", "have", "not", "it", "of", "to"],
+  es: ["el", "la", "los", "las", "que", "de", "y", "es", "por", "para", "con", "una", "pero", "muy", "como"],
+  pt: ["o", "a", "os", "as", "que", "de", "e", "é", "não", "uma", "para", "com", "mas", "muito", "você"],
+  fr: ["le", "la", "les", "et", "est", "que", "de", "des", "une", "pour", "pas", "avec", "vous", "mais", "très"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "ein", "eine", "mit", "ich", "sie", "auf", "für", "auch", "aber"],
+  it: ["il", "lo", "la", "che", "di", "e", "è", "non", "una", "per", "con", "sono", "ma", "anche", "molto"],
+  nl: ["de", "het", "een", "en", "is", "niet", "van", "dat", "met", "voor", "maar", "ook", "zijn", "ik", "je"],
+  id: ["yang", "dan", "di", "ini", "itu", "tidak", "dengan", "untuk", "ada", "aku", "saya", "kamu", "juga", "sudah", "bisa"],
+};
+
+const MIN_LATIN_WORDS = 4;
+
+/**
+ * Best-effort language guess from script ranges and common stopwords.
+ * Returns null when the text is too short or ambiguous to call, so callers
+ * should treat null as "unknown" rather than as a mismatch.
+ */
+export function detectLanguage(text: string | null): string | null {
+  if (!text) return null;
+
+  const stripped = text.replace(/https?:\/\/\S+/g, " ").replace(/[@#]\w+/g, " ");
+  const letters = stripped.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return null;
+
+  for (const { language, pattern } of SCRIPT_LANGUAGES) {
+    const count = stripped.match(pattern)?.length ?? 0;
+    if (count / letters >= 0.3) return language;
+  }
+
+  const words = stripped.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length < MIN_LATIN_WORDS) return null;
+
+  let best: { language: string; hits: number } | null = null;
+  let runnerUpHits = 0;
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const set = new Set(stopwords);
+    const hits = words.filter((word) => set.has(word)).length;
+    if (!best || hits > best.hits) {
+      runnerUpHits = best?.hits ?? 0;
+      best = { language, hits };
+    } else if (hits > runnerUpHits) {
+      runnerUpHits = hits;
+    }
+  }
+
+  if (!best || best.hits < 2 || best.hits === runnerUpHits) return null;
+  return best.language;
+}
@@ -31,3 +31,22 @@ export function extractMediaFingerprint(mediaUrls: string[]): string {
     .sort()
     .join("|");
 }
+
+export function inferMediaType(url: string): "image" | "video" {
+  try {
+    const path = new URL(url).pathname.toLowerCase();
+    return /\.(?:mp4|mov|webm|m4v|m3u8)$/.test(path) || path.includes("/video/") ? "video" : "image";
+  } catch {
+    return "image";
+  }
+}
+
+// Signed CDN URLs change their query string on every load; origin and path identify the asset itself.
+export function mediaAssetKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,6 @@
+ALTER TABLE engagement_policies ADD COLUMN triage_model text;
+ALTER TABLE engagement_policies ADD COLUMN triage_temperature real;
+ALTER TABLE engagement_policies ADD COLUMN triage_max_tokens integer;
+ALTER TABLE engagement_policies ADD COLUMN draft_model text;
+ALTER TABLE engagement_policies ADD COLUMN draft_temperature real;
+ALTER TABLE engagement_policies ADD COLUMN draft_max_tokens integer;
@@ -0,0 +1,24 @@
+CREATE TABLE `llm_calls` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`stage` text NOT NULL,
+	`prompt_version` text,
+	`provider` text NOT NULL,
+	`model` text NOT NULL,
+	`prompt_tokens` integer,
+	`completion_tokens` integer,
+	`total_tokens` integer,
+	`cost_usd` real,
+	`latency_ms` integer NOT NULL,
+	`retry_count` integer DEFAULT 0 NOT NULL,
+	`status` text NOT NULL,
+	`error_code` text,
+	`run_account_id` integer,
+	`post_id` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`run_account_id`) REFERENCES `scrape_run_accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`post_id`) REFERENCES `posts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `llm_calls_created_at_idx` ON `llm_calls` (`created_at`);--> statement-breakpoint
+CREATE INDEX `llm_calls_run_account_idx` ON `llm_calls` (`run_account_id`);--> statement-breakpoint
+CREATE INDEX `llm_calls_stage_idx` ON `llm_calls` (`stage`,`created_at`);
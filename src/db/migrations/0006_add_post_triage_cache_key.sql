@@ -0,0 +1,2 @@
+ALTER TABLE post_triage ADD COLUMN cache_key text;--> statement-breakpoint
+CREATE INDEX `post_triage_cache_key_idx` ON `post_triage` (`cache_key`);
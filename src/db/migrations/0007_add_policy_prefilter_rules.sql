@@ -0,0 +1,5 @@
+ALTER TABLE engagement_policies ADD COLUMN author_allow_list_json text DEFAULT '[]' NOT NULL;
+ALTER TABLE engagement_policies ADD COLUMN author_deny_list_json text DEFAULT '[]' NOT NULL;
+ALTER TABLE engagement_policies ADD COLUMN exclude_patterns_json text DEFAULT '[]' NOT NULL;
+ALTER TABLE engagement_policies ADD COLUMN min_body_length integer;
+ALTER TABLE engagement_policies ADD COLUMN max_post_age_hours integer;
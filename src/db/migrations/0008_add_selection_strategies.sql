@@ -0,0 +1,3 @@
+ALTER TABLE post_triage RENAME COLUMN is_top_20 TO is_selected;
+ALTER TABLE post_triage ADD COLUMN selection_strategy text;
+ALTER TABLE engagement_policies ADD COLUMN selection_config_json text;
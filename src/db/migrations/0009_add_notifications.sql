@@ -0,0 +1,18 @@
+CREATE TABLE `notifications` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`account_id` integer NOT NULL,
+	`platform` text NOT NULL,
+	`kind` text NOT NULL,
+	`actor_handle` text NOT NULL,
+	`post_id` integer NOT NULL,
+	`target_platform_post_id` text,
+	`occurred_at` integer,
+	`first_seen_at` integer NOT NULL,
+	`run_account_id` integer,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`post_id`) REFERENCES `posts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`run_account_id`) REFERENCES `scrape_run_accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `notifications_account_kind_post_idx` ON `notifications` (`account_id`,`kind`,`post_id`);--> statement-breakpoint
+CREATE INDEX `notifications_account_seen_idx` ON `notifications` (`account_id`,first_seen_at DESC);
@@ -0,0 +1,17 @@
+CREATE TABLE `post_media` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`post_id` integer NOT NULL,
+	`position` integer NOT NULL,
+	`media_type` text NOT NULL,
+	`source_url` text NOT NULL,
+	`sha256` text,
+	`local_path` text,
+	`content_type` text,
+	`byte_size` integer,
+	`downloaded_at` integer,
+	`first_seen_at` integer NOT NULL,
+	`last_seen_at` integer NOT NULL,
+	FOREIGN KEY (`post_id`) REFERENCES `posts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `post_media_post_position_idx` ON `post_media` (`post_id`,`position`);
@@ -0,0 +1,15 @@
+CREATE TABLE `scrape_source_cursors` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`account_id` integer NOT NULL,
+	`source` text NOT NULL,
+	`newest_platform_post_id` text,
+	`newest_published_at` integer,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `scrape_source_cursors_account_source_idx` ON `scrape_source_cursors` (`account_id`,`source`);
+--> statement-breakpoint
+ALTER TABLE `scrape_run_accounts` ADD `posts_new` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `scrape_run_accounts` ADD `posts_reseen` integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,7 @@
+ALTER TABLE `comments` ADD `parent_comment_id` integer REFERENCES comments(id);
+--> statement-breakpoint
+ALTER TABLE `comments` ADD `depth` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+CREATE INDEX `comments_parent_comment_id_idx` ON `comments` (`parent_comment_id`);
+--> statement-breakpoint
+CREATE INDEX `posts_thread_root_idx` ON `posts` (`platform`,`thread_root_platform_post_id`);
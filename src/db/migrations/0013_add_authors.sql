@@ -0,0 +1,29 @@
+CREATE TABLE `authors` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`platform` text NOT NULL,
+	`handle` text NOT NULL,
+	`display_name` text NOT NULL,
+	`bio` text,
+	`follower_count` integer,
+	`is_verified` integer,
+	`first_seen_at` integer NOT NULL,
+	`last_seen_at` integer NOT NULL,
+	`profile_scraped_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `authors_platform_handle_idx` ON `authors` (`platform`,`handle`);
+--> statement-breakpoint
+CREATE INDEX `authors_last_seen_idx` ON `authors` (`platform`,last_seen_at DESC);
+--> statement-breakpoint
+CREATE INDEX `posts_author_idx` ON `posts` (`platform`,`author_handle`);
+--> statement-breakpoint
+CREATE INDEX `comments_author_idx` ON `comments` (`platform`,`author_handle`);
+--> statement-breakpoint
+INSERT INTO `authors` (`platform`, `handle`, `display_name`, `last_seen_at`, `first_seen_at`)
+SELECT `platform`, `author_handle`, `author_display_name`, MAX(`last_seen_at`), MIN(`first_seen_at`)
+FROM (
+	SELECT `platform`, `author_handle`, `author_display_name`, `first_seen_at`, `last_seen_at` FROM `posts`
+	UNION ALL
+	SELECT `platform`, `author_handle`, `author_display_name`, `first_seen_at`, `last_seen_at` FROM `comments`
+)
+GROUP BY `platform`, `author_handle`;
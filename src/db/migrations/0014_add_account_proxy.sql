@@ -0,0 +1,11 @@
+ALTER TABLE `accounts` ADD `proxy_server` text;
+--> statement-breakpoint
+ALTER TABLE `accounts` ADD `proxy_username` text;
+--> statement-breakpoint
+ALTER TABLE `accounts` ADD `proxy_password_encrypted` text;
+--> statement-breakpoint
+ALTER TABLE `accounts` ADD `proxy_bypass` text;
+--> statement-breakpoint
+ALTER TABLE `accounts` ADD `proxy_checked_at` integer;
+--> statement-breakpoint
+ALTER TABLE `accounts` ADD `proxy_egress_ip` text;
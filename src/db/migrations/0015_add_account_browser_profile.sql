@@ -0,0 +1 @@
+ALTER TABLE `accounts` ADD `browser_profile_json` text;
@@ -0,0 +1,10 @@
+CREATE TABLE `account_action_counts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`account_id` integer NOT NULL,
+	`action` text NOT NULL,
+	`bucket_start` integer NOT NULL,
+	`count` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `account_action_counts_account_action_bucket_idx` ON `account_action_counts` (`account_id`,`action`,`bucket_start`);
@@ -0,0 +1,18 @@
+ALTER TABLE `accounts` ADD `quarantined_until` integer;
+--> statement-breakpoint
+CREATE TABLE `account_quarantines` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`account_id` integer NOT NULL,
+	`run_account_id` integer,
+	`reason` text NOT NULL,
+	`url` text,
+	`level` integer NOT NULL,
+	`started_at` integer NOT NULL,
+	`release_at` integer NOT NULL,
+	`released_at` integer,
+	`release_kind` text,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`run_account_id`) REFERENCES `scrape_run_accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `account_quarantines_account_started_idx` ON `account_quarantines` (`account_id`,started_at DESC);
@@ -0,0 +1,15 @@
+CREATE TABLE `run_account_artifacts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`run_account_id` integer NOT NULL,
+	`kind` text NOT NULL,
+	`local_path` text NOT NULL,
+	`content_type` text NOT NULL,
+	`byte_size` integer NOT NULL,
+	`page_url` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`run_account_id`) REFERENCES `scrape_run_accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `run_account_artifacts_run_account_idx` ON `run_account_artifacts` (`run_account_id`);
+--> statement-breakpoint
+CREATE INDEX `run_account_artifacts_created_idx` ON `run_account_artifacts` (`created_at`);
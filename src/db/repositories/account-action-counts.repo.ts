@@ -0,0 +1,55 @@
+import { and, eq, gte, lt, sql } from "drizzle-orm";
+import { accountActionCounts } from "../schema";
+import { getDb } from "../client";
+import { emptyPacingUsage, PACING_WINDOW_SECONDS, type PacedAction, type PacingUsage } from "../../domain/pacing";
+
+const BUCKET_SECONDS = 60;
+
+function bucketOf(at: number): number {
+  return at - (at % BUCKET_SECONDS);
+}
+
+export class AccountActionCountsRepository {
+  private db = getDb();
+
+  async increment(accountId: number, action: PacedAction, at: number): Promise<void> {
+    const bucketStart = bucketOf(at);
+    await this.db
+      .insert(accountActionCounts)
+      .values({ accountId, action, bucketStart, count: 1 })
+      .onConflictDoUpdate({
+        target: [accountActionCounts.accountId, accountActionCounts.action, accountActionCounts.bucketStart],
+        set: { count: sql`${accountActionCounts.count} + 1` },
+      });
+  }
+
+  /** Actions in the rolling hour and day ending at `now`. */
+  async getUsage(accountId: number, now: number): Promise<PacingUsage> {
+    // Buckets are counted whole, so each window can reach up to a minute further back than its length.
+    const hourStart = bucketOf(now - PACING_WINDOW_SECONDS.hourly);
+    const dayStart = bucketOf(now - PACING_WINDOW_SECONDS.daily);
+    const rows = await this.db
+      .select({
+        action: accountActionCounts.action,
+        daily: sql<number>`coalesce(sum(${accountActionCounts.count}), 0)`,
+        hourly: sql<number>`coalesce(sum(case when ${accountActionCounts.bucketStart} >= ${hourStart} then ${accountActionCounts.count} else 0 end), 0)`,
+      })
+      .from(accountActionCounts)
+      .where(and(eq(accountActionCounts.accountId, accountId), gte(accountActionCounts.bucketStart, dayStart)))
+      .groupBy(accountActionCounts.action);
+
+    const usage = emptyPacingUsage();
+    for (const row of rows) {
+      usage[row.action] = { hourly: Number(row.hourly), daily: Number(row.daily) };
+    }
+    return usage;
+  }
+
+  async pruneBefore(accountId: number, before: number): Promise<void> {
+    await this.db
+      .delete(accountActionCounts)
+      .where(and(eq(accountActionCounts.accountId, accountId), lt(accountActionCounts.bucketStart, before)));
+  }
+}
+
+export const accountActionCountsRepo = new AccountActionCountsRepository();
@@ -0,0 +1,44 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import type { AccountQuarantine, NewAccountQuarantine } from "../schema";
+import { accountQuarantines } from "../schema";
+import { getDb } from "../client";
+
+export class AccountQuarantinesRepository {
+  private db = getDb();
+
+  async create(data: NewAccountQuarantine): Promise<AccountQuarantine> {
+    const [result] = await this.db.insert(accountQuarantines).values(data).returning();
+    if (!result) {
+      throw new Error("Failed to create account quarantine");
+    }
+    return result;
+  }
+
+  async findLatest(accountId: number): Promise<AccountQuarantine | null> {
+    const [result] = await this.db
+      .select()
+      .from(accountQuarantines)
+      .where(eq(accountQuarantines.accountId, accountId))
+      .orderBy(desc(accountQuarantines.startedAt), desc(accountQuarantines.id))
+      .limit(1);
+    return result ?? null;
+  }
+
+  async listByAccount(accountId: number, limit = 50): Promise<AccountQuarantine[]> {
+    return this.db
+      .select()
+      .from(accountQuarantines)
+      .where(eq(accountQuarantines.accountId, accountId))
+      .orderBy(desc(accountQuarantines.startedAt), desc(accountQuarantines.id))
+      .limit(limit);
+  }
+
+  async releaseOpen(accountId: number, releaseKind: "auto" | "manual", releasedAt: number): Promise<void> {
+    await this.db
+      .update(accountQuarantines)
+      .set({ releasedAt, releaseKind })
+      .where(and(eq(accountQuarantines.accountId, accountId), isNull(accountQuarantines.releasedAt)));
+  }
+}
+
+export const accountQuarantinesRepo = new AccountQuarantinesRepository();
@@ -0,0 +1,126 @@
+import { eq, and, desc, inArray, isNull, like, lt, or, sql } from "drizzle-orm";
+import type { Author } from "../schema";
+import { authors, posts } from "../schema";
+import { getDb } from "../client";
+import type { CollectedAuthorProfile } from "../../domain/models";
+
+export type AuthorWithPostCount = Author & { postCount: number };
+
+export class AuthorsRepository {
+  private db = getDb();
+
+  /** Creates the author on first sight; later sightings refresh the display name and last-seen time. */
+  async recordSeen(platform: string, handle: string, displayName: string, seenAt: number): Promise<Author> {
+    const [result] = await this.db
+      .insert(authors)
+      .values({ platform, handle, displayName: displayName || handle, firstSeenAt: seenAt, lastSeenAt: seenAt })
+      .onConflictDoUpdate({
+        target: [authors.platform, authors.handle],
+        set: {
+          displayName: sql`CASE WHEN excluded.last_seen_at >= ${authors.lastSeenAt} AND excluded.display_name <> excluded.handle THEN excluded.display_name ELSE ${authors.displayName} END`,
+          firstSeenAt: sql`min(${authors.firstSeenAt}, excluded.first_seen_at)`,
+          lastSeenAt: sql`max(${authors.lastSeenAt}, excluded.last_seen_at)`,
+        },
+      })
+      .returning();
+    return result!;
+  }
+
+  async findById(id: number): Promise<Author | null> {
+    const [result] = await this.db.select().from(authors).where(eq(authors.id, id)).limit(1);
+    return result ?? null;
+  }
+
+  async findByHandle(platform: string, handle: string): Promise<Author | null> {
+    const [result] = await this.db
+      .select()
+      .from(authors)
+      .where(and(eq(authors.platform, platform), eq(authors.handle, handle)))
+      .limit(1);
+    return result ?? null;
+  }
+
+  async findByHandles(platform: string, handles: string[]): Promise<Map<string, Author>> {
+    if (handles.length === 0) return new Map();
+    const rows = await this.db
+      .select()
+      .from(authors)
+      .where(and(eq(authors.platform, platform), inArray(authors.handle, [...new Set(handles)])));
+    return new Map(rows.map((row) => [row.handle, row]));
+  }
+
+  async listPaginated(options: {
+    limit?: number;
+    offset?: number;
+    platform?: string;
+    search?: string;
+    sort?: "recent" | "followers";
+  }): Promise<{ authors: AuthorWithPostCount[]; total: number }> {
+    const { limit = 50, offset = 0, platform, search, sort = "recent" } = options;
+
+    const conditions = [];
+    if (platform) conditions.push(eq(authors.platform, platform));
+    if (search) {
+      const pattern = `%${search}%`;
+      conditions.push(or(like(authors.handle, pattern), like(authors.displayName, pattern)));
+    }
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const rows = await this.db
+      .select({
+        author: authors,
+        postCount: sql<number>`(SELECT count(*) FROM ${posts} WHERE ${posts.platform} = ${authors.platform} AND ${posts.authorHandle} = ${authors.handle})`,
+      })
+      .from(authors)
+      .where(whereClause)
+      .orderBy(
+        ...(sort === "followers"
+          ? [sql`${authors.followerCount} IS NULL`, desc(authors.followerCount), desc(authors.lastSeenAt)]
+          : [desc(authors.lastSeenAt)])
+      )
+      .limit(limit)
+      .offset(offset);
+
+    const countResult = await this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(authors)
+      .where(whereClause);
+
+    return {
+      authors: rows.map((row) => ({ ...row.author, postCount: row.postCount })),
+      total: countResult[0]?.count ?? 0,
+    };
+  }
+
+  /** Authors among the given handles whose profile was never scraped or was scraped before staleBefore. */
+  async listProfilesToRefresh(platform: string, handles: string[], staleBefore: number): Promise<Author[]> {
+    if (handles.length === 0) return [];
+    return this.db
+      .select()
+      .from(authors)
+      .where(
+        and(
+          eq(authors.platform, platform),
+          inArray(authors.handle, [...new Set(handles)]),
+          or(isNull(authors.profileScrapedAt), lt(authors.profileScrapedAt, staleBefore))
+        )
+      );
+  }
+
+  async updateProfile(id: number, profile: CollectedAuthorProfile, scrapedAt: number): Promise<Author | null> {
+    const [result] = await this.db
+      .update(authors)
+      .set({
+        ...(profile.displayName ? { displayName: profile.displayName } : {}),
+        bio: profile.bio,
+        followerCount: profile.followerCount,
+        isVerified: profile.isVerified === null ? null : profile.isVerified ? 1 : 0,
+        profileScrapedAt: scrapedAt,
+      })
+      .where(eq(authors.id, id))
+      .returning();
+    return result ?? null;
+  }
+}
+
+export const authorsRepo = new AuthorsRepository();
@@ -1,4 +1,4 @@
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, desc, inArray, sql } from "drizzle-orm";
 import type { Comment, NewComment } from "../schema";
 import { comments } from "../schema";
 import { getDb } from "../client";
@@ -45,11 +45,35 @@ export class CommentsRepository {
       .orderBy(desc(comments.publishedAt));
   }
 
+  /** Parent link and depth for a new comment; replies whose parent was never stored become direct replies. */
+  async resolveThreading(
+    platform: string,
+    parentPlatformCommentId: string | null | undefined
+  ): Promise<{ parentCommentId: number | null; depth: number }> {
+    const parent = parentPlatformCommentId ? await this.findByPlatformCommentId(platform, parentPlatformCommentId) : null;
+    return parent ? { parentCommentId: parent.id, depth: parent.depth + 1 } : { parentCommentId: null, depth: 0 };
+  }
+
+  async findByParentPostIds(parentPostIds: number[]): Promise<Comment[]> {
+    if (parentPostIds.length === 0) return [];
+    return this.db.select().from(comments).where(inArray(comments.parentPostId, parentPostIds));
+  }
+
+  async countByAuthor(platform: string, authorHandle: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(comments)
+      .where(and(eq(comments.platform, platform), eq(comments.authorHandle, authorHandle)));
+    return result?.count ?? 0;
+  }
+
   async updateLastSeen(data: NewComment): Promise<Comment | null> {
     const [result] = await this.db
       .update(comments)
       .set({
         lastSeenAt: Math.floor(Date.now() / 1000),
+        // Earlier scrapes may not have known the reply's parent (e.g. DOM-only extraction).
+        ...(data.parentCommentId ? { parentCommentId: data.parentCommentId, depth: data.depth ?? 0 } : {}),
       })
       .where(eq(comments.contentHash, data.contentHash))
       .returning();
@@ -1,6 +1,6 @@
 import { eq, and, desc } from "drizzle-orm";
 import type { DraftFeedbackSignal, NewDraftFeedbackSignal, LlmDraft, NewLlmDraft } from "../schema";
-import { draftFeedbackSignals, llmDrafts } from "../schema";
+import { draftFeedbackSignals, llmDrafts, posts } from "../schema";
 import { getDb } from "../client";
 import { logger } from "../../core/logger";
 
@@ -53,6 +53,18 @@ export class DraftFeedbackRepository {
       .limit(limit);
   }
 
+  /** Replies we approved on an author's posts, newest first. */
+  async listApprovedDraftsForAuthor(platform: string, authorHandle: string, limit: number = 50): Promise<LlmDraft[]> {
+    const rows = await this.db
+      .select({ draft: llmDrafts })
+      .from(llmDrafts)
+      .innerJoin(posts, eq(llmDrafts.postId, posts.id))
+      .where(and(eq(llmDrafts.status, "approved"), eq(posts.platform, platform), eq(posts.authorHandle, authorHandle)))
+      .orderBy(desc(llmDrafts.selectedAt))
+      .limit(limit);
+    return rows.map((row) => row.draft);
+  }
+
   async createDraft(data: NewLlmDraft): Promise<LlmDraft> {
     const result = await this.db.insert(llmDrafts).values(data).returning();
     if (!result || result.length === 0 || !result[0]) {
@@ -0,0 +1,96 @@
+import { and, desc, eq, gte, sql, type SQL } from "drizzle-orm";
+import type { LlmCall, NewLlmCall } from "../schema";
+import { llmCalls, scrapeRunAccounts } from "../schema";
+import { getDb } from "../client";
+
+export type LlmUsageGroupBy = "day" | "account" | "stage";
+
+export interface LlmUsageFilters {
+  since?: number;
+  accountId?: number;
+  stage?: string;
+}
+
+export interface LlmUsageRow {
+  key: string;
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+  retries: number;
+}
+
+export class LlmCallsRepository {
+  private db = getDb();
+
+  async create(data: NewLlmCall): Promise<LlmCall> {
+    const result = await this.db.insert(llmCalls).values(data).returning();
+    if (!result || result.length === 0 || !result[0]) {
+      throw new Error("Failed to create LLM call record");
+    }
+    return result[0];
+  }
+
+  async listByRunAccount(runAccountId: number, limit: number = 200): Promise<LlmCall[]> {
+    return this.db
+      .select()
+      .from(llmCalls)
+      .where(eq(llmCalls.runAccountId, runAccountId))
+      .orderBy(desc(llmCalls.createdAt))
+      .limit(limit);
+  }
+
+  async listRecent(limit: number = 50): Promise<LlmCall[]> {
+    return this.db.select().from(llmCalls).orderBy(desc(llmCalls.createdAt)).limit(limit);
+  }
+
+  async summarizeUsage(groupBy: LlmUsageGroupBy, filters: LlmUsageFilters = {}): Promise<LlmUsageRow[]> {
+    // Calls made outside a run (no run account) are reported under account "unattributed".
+    const keyExpr: SQL<string> =
+      groupBy === "day"
+        ? sql<string>`date(${llmCalls.createdAt}, 'unixepoch')`
+        : groupBy === "account"
+          ? sql<string>`coalesce(cast(${scrapeRunAccounts.accountId} as text), 'unattributed')`
+          : sql<string>`${llmCalls.stage}`;
+
+    const conditions: SQL[] = [];
+    if (filters.since !== undefined) conditions.push(gte(llmCalls.createdAt, filters.since));
+    if (filters.accountId !== undefined) conditions.push(eq(scrapeRunAccounts.accountId, filters.accountId));
+    if (filters.stage) conditions.push(eq(llmCalls.stage, filters.stage));
+
+    const rows = await this.db
+      .select({
+        key: keyExpr,
+        calls: sql<number>`count(*)`,
+        failedCalls: sql<number>`sum(case when ${llmCalls.status} = 'failed' then 1 else 0 end)`,
+        promptTokens: sql<number>`coalesce(sum(${llmCalls.promptTokens}), 0)`,
+        completionTokens: sql<number>`coalesce(sum(${llmCalls.completionTokens}), 0)`,
+        totalTokens: sql<number>`coalesce(sum(${llmCalls.totalTokens}), 0)`,
+        costUsd: sql<number>`coalesce(sum(${llmCalls.costUsd}), 0)`,
+        avgLatencyMs: sql<number>`coalesce(avg(${llmCalls.latencyMs}), 0)`,
+        retries: sql<number>`coalesce(sum(${llmCalls.retryCount}), 0)`,
+      })
+      .from(llmCalls)
+      .leftJoin(scrapeRunAccounts, eq(llmCalls.runAccountId, scrapeRunAccounts.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(keyExpr)
+      .orderBy(groupBy === "day" ? desc(keyExpr) : desc(sql`count(*)`));
+
+    return rows.map((row) => ({
+      key: String(row.key),
+      calls: Number(row.calls),
+      failedCalls: Number(row.failedCalls),
+      promptTokens: Number(row.promptTokens),
+      completionTokens: Number(row.completionTokens),
+      totalTokens: Number(row.totalTokens),
+      costUsd: Number(row.costUsd),
+      avgLatencyMs: Math.round(Number(row.avgLatencyMs)),
+      retries: Number(row.retries),
+    }));
+  }
+}
+
+export const llmCallsRepo = new LlmCallsRepository();
@@ -1,4 +1,4 @@
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, asc, desc, gte, inArray } from "drizzle-orm";
 import type { MetricSnapshot, NewMetricSnapshot } from "../schema";
 import { metricSnapshots } from "../schema";
 import { getDb } from "../client";
@@ -35,6 +35,29 @@ export class MetricsRepository {
       .limit(limit);
   }
 
+  async findByEntities(entityType: "post" | "comment", entityIds: number[]): Promise<MetricSnapshot[]> {
+    if (entityIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(metricSnapshots)
+      .where(and(eq(metricSnapshots.entityType, entityType), inArray(metricSnapshots.entityId, entityIds)))
+      .orderBy(desc(metricSnapshots.capturedAt));
+  }
+
+  async findHistory(
+    entityType: "post" | "comment",
+    entityId: number,
+    since?: number
+  ): Promise<MetricSnapshot[]> {
+    const conditions = [eq(metricSnapshots.entityType, entityType), eq(metricSnapshots.entityId, entityId)];
+    if (since !== undefined) conditions.push(gte(metricSnapshots.capturedAt, since));
+    return this.db
+      .select()
+      .from(metricSnapshots)
+      .where(and(...conditions))
+      .orderBy(asc(metricSnapshots.capturedAt));
+  }
+
   async findLatestByEntity(
     entityType: "post" | "comment",
     entityId: number
@@ -0,0 +1,76 @@
+import { eq, and, desc } from "drizzle-orm";
+import type { Notification, NewNotification, Post } from "../schema";
+import { notifications, posts } from "../schema";
+import { getDb } from "../client";
+import { logger } from "../../core/logger";
+
+export type NotificationWithPost = Notification & { post: Post };
+
+export class NotificationsRepository {
+  private db = getDb();
+
+  async create(data: NewNotification): Promise<Notification> {
+    const result = await this.db.insert(notifications).values(data).returning();
+    if (!result || result.length === 0 || !result[0]) {
+      throw new Error("Failed to create notification");
+    }
+    logger.debug({ notificationId: result[0].id, kind: data.kind, postId: data.postId }, "Notification created");
+    return result[0];
+  }
+
+  async findByAccountKindAndPost(
+    accountId: number,
+    kind: Notification["kind"],
+    postId: number
+  ): Promise<Notification | null> {
+    const [result] = await this.db
+      .select()
+      .from(notifications)
+      .where(
+        and(eq(notifications.accountId, accountId), eq(notifications.kind, kind), eq(notifications.postId, postId))
+      )
+      .limit(1);
+    return result ?? null;
+  }
+
+  /** Returns the stored row and whether it was inserted by this call. */
+  async createOrSkip(data: NewNotification): Promise<{ notification: Notification; created: boolean }> {
+    const existing = await this.findByAccountKindAndPost(data.accountId, data.kind, data.postId);
+    if (existing) {
+      return { notification: existing, created: false };
+    }
+    return { notification: await this.create(data), created: true };
+  }
+
+  async listByAccount(
+    accountId: number,
+    options: { kind?: Notification["kind"]; limit?: number } = {}
+  ): Promise<NotificationWithPost[]> {
+    const conditions = [eq(notifications.accountId, accountId)];
+    if (options.kind) conditions.push(eq(notifications.kind, options.kind));
+
+    const rows = await this.db
+      .select({ notification: notifications, post: posts })
+      .from(notifications)
+      .innerJoin(posts, eq(notifications.postId, posts.id))
+      .where(and(...conditions))
+      .orderBy(desc(notifications.firstSeenAt), desc(notifications.id))
+      .limit(options.limit ?? 50);
+
+    return rows.map((row) => ({ ...row.notification, post: row.post }));
+  }
+
+  async listByActor(platform: string, actorHandle: string, limit: number = 50): Promise<NotificationWithPost[]> {
+    const rows = await this.db
+      .select({ notification: notifications, post: posts })
+      .from(notifications)
+      .innerJoin(posts, eq(notifications.postId, posts.id))
+      .where(and(eq(notifications.platform, platform), eq(notifications.actorHandle, actorHandle)))
+      .orderBy(desc(notifications.firstSeenAt), desc(notifications.id))
+      .limit(limit);
+
+    return rows.map((row) => ({ ...row.notification, post: row.post }));
+  }
+}
+
+export const notificationsRepo = new NotificationsRepository();
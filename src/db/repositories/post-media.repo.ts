@@ -0,0 +1,110 @@
+import { eq, and, asc, inArray, isNull } from "drizzle-orm";
+import type { PostMedia, NewPostMedia } from "../schema";
+import { postMedia } from "../schema";
+import { getDb } from "../client";
+import { inferMediaType, mediaAssetKey } from "../../core/normalize";
+import { logger } from "../../core/logger";
+
+export class PostMediaRepository {
+  private db = getDb();
+
+  async findById(id: number): Promise<PostMedia | null> {
+    const [result] = await this.db.select().from(postMedia).where(eq(postMedia.id, id)).limit(1);
+    return result ?? null;
+  }
+
+  async findByPostId(postId: number): Promise<PostMedia[]> {
+    return this.db.select().from(postMedia).where(eq(postMedia.postId, postId)).orderBy(asc(postMedia.position));
+  }
+
+  async findByPostIds(postIds: number[]): Promise<Map<number, PostMedia[]>> {
+    const byPost = new Map<number, PostMedia[]>();
+    if (postIds.length === 0) return byPost;
+
+    const rows = await this.db
+      .select()
+      .from(postMedia)
+      .where(inArray(postMedia.postId, postIds))
+      .orderBy(asc(postMedia.postId), asc(postMedia.position));
+
+    for (const row of rows) {
+      const list = byPost.get(row.postId) ?? [];
+      list.push(row);
+      byPost.set(row.postId, list);
+    }
+    return byPost;
+  }
+
+  /** The subset of `localPaths` that some post_media row still points at. */
+  async findReferencedLocalPaths(localPaths: string[]): Promise<Set<string>> {
+    if (localPaths.length === 0) return new Set();
+
+    const rows = await this.db
+      .selectDistinct({ localPath: postMedia.localPath })
+      .from(postMedia)
+      .where(inArray(postMedia.localPath, localPaths));
+    return new Set(rows.map((row) => row.localPath!));
+  }
+
+  async findNotDownloaded(postId: number): Promise<PostMedia[]> {
+    return this.db
+      .select()
+      .from(postMedia)
+      .where(and(eq(postMedia.postId, postId), isNull(postMedia.localPath)))
+      .orderBy(asc(postMedia.position));
+  }
+
+  /**
+   * Upserts one row per position. A refreshed URL for the same asset keeps the stored file; a different
+   * asset at that position clears the download so it is fetched again.
+   */
+  async syncForPost(postId: number, mediaUrls: string[], seenAt: number): Promise<PostMedia[]> {
+    if (mediaUrls.length === 0) return [];
+
+    const existing = new Map((await this.findByPostId(postId)).map((media) => [media.position, media]));
+    const rows: NewPostMedia[] = mediaUrls.map((sourceUrl, position) => ({
+      postId,
+      position,
+      mediaType: inferMediaType(sourceUrl),
+      sourceUrl,
+      firstSeenAt: seenAt,
+      lastSeenAt: seenAt,
+    }));
+
+    for (const row of rows) {
+      const previous = existing.get(row.position);
+      const replaced = previous !== undefined && mediaAssetKey(previous.sourceUrl) !== mediaAssetKey(row.sourceUrl);
+      await this.db
+        .insert(postMedia)
+        .values(row)
+        .onConflictDoUpdate({
+          target: [postMedia.postId, postMedia.position],
+          set: {
+            sourceUrl: row.sourceUrl,
+            mediaType: row.mediaType,
+            lastSeenAt: seenAt,
+            ...(replaced
+              ? { sha256: null, localPath: null, contentType: null, byteSize: null, downloadedAt: null }
+              : {}),
+          },
+        });
+    }
+
+    logger.debug({ postId, mediaCount: rows.length }, "Post media synced");
+    return this.findByPostId(postId);
+  }
+
+  async markDownloaded(
+    id: number,
+    data: { sha256: string; localPath: string; contentType: string | null; byteSize: number }
+  ): Promise<PostMedia | null> {
+    const [result] = await this.db
+      .update(postMedia)
+      .set({ ...data, downloadedAt: Math.floor(Date.now() / 1000) })
+      .where(eq(postMedia.id, id))
+      .returning();
+    return result ?? null;
+  }
+}
+
+export const postMediaRepo = new PostMediaRepository();
@@ -1,6 +1,6 @@
-import { eq, and, desc, inArray } from "drizzle-orm";
+import { eq, and, asc, desc, inArray } from "drizzle-orm";
 import type { PostTriage, NewPostTriage } from "../schema";
-import { postTriage } from "../schema";
+import { postTriage, posts } from "../schema";
 import { getDb } from "../client";
 import { logger } from "../../core/logger";
 
@@ -53,6 +53,37 @@ export class PostTriageRepository {
     return result ?? null;
   }
 
+  // Newest verdict per cache key; used to skip the LLM for posts already triaged under the same policy.
+  async findLatestByCacheKeys(cacheKeys: string[]): Promise<Map<string, PostTriage>> {
+    const latest = new Map<string, PostTriage>();
+    if (cacheKeys.length === 0) return latest;
+
+    const rows = await this.db
+      .select()
+      .from(postTriage)
+      .where(inArray(postTriage.cacheKey, cacheKeys))
+      .orderBy(desc(postTriage.createdAt), desc(postTriage.id));
+
+    for (const row of rows) {
+      if (row.cacheKey && !latest.has(row.cacheKey)) {
+        latest.set(row.cacheKey, row);
+      }
+    }
+    return latest;
+  }
+
+  /** Triage verdicts on an author's posts across all runs, newest first. */
+  async listByAuthor(platform: string, authorHandle: string, limit: number = 100): Promise<PostTriage[]> {
+    const rows = await this.db
+      .select({ triage: postTriage })
+      .from(postTriage)
+      .innerJoin(posts, eq(postTriage.postId, posts.id))
+      .where(and(eq(posts.platform, platform), eq(posts.authorHandle, authorHandle)))
+      .orderBy(desc(postTriage.createdAt), desc(postTriage.id))
+      .limit(limit);
+    return rows.map((row) => row.triage);
+  }
+
   async listSelectedForDeepScrape(runAccountId: number): Promise<PostTriage[]> {
     return this.db
       .select()
@@ -61,31 +92,40 @@ export class PostTriageRepository {
       .orderBy(desc(postTriage.relevanceScore));
   }
 
-  async listTop20(runAccountId: number): Promise<PostTriage[]> {
+  // Posts picked by the selection strategy, in the order it ranked them.
+  async listSelected(runAccountId: number): Promise<PostTriage[]> {
     return this.db
       .select()
       .from(postTriage)
-      .where(and(eq(postTriage.runAccountId, runAccountId), eq(postTriage.isTop20, 1)))
-      .orderBy(desc(postTriage.relevanceScore));
+      .where(and(eq(postTriage.runAccountId, runAccountId), eq(postTriage.isSelected, 1)))
+      .orderBy(asc(postTriage.rank), desc(postTriage.relevanceScore));
   }
 
   async updateSelectionFlags(
     runAccountId: number,
     postId: number,
-    flags: { isTop20?: boolean; selectedForDeepScrape?: boolean; rank?: number }
+    flags: { isSelected?: boolean; selectedForDeepScrape?: boolean; rank?: number; selectionStrategy?: string | null }
   ): Promise<PostTriage | null> {
     const [result] = await this.db
       .update(postTriage)
       .set({
-        isTop20: flags.isTop20 !== undefined ? (flags.isTop20 ? 1 : 0) : undefined,
+        isSelected: flags.isSelected !== undefined ? (flags.isSelected ? 1 : 0) : undefined,
         selectedForDeepScrape: flags.selectedForDeepScrape !== undefined ? (flags.selectedForDeepScrape ? 1 : 0) : undefined,
         rank: flags.rank,
+        selectionStrategy: flags.selectionStrategy,
       })
       .where(and(eq(postTriage.runAccountId, runAccountId), eq(postTriage.postId, postId)))
       .returning();
     return result ?? null;
   }
 
+  async clearSelection(runAccountId: number): Promise<void> {
+    await this.db
+      .update(postTriage)
+      .set({ isSelected: 0, selectedForDeepScrape: 0, rank: null, selectionStrategy: null })
+      .where(eq(postTriage.runAccountId, runAccountId));
+  }
+
   async bulkCreateOrSkip(dataArray: NewPostTriage[]): Promise<PostTriage[]> {
     const results: PostTriage[] = [];
     for (const data of dataArray) {
@@ -1,4 +1,4 @@
-import { eq, and, desc, inArray, sql } from "drizzle-orm";
+import { eq, and, asc, desc, inArray, sql } from "drizzle-orm";
 import type { Post, NewPost } from "../schema";
 import { posts } from "../schema";
 import { getDb } from "../client";
@@ -37,6 +37,51 @@ export class PostsRepository {
     return result ?? null;
   }
 
+  async listRecentPlatformPostIds(platform: string, limit: number): Promise<string[]> {
+    const rows = await this.db
+      .select({ platformPostId: posts.platformPostId })
+      .from(posts)
+      .where(and(eq(posts.platform, platform), sql`${posts.platformPostId} IS NOT NULL`))
+      .orderBy(desc(posts.lastSeenAt))
+      .limit(limit);
+    return rows.map((row) => row.platformPostId!);
+  }
+
+  /** Later posts of an author's self-thread, stored with `threadRootPlatformPostId` pointing at its first post. */
+  async findSelfThreadPosts(platform: string, rootPlatformPostId: string, authorHandle: string): Promise<Post[]> {
+    return this.db
+      .select()
+      .from(posts)
+      .where(
+        and(
+          eq(posts.platform, platform),
+          eq(posts.threadRootPlatformPostId, rootPlatformPostId),
+          eq(posts.authorHandle, authorHandle)
+        )
+      )
+      .orderBy(asc(posts.publishedAt), asc(posts.id));
+  }
+
+  async listByAuthor(
+    platform: string,
+    authorHandle: string,
+    options: { limit?: number; engaged?: boolean } = {}
+  ): Promise<{ posts: Post[]; total: number }> {
+    const conditions = [eq(posts.platform, platform), eq(posts.authorHandle, authorHandle)];
+    if (options.engaged !== undefined) conditions.push(eq(posts.engaged, options.engaged ? 1 : 0));
+    const whereClause = and(...conditions);
+
+    const postsResult = await this.db
+      .select()
+      .from(posts)
+      .where(whereClause)
+      .orderBy(desc(posts.lastSeenAt))
+      .limit(options.limit ?? 50);
+
+    const [countResult] = await this.db.select({ count: sql<number>`count(*)` }).from(posts).where(whereClause);
+    return { posts: postsResult, total: countResult?.count ?? 0 };
+  }
+
   async findByContentHash(contentHash: string): Promise<Post[]> {
     return this.db.select().from(posts).where(eq(posts.contentHash, contentHash));
   }
@@ -50,6 +95,7 @@ export class PostsRepository {
         lastSeenAt: Math.floor(Date.now() / 1000),
         // Update bodyText if it was previously null/empty but we now have it
         ...(data.bodyText ? { bodyText: data.bodyText } : {}),
+        ...(data.threadRootPlatformPostId ? { threadRootPlatformPostId: data.threadRootPlatformPostId } : {}),
       })
       .where(
         and(
@@ -0,0 +1,50 @@
+import { asc, eq, inArray, lt } from "drizzle-orm";
+import type { RunAccountArtifact, NewRunAccountArtifact } from "../schema";
+import { runAccountArtifacts } from "../schema";
+import { getDb } from "../client";
+
+export class RunAccountArtifactsRepository {
+  private db = getDb();
+
+  async create(data: NewRunAccountArtifact): Promise<RunAccountArtifact> {
+    const [result] = await this.db.insert(runAccountArtifacts).values(data).returning();
+    if (!result) {
+      throw new Error("Failed to create run account artifact");
+    }
+    return result;
+  }
+
+  async findById(id: number): Promise<RunAccountArtifact | null> {
+    const [result] = await this.db.select().from(runAccountArtifacts).where(eq(runAccountArtifacts.id, id)).limit(1);
+    return result ?? null;
+  }
+
+  async findByRunAccountIds(runAccountIds: number[]): Promise<Map<number, RunAccountArtifact[]>> {
+    const byRunAccount = new Map<number, RunAccountArtifact[]>();
+    if (runAccountIds.length === 0) return byRunAccount;
+
+    const rows = await this.db
+      .select()
+      .from(runAccountArtifacts)
+      .where(inArray(runAccountArtifacts.runAccountId, runAccountIds))
+      .orderBy(asc(runAccountArtifacts.runAccountId), asc(runAccountArtifacts.id));
+
+    for (const row of rows) {
+      const list = byRunAccount.get(row.runAccountId) ?? [];
+      list.push(row);
+      byRunAccount.set(row.runAccountId, list);
+    }
+    return byRunAccount;
+  }
+
+  async findCreatedBefore(before: number): Promise<RunAccountArtifact[]> {
+    return this.db.select().from(runAccountArtifacts).where(lt(runAccountArtifacts.createdAt, before));
+  }
+
+  async deleteByIds(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.delete(runAccountArtifacts).where(inArray(runAccountArtifacts.id, ids));
+  }
+}
+
+export const runAccountArtifactsRepo = new RunAccountArtifactsRepository();
@@ -1,6 +1,7 @@
-import { eq, and, desc, lt } from "drizzle-orm";
+import { eq, and, desc, lt, sql } from "drizzle-orm";
 import type { ScrapeRun, NewScrapeRun, ScrapeRunAccount, NewScrapeRunAccount } from "../schema";
-import { scrapeRuns, scrapeRunAccounts } from "../schema";
+import { scrapeRuns, scrapeRunAccounts, metricSnapshots, posts } from "../schema";
+import type { RunAccountHealthSample } from "../../domain/scrape-health";
 import { getDb } from "../client";
 import { logger } from "../../core/logger";
 
@@ -64,7 +65,10 @@ export class RunsRepository {
     return result ?? null;
   }
 
-  async markRunAccountSuccess(id: number, counters: { postsFound: number; commentsFound: number; snapshotsWritten: number }): Promise<void> {
+  async markRunAccountSuccess(
+    id: number,
+    counters: { postsFound: number; postsNew?: number; postsReseen?: number; commentsFound: number; snapshotsWritten: number }
+  ): Promise<void> {
     await this.updateRunAccount(id, {
       status: "success",
       ...counters,
@@ -79,6 +83,20 @@ export class RunsRepository {
     });
   }
 
+  async markRunAccountQuotaExhausted(
+    id: number,
+    counters: { postsFound: number; postsNew?: number; postsReseen?: number; commentsFound: number; snapshotsWritten: number },
+    errorDetail: string
+  ): Promise<void> {
+    await this.updateRunAccount(id, {
+      status: "quota_exhausted",
+      ...counters,
+      errorCode: "QUOTA_EXHAUSTED",
+      errorDetail,
+      endedAt: Math.floor(Date.now() / 1000),
+    });
+  }
+
   async markRunAccountFailed(id: number, errorCode: string, errorDetail: string): Promise<void> {
     await this.updateRunAccount(id, {
       status: "failed",
@@ -118,6 +136,38 @@ export class RunsRepository {
       runsRecovered: staleRuns.length,
     };
   }
+
+  /** Successful run accounts, newest first, with how many of their posts came back without body text. */
+  async listHealthSamples(options: { accountId?: number; limit?: number } = {}): Promise<RunAccountHealthSample[]> {
+    const conditions = [eq(scrapeRunAccounts.status, "success")];
+    if (options.accountId !== undefined) conditions.push(eq(scrapeRunAccounts.accountId, options.accountId));
+
+    const rows = await this.db
+      .select({
+        runAccountId: scrapeRunAccounts.id,
+        accountId: scrapeRunAccounts.accountId,
+        startedAt: scrapeRunAccounts.startedAt,
+        postsFound: scrapeRunAccounts.postsFound,
+        postsWithMetrics: sql<number>`count(${posts.id})`,
+        postsWithNullBody: sql<number>`coalesce(sum(case when ${posts.id} is not null and trim(coalesce(${posts.bodyText}, '')) = '' then 1 else 0 end), 0)`,
+      })
+      .from(scrapeRunAccounts)
+      .leftJoin(
+        metricSnapshots,
+        and(eq(metricSnapshots.runAccountId, scrapeRunAccounts.id), eq(metricSnapshots.entityType, "post"))
+      )
+      .leftJoin(posts, eq(posts.id, metricSnapshots.entityId))
+      .where(and(...conditions))
+      .groupBy(scrapeRunAccounts.id)
+      .orderBy(desc(scrapeRunAccounts.startedAt), desc(scrapeRunAccounts.id))
+      .limit(options.limit ?? 200);
+
+    return rows.map((row) => ({
+      ...row,
+      postsWithMetrics: Number(row.postsWithMetrics),
+      postsWithNullBody: Number(row.postsWithNullBody),
+    }));
+  }
 }
 
 export const runsRepo = new RunsRepository();
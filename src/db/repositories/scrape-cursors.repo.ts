@@ -0,0 +1,25 @@
+import { eq } from "drizzle-orm";
+import type { ScrapeSourceCursor } from "../schema";
+import { scrapeSourceCursors } from "../schema";
+import { getDb } from "../client";
+import type { SourceCursor } from "../../domain/incremental-scrape";
+
+export class ScrapeCursorsRepository {
+  private db = getDb();
+
+  async findByAccountId(accountId: number): Promise<ScrapeSourceCursor[]> {
+    return this.db.select().from(scrapeSourceCursors).where(eq(scrapeSourceCursors.accountId, accountId));
+  }
+
+  async upsert(accountId: number, source: string, cursor: SourceCursor, updatedAt: number): Promise<void> {
+    await this.db
+      .insert(scrapeSourceCursors)
+      .values({ accountId, source, ...cursor, updatedAt })
+      .onConflictDoUpdate({
+        target: [scrapeSourceCursors.accountId, scrapeSourceCursors.source],
+        set: { ...cursor, updatedAt },
+      });
+  }
+}
+
+export const scrapeCursorsRepo = new ScrapeCursorsRepository();
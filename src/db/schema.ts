@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, uniqueIndex, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, uniqueIndex, index, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
 
 export const accounts = sqliteTable(
@@ -9,7 +9,7 @@ export const accounts = sqliteTable(
     displayName: text("display_name").notNull(),
     handle: text("handle").notNull(),
     status: text("status", {
-      enum: ["active", "needs_initial_auth", "needs_reauth", "disabled"],
+      enum: ["active", "needs_initial_auth", "needs_reauth", "quarantined", "disabled"],
     }).notNull().default("needs_initial_auth"),
     sessionStatePath: text("session_state_path").notNull(),
     sessionStateJson: text("session_state_json"),
@@ -20,6 +20,17 @@ export const accounts = sqliteTable(
     lastErrorDetail: text("last_error_detail"),
     cooldownSeconds: integer("cooldown_seconds").notNull().default(30),
     searchQueriesJson: text("search_queries_json"),
+    // Browser egress for this account; the password is stored encrypted with ACCOUNT_SECRETS_KEY.
+    proxyServer: text("proxy_server"),
+    proxyUsername: text("proxy_username"),
+    proxyPasswordEncrypted: text("proxy_password_encrypted"),
+    proxyBypass: text("proxy_bypass"),
+    proxyCheckedAt: integer("proxy_checked_at"),
+    proxyEgressIp: text("proxy_egress_ip"),
+    // Fingerprint (user agent, locale, timezone, viewport) generated once and reused for every browser launch.
+    browserProfileJson: text("browser_profile_json"),
+    // Set while status is quarantined; scrapes are skipped until this time passes.
+    quarantinedUntil: integer("quarantined_until"),
     createdAt: integer("created_at").notNull().default(sql`(unixepoch())`),
     updatedAt: integer("updated_at").notNull().default(sql`(unixepoch())`),
   },
@@ -45,9 +56,11 @@ export const scrapeRunAccounts = sqliteTable(
     runId: integer("run_id").notNull().references(() => scrapeRuns.id),
     accountId: integer("account_id").notNull().references(() => accounts.id),
     status: text("status", {
-      enum: ["running", "success", "skipped_needs_reauth", "failed"],
+      enum: ["running", "success", "skipped_needs_reauth", "quota_exhausted", "failed"],
     }).notNull().default("running"),
     postsFound: integer("posts_found").notNull().default(0),
+    postsNew: integer("posts_new").notNull().default(0),
+    postsReseen: integer("posts_reseen").notNull().default(0),
     commentsFound: integer("comments_found").notNull().default(0),
     snapshotsWritten: integer("snapshots_written").notNull().default(0),
     errorCode: text("error_code"),
@@ -91,6 +104,8 @@ export const posts = sqliteTable(
     publishedAtIdx: index("posts_published_at_idx").on(table.platform, sql`published_at DESC`),
     contentHashIdx: index("posts_content_hash_idx").on(table.contentHash),
     sourceIdx: index("posts_source_idx").on(table.sourceAccountId, sql`last_seen_at DESC`),
+    threadRootIdx: index("posts_thread_root_idx").on(table.platform, table.threadRootPlatformPostId),
+    authorIdx: index("posts_author_idx").on(table.platform, table.authorHandle),
   })
 );
 
@@ -101,6 +116,9 @@ export const comments = sqliteTable(
     platform: text("platform").notNull(),
     platformCommentId: text("platform_comment_id"),
     parentPostId: integer("parent_post_id").notNull().references(() => posts.id),
+    // Null for direct replies to the post; depth counts reply levels below the post (0 = direct reply).
+    parentCommentId: integer("parent_comment_id").references((): AnySQLiteColumn => comments.id),
+    depth: integer("depth").notNull().default(0),
     authorHandle: text("author_handle").notNull(),
     authorDisplayName: text("author_display_name").notNull(),
     bodyText: text("body_text"),
@@ -118,8 +136,10 @@ export const comments = sqliteTable(
       table.platformCommentId
     ),
     parentPostIdIdx: index("comments_parent_post_id_idx").on(table.parentPostId),
+    parentCommentIdIdx: index("comments_parent_comment_id_idx").on(table.parentCommentId),
     publishedAtIdx: index("comments_published_at_idx").on(table.platform, sql`published_at DESC`),
     contentHashIdx: index("comments_content_hash_idx").on(table.contentHash),
+    authorIdx: index("comments_author_idx").on(table.platform, table.authorHandle),
   })
 );
 
@@ -231,6 +251,18 @@ export const engagementPolicies = sqliteTable(
     avoidListJson: text("avoid_list_json").notNull(),
     toneIdentity: text("tone_identity").notNull(),
     preferredLanguagesJson: text("preferred_languages_json").notNull(),
+    triageModel: text("triage_model"),
+    triageTemperature: real("triage_temperature"),
+    triageMaxTokens: integer("triage_max_tokens"),
+    draftModel: text("draft_model"),
+    draftTemperature: real("draft_temperature"),
+    draftMaxTokens: integer("draft_max_tokens"),
+    authorAllowListJson: text("author_allow_list_json").notNull().default("[]"),
+    authorDenyListJson: text("author_deny_list_json").notNull().default("[]"),
+    excludePatternsJson: text("exclude_patterns_json").notNull().default("[]"),
+    minBodyLength: integer("min_body_length"),
+    maxPostAgeHours: integer("max_post_age_hours"),
+    selectionConfigJson: text("selection_config_json"),
     isActive: integer("is_active").notNull().default(1),
     createdAt: integer("created_at").notNull().default(sql`(unixepoch())`),
     updatedAt: integer("updated_at").notNull().default(sql`(unixepoch())`),
@@ -268,14 +300,17 @@ export const postTriage = sqliteTable(
     confidence: integer("confidence").notNull(),
     model: text("model"),
     promptVersion: text("prompt_version"),
+    cacheKey: text("cache_key"),
     rank: integer("rank"),
-    isTop20: integer("is_top_20").notNull().default(0),
+    isSelected: integer("is_selected").notNull().default(0),
+    selectionStrategy: text("selection_strategy"),
     selectedForDeepScrape: integer("selected_for_deep_scrape").notNull().default(0),
     createdAt: integer("created_at").notNull().default(sql`(unixepoch())`),
   },
   (table) => ({
     runAccountPostIdx: uniqueIndex("post_triage_run_account_post_idx").on(table.runAccountId, table.postId),
     selectionIdx: index("post_triage_selection_idx").on(table.runAccountId, table.selectedForDeepScrape, sql`relevance_score DESC`),
+    cacheKeyIdx: index("post_triage_cache_key_idx").on(table.cacheKey),
   })
 );
 
@@ -356,6 +391,177 @@ export const cronJobRuns = sqliteTable(
   })
 );
 
+export const llmCalls = sqliteTable(
+  "llm_calls",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    stage: text("stage").notNull(),
+    promptVersion: text("prompt_version"),
+    provider: text("provider").notNull(),
+    model: text("model").notNull(),
+    promptTokens: integer("prompt_tokens"),
+    completionTokens: integer("completion_tokens"),
+    totalTokens: integer("total_tokens"),
+    costUsd: real("cost_usd"),
+    latencyMs: integer("latency_ms").notNull(),
+    retryCount: integer("retry_count").notNull().default(0),
+    status: text("status", { enum: ["success", "failed"] }).notNull(),
+    errorCode: text("error_code"),
+    runAccountId: integer("run_account_id").references(() => scrapeRunAccounts.id),
+    postId: integer("post_id").references(() => posts.id),
+    createdAt: integer("created_at").notNull().default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    createdAtIdx: index("llm_calls_created_at_idx").on(table.createdAt),
+    runAccountIdx: index("llm_calls_run_account_idx").on(table.runAccountId),
+    stageIdx: index("llm_calls_stage_idx").on(table.stage, table.createdAt),
+  })
+);
+
+export const notifications = sqliteTable(
+  "notifications",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id").notNull().references(() => accounts.id),
+    platform: text("platform").notNull(),
+    kind: text("kind", { enum: ["mention", "reply", "quote"] }).notNull(),
+    actorHandle: text("actor_handle").notNull(),
+    postId: integer("post_id").notNull().references(() => posts.id),
+    targetPlatformPostId: text("target_platform_post_id"),
+    occurredAt: integer("occurred_at"),
+    firstSeenAt: integer("first_seen_at").notNull(),
+    runAccountId: integer("run_account_id").references(() => scrapeRunAccounts.id),
+  },
+  (table) => ({
+    accountKindPostIdx: uniqueIndex("notifications_account_kind_post_idx").on(
+      table.accountId,
+      table.kind,
+      table.postId
+    ),
+    accountSeenIdx: index("notifications_account_seen_idx").on(table.accountId, sql`first_seen_at DESC`),
+  })
+);
+
+export const postMedia = sqliteTable(
+  "post_media",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    postId: integer("post_id").notNull().references(() => posts.id),
+    position: integer("position").notNull(),
+    mediaType: text("media_type", { enum: ["image", "video"] }).notNull(),
+    // CDN URLs are signed and expire; the latest one seen replaces the stored URL.
+    sourceUrl: text("source_url").notNull(),
+    sha256: text("sha256"),
+    localPath: text("local_path"),
+    contentType: text("content_type"),
+    byteSize: integer("byte_size"),
+    downloadedAt: integer("downloaded_at"),
+    firstSeenAt: integer("first_seen_at").notNull(),
+    lastSeenAt: integer("last_seen_at").notNull(),
+  },
+  (table) => ({
+    postPositionIdx: uniqueIndex("post_media_post_position_idx").on(table.postId, table.position),
+  })
+);
+
+export const scrapeSourceCursors = sqliteTable(
+  "scrape_source_cursors",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id").notNull().references(() => accounts.id),
+    // Same labels as page captures: home, profile:<handle>, search:<query>.
+    source: text("source").notNull(),
+    newestPlatformPostId: text("newest_platform_post_id"),
+    newestPublishedAt: integer("newest_published_at"),
+    updatedAt: integer("updated_at").notNull(),
+  },
+  (table) => ({
+    accountSourceIdx: uniqueIndex("scrape_source_cursors_account_source_idx").on(table.accountId, table.source),
+  })
+);
+
+export const accountActionCounts = sqliteTable(
+  "account_action_counts",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id").notNull().references(() => accounts.id),
+    action: text("action", { enum: ["navigation", "scroll", "expand"] }).notNull(),
+    // Start of the one-minute bucket; rolling hourly/daily usage sums the buckets inside the window.
+    bucketStart: integer("bucket_start").notNull(),
+    count: integer("count").notNull().default(0),
+  },
+  (table) => ({
+    accountActionBucketIdx: uniqueIndex("account_action_counts_account_action_bucket_idx").on(
+      table.accountId,
+      table.action,
+      table.bucketStart
+    ),
+  })
+);
+
+export const accountQuarantines = sqliteTable(
+  "account_quarantines",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    accountId: integer("account_id").notNull().references(() => accounts.id),
+    runAccountId: integer("run_account_id").references(() => scrapeRunAccounts.id),
+    // detectBlockChallenge reason, e.g. BLOCK_DETECTED:url_pattern:/challenge/
+    reason: text("reason").notNull(),
+    url: text("url"),
+    // Consecutive quarantines; each level doubles the backoff.
+    level: integer("level").notNull(),
+    startedAt: integer("started_at").notNull(),
+    releaseAt: integer("release_at").notNull(),
+    releasedAt: integer("released_at"),
+    releaseKind: text("release_kind", { enum: ["auto", "manual"] }),
+  },
+  (table) => ({
+    accountStartedIdx: index("account_quarantines_account_started_idx").on(table.accountId, sql`started_at DESC`),
+  })
+);
+
+export const runAccountArtifacts = sqliteTable(
+  "run_account_artifacts",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    runAccountId: integer("run_account_id").notNull().references(() => scrapeRunAccounts.id),
+    kind: text("kind", { enum: ["screenshot", "dom", "trace"] }).notNull(),
+    // Relative to the artifact store root, e.g. `42/screenshot.png`.
+    localPath: text("local_path").notNull(),
+    contentType: text("content_type").notNull(),
+    byteSize: integer("byte_size").notNull(),
+    // Where the page was when the artifact was taken.
+    pageUrl: text("page_url"),
+    createdAt: integer("created_at").notNull(),
+  },
+  (table) => ({
+    runAccountIdx: index("run_account_artifacts_run_account_idx").on(table.runAccountId),
+    createdIdx: index("run_account_artifacts_created_idx").on(table.createdAt),
+  })
+);
+
+export const authors = sqliteTable(
+  "authors",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    platform: text("platform").notNull(),
+    // Posts and comments link to their author by (platform, author_handle).
+    handle: text("handle").notNull(),
+    displayName: text("display_name").notNull(),
+    // Profile fields stay null until the author's profile has been scraped.
+    bio: text("bio"),
+    followerCount: integer("follower_count"),
+    isVerified: integer("is_verified"),
+    firstSeenAt: integer("first_seen_at").notNull(),
+    lastSeenAt: integer("last_seen_at").notNull(),
+    profileScrapedAt: integer("profile_scraped_at"),
+  },
+  (table) => ({
+    platformHandleIdx: uniqueIndex("authors_platform_handle_idx").on(table.platform, table.handle),
+    lastSeenIdx: index("authors_last_seen_idx").on(table.platform, sql`last_seen_at DESC`),
+  })
+);
+
 export type Account = typeof accounts.$inferSelect;
 export type NewAccount = typeof accounts.$inferInsert;
 export type ScrapeRun = typeof scrapeRuns.$inferSelect;
@@ -388,3 +594,19 @@ export type CronJob = typeof cronJobs.$inferSelect;
 export type NewCronJob = typeof cronJobs.$inferInsert;
 export type CronJobRun = typeof cronJobRuns.$inferSelect;
 export type NewCronJobRun = typeof cronJobRuns.$inferInsert;
+export type LlmCall = typeof llmCalls.$inferSelect;
+export type NewLlmCall = typeof llmCalls.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type PostMedia = typeof postMedia.$inferSelect;
+export type NewPostMedia = typeof postMedia.$inferInsert;
+export type ScrapeSourceCursor = typeof scrapeSourceCursors.$inferSelect;
+export type NewScrapeSourceCursor = typeof scrapeSourceCursors.$inferInsert;
+export type AccountActionCount = typeof accountActionCounts.$inferSelect;
+export type NewAccountActionCount = typeof accountActionCounts.$inferInsert;
+export type AccountQuarantine = typeof accountQuarantines.$inferSelect;
+export type NewAccountQuarantine = typeof accountQuarantines.$inferInsert;
+export type Author = typeof authors.$inferSelect;
+export type NewAuthor = typeof authors.$inferInsert;
+export type RunAccountArtifact = typeof runAccountArtifacts.$inferSelect;
+export type NewRunAccountArtifact = typeof runAccountArtifacts.$inferInsert;
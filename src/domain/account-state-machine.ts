@@ -8,8 +8,10 @@ export type AccountStateTransition = {
 
 export const ALLOWED_TRANSITIONS: ReadonlyMap<AccountStatus, AccountStatus[]> = new Map([
   ["needs_initial_auth", ["active", "disabled"]],
-  ["active", ["needs_reauth", "disabled"]],
+  ["active", ["needs_reauth", "quarantined", "disabled"]],
   ["needs_reauth", ["active", "disabled"]],
+  // Released back to active when the backoff ends; a block can also turn out to be an expired session.
+  ["quarantined", ["active", "needs_reauth", "disabled"]],
   ["disabled", ["needs_initial_auth", "active", "needs_reauth", "disabled"]],
 ]);
 
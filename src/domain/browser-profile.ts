@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+export const BrowserProfileSchema = z.object({
+  userAgent: z.string().min(1),
+  locale: z.string().min(2),
+  timezoneId: z.string().min(1),
+  viewport: z.object({
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+  }),
+  deviceScaleFactor: z.number().positive(),
+  colorScheme: z.enum(["light", "dark", "no-preference"]),
+});
+export type BrowserProfile = z.infer<typeof BrowserProfileSchema>;
+
+// Reduced Chrome UA strings; the major version follows the Chromium bundled with Playwright so
+// the UA does not contradict what the engine reports through client hints and feature checks.
+const CHROME_MAJOR = 145;
+const PLATFORM_USER_AGENTS = [
+  `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${CHROME_MAJOR}.0.0.0 Safari/537.36`,
+  `Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${CHROME_MAJOR}.0.0.0 Safari/537.36`,
+  `Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${CHROME_MAJOR}.0.0.0 Safari/537.36`,
+];
+
+// Locale and timezone are picked together so an account never claims en-GB from Los Angeles.
+const LOCALE_TIMEZONES: Array<{ locale: string; timezoneIds: string[] }> = [
+  { locale: "en-US", timezoneIds: ["America/New_York", "America/Chicago", "America/Denver", "America/Los_Angeles"] },
+  { locale: "en-GB", timezoneIds: ["Europe/London"] },
+  { locale: "en-CA", timezoneIds: ["America/Toronto", "America/Vancouver"] },
+  { locale: "en-AU", timezoneIds: ["Australia/Sydney", "Australia/Melbourne"] },
+  { locale: "en-SG", timezoneIds: ["Asia/Singapore"] },
+];
+
+// Common desktop resolutions, minus the taskbar/browser chrome, paired with their usual scale factor.
+const SCREENS: Array<{ width: number; height: number; deviceScaleFactor: number }> = [
+  { width: 1280, height: 720, deviceScaleFactor: 1 },
+  { width: 1366, height: 668, deviceScaleFactor: 1 },
+  { width: 1440, height: 789, deviceScaleFactor: 2 },
+  { width: 1536, height: 730, deviceScaleFactor: 1.25 },
+  { width: 1680, height: 939, deviceScaleFactor: 2 },
+  { width: 1920, height: 969, deviceScaleFactor: 1 },
+];
+
+const COLOR_SCHEMES: BrowserProfile["colorScheme"][] = ["light", "light", "dark", "no-preference"];
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length) % items.length]!;
+}
+
+/** Picks a plausible desktop Chrome profile; `random` is injectable so tests can pin the choice. */
+export function generateBrowserProfile(random: () => number = Math.random): BrowserProfile {
+  const { locale, timezoneIds } = pick(LOCALE_TIMEZONES, random);
+  const screen = pick(SCREENS, random);
+
+  return {
+    userAgent: pick(PLATFORM_USER_AGENTS, random),
+    locale,
+    timezoneId: pick(timezoneIds, random),
+    viewport: { width: screen.width, height: screen.height },
+    deviceScaleFactor: screen.deviceScaleFactor,
+    colorScheme: pick(COLOR_SCHEMES, random),
+  };
+}
+
+export function parseBrowserProfile(json: string | null): BrowserProfile | null {
+  if (!json) return null;
+  try {
+    const parsed = BrowserProfileSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
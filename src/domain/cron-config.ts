@@ -1,16 +1,36 @@
 import { z } from "zod";
 import type { CronJob } from "../db/schema";
+import { SelectionOverridesSchema } from "./selection";
+import { FeedTabSchema, type FeedTab } from "./models";
 
-export const CronSourceSchema = z.object({
-  type: z.enum(["home", "profile", "search"]),
-  value: z.string().optional(),
-});
+export const CronSourceSchema = z
+  .object({
+    type: z.enum(["home", "profile", "search", "notifications", "feed", "tag", "post_url"]),
+    value: z.string().optional(),
+  })
+  .superRefine((source, ctx) => {
+    const value = source.value?.trim() ?? "";
+    if (source.type === "feed" && !FeedTabSchema.safeParse(value).success) {
+      ctx.addIssue({ code: "custom", path: ["value"], message: "feed source needs value following or for_you" });
+    }
+    if (source.type === "tag" && value.replace(/^#/, "").length === 0) {
+      ctx.addIssue({ code: "custom", path: ["value"], message: "tag source needs a tag" });
+    }
+    if (source.type === "post_url" && !/^https?:\/\/\S+$/.test(value)) {
+      ctx.addIssue({ code: "custom", path: ["value"], message: "post_url source needs an http(s) post URL" });
+    }
+  });
+
+export const DEFAULT_TRIAGE_BATCH_SIZE = 10;
 
 export const CronPipelineConfigSchema = z.object({
   sources: z.array(CronSourceSchema).min(1),
   maxPostsPerRun: z.number().int().min(1).max(500).default(100),
+  incremental: z.boolean().default(false),
   clearStatusPerRun: z.boolean().default(false),
   generateDrafts: z.boolean().default(true),
+  triageBatchSize: z.number().int().min(1).max(50).default(DEFAULT_TRIAGE_BATCH_SIZE),
+  selection: SelectionOverridesSchema.optional(),
 });
 
 export type CronSource = z.infer<typeof CronSourceSchema>;
@@ -34,8 +54,10 @@ export function getDefaultPipelineConfig(): CronPipelineConfig {
   return {
     sources: [{ type: "home" }],
     maxPostsPerRun: 100,
+    incremental: false,
     clearStatusPerRun: false,
     generateDrafts: true,
+    triageBatchSize: DEFAULT_TRIAGE_BATCH_SIZE,
   };
 }
 
@@ -43,6 +65,10 @@ export function getSourcesFromConfig(config: CronPipelineConfig): {
   collectHome: boolean;
   profileHandles: string[];
   searchQueries: string[];
+  feedTabs: FeedTab[];
+  tags: string[];
+  postUrls: string[];
+  collectNotifications: boolean;
 } {
   const collectHome = config.sources.some((s) => s.type === "home");
   const profileHandles = config.sources
@@ -52,5 +78,17 @@ export function getSourcesFromConfig(config: CronPipelineConfig): {
     .filter((s) => s.type === "search" && s.value)
     .map((s) => s.value!);
 
-  return { collectHome, profileHandles, searchQueries };
+  const feedTabs = [
+    ...new Set(config.sources.filter((s) => s.type === "feed").map((s) => FeedTabSchema.parse(s.value?.trim()))),
+  ];
+  const tags = [
+    ...new Set(config.sources.filter((s) => s.type === "tag" && s.value).map((s) => s.value!.trim().replace(/^#/, ""))),
+  ];
+  const postUrls = [
+    ...new Set(config.sources.filter((s) => s.type === "post_url" && s.value).map((s) => s.value!.trim())),
+  ];
+
+  const collectNotifications = config.sources.some((s) => s.type === "notifications");
+
+  return { collectHome, profileHandles, searchQueries, feedTabs, tags, postUrls, collectNotifications };
 }
@@ -0,0 +1,112 @@
+export interface VelocitySample {
+  likesCount: number | null;
+  repliesCount: number | null;
+  repostsCount: number | null;
+  capturedAt: number;
+}
+
+export interface MetricSeriesSample extends VelocitySample {
+  viewsCount: number | null;
+}
+
+export interface MetricSeriesPoint {
+  capturedAt: number;
+  likesCount: number | null;
+  repliesCount: number | null;
+  repostsCount: number | null;
+  viewsCount: number | null;
+  engagement: number;
+  // Weighted engagements per hour since the previous point (or since publication for the first one).
+  velocityPerHour: number | null;
+}
+
+export type EngagementTrend = "rising" | "steady" | "cooling" | "insufficient_data";
+
+export interface EngagementSummary {
+  latestVelocity: number | null;
+  previousVelocity: number | null;
+  trend: EngagementTrend;
+  isRising: boolean;
+}
+
+// Velocity dropping below this fraction of the previous interval counts as cooling.
+const COOLING_RATIO = 0.5;
+
+export function weightedEngagement(sample: VelocitySample): number {
+  return (sample.likesCount ?? 0) + (sample.repliesCount ?? 0) * 2 + (sample.repostsCount ?? 0) * 3;
+}
+
+function velocityBetween(from: VelocitySample, to: VelocitySample): number | null {
+  if (to.capturedAt <= from.capturedAt) return null;
+  const hours = (to.capturedAt - from.capturedAt) / 3600;
+  return Math.max(0, weightedEngagement(to) - weightedEngagement(from)) / hours;
+}
+
+function velocitySincePublish(sample: VelocitySample, publishedAt: number | null): number | null {
+  if (!publishedAt || sample.capturedAt <= publishedAt) return null;
+  return weightedEngagement(sample) / ((sample.capturedAt - publishedAt) / 3600);
+}
+
+/**
+ * Engagement per hour between the two latest snapshots, or since publication
+ * when only one snapshot exists. Samples may be in any order.
+ */
+export function computeEngagementVelocity(samples: VelocitySample[], publishedAt: number | null): number | null {
+  if (samples.length === 0) return null;
+
+  const sorted = [...samples].sort((a, b) => b.capturedAt - a.capturedAt);
+  const latest = sorted[0]!;
+  const previous = sorted[1];
+
+  if (previous && latest.capturedAt > previous.capturedAt) {
+    return velocityBetween(previous, latest);
+  }
+
+  return velocitySincePublish(latest, publishedAt);
+}
+
+/** Oldest-first series with per-interval velocity; snapshots captured at the same second collapse to one point. */
+export function buildMetricSeries(samples: MetricSeriesSample[], publishedAt: number | null): MetricSeriesPoint[] {
+  const sorted = [...samples].sort((a, b) => a.capturedAt - b.capturedAt);
+  const points: MetricSeriesPoint[] = [];
+  let previous: MetricSeriesSample | null = null;
+
+  for (const sample of sorted) {
+    if (previous && sample.capturedAt === previous.capturedAt) continue;
+
+    points.push({
+      capturedAt: sample.capturedAt,
+      likesCount: sample.likesCount,
+      repliesCount: sample.repliesCount,
+      repostsCount: sample.repostsCount,
+      viewsCount: sample.viewsCount,
+      engagement: weightedEngagement(sample),
+      velocityPerHour: previous ? velocityBetween(previous, sample) : velocitySincePublish(sample, publishedAt),
+    });
+    previous = sample;
+  }
+
+  return points;
+}
+
+/**
+ * A post is rising when its latest velocity clears the minimum and is not
+ * slower than the interval before it — the window where an early reply is seen most.
+ */
+export function summarizeEngagement(points: MetricSeriesPoint[], minRisingVelocity: number): EngagementSummary {
+  const latestVelocity = points.at(-1)?.velocityPerHour ?? null;
+  const previousVelocity = points.length > 1 ? (points.at(-2)?.velocityPerHour ?? null) : null;
+
+  if (latestVelocity === null) {
+    return { latestVelocity, previousVelocity, trend: "insufficient_data", isRising: false };
+  }
+
+  let trend: EngagementTrend = "steady";
+  if (previousVelocity !== null && latestVelocity < previousVelocity * COOLING_RATIO) {
+    trend = "cooling";
+  } else if (latestVelocity >= minRisingVelocity && (previousVelocity === null || latestVelocity >= previousVelocity)) {
+    trend = "rising";
+  }
+
+  return { latestVelocity, previousVelocity, trend, isRising: trend === "rising" };
+}
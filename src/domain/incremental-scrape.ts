@@ -0,0 +1,61 @@
+import type { CollectedPost } from "./models";
+
+/** Newest post seen for one account and source (home, profile:x, search:q) on an earlier run. */
+export interface SourceCursor {
+  newestPlatformPostId: string | null;
+  newestPublishedAt: number | null;
+}
+
+export interface IncrementalScrapeOptions {
+  cursor: SourceCursor | null;
+  // Platform post IDs already stored, so re-seen posts older than the cursor are recognized too.
+  knownPostIds: ReadonlySet<string>;
+  // Scrolling stops once this many posts in a row (in feed order) are already known.
+  stopAfterKnown: number;
+}
+
+type PostRef = Pick<CollectedPost, "platformPostId" | "publishedAt">;
+
+export function isKnownPost(post: PostRef, options: IncrementalScrapeOptions): boolean {
+  if (post.platformPostId) {
+    if (options.knownPostIds.has(post.platformPostId)) return true;
+    if (post.platformPostId === options.cursor?.newestPlatformPostId) return true;
+  }
+
+  const newestPublishedAt = options.cursor?.newestPublishedAt;
+  return post.publishedAt != null && newestPublishedAt != null && post.publishedAt <= newestPublishedAt;
+}
+
+/** True once `posts`, in feed order, contain a run of `stopAfterKnown` consecutive known posts. */
+export function reachedKnownPosts(posts: PostRef[], options: IncrementalScrapeOptions): boolean {
+  if (options.stopAfterKnown <= 0) return false;
+
+  let streak = 0;
+  for (const post of posts) {
+    streak = isKnownPost(post, options) ? streak + 1 : 0;
+    if (streak >= options.stopAfterKnown) return true;
+  }
+  return false;
+}
+
+/**
+ * Moves the high-water mark to the newest collected post. Posts without a publish time only count
+ * when nothing dated was collected, in which case the first post in feed order wins.
+ */
+export function advanceCursor(cursor: SourceCursor | null, posts: PostRef[]): SourceCursor | null {
+  let newest: PostRef | null = null;
+  for (const post of posts) {
+    if (!post.platformPostId || post.publishedAt == null) continue;
+    if (!newest || post.publishedAt > newest.publishedAt!) newest = post;
+  }
+
+  if (newest) {
+    if (cursor?.newestPublishedAt != null && cursor.newestPublishedAt >= newest.publishedAt!) return cursor;
+    return { newestPlatformPostId: newest.platformPostId, newestPublishedAt: newest.publishedAt };
+  }
+
+  const first = posts.find((post) => post.platformPostId);
+  if (!first) return cursor;
+  if (cursor?.newestPublishedAt != null) return cursor;
+  return { newestPlatformPostId: first.platformPostId, newestPublishedAt: null };
+}
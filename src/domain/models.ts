@@ -1,12 +1,18 @@
 import { z } from "zod";
+import { SelectionConfigSchema } from "./selection";
 
 export const PlatformSchema = z.enum(["threads", "x"]);
 export type Platform = z.infer<typeof PlatformSchema>;
 
+// Home feed tabs: accounts the user follows, or the platform's recommendations.
+export const FeedTabSchema = z.enum(["following", "for_you"]);
+export type FeedTab = z.infer<typeof FeedTabSchema>;
+
 export const AccountStatusSchema = z.enum([
   "active",
   "needs_initial_auth",
   "needs_reauth",
+  "quarantined",
   "disabled",
 ]);
 export type AccountStatus = z.infer<typeof AccountStatusSchema>;
@@ -18,6 +24,7 @@ export const ScrapeRunAccountStatusSchema = z.enum([
   "running",
   "success",
   "skipped_needs_reauth",
+  "quota_exhausted",
   "failed",
 ]);
 export type ScrapeRunAccountStatus = z.infer<typeof ScrapeRunAccountStatusSchema>;
@@ -56,9 +63,35 @@ export const CollectedCommentSchema = z.object({
   commentUrl: z.string().nullable(),
   publishedAt: z.number().nullable(),
   mediaUrls: z.array(z.string()).default([]),
+  // Comment this one replies to; null or absent when it replies to the post itself.
+  parentPlatformCommentId: z.string().nullable().optional(),
 });
 export type CollectedComment = z.infer<typeof CollectedCommentSchema>;
 
+export const NotificationKindSchema = z.enum(["mention", "reply", "quote"]);
+export type NotificationKind = z.infer<typeof NotificationKindSchema>;
+
+export const CollectedNotificationSchema = z.object({
+  kind: NotificationKindSchema,
+  actorHandle: z.string(),
+  // The mention, reply or quote itself, persisted as a regular post so it can be triaged.
+  post: CollectedPostSchema,
+  // Our post being replied to or quoted, when the notification links it.
+  targetPlatformPostId: z.string().nullable(),
+  occurredAt: z.number().nullable(),
+});
+export type CollectedNotification = z.infer<typeof CollectedNotificationSchema>;
+
+export const CollectedAuthorProfileSchema = z.object({
+  handle: z.string(),
+  // Null when the profile page did not show the field.
+  displayName: z.string().nullable(),
+  bio: z.string().nullable(),
+  followerCount: z.number().nullable(),
+  isVerified: z.boolean().nullable(),
+});
+export type CollectedAuthorProfile = z.infer<typeof CollectedAuthorProfileSchema>;
+
 export const MetricSnapshotSchema = z.object({
   likesCount: z.number().nullable(),
   repliesCount: z.number().nullable(),
@@ -88,15 +121,52 @@ export const PostTriageOutputSchema = z.object({
 });
 export type PostTriageOutput = z.infer<typeof PostTriageOutputSchema>;
 
+export const PostTriageBatchItemSchema = PostTriageOutputSchema.extend({
+  post_id: z.number().int(),
+});
+export type PostTriageBatchItem = z.infer<typeof PostTriageBatchItemSchema>;
+
+// Items are left unvalidated here so one malformed entry does not reject the whole batch.
+export const PostTriageBatchOutputSchema = z.object({
+  results: z.array(z.unknown()),
+});
+export type PostTriageBatchOutput = z.infer<typeof PostTriageBatchOutputSchema>;
+
 export const EngagementGoalSchema = z.enum(["reply", "quote", "learn", "find_leads", "build_in_public"]);
 export type EngagementGoal = z.infer<typeof EngagementGoalSchema>;
 
+export const StageLlmSettingsSchema = z.object({
+  provider: z.string().nullable(),
+  model: z.string().nullable(),
+  temperature: z.number().min(0).max(2).nullable(),
+  maxTokens: z.number().int().positive().nullable(),
+});
+export type StageLlmSettings = z.infer<typeof StageLlmSettingsSchema>;
+
+export const PolicyLlmSettingsSchema = z.object({
+  triage: StageLlmSettingsSchema,
+  draft: StageLlmSettingsSchema,
+});
+export type PolicyLlmSettings = z.infer<typeof PolicyLlmSettingsSchema>;
+
+export const PolicyPrefilterSettingsSchema = z.object({
+  authorAllowList: z.array(z.string()),
+  authorDenyList: z.array(z.string()),
+  excludePatterns: z.array(z.string()),
+  minBodyLength: z.number().int().min(0).nullable(),
+  maxPostAgeHours: z.number().int().positive().nullable(),
+});
+export type PolicyPrefilterSettings = z.infer<typeof PolicyPrefilterSettingsSchema>;
+
 export const EngagementPolicyInputSchema = z.object({
   topics: z.array(z.string()),
   goals: z.array(EngagementGoalSchema),
   avoidList: z.array(z.string()),
   toneIdentity: z.string(),
   preferredLanguages: z.array(z.string()),
+  llm: PolicyLlmSettingsSchema.optional(),
+  prefilter: PolicyPrefilterSettingsSchema.optional(),
+  selection: SelectionConfigSchema.optional(),
 });
 export type EngagementPolicyInput = z.infer<typeof EngagementPolicyInputSchema>;
 
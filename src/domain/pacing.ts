@@ -0,0 +1,68 @@
+export const PACED_ACTIONS = ["navigation", "scroll", "expand"] as const;
+export type PacedAction = (typeof PACED_ACTIONS)[number];
+
+export type PacingWindow = "hourly" | "daily";
+
+export const PACING_WINDOW_SECONDS: Record<PacingWindow, number> = {
+  hourly: 3600,
+  daily: 86400,
+};
+
+// 0 means unlimited for that action and window.
+export type PacingLimits = Record<PacedAction, Record<PacingWindow, number>>;
+
+export type PacingUsage = Record<PacedAction, Record<PacingWindow, number>>;
+
+export interface QuotaExhaustion {
+  action: PacedAction;
+  window: PacingWindow;
+  used: number;
+  limit: number;
+}
+
+/** Handed to adapters so page navigations, scrolls and thread expansions count against the account's budget. */
+export interface ActionPacer {
+  pace(action: PacedAction): Promise<void>;
+}
+
+export function emptyPacingUsage(): PacingUsage {
+  return {
+    navigation: { hourly: 0, daily: 0 },
+    scroll: { hourly: 0, daily: 0 },
+    expand: { hourly: 0, daily: 0 },
+  };
+}
+
+/** The first window in which one more `action` would go over its limit, or null when it is allowed. */
+export function findQuotaExhaustion(usage: PacingUsage, limits: PacingLimits, action: PacedAction): QuotaExhaustion | null {
+  for (const window of ["hourly", "daily"] as const) {
+    const limit = limits[action][window];
+    const used = usage[action][window];
+    if (limit > 0 && used >= limit) {
+      return { action, window, used, limit };
+    }
+  }
+  return null;
+}
+
+/** Share of the tightest limited budget already spent, from 0 (untouched) to 1 (exhausted). */
+export function pacingPressure(usage: PacingUsage, limits: PacingLimits): number {
+  let pressure = 0;
+  for (const action of PACED_ACTIONS) {
+    for (const window of ["hourly", "daily"] as const) {
+      const limit = limits[action][window];
+      if (limit > 0) pressure = Math.max(pressure, usage[action][window] / limit);
+    }
+  }
+  return Math.min(pressure, 1);
+}
+
+/**
+ * Delay multiplier for the given pressure: 1 until `threshold`, then rising linearly to
+ * `maxMultiplier` as the budget runs out, so an account slows down instead of hitting a wall.
+ */
+export function pacingDelayMultiplier(pressure: number, threshold: number, maxMultiplier: number): number {
+  if (pressure <= threshold || threshold >= 1) return 1;
+  const progress = Math.min((pressure - threshold) / (1 - threshold), 1);
+  return 1 + progress * (Math.max(maxMultiplier, 1) - 1);
+}
@@ -0,0 +1,101 @@
+import type { EngagementPolicyInput } from "./models";
+import { detectLanguage } from "../core/language";
+
+export const PREFILTER_RULES_VERSION = "prefilter-v1";
+
+export interface PrefilterPost {
+  authorHandle: string;
+  bodyText: string | null;
+  publishedAt: number | null;
+}
+
+export type PrefilterRule =
+  | "author_denied"
+  | "body_too_short"
+  | "post_too_old"
+  | "avoid_keyword"
+  | "exclude_pattern"
+  | "language_mismatch";
+
+export interface PrefilterVerdict {
+  rule: PrefilterRule;
+  reason: string;
+}
+
+function normalizeHandle(handle: string): string {
+  return handle.trim().replace(/^@/, "").toLowerCase();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function compileExcludePatterns(patterns: string[]): RegExp[] {
+  const compiled: RegExp[] = [];
+  for (const pattern of patterns) {
+    try {
+      compiled.push(new RegExp(pattern, "i"));
+    } catch {
+      // Invalid patterns are rejected when the policy is saved; skip any that slipped through.
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Deterministic checks run before LLM triage. Returns the first rule a post
+ * fails, or null if it should go on to triage. Allow-listed authors skip every rule.
+ */
+export function evaluatePrefilter(
+  post: PrefilterPost,
+  policy: EngagementPolicyInput,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): PrefilterVerdict | null {
+  const rules = policy.prefilter;
+  const handle = normalizeHandle(post.authorHandle);
+
+  if (rules?.authorAllowList.some((allowed) => normalizeHandle(allowed) === handle)) {
+    return null;
+  }
+
+  if (rules?.authorDenyList.some((denied) => normalizeHandle(denied) === handle)) {
+    return { rule: "author_denied", reason: `author @${handle} is on the deny list` };
+  }
+
+  const body = post.bodyText?.trim() ?? "";
+
+  if (rules?.minBodyLength && body.length < rules.minBodyLength) {
+    return { rule: "body_too_short", reason: `body shorter than ${rules.minBodyLength} characters` };
+  }
+
+  if (rules?.maxPostAgeHours && post.publishedAt) {
+    const ageHours = (nowSeconds - post.publishedAt) / 3600;
+    if (ageHours > rules.maxPostAgeHours) {
+      return { rule: "post_too_old", reason: `published more than ${rules.maxPostAgeHours}h ago` };
+    }
+  }
+
+  for (const keyword of policy.avoidList) {
+    const trimmed = keyword.trim();
+    if (!trimmed) continue;
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(trimmed)}($|[^\\p{L}\\p{N}])`, "iu").test(body)) {
+      return { rule: "avoid_keyword", reason: `matches avoid keyword "${trimmed}"` };
+    }
+  }
+
+  for (const pattern of compileExcludePatterns(rules?.excludePatterns ?? [])) {
+    if (pattern.test(body)) {
+      return { rule: "exclude_pattern", reason: `matches exclude pattern /${pattern.source}/` };
+    }
+  }
+
+  if (policy.preferredLanguages.length > 0) {
+    const language = detectLanguage(body);
+    const preferred = policy.preferredLanguages.map((lang) => lang.trim().toLowerCase().split("-")[0]);
+    if (language && !preferred.includes(language)) {
+      return { rule: "language_mismatch", reason: `detected language ${language} is not preferred` };
+    }
+  }
+
+  return null;
+}
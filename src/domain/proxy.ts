@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+const PROXY_SCHEMES = ["http:", "https:", "socks5:"];
+
+export const ProxySettingsInputSchema = z.object({
+  server: z.string().trim().min(1),
+  // Omitted credentials keep the stored ones; null clears them.
+  username: z.string().trim().min(1).nullable().optional(),
+  password: z.string().min(1).nullable().optional(),
+  bypass: z.array(z.string().trim().min(1)).optional(),
+});
+export type ProxySettingsInput = z.infer<typeof ProxySettingsInputSchema>;
+
+// Shape Playwright expects for the `proxy` launch option.
+export interface BrowserProxy {
+  server: string;
+  username?: string;
+  password?: string;
+  bypass?: string;
+}
+
+/** Validates a proxy server and returns it as `scheme://host:port`; a bare `host:port` is taken as http. */
+export function normalizeProxyServer(server: string): string {
+  const candidate = /^[a-z0-9+.-]+:\/\//i.test(server.trim()) ? server.trim() : `http://${server.trim()}`;
+
+  let url: URL;
+  try {
+    url = new URL(candidate);
+  } catch {
+    throw new Error(`Invalid proxy server: ${server}`);
+  }
+  if (!PROXY_SCHEMES.includes(url.protocol)) {
+    throw new Error(`Unsupported proxy scheme ${url.protocol.replace(/:$/, "")} (use http, https or socks5)`);
+  }
+  if (!url.hostname || !url.port) {
+    throw new Error(`Proxy server must include host and port: ${server}`);
+  }
+  if (url.username || url.password) {
+    throw new Error("Pass proxy credentials separately, not inside the server URL");
+  }
+  return `${url.protocol}//${url.host}`;
+}
+
+export function parseBypassList(value: string | string[] | null | undefined): string[] {
+  if (!value) return [];
+  const entries = Array.isArray(value) ? value : value.split(",");
+  return [...new Set(entries.map((entry) => entry.trim()).filter(Boolean))];
+}
+
+/** Chromium cannot authenticate against SOCKS5 proxies, so credentials there would silently be ignored. */
+export function assertProxyCredentialsSupported(server: string, hasCredentials: boolean): void {
+  if (hasCredentials && server.startsWith("socks5:")) {
+    throw new Error("Chromium does not support SOCKS5 proxy authentication; use an http(s) proxy for credentials");
+  }
+}
+
+/** Reads the egress IP from a PROXY_CHECK_URL response: `{"ip": "..."}` JSON or a bare address. */
+export function parseEgressIp(body: string): string | null {
+  const trimmed = body.trim();
+  try {
+    const parsed = JSON.parse(trimmed);
+    const ip = parsed?.ip ?? parsed?.origin;
+    return typeof ip === "string" && ip.length > 0 ? ip : null;
+  } catch {
+    return /^[0-9a-f.:]{3,45}$/i.test(trimmed) ? trimmed : null;
+  }
+}
@@ -0,0 +1,30 @@
+export interface QuarantineBackoffConfig {
+  baseSeconds: number;
+  maxSeconds: number;
+  // A quarantine this long after the previous one ended starts the backoff over at level 1.
+  resetAfterSeconds: number;
+}
+
+export interface PreviousQuarantine {
+  level: number;
+  releaseAt: number;
+  releasedAt: number | null;
+}
+
+/** Level of a new quarantine: one above the previous when blocks keep recurring, otherwise 1. */
+export function nextQuarantineLevel(previous: PreviousQuarantine | null, now: number, config: QuarantineBackoffConfig): number {
+  if (!previous) return 1;
+  const endedAt = previous.releasedAt ?? previous.releaseAt;
+  return now - endedAt <= config.resetAfterSeconds ? previous.level + 1 : 1;
+}
+
+/** Exponential backoff: base, 2x base, 4x base, ... capped at maxSeconds. */
+export function quarantineDurationSeconds(level: number, config: QuarantineBackoffConfig): number {
+  const exponent = Math.max(level, 1) - 1;
+  return Math.min(config.baseSeconds * 2 ** exponent, config.maxSeconds);
+}
+
+// No release time means the account was quarantined by hand and stays that way until released by hand.
+export function isQuarantineDue(quarantinedUntil: number | null, now: number): boolean {
+  return quarantinedUntil !== null && quarantinedUntil <= now;
+}
@@ -0,0 +1,167 @@
+export interface SelectorField {
+  field: string;
+  selector: string;
+}
+
+export interface SelectorGroup {
+  group: string;
+  fields: SelectorField[];
+}
+
+export interface SelectorFieldResult extends SelectorField {
+  count: number;
+}
+
+export type SelectorGroupStatus = "ok" | "partial" | "missing";
+
+export interface SelectorGroupReport {
+  group: string;
+  status: SelectorGroupStatus;
+  matchedFields: number;
+  totalFields: number;
+  missingFields: string[];
+  fields: SelectorFieldResult[];
+}
+
+// Entries in a selector map that hold URLs or paths rather than CSS selectors.
+const NON_SELECTOR_FIELD = /(?:^|_)(?:URL|URL_PATH)$/;
+
+/** Flattens a selector map like THREADS_SELECTORS into groups of CSS selectors, skipping URL constants. */
+export function listSelectorGroups(selectors: Record<string, unknown>): SelectorGroup[] {
+  const groups: SelectorGroup[] = [];
+
+  for (const [group, value] of Object.entries(selectors)) {
+    if (typeof value !== "object" || value === null) continue;
+
+    const fields = Object.entries(value as Record<string, unknown>)
+      .filter((entry): entry is [string, string] => typeof entry[1] === "string" && !NON_SELECTOR_FIELD.test(entry[0]))
+      .map(([field, selector]) => ({ field, selector }));
+    if (fields.length > 0) groups.push({ group, fields });
+  }
+
+  return groups;
+}
+
+export function buildSelectorGroupReport(group: string, fields: SelectorFieldResult[]): SelectorGroupReport {
+  const missingFields = fields.filter((field) => field.count === 0).map((field) => field.field);
+  const matchedFields = fields.length - missingFields.length;
+
+  return {
+    group,
+    status: missingFields.length === 0 ? "ok" : matchedFields === 0 ? "missing" : "partial",
+    matchedFields,
+    totalFields: fields.length,
+    missingFields,
+    fields,
+  };
+}
+
+export interface RunAccountHealthSample {
+  runAccountId: number;
+  accountId: number;
+  startedAt: number;
+  postsFound: number;
+  postsWithMetrics: number;
+  postsWithNullBody: number;
+}
+
+export type ScrapeDriftKind = "posts_drop" | "null_body_spike";
+
+export interface ScrapeDriftAlert {
+  kind: ScrapeDriftKind;
+  accountId: number;
+  runAccountId: number;
+  startedAt: number;
+  current: number;
+  baseline: number;
+  message: string;
+}
+
+export interface ScrapeDriftOptions {
+  // Earlier successful runs the latest one is compared against.
+  baselineRuns: number;
+  // Alert when posts found falls below this fraction of the baseline median.
+  minPostsRatio: number;
+  // Baselines smaller than this are too noisy to judge a drop.
+  minBaselinePosts: number;
+  // Alert when the share of posts without body text rises by at least this much.
+  nullBodyShareIncrease: number;
+}
+
+export const DEFAULT_SCRAPE_DRIFT_OPTIONS: ScrapeDriftOptions = {
+  baselineRuns: 5,
+  minPostsRatio: 0.5,
+  minBaselinePosts: 5,
+  nullBodyShareIncrease: 0.3,
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+function nullBodyShare(sample: RunAccountHealthSample): number | null {
+  return sample.postsWithMetrics > 0 ? sample.postsWithNullBody / sample.postsWithMetrics : null;
+}
+
+function roundShare(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compares each account's latest successful run with the median of its previous runs.
+ * Samples may be in any order and may mix accounts.
+ */
+export function detectScrapeDrift(
+  samples: RunAccountHealthSample[],
+  options: ScrapeDriftOptions = DEFAULT_SCRAPE_DRIFT_OPTIONS
+): ScrapeDriftAlert[] {
+  const byAccount = new Map<number, RunAccountHealthSample[]>();
+  for (const sample of samples) {
+    const list = byAccount.get(sample.accountId) ?? [];
+    list.push(sample);
+    byAccount.set(sample.accountId, list);
+  }
+
+  const alerts: ScrapeDriftAlert[] = [];
+
+  for (const [accountId, accountSamples] of byAccount) {
+    const ordered = [...accountSamples].sort((a, b) => b.startedAt - a.startedAt || b.runAccountId - a.runAccountId);
+    const [latest, ...previous] = ordered;
+    const baseline = previous.slice(0, options.baselineRuns);
+    if (!latest || baseline.length === 0) continue;
+
+    const baselinePosts = median(baseline.map((sample) => sample.postsFound));
+    if (baselinePosts >= options.minBaselinePosts && latest.postsFound < baselinePosts * options.minPostsRatio) {
+      alerts.push({
+        kind: "posts_drop",
+        accountId,
+        runAccountId: latest.runAccountId,
+        startedAt: latest.startedAt,
+        current: latest.postsFound,
+        baseline: baselinePosts,
+        message: `Posts found dropped to ${latest.postsFound} from a median of ${baselinePosts}; selectors may have broken`,
+      });
+    }
+
+    const latestShare = nullBodyShare(latest);
+    const baselineShares = baseline.map(nullBodyShare).filter((share): share is number => share !== null);
+    if (latestShare !== null && baselineShares.length > 0) {
+      const baselineShare = median(baselineShares);
+      if (latestShare - baselineShare >= options.nullBodyShareIncrease) {
+        alerts.push({
+          kind: "null_body_spike",
+          accountId,
+          runAccountId: latest.runAccountId,
+          startedAt: latest.startedAt,
+          current: roundShare(latestShare),
+          baseline: roundShare(baselineShare),
+          message: `${Math.round(latestShare * 100)}% of posts have no body text (usually ${Math.round(baselineShare * 100)}%); body extraction may have broken`,
+        });
+      }
+    }
+  }
+
+  return alerts;
+}
@@ -1,4 +1,6 @@
 import type { Platform } from "./models";
+import type { IncrementalScrapeOptions } from "./incremental-scrape";
+import type { ActionPacer } from "./pacing";
 
 export interface ScrapeConfig {
   platform: Platform;
@@ -12,6 +14,7 @@ export interface ScrapeCollectorOptions {
   collectProfiles: boolean;
   profileHandles: string[];
   searchQueries: string[];
+  collectNotifications: boolean;
 }
 
 export interface ScrapeResult {
@@ -24,10 +27,15 @@ export interface ScrapeResult {
 
 export interface CollectPostOptions {
   maxPosts?: number;
+  // Set on incremental runs: stop scrolling once the feed reaches posts collected earlier.
+  incremental?: IncrementalScrapeOptions;
+  // Counts navigations and scrolls against the account's pacing budget.
+  pacer?: ActionPacer;
 }
 
 export interface CollectCommentOptions {
   maxComments?: number;
+  pacer?: ActionPacer;
 }
 
 export interface ScrapeContext {
@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+export const SelectionStrategyNameSchema = z.enum([
+  "top_score",
+  "author_diverse",
+  "engagement_velocity",
+  "reply_first",
+  "recency_decay",
+]);
+export type SelectionStrategyName = z.infer<typeof SelectionStrategyNameSchema>;
+
+export const SelectionConfigSchema = z.object({
+  strategy: SelectionStrategyNameSchema,
+  topN: z.number().int().min(1).max(200),
+  scoreThreshold: z.number().min(0).max(100),
+  maxPerAuthor: z.number().int().min(1).nullable(),
+  recencyHalfLifeHours: z.number().positive(),
+});
+export type SelectionConfig = z.infer<typeof SelectionConfigSchema>;
+
+// Policies and cron jobs only store the fields they override.
+export const SelectionOverridesSchema = SelectionConfigSchema.partial();
+export type SelectionOverrides = z.infer<typeof SelectionOverridesSchema>;
+
+export const DEFAULT_RECENCY_HALF_LIFE_HOURS = 24;
+
+export interface SelectionCandidate {
+  postId: number;
+  relevanceScore: number;
+  action: "reply" | "quote" | "save" | "ignore";
+  authorHandle: string;
+  publishedAt: number | null;
+  // Weighted engagements per hour, or null when no metrics have been captured.
+  engagementVelocity: number | null;
+}
+
+export interface SelectionPick {
+  postId: number;
+  rank: number;
+  strategy: SelectionStrategyName;
+  relevanceScore: number;
+}
+
+type StrategyOrdering = (
+  candidates: SelectionCandidate[],
+  config: SelectionConfig,
+  nowSeconds: number
+) => SelectionCandidate[];
+
+const ACTION_PRIORITY: Record<SelectionCandidate["action"], number> = {
+  reply: 30,
+  quote: 15,
+  save: 0,
+  ignore: -30,
+};
+
+function byPriority(
+  candidates: SelectionCandidate[],
+  priority: (candidate: SelectionCandidate) => number
+): SelectionCandidate[] {
+  return candidates
+    .map((candidate) => ({ candidate, priority: priority(candidate) }))
+    .sort((a, b) => b.priority - a.priority || b.candidate.relevanceScore - a.candidate.relevanceScore)
+    .map(({ candidate }) => candidate);
+}
+
+const STRATEGIES: Record<SelectionStrategyName, StrategyOrdering> = {
+  top_score: (candidates) => byPriority(candidates, (c) => c.relevanceScore),
+
+  // Each author's best post first, then each author's second best, and so on.
+  author_diverse: (candidates) => {
+    const seenPerAuthor = new Map<string, number>();
+    const withAuthorRank = byPriority(candidates, (c) => c.relevanceScore).map((candidate) => {
+      const author = candidate.authorHandle.toLowerCase();
+      const authorRank = seenPerAuthor.get(author) ?? 0;
+      seenPerAuthor.set(author, authorRank + 1);
+      return { candidate, authorRank };
+    });
+    return withAuthorRank
+      .sort((a, b) => a.authorRank - b.authorRank || b.candidate.relevanceScore - a.candidate.relevanceScore)
+      .map(({ candidate }) => candidate);
+  },
+
+  engagement_velocity: (candidates) =>
+    byPriority(candidates, (c) => c.relevanceScore * (1 + Math.log10(1 + Math.max(0, c.engagementVelocity ?? 0)))),
+
+  reply_first: (candidates) => byPriority(candidates, (c) => c.relevanceScore + ACTION_PRIORITY[c.action]),
+
+  recency_decay: (candidates, config, nowSeconds) =>
+    byPriority(candidates, (c) => {
+      if (!c.publishedAt) return c.relevanceScore;
+      const ageHours = Math.max(0, (nowSeconds - c.publishedAt) / 3600);
+      return c.relevanceScore * Math.pow(0.5, ageHours / config.recencyHalfLifeHours);
+    }),
+};
+
+export function selectCandidates(
+  candidates: SelectionCandidate[],
+  config: SelectionConfig,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): SelectionPick[] {
+  const ordered = STRATEGIES[config.strategy](candidates, config, nowSeconds);
+  const perAuthor = new Map<string, number>();
+  const picks: SelectionPick[] = [];
+
+  for (const candidate of ordered) {
+    if (picks.length >= config.topN) break;
+
+    const author = candidate.authorHandle.toLowerCase();
+    const authorCount = perAuthor.get(author) ?? 0;
+    if (config.maxPerAuthor !== null && authorCount >= config.maxPerAuthor) continue;
+    perAuthor.set(author, authorCount + 1);
+
+    picks.push({
+      postId: candidate.postId,
+      rank: picks.length + 1,
+      strategy: config.strategy,
+      relevanceScore: candidate.relevanceScore,
+    });
+  }
+
+  return picks;
+}
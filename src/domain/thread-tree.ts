@@ -0,0 +1,104 @@
+export interface ReplyLink {
+  id: string;
+  authorHandle: string;
+  replyToId: string | null;
+}
+
+/**
+ * Maps every post that continues its author's own thread (a reply to the same author, possibly several
+ * levels deep) to the first post of that self-thread. Posts that start a thread or reply to someone else
+ * are not in the result.
+ */
+export function resolveSelfThreadRoots(links: ReplyLink[]): Map<string, string> {
+  const byId = new Map(links.map((link) => [link.id, link]));
+  const roots = new Map<string, string>();
+
+  for (const link of links) {
+    let current = link;
+    const visited = new Set<string>([link.id]);
+    while (current.replyToId && !visited.has(current.replyToId)) {
+      const parent = byId.get(current.replyToId);
+      if (!parent || parent.authorHandle !== link.authorHandle) break;
+      visited.add(parent.id);
+      current = parent;
+    }
+    if (current.id !== link.id) roots.set(link.id, current.id);
+  }
+
+  return roots;
+}
+
+/** Reorders collected comments so each parent precedes its replies, keeping the original order otherwise. */
+export function orderParentsFirst<T extends { platformCommentId: string | null; parentPlatformCommentId?: string | null }>(
+  comments: T[]
+): T[] {
+  const byId = new Map<string, T>();
+  for (const comment of comments) {
+    if (comment.platformCommentId) byId.set(comment.platformCommentId, comment);
+  }
+
+  const ordered: T[] = [];
+  const placed = new Set<T>();
+  const place = (comment: T, trail: Set<T>) => {
+    if (placed.has(comment) || trail.has(comment)) return;
+    trail.add(comment);
+    const parent = comment.parentPlatformCommentId ? byId.get(comment.parentPlatformCommentId) : undefined;
+    if (parent) place(parent, trail);
+    placed.add(comment);
+    ordered.push(comment);
+  };
+
+  for (const comment of comments) place(comment, new Set());
+  return ordered;
+}
+
+export interface CommentTreeNode<T> {
+  comment: T;
+  children: CommentTreeNode<T>[];
+}
+
+type TreeComment = { id: number; parentCommentId: number | null; publishedAt: number | null };
+
+function byPublishedAt<T extends TreeComment>(a: CommentTreeNode<T>, b: CommentTreeNode<T>): number {
+  return (a.comment.publishedAt ?? Infinity) - (b.comment.publishedAt ?? Infinity) || a.comment.id - b.comment.id;
+}
+
+/** Nests comments under their parent comment, oldest first. Replies whose parent is missing stay top-level. */
+export function buildCommentTree<T extends TreeComment>(comments: T[]): CommentTreeNode<T>[] {
+  const nodes = new Map<number, CommentTreeNode<T>>();
+  for (const comment of comments) nodes.set(comment.id, { comment, children: [] });
+
+  const roots: CommentTreeNode<T>[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.comment.parentCommentId !== null ? nodes.get(node.comment.parentCommentId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const sort = (list: CommentTreeNode<T>[]) => {
+    list.sort(byPublishedAt);
+    for (const node of list) sort(node.children);
+  };
+  sort(roots);
+  return roots;
+}
+
+/** Depth-first walk of a comment tree, so each reply directly follows the comment it answers. */
+export function flattenCommentTree<T>(
+  nodes: CommentTreeNode<T>[],
+  limit: number = Infinity
+): Array<{ comment: T; depth: number }> {
+  const flat: Array<{ comment: T; depth: number }> = [];
+  const visit = (list: CommentTreeNode<T>[], depth: number) => {
+    for (const node of list) {
+      if (flat.length >= limit) return;
+      flat.push({ comment: node.comment, depth });
+      visit(node.children, depth + 1);
+    }
+  };
+  visit(nodes, 0);
+  return flat;
+}
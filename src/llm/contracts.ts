@@ -1,13 +1,36 @@
 import type { z } from "zod";
 import type { PostTriageOutput, DraftGenerationOutput, EngagementPolicyInput } from "../domain/models";
 
+export type LLMProviderName = "openrouter" | "openai_compatible" | "fake";
+export type LLMStage = "triage" | "draft";
+
+export interface LLMCallContext {
+  stage: string;
+  promptVersion?: string;
+  runAccountId?: number | null;
+  postId?: number | null;
+}
+
 export interface LLMCallOptions {
   temperature?: number;
   maxTokens?: number;
   timeoutMs?: number;
+  model?: string;
+  // When set, the call is written to the llm_calls ledger.
+  context?: LLMCallContext;
+}
+
+export interface LLMUsage {
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+  costUsd: number | null;
 }
 
 export interface LLMClient {
+  readonly provider: string;
+  readonly defaultModel: string;
+
   complete<T>(
     systemPrompt: string,
     userPrompt: string,
@@ -16,6 +39,16 @@ export interface LLMClient {
   ): Promise<T>;
 }
 
+export interface PromptMedia {
+  mediaType: "image" | "video";
+}
+
+// Known reach of a post's author; fields stay null until the author's profile has been scraped.
+export interface PromptAuthorProfile {
+  followerCount: number | null;
+  isVerified: boolean | null;
+}
+
 export interface TriagePromptInput {
   policy: EngagementPolicyInput;
   post: {
@@ -23,9 +56,16 @@ export interface TriagePromptInput {
     authorDisplayName: string;
     bodyText: string | null;
     postUrl: string | null;
+    media?: PromptMedia[];
+    author?: PromptAuthorProfile;
   };
 }
 
+export interface TriageBatchPromptInput {
+  policy: EngagementPolicyInput;
+  posts: Array<TriagePromptInput["post"] & { postId: number }>;
+}
+
 export interface DraftPromptInput {
   policy: EngagementPolicyInput;
   post: {
@@ -33,11 +73,16 @@ export interface DraftPromptInput {
     authorDisplayName: string;
     bodyText: string | null;
     postUrl: string | null;
+    media?: PromptMedia[];
+    // Every part of the author's self-thread when the post belongs to one; isReplyTarget marks this post.
+    selfThread?: Array<{ bodyText: string | null; isReplyTarget: boolean }>;
   };
+  // Replies in reading order; depth 0 answers the post, deeper entries answer the entry above them.
   topComments: Array<{
     authorHandle: string;
     authorDisplayName: string;
     bodyText: string | null;
+    depth?: number;
   }>;
   pastApprovedReplies: string[];
 }
@@ -0,0 +1,117 @@
+import type { z } from "zod";
+import crypto from "crypto";
+import { LLMError } from "../core/errors";
+import {
+  DraftGenerationOutputSchema,
+  PostTriageBatchOutputSchema,
+  PostTriageOutputSchema,
+} from "../domain/models";
+import type { LLMClient, LLMCallOptions } from "./contracts";
+import { parseJsonResponse } from "./response-parser";
+import { llmLedgerService } from "../services/llm-ledger.service";
+
+export type FakeResponder = (systemPrompt: string, userPrompt: string) => unknown;
+
+export const FAKE_DEFAULT_MODEL = "fake-deterministic";
+
+function promptSeed(userPrompt: string): number {
+  const digest = crypto.createHash("sha256").update(userPrompt).digest();
+  return digest.readUInt32BE(0);
+}
+
+function fakeTriage(_systemPrompt: string, userPrompt: string): unknown {
+  const score = promptSeed(userPrompt) % 101;
+  const label = score >= 75 ? "keep" : score >= 40 ? "maybe" : "drop";
+  return {
+    relevance_score: score,
+    relevance_label: label,
+    reasons: [`fake provider score ${score}`],
+    action: label === "keep" ? "reply" : label === "maybe" ? "save" : "ignore",
+    confidence: 0.5,
+  };
+}
+
+function fakeTriageBatch(systemPrompt: string, userPrompt: string): unknown {
+  const sections = userPrompt.split(/^### Post \d+$/m).slice(1);
+  const results = sections.flatMap((section) => {
+    const match = section.match(/^Post ID: (\d+)$/m);
+    if (!match) return [];
+    return [{ post_id: Number(match[1]), ...(fakeTriage(systemPrompt, section) as object) }];
+  });
+  return { results };
+}
+
+function fakeDrafts(_systemPrompt: string, userPrompt: string): unknown {
+  const seed = promptSeed(userPrompt).toString(16);
+  return {
+    options: [
+      { text: `Good point. (${seed}-1)`, tone: "agreeing" },
+      { text: `How did you get there? (${seed}-2)`, tone: "curious" },
+      { text: `Same here, lesson learned. (${seed}-3)`, tone: "relatable" },
+    ],
+  };
+}
+
+/**
+ * Offline provider that answers from the prompt hash, so repeated runs over
+ * the same posts produce the same scores and drafts without network access.
+ */
+export class FakeLLMClient implements LLMClient {
+  readonly provider = "fake";
+  readonly defaultModel = FAKE_DEFAULT_MODEL;
+  readonly calls: Array<{ systemPrompt: string; userPrompt: string; options?: LLMCallOptions }> = [];
+  private responders = new Map<z.ZodSchema<unknown>, FakeResponder>();
+
+  constructor() {
+    this.setResponder(PostTriageOutputSchema, fakeTriage);
+    this.setResponder(PostTriageBatchOutputSchema, fakeTriageBatch);
+    this.setResponder(DraftGenerationOutputSchema, fakeDrafts);
+  }
+
+  setResponder<T>(schema: z.ZodSchema<T>, responder: FakeResponder): void {
+    this.responders.set(schema as z.ZodSchema<unknown>, responder);
+  }
+
+  async complete<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    responseSchema: z.ZodSchema<T>,
+    options?: LLMCallOptions
+  ): Promise<T> {
+    this.calls.push({ systemPrompt, userPrompt, options });
+    const startedAt = Date.now();
+
+    try {
+      const responder = this.responders.get(responseSchema as z.ZodSchema<unknown>);
+      if (!responder) {
+        throw new LLMError("Fake provider has no responder for this schema", "fake_no_responder");
+      }
+
+      const parsed = parseJsonResponse(JSON.stringify(responder(systemPrompt, userPrompt)), responseSchema);
+      if (options?.context) {
+        await llmLedgerService.record({
+          context: options.context,
+          provider: this.provider,
+          model: options.model ?? this.defaultModel,
+          usage: null,
+          latencyMs: Date.now() - startedAt,
+          attempts: 1,
+        });
+      }
+      return parsed;
+    } catch (error) {
+      if (options?.context) {
+        await llmLedgerService.record({
+          context: options.context,
+          provider: this.provider,
+          model: options.model ?? this.defaultModel,
+          usage: null,
+          latencyMs: Date.now() - startedAt,
+          attempts: 1,
+          error,
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import type { z } from "zod";
+import OpenAI from "openai";
+import { logger } from "../core/logger";
+import { LLMError } from "../core/errors";
+import { retryWithBackoff } from "../core/retry";
+import { RateLimiter, parseRetryAfterMs } from "../core/concurrency";
+import type { LLMClient, LLMCallOptions, LLMUsage } from "./contracts";
+import { parseJsonResponse } from "./response-parser";
+import { llmLedgerService } from "../services/llm-ledger.service";
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_TOKENS = 2048;
+const DEFAULT_TEMPERATURE = 0.3;
+
+export interface OpenAICompatibleClientConfig {
+  provider: string;
+  apiKey: string;
+  baseURL: string;
+  model: string;
+  defaultHeaders?: Record<string, string>;
+  extraBody?: Record<string, unknown>;
+  requestsPerMinute?: number;
+}
+
+interface CompletionResult {
+  content: string;
+  usage: LLMUsage | null;
+}
+
+export class OpenAICompatibleClient implements LLMClient {
+  readonly provider: string;
+  readonly defaultModel: string;
+  private client: OpenAI;
+  private extraBody: Record<string, unknown>;
+  private rateLimiter: RateLimiter;
+
+  constructor(config: OpenAICompatibleClientConfig) {
+    this.provider = config.provider;
+    this.defaultModel = config.model;
+    this.extraBody = config.extraBody ?? {};
+    this.rateLimiter = new RateLimiter(config.requestsPerMinute ?? 0);
+    // Retries go through retryWithBackoff so they share the rate limiter and show up in the ledger.
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      defaultHeaders: config.defaultHeaders,
+      maxRetries: 0,
+    });
+  }
+
+  async complete<T>(
+    systemPrompt: string,
+    userPrompt: string,
+    responseSchema: z.ZodSchema<T>,
+    options?: LLMCallOptions
+  ): Promise<T> {
+    const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const temperature = options?.temperature ?? DEFAULT_TEMPERATURE;
+    const maxTokens = options?.maxTokens ?? DEFAULT_MAX_TOKENS;
+    const model = options?.model ?? this.defaultModel;
+
+    const startedAt = Date.now();
+    let attempts = 0;
+    let usage: LLMUsage | null = null;
+
+    const callWithRetry = () =>
+      retryWithBackoff(
+        () => {
+          attempts++;
+          return this.makeRequest(model, systemPrompt, userPrompt, temperature, maxTokens, timeoutMs);
+        },
+        {
+          maxAttempts: 3,
+          baseDelayMs: 1000,
+          maxDelayMs: 10000,
+          jitterMs: 500,
+        },
+        "llm_complete"
+      );
+
+    try {
+      const completion = await callWithRetry();
+      usage = completion.usage;
+      const parsed = parseJsonResponse(completion.content, responseSchema);
+      if (options?.context) {
+        await llmLedgerService.record({
+          context: options.context,
+          provider: this.provider,
+          model,
+          usage,
+          latencyMs: Date.now() - startedAt,
+          attempts,
+        });
+      }
+      return parsed;
+    } catch (error) {
+      if (options?.context) {
+        await llmLedgerService.record({
+          context: options.context,
+          provider: this.provider,
+          model,
+          usage,
+          latencyMs: Date.now() - startedAt,
+          attempts,
+          error,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async makeRequest(
+    model: string,
+    systemPrompt: string,
+    userPrompt: string,
+    temperature: number,
+    maxTokens: number,
+    timeoutMs: number
+  ): Promise<CompletionResult> {
+    await this.rateLimiter.acquire();
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const body = {
+        ...this.extraBody,
+        model,
+        messages: [
+          { role: "system" as const, content: systemPrompt },
+          { role: "user" as const, content: userPrompt },
+        ],
+        temperature,
+        max_tokens: maxTokens,
+      };
+      const response = await this.client.chat.completions.create(
+        body,
+        {
+          signal: controller.signal,
+        }
+      );
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new LLMError("No content in response", "empty_response");
+      }
+
+      // OpenRouter adds a `cost` field (in USD credits) to the usage block when usage accounting is requested.
+      const rawUsage = response.usage as (OpenAI.CompletionUsage & { cost?: number }) | undefined;
+      const usage: LLMUsage | null = rawUsage
+        ? {
+            promptTokens: rawUsage.prompt_tokens ?? null,
+            completionTokens: rawUsage.completion_tokens ?? null,
+            totalTokens: rawUsage.total_tokens ?? null,
+            costUsd: typeof rawUsage.cost === "number" ? rawUsage.cost : null,
+          }
+        : null;
+
+      return { content, usage };
+    } catch (error) {
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new LLMError("Request timed out", "timeout");
+      }
+      if (error instanceof OpenAI.APIError) {
+        logger.error({ provider: this.provider, status: error.status, message: error.message }, "LLM API error");
+        if (error.status === 429) {
+          const retryAfterMs = parseRetryAfterMs(error.headers?.get("retry-after"));
+          if (retryAfterMs !== null) {
+            this.rateLimiter.pauseFor(retryAfterMs);
+          }
+        }
+        throw new LLMError(`${this.provider} API error: ${error.status}`, `api_error_${error.status}`);
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new LLMError(`Request failed: ${message}`, "request_failed");
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -1,7 +1,8 @@
 import type { DraftPromptInput, DraftOutput } from "../contracts";
 import { DraftGenerationOutputSchema } from "../../domain/models";
+import { formatMedia } from "./media";
 
-export const DRAFT_PROMPT_VERSION = "v2";
+export const DRAFT_PROMPT_VERSION = "v4";
 
 export function buildDraftSystemPrompt(): string {
   return `You write natural, authentic replies to social media posts.
@@ -10,8 +11,8 @@ Your goal: Sound like a real human — brief, direct, natural. Not an AI assista
 
 You will be given:
 1. An engagement policy (topics, goals, tone, things to avoid)
-2. The original post you're replying to
-3. Top comments for context
+2. The original post you're replying to (and the rest of the author's thread, if it is part of one)
+3. The conversation under the post, with nested replies indented
 4. Examples of previously approved replies
 
 Write replies that:
@@ -71,7 +72,7 @@ ${policySection}
 
 ${postSection}
 
-## Top Comments for Context
+## Conversation So Far
 
 ${commentsSection}
 
@@ -109,10 +110,19 @@ function formatPost(post: DraftPromptInput["post"]): string {
   const authorInfo = `@${post.authorHandle} (${post.authorDisplayName})`;
   const content = post.bodyText || "(no text content)";
   const url = post.postUrl || "(no URL)";
+  const media = formatMedia(post.media ?? []);
+  const selfThread = formatSelfThread(post.selfThread ?? []);
 
   return `Author: ${authorInfo}
-Content: ${content}
-URL: ${url}`;
+Content: ${content}${media ? `\nMedia: ${media}` : ""}
+URL: ${url}${selfThread ? `\n\nThis post is part of a thread by the same author:\n${selfThread}` : ""}`;
+}
+
+function formatSelfThread(parts: NonNullable<DraftPromptInput["post"]["selfThread"]>): string {
+  if (parts.length < 2) return "";
+  return parts
+    .map((part, i) => `${i + 1}/${parts.length}${part.isReplyTarget ? " (you are replying to this part)" : ""}: ${part.bodyText || "(no text)"}`)
+    .join("\n");
 }
 
 function formatComments(comments: DraftPromptInput["topComments"]): string {
@@ -120,11 +130,14 @@ function formatComments(comments: DraftPromptInput["topComments"]): string {
     return "(no comments available)";
   }
 
+  let topLevel = 0;
   return comments
-    .map((c, i) => {
+    .map((c) => {
       const author = `@${c.authorHandle}`;
       const content = c.bodyText || "(no text)";
-      return `${i + 1}. ${author}: ${content}`;
+      const depth = c.depth ?? 0;
+      if (depth === 0) return `${++topLevel}. ${author}: ${content}`;
+      return `${"   ".repeat(depth)}↳ ${author}: ${content}`;
     })
     .join("\n");
 }
@@ -0,0 +1,13 @@
+import type { PromptMedia } from "../contracts";
+
+// Models only get a summary of attached media, never the files themselves.
+export function formatMedia(media: PromptMedia[]): string {
+  if (media.length === 0) return "";
+  const images = media.filter((m) => m.mediaType === "image").length;
+  const videos = media.length - images;
+  const parts = [
+    images > 0 ? `${images} image${images === 1 ? "" : "s"}` : null,
+    videos > 0 ? `${videos} video${videos === 1 ? "" : "s"}` : null,
+  ].filter(Boolean);
+  return `${parts.join(", ")} attached (not shown to you)`;
+}
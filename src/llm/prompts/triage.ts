@@ -1,7 +1,9 @@
-import type { TriagePromptInput, TriageOutput } from "../contracts";
-import { PostTriageOutputSchema } from "../../domain/models";
+import type { TriagePromptInput, TriageBatchPromptInput, TriageOutput, PromptAuthorProfile } from "../contracts";
+import { PostTriageOutputSchema, PostTriageBatchOutputSchema } from "../../domain/models";
+import { formatMedia } from "./media";
 
-export const TRIAGE_PROMPT_VERSION = "v1";
+export const TRIAGE_PROMPT_VERSION = "v3";
+export const TRIAGE_BATCH_PROMPT_VERSION = "v3-batch";
 
 export function buildTriageSystemPrompt(): string {
   return `You are an expert social media engagement strategist. Your task is to analyze posts and determine their relevance for engagement.
@@ -24,6 +26,7 @@ Scoring guidelines:
 - relevance_label: "keep" (score 75+), "maybe" (score 40-74), "drop" (score <40)
 - action: "reply" for direct engagement, "quote" for boosting, "save" for later, "ignore" for not relevant
 - confidence: how certain you are in your assessment (0-1)
+- author reach (when given): a large or verified audience makes a relevant post more worth engaging with, but never makes an off-policy post relevant
 
 Respond ONLY with valid JSON. No explanation text outside the JSON.`;
 }
@@ -45,6 +48,60 @@ ${postSection}
 Provide your JSON response:`;
 }
 
+export function buildTriageBatchSystemPrompt(): string {
+  return `You are an expert social media engagement strategist. Your task is to analyze several posts and determine the relevance of each one for engagement.
+
+You will receive:
+1. An engagement policy with topics, goals, tone, and things to avoid
+2. A numbered list of social media posts, each with a Post ID
+
+Evaluate every post independently. Your output must be a JSON object with this exact structure:
+{
+  "results": [
+    {
+      "post_id": <the Post ID exactly as given>,
+      "relevance_score": <number 0-100>,
+      "relevance_label": <"keep" | "maybe" | "drop">,
+      "reasons": <array of short strings explaining your decision>,
+      "action": <"reply" | "quote" | "save" | "ignore">,
+      "confidence": <number 0-1>
+    }
+  ]
+}
+
+Include exactly one entry per post.
+
+Scoring guidelines:
+- relevance_score: 0-100 where 100 is perfectly aligned with policy
+- relevance_label: "keep" (score 75+), "maybe" (score 40-74), "drop" (score <40)
+- action: "reply" for direct engagement, "quote" for boosting, "save" for later, "ignore" for not relevant
+- confidence: how certain you are in your assessment (0-1)
+- author reach (when given): a large or verified audience makes a relevant post more worth engaging with, but never makes an off-policy post relevant
+
+Respond ONLY with valid JSON. No explanation text outside the JSON.`;
+}
+
+export function buildTriageBatchUserPrompt(input: TriageBatchPromptInput): string {
+  const policySection = formatPolicy(input.policy);
+  const postsSection = input.posts
+    .map((post, index) => `### Post ${index + 1}
+Post ID: ${post.postId}
+${formatPost(post)}`)
+    .join("\n\n");
+
+  return `## Engagement Policy
+
+${policySection}
+
+## Posts to Evaluate
+
+${postsSection}
+
+## Your Assessment
+
+Provide your JSON response:`;
+}
+
 function formatPolicy(policy: TriagePromptInput["policy"]): string {
   const topics = policy.topics.length > 0 ? policy.topics.join(", ") : "(none specified)";
   const goals = policy.goals.length > 0 ? policy.goals.join(", ") : "(none specified)";
@@ -62,14 +119,39 @@ function formatPost(post: TriagePromptInput["post"]): string {
   const authorInfo = `@${post.authorHandle} (${post.authorDisplayName})`;
   const content = post.bodyText || "(no text content)";
   const url = post.postUrl || "(no URL)";
+  const media = formatMedia(post.media ?? []);
+  const reach = post.author ? formatAuthorReach(post.author) : "";
 
-  return `Author: ${authorInfo}
-Content: ${content}
+  return `Author: ${authorInfo}${reach ? `\nAuthor reach: ${reach}` : ""}
+Content: ${content}${media ? `\nMedia: ${media}` : ""}
 URL: ${url}`;
 }
 
+function formatAuthorReach(author: PromptAuthorProfile): string {
+  const parts = [
+    author.followerCount !== null ? `${author.followerCount.toLocaleString("en-US")} followers` : null,
+    author.isVerified === null ? null : author.isVerified ? "verified" : "not verified",
+  ].filter(Boolean);
+  return parts.join(", ");
+}
+
+/** Prompt-facing view of a stored author; undefined when the author is unknown. */
+export function toPromptAuthor(
+  author: { followerCount: number | null; isVerified: number | null } | null | undefined
+): PromptAuthorProfile | undefined {
+  if (!author) return undefined;
+  return {
+    followerCount: author.followerCount,
+    isVerified: author.isVerified === null ? null : author.isVerified === 1,
+  };
+}
+
 export function triagePromptSchema() {
   return PostTriageOutputSchema;
 }
 
+export function triageBatchPromptSchema() {
+  return PostTriageBatchOutputSchema;
+}
+
 export type { TriageOutput };
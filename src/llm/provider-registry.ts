@@ -0,0 +1,109 @@
+import { env } from "../core/config";
+import { LLMError } from "../core/errors";
+import type { StageLlmSettings } from "../domain/models";
+import type { LLMClient, LLMProviderName, LLMStage } from "./contracts";
+import { OpenRouterClient } from "./openrouter-client";
+import { OpenAICompatibleClient } from "./openai-compatible-client";
+import { FakeLLMClient } from "./fake-client";
+
+export type LLMClientFactory = () => LLMClient;
+
+export interface ResolvedLLM {
+  client: LLMClient;
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export const STAGE_LLM_DEFAULTS: Record<LLMStage, { temperature: number; maxTokens: number }> = {
+  triage: { temperature: 0.3, maxTokens: 512 },
+  draft: { temperature: 0.7, maxTokens: 1024 },
+};
+
+export function getEnvStageSettings(stage: LLMStage): StageLlmSettings {
+  return {
+    provider: stage === "triage" ? env.LLM_TRIAGE_PROVIDER : env.LLM_DRAFT_PROVIDER,
+    model: (stage === "triage" ? env.LLM_TRIAGE_MODEL : env.LLM_DRAFT_MODEL) || null,
+    temperature: STAGE_LLM_DEFAULTS[stage].temperature,
+    maxTokens: STAGE_LLM_DEFAULTS[stage].maxTokens,
+  };
+}
+
+export class LLMProviderRegistry {
+  private factories = new Map<string, LLMClientFactory>();
+  private instances = new Map<string, LLMClient>();
+
+  register(name: string, factory: LLMClientFactory): void {
+    this.factories.set(name, factory);
+    this.instances.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  listProviders(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  // Clients are built on first use so a missing API key only fails the stage that needs it.
+  get(name: string): LLMClient {
+    const existing = this.instances.get(name);
+    if (existing) return existing;
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new LLMError(`Unknown LLM provider: ${name}`, "unknown_provider");
+    }
+
+    const client = factory();
+    this.instances.set(name, client);
+    return client;
+  }
+
+  resolve(provider: string, model?: string | null): Pick<ResolvedLLM, "client" | "provider" | "model"> {
+    const client = this.get(provider);
+    return { client, provider, model: model || client.defaultModel };
+  }
+
+  // Settings frozen into a policy snapshot win over env config, which wins over stage defaults.
+  forStage(stage: LLMStage, overrides?: Partial<StageLlmSettings> | null): ResolvedLLM {
+    const base = getEnvStageSettings(stage);
+    const { client, provider, model } = this.resolve(
+      overrides?.provider || base.provider!,
+      overrides?.model || base.model,
+    );
+
+    return {
+      client,
+      provider,
+      model,
+      temperature: overrides?.temperature ?? STAGE_LLM_DEFAULTS[stage].temperature,
+      maxTokens: overrides?.maxTokens ?? STAGE_LLM_DEFAULTS[stage].maxTokens,
+    };
+  }
+}
+
+export function createDefaultRegistry(): LLMProviderRegistry {
+  const registry = new LLMProviderRegistry();
+  const builtIn: Record<LLMProviderName, LLMClientFactory> = {
+    openrouter: () => new OpenRouterClient(),
+    openai_compatible: () =>
+      new OpenAICompatibleClient({
+        provider: "openai_compatible",
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+        baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+        model: env.OPENAI_COMPATIBLE_MODEL,
+        requestsPerMinute: env.OPENAI_COMPATIBLE_RATE_LIMIT_RPM,
+      }),
+    fake: () => new FakeLLMClient(),
+  };
+
+  for (const [name, factory] of Object.entries(builtIn)) {
+    registry.register(name, factory);
+  }
+  return registry;
+}
+
+export const llmProviderRegistry = createDefaultRegistry();
@@ -0,0 +1,41 @@
+import type { z } from "zod";
+import { logger } from "../core/logger";
+import { LLMError } from "../core/errors";
+
+export function parseJsonResponse<T>(rawContent: string, schema: z.ZodSchema<T>): T {
+  let parsed: unknown;
+  let jsonStr = rawContent.trim();
+
+  if (jsonStr.startsWith("```")) {
+    const lines = jsonStr.split("\n");
+    if (lines[0] && lines[0].startsWith("```")) {
+      lines.shift();
+    }
+    const lastLine = lines[lines.length - 1];
+    if (lastLine && lastLine.startsWith("```")) {
+      lines.pop();
+    }
+    jsonStr = lines.join("\n").trim();
+  }
+
+  try {
+    parsed = JSON.parse(jsonStr);
+  } catch {
+    logger.error({ rawContent, cleaned: jsonStr }, "Failed to parse LLM response as JSON");
+    throw new LLMError("Failed to parse response as JSON", "parse_error");
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    logger.debug(
+      { error: result.error.message, parsed },
+      "LLM response validation failed"
+    );
+    throw new LLMError(
+      `Response validation failed: ${result.error.message}`,
+      "validation_error"
+    );
+  }
+
+  return result.data;
+}
@@ -1,5 +1,6 @@
-import { chromium, type Browser, type BrowserContext, type Page } from "playwright";
-import type { Account } from "../db/schema";
+import { chromium, type Browser, type BrowserContext, type LaunchOptions, type Page } from "playwright";
+import type { Account, Post } from "../db/schema";
+import type { CollectedPost, FeedTab } from "../domain/models";
 import type { ScrapeContext, CollectPostOptions, CollectCommentOptions } from "../domain/scrape-types";
 import type { PlatformAdapter } from "../platforms/adapter";
 import { AuthError, NavigationError } from "../core/errors";
@@ -11,77 +12,179 @@ import { postsRepo } from "../db/repositories/posts.repo";
 import { commentsRepo } from "../db/repositories/comments.repo";
 import { metricsRepo } from "../db/repositories/metrics.repo";
 import { snapshotsRepo } from "../db/repositories/snapshots.repo";
+import { notificationsRepo } from "../db/repositories/notifications.repo";
+import { authorsRepo } from "../db/repositories/authors.repo";
+import { scrapeCursorsRepo } from "../db/repositories/scrape-cursors.repo";
+import { advanceCursor, type SourceCursor } from "../domain/incremental-scrape";
+import type { QuotaExhaustion } from "../domain/pacing";
+import { orderParentsFirst } from "../domain/thread-tree";
+import { mediaStoreService } from "../services/media-store.service";
+import { accountProxyService } from "../services/account-proxy.service";
+import { browserProfileService } from "../services/browser-profile.service";
+import { PacingGovernor, type PacingGovernorOptions } from "../services/pacing-governor";
+import { runArtifactsService, type RunArtifactsService } from "../services/run-artifacts.service";
+import { egressRateLimiters } from "../services/egress-rate-limiter";
 import { env } from "../core/config";
 import { getRequiredStorageState, hasSessionState } from "../services/playwright-session-state";
 import {
   launchPersistentContext,
+  newAccountContext,
   closeContextSafely,
   detectBlockChallenge,
   hydrateContextFromStorageState,
 } from "../services/browser-session";
+import {
+  PageCaptureRecorder,
+  installReplayRoutes,
+  loadPageCaptures,
+  type PageCaptureOptions,
+} from "../services/page-capture";
 
 export interface ScrapeResult {
   postsFound: number;
+  // postsFound split by whether the post was already stored before this run.
+  postsNew: number;
+  postsReseen: number;
   commentsFound: number;
+  notificationsFound: number;
   snapshotsWritten: number;
+  // Set when the account ran out of its pacing budget; whatever was collected before that is kept.
+  quotaExhausted?: QuotaExhaustion;
+  // The block/challenge page that stopped the scrape (error code BLOCK_CHALLENGE_DETECTED).
+  blockDetected?: { reason: string; url: string };
   error?: { code: string; message: string };
 }
 
-async function closeContextWithTimeout(
-  context: BrowserContext | null,
+export interface AccountScrapeOptions {
+  collectHome: boolean;
+  collectProfiles: boolean;
+  profileHandles: string[];
+  searchQueries: string[];
+  feedTabs?: FeedTab[];
+  tags?: string[];
+  // Posts re-read from their own page on every run, e.g. to keep tracking their metrics.
+  postUrls?: string[];
+  collectNotifications?: boolean;
+  maxPostsPerRun?: number;
+  capture?: PageCaptureOptions;
+  // Stop scrolling each source once it reaches posts collected on earlier runs.
+  incremental?: boolean;
+  // Aborting (e.g. on the account timeout) saves failure artifacts and closes the browser; the abort reason becomes the error.
+  signal?: AbortSignal;
+}
+
+export interface AccountScrapeRunnerDeps {
+  launchBrowser?: (options: LaunchOptions) => Promise<Browser>;
+  artifacts?: RunArtifactsService;
+  // Limits, clock and sleep for the account's PacingGovernor; the egress limiter is always the shared one.
+  pacing?: Omit<PacingGovernorOptions, "egressLimiter">;
+}
+
+// Recently seen post IDs handed to adapters on incremental runs to recognize re-seen posts.
+const KNOWN_POST_IDS_LIMIT = 2000;
+
+// Artifacts and browser closes after a failure or abort may hang on a stuck page; the run moves on without them.
+const ARTIFACTS_TEARDOWN_TIMEOUT_MS = 15_000;
+const CLOSE_TEARDOWN_TIMEOUT_MS = 5000;
+
+async function settleWithTimeout(
+  work: () => Promise<unknown>,
   accountId: number,
-  timeoutMs = 5000,
+  step: string,
+  timeoutMs: number,
 ): Promise<void> {
-  if (!context) return;
-
   let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
   await Promise.race([
-    closeContextSafely(context),
-    new Promise<void>((resolve) =>
-      setTimeout(() => {
+    Promise.resolve().then(work).catch(() => {}),
+    new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
         timedOut = true;
         resolve();
-      }, timeoutMs),
-    ),
+      }, timeoutMs);
+    }),
   ]);
+  clearTimeout(timer);
 
   if (timedOut) {
-    logger.warn({ accountId, timeoutMs }, "Timed out while closing persistent context; continuing with fallback");
+    logger.warn({ accountId, step, timeoutMs }, "Timed out during browser teardown; continuing");
   }
 }
 
 export class AccountScrapeRunner {
+  private launchBrowser: (options: LaunchOptions) => Promise<Browser>;
+  private artifacts: RunArtifactsService;
+  private pacing: Omit<PacingGovernorOptions, "egressLimiter">;
+
   constructor(
     private account: Account,
     private adapter: PlatformAdapter,
-    private runAccountId: number
-  ) {}
-
-  async run(options: {
-    collectHome: boolean;
-    collectProfiles: boolean;
-    profileHandles: string[];
-    searchQueries: string[];
-    maxPostsPerRun?: number;
-  }): Promise<ScrapeResult> {
+    private runAccountId: number,
+    deps: AccountScrapeRunnerDeps = {}
+  ) {
+    this.launchBrowser = deps.launchBrowser ?? ((options) => chromium.launch(options));
+    this.artifacts = deps.artifacts ?? runArtifactsService;
+    this.pacing = deps.pacing ?? {};
+  }
+
+  async run(options: AccountScrapeOptions): Promise<ScrapeResult> {
     logger.info({ accountId: this.account.id, handle: this.account.handle }, "Starting account scrape");
+    const { signal } = options;
 
     let browser: Browser | null = null;
     let context: BrowserContext | null = null;
     let page: Page | null = null;
     let usePersistentContext = false;
 
+    const runStartedAt = Math.floor(Date.now() / 1000);
     const result: ScrapeResult = {
       postsFound: 0,
+      postsNew: 0,
+      postsReseen: 0,
       commentsFound: 0,
+      notificationsFound: 0,
       snapshotsWritten: 0,
     };
 
+    const isReplay = options.capture?.mode === "replay";
+    // Replays never touch the site, so they neither spend nor respect the account's budget.
+    const pacer = isReplay
+      ? null
+      : new PacingGovernor(this.account.id, { ...this.pacing, egressLimiter: egressRateLimiters.forAccount(this.account) });
+    const recorder =
+      options.capture?.mode === "record" ? new PageCaptureRecorder(options.capture.dir, this.account.platform) : null;
+
+    // Screenshot, DOM and trace have to be taken while the browser is still open, and only once per run account.
+    let artifactsSaved: Promise<unknown> | null = null;
+    const saveArtifacts = (failed: boolean) =>
+      (artifactsSaved ??= this.artifacts.collect(this.runAccountId, { context, page, failed }).catch((error) => {
+        logger.warn({ accountId: this.account.id, error }, "Failed to collect run artifacts");
+      }));
+    const closeBrowser = async () => {
+      const accountId = this.account.id;
+      if (page) await settleWithTimeout(() => page!.close(), accountId, "close page", CLOSE_TEARDOWN_TIMEOUT_MS);
+      if (usePersistentContext) {
+        await settleWithTimeout(() => closeContextSafely(context), accountId, "close persistent context", CLOSE_TEARDOWN_TIMEOUT_MS);
+      } else {
+        if (context) await settleWithTimeout(() => context!.close(), accountId, "close context", CLOSE_TEARDOWN_TIMEOUT_MS);
+        if (browser) await settleWithTimeout(() => browser!.close(), accountId, "close browser", CLOSE_TEARDOWN_TIMEOUT_MS);
+      }
+    };
+    // Closing the browser makes whatever the adapter is waiting on fail, so run() settles soon after.
+    const onAbort = () => {
+      logger.warn({ accountId: this.account.id, reason: String(signal?.reason) }, "Account scrape aborted; closing its browser");
+      void saveArtifacts(true).then(closeBrowser);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     try {
-      const useThreadsPersistent = this.account.platform === "threads";
+      signal?.throwIfAborted();
+      const useThreadsPersistent = this.account.platform === "threads" && !isReplay;
       const storageStateForFallback = hasSessionState(this.account)
         ? getRequiredStorageState(this.account)
         : null;
+      const proxy = accountProxyService.getBrowserProxy(this.account);
+      const browserProfile = isReplay ? undefined : await browserProfileService.getOrCreate(this.account);
 
       if (useThreadsPersistent) {
         try {
@@ -92,6 +195,8 @@ export class AccountScrapeRunner {
               headless: env.PLAYWRIGHT_HEADLESS,
               slowMo: env.PLAYWRIGHT_SLOW_MO,
               storageState: storageStateForFallback ?? undefined,
+              proxy,
+              browserProfile,
             }
           );
           context = persistentResult.context;
@@ -116,19 +221,32 @@ export class AccountScrapeRunner {
         }
       }
 
-      if (!usePersistentContext) {
+      if (isReplay) {
+        const captures = await loadPageCaptures(options.capture!.dir, this.account.platform);
+        if (captures.length === 0) {
+          throw new NavigationError(
+            `No page captures found in ${options.capture!.dir} for ${this.account.platform}`,
+            "REPLAY_CAPTURES_MISSING"
+          );
+        }
+
+        browser = await this.launchBrowser({ headless: env.PLAYWRIGHT_HEADLESS });
+        context = await browser.newContext();
+        await installReplayRoutes(context, captures);
+        page = await context.newPage();
+        logger.info({ accountId: this.account.id, captures: captures.length }, "Replaying recorded page captures");
+      } else if (!usePersistentContext) {
         if (!storageStateForFallback) {
           throw new AuthError("Session state not found in database", "SESSION_STATE_MISSING");
         }
 
-        browser = await chromium.launch({
+        browser = await this.launchBrowser({
           headless: env.PLAYWRIGHT_HEADLESS,
           slowMo: env.PLAYWRIGHT_SLOW_MO,
+          proxy,
         });
 
-        context = await browser.newContext({
-          storageState: storageStateForFallback as any,
-        });
+        context = await newAccountContext(browser, { storageState: storageStateForFallback, browserProfile });
 
         page = await context.newPage();
       }
@@ -137,21 +255,14 @@ export class AccountScrapeRunner {
         throw new NavigationError("Failed to create page", "PAGE_CREATION_FAILED");
       }
 
+      // An abort during launch found nothing to close yet; the finally block closes it now.
+      signal?.throwIfAborted();
+      if (context) await this.artifacts.startTracing(context);
+
       page.setDefaultNavigationTimeout(12000);
       page.setDefaultTimeout(12000);
 
-      const currentUrl = page.url();
-      const blockStatus = detectBlockChallenge(currentUrl);
-      if (blockStatus.isBlocked) {
-        logger.error(
-          { accountId: this.account.id, url: currentUrl, reason: blockStatus.reason, stage: "page_setup" },
-          "Block/challenge detected on page URL"
-        );
-        throw new AuthError(
-          `Block/challenge detected: ${blockStatus.reason}`,
-          "BLOCK_CHALLENGE_DETECTED"
-        );
-      }
+      this.assertNotBlocked(page, "page_setup", result);
 
       let authState = await this.adapter.validateSession(page);
       if (!authState.isValid && usePersistentContext && storageStateForFallback && context) {
@@ -178,32 +289,108 @@ export class AccountScrapeRunner {
 
       const postOptions: CollectPostOptions = {
         maxPosts: options.maxPostsPerRun ?? env.SCRAPER_MAX_POSTS_PER_RUN,
+        pacer: pacer ?? undefined,
       };
+      await pacer?.pruneExpired();
+
+      const cursors = await this.loadCursors();
+      const knownPostIds = options.incremental
+        ? new Set(await postsRepo.listRecentPlatformPostIds(this.account.platform, KNOWN_POST_IDS_LIMIT))
+        : null;
+      const sourceOptions = (source: string): CollectPostOptions =>
+        knownPostIds
+          ? {
+              ...postOptions,
+              incremental: {
+                cursor: cursors.get(source) ?? null,
+                knownPostIds,
+                stopAfterKnown: env.SCRAPER_INCREMENTAL_STOP_AFTER_KNOWN,
+              },
+            }
+          : postOptions;
 
       const collectedPosts: any[] = [];
+      const postsBySource = new Map<string, CollectedPost[]>();
 
       if (options.collectHome) {
-        const homePosts = await this.adapter.collectHome(page, postOptions);
+        const homePosts = await this.untilQuota(pacer, [], () =>
+          this.withCapture(recorder, page!, "home", (p) => this.adapter.collectHome(p, sourceOptions("home")))
+        );
+        this.assertNotBlocked(page, "home", result);
+        postsBySource.set("home", homePosts);
         collectedPosts.push(...homePosts);
-        await actionDelay();
+        await this.pause(pacer);
       }
 
-      if (options.collectProfiles) {
+      if (options.collectProfiles && !pacer?.exhausted) {
         const handles = [this.account.handle, ...options.profileHandles]
           .map((handle) => handle.replace(/^@/, "").trim())
           .filter((handle, index, arr) => handle.length > 0 && arr.indexOf(handle) === index);
 
         for (const handle of handles) {
-          const profilePosts = await this.adapter.collectProfileByHandle(page, handle, postOptions);
+          if (pacer?.exhausted) break;
+          const source = `profile:${handle}`;
+          const profilePosts = await this.untilQuota(pacer, [], () =>
+            this.withCapture(recorder, page!, source, (p) =>
+              this.adapter.collectProfileByHandle(p, handle, sourceOptions(source))
+            )
+          );
+          this.assertNotBlocked(page, source, result);
+          postsBySource.set(source, profilePosts);
           collectedPosts.push(...profilePosts);
-          await actionDelay();
+          await this.pause(pacer);
         }
       }
 
       for (const query of options.searchQueries) {
-        const searchPosts = await this.adapter.collectSearch(page, query, postOptions);
+        if (pacer?.exhausted) break;
+        const source = `search:${query}`;
+        const searchPosts = await this.untilQuota(pacer, [], () =>
+          this.withCapture(recorder, page!, source, (p) => this.adapter.collectSearch(p, query, sourceOptions(source)))
+        );
+        this.assertNotBlocked(page, source, result);
+        postsBySource.set(source, searchPosts);
         collectedPosts.push(...searchPosts);
-        await actionDelay();
+        await this.pause(pacer);
+      }
+
+      const collectOptionalSource = async (
+        source: string,
+        collect: ((page: Page) => Promise<CollectedPost[]>) | null,
+        trackCursor = true
+      ): Promise<void> => {
+        if (pacer?.exhausted) return;
+        if (!collect) {
+          logger.warn({ platform: this.adapter.platform, source }, "Adapter does not support this source; skipping");
+          return;
+        }
+        const posts = await this.untilQuota(pacer, [], () => this.withCapture(recorder, page!, source, collect));
+        this.assertNotBlocked(page!, source, result);
+        if (trackCursor) postsBySource.set(source, posts);
+        collectedPosts.push(...posts);
+        await this.pause(pacer);
+      };
+
+      for (const tab of options.feedTabs ?? []) {
+        const source = `feed:${tab}`;
+        const collectFeedTab = this.adapter.collectFeedTab?.bind(this.adapter);
+        await collectOptionalSource(source, collectFeedTab ? (p) => collectFeedTab(p, tab, sourceOptions(source)) : null);
+      }
+
+      for (const tag of options.tags ?? []) {
+        const source = `tag:${tag.replace(/^#/, "").trim()}`;
+        const collectTag = this.adapter.collectTag?.bind(this.adapter);
+        await collectOptionalSource(source, collectTag ? (p) => collectTag(p, tag, sourceOptions(source)) : null);
+      }
+
+      // One source per URL so each post page gets its own capture and block check; a fixed list has no cursor.
+      for (const postUrl of options.postUrls ?? []) {
+        const collectPostsByUrl = this.adapter.collectPostsByUrl?.bind(this.adapter);
+        await collectOptionalSource(
+          `post:${postUrl}`,
+          collectPostsByUrl ? (p) => collectPostsByUrl(p, [postUrl], postOptions) : null,
+          false
+        );
       }
 
       const uniquePosts = this.deduplicatePosts(collectedPosts);
@@ -212,6 +399,7 @@ export class AccountScrapeRunner {
       const postIdByPlatformPostId = new Map<string, number>();
 
       for (const post of uniquePosts) {
+        signal?.throwIfAborted();
         post.contentHash = computeContentHash(post.bodyText || "", post.mediaUrls);
 
         const postRecord = await postsRepo.create({
@@ -230,18 +418,21 @@ export class AccountScrapeRunner {
         });
 
         if (postRecord) {
+          this.countPost(result, postRecord, runStartedAt);
+          await authorsRepo.recordSeen(this.account.platform, post.authorHandle, post.authorDisplayName, postRecord.lastSeenAt);
           if (post.platformPostId) {
             postIdByPlatformPostId.set(post.platformPostId, postRecord.id);
           }
+          await this.persistMedia(postRecord.id, post.mediaUrls);
 
           result.snapshotsWritten++;
 
           // Extract metrics with bounded navigation timeouts in adapter
           type MetricSnapshot = { likesCount: number | null; repliesCount: number | null; repostsCount: number | null; viewsCount: number | null };
           let metrics: MetricSnapshot = { likesCount: null, repliesCount: null, repostsCount: null, viewsCount: null };
-          if (metricsTimeoutStreak < 3) {
+          if (metricsTimeoutStreak < 3 && !pacer?.exhausted) {
             try {
-              metrics = await this.adapter.extractMetrics(page, "post", post.postUrl || "");
+              metrics = await this.adapter.extractMetrics(page, "post", post.postUrl || "", { pacer: pacer ?? undefined });
               metricsTimeoutStreak = 0;
             } catch (error: any) {
               if (error?.name === "TimeoutError") {
@@ -273,14 +464,33 @@ export class AccountScrapeRunner {
         }
       }
 
+      // Cursors only move after the posts behind them are stored, so a failed run is re-scraped in full.
+      await this.saveCursors(cursors, postsBySource);
+      this.assertNotBlocked(page, "metrics", result);
+
+      if (options.collectNotifications) {
+        await this.untilQuota(pacer, undefined, () =>
+          this.withCapture(recorder, page!, "notifications", (p) =>
+            this.collectNotifications(p, postOptions.maxPosts, postIdByPlatformPostId, result, runStartedAt, pacer)
+          )
+        );
+        this.assertNotBlocked(page, "notifications", result);
+      }
+
       const commentOptions: CollectCommentOptions = {
         maxComments: env.SCRAPER_MAX_COMMENTS_PER_THREAD,
+        pacer: pacer ?? undefined,
       };
       let commentMetricsTimeoutStreak = 0;
 
       for (const post of uniquePosts.slice(0, 10)) {
+        if (pacer?.exhausted) break;
+        signal?.throwIfAborted();
+        this.assertNotBlocked(page, "comments", result);
         try {
-          const comments = await this.adapter.expandThreadComments(page, post, commentOptions).catch((error) => {
+          const comments = await this.withCapture(recorder, page, `thread:${post.platformPostId ?? post.postUrl}`, (p) =>
+            this.adapter.expandThreadComments(p, post, commentOptions)
+          ).catch((error) => {
             logger.debug({ error, postUrl: post.postUrl }, "Comment extraction failed");
             return [];
           });
@@ -317,13 +527,15 @@ export class AccountScrapeRunner {
             continue;
           }
 
-          for (const comment of comments) {
+          for (const comment of orderParentsFirst(comments)) {
             comment.contentHash = computeContentHash(comment.bodyText || "", comment.mediaUrls);
+            const threading = await commentsRepo.resolveThreading(this.account.platform, comment.parentPlatformCommentId);
 
             const commentRecord = await commentsRepo.create({
               platform: this.account.platform,
               platformCommentId: comment.platformCommentId,
               parentPostId,
+              ...threading,
               authorHandle: comment.authorHandle,
               authorDisplayName: comment.authorDisplayName,
               bodyText: comment.bodyText,
@@ -337,12 +549,20 @@ export class AccountScrapeRunner {
 
             if (commentRecord) {
               result.snapshotsWritten++;
+              await authorsRepo.recordSeen(
+                this.account.platform,
+                comment.authorHandle,
+                comment.authorDisplayName,
+                commentRecord.lastSeenAt
+              );
 
               type CommentMetricSnapshot = { likesCount: number | null; repliesCount: number | null; repostsCount: number | null; viewsCount: number | null };
               let commentMetrics: CommentMetricSnapshot = { likesCount: null, repliesCount: null, repostsCount: null, viewsCount: null };
-              if (comment.commentUrl && commentMetricsTimeoutStreak < 3) {
+              if (comment.commentUrl && commentMetricsTimeoutStreak < 3 && !pacer?.exhausted) {
                 try {
-                  commentMetrics = await this.adapter.extractMetrics(page, "comment", comment.commentUrl);
+                  commentMetrics = await this.adapter.extractMetrics(page, "comment", comment.commentUrl, {
+                    pacer: pacer ?? undefined,
+                  });
                   commentMetricsTimeoutStreak = 0;
                 } catch (error: any) {
                   if (error?.name === "TimeoutError") {
@@ -386,39 +606,217 @@ export class AccountScrapeRunner {
         }
       }
 
+      this.assertNotBlocked(page, "comments", result);
+      signal?.throwIfAborted();
+
+      if (pacer?.exhaustion) {
+        result.quotaExhausted = pacer.exhaustion;
+        logger.warn(
+          { accountId: this.account.id, ...pacer.exhaustion, postsFound: result.postsFound },
+          "Account scrape stopped early: pacing quota exhausted"
+        );
+      }
+
       logger.info(
         {
           accountId: this.account.id,
           postsFound: result.postsFound,
+          postsNew: result.postsNew,
+          postsReseen: result.postsReseen,
           commentsFound: result.commentsFound,
+          notificationsFound: result.notificationsFound,
           snapshotsWritten: result.snapshotsWritten,
         },
         "Account scrape completed successfully"
       );
 
       return result;
-    } catch (error: any) {
+    } catch (caught: any) {
+      // After an abort the adapter fails on the closed page; report why it was closed instead.
+      const error = signal?.aborted ? signal.reason : caught;
       logger.error({ accountId: this.account.id, error }, "Account scrape failed");
       result.error = {
-        code: error.code || "UNKNOWN_ERROR",
-        message: error.message || "Unknown error occurred",
+        code: error?.code || "UNKNOWN_ERROR",
+        message: error?.message || "Unknown error occurred",
       };
       return result;
     } finally {
-      if (usePersistentContext) {
-        if (page) {
-          try {
-            await page.close().catch(() => {});
-          } catch {}
-        }
-        await closeContextWithTimeout(context, this.account.id);
-      } else {
-        if (page) await page.close().catch(() => {});
-        if (context) await context.close().catch(() => {});
-        if (browser) await browser.close().catch(() => {});
+      signal?.removeEventListener("abort", onAbort);
+      await settleWithTimeout(
+        () => saveArtifacts(result.error !== undefined),
+        this.account.id,
+        "save artifacts",
+        ARTIFACTS_TEARDOWN_TIMEOUT_MS,
+      );
+      await closeBrowser();
+      await applyCooldown(this.account.cooldownSeconds);
+    }
+  }
+
+  private async loadCursors(): Promise<Map<string, SourceCursor>> {
+    const rows = await scrapeCursorsRepo.findByAccountId(this.account.id);
+    return new Map(
+      rows.map((row) => [
+        row.source,
+        { newestPlatformPostId: row.newestPlatformPostId, newestPublishedAt: row.newestPublishedAt },
+      ])
+    );
+  }
+
+  private async saveCursors(cursors: Map<string, SourceCursor>, postsBySource: Map<string, CollectedPost[]>): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [source, posts] of postsBySource) {
+      const previous = cursors.get(source) ?? null;
+      const next = advanceCursor(previous, posts);
+      if (!next || next === previous) continue;
+      await scrapeCursorsRepo.upsert(this.account.id, source, next, now);
+    }
+  }
+
+  private countPost(result: ScrapeResult, postRecord: Post, runStartedAt: number): void {
+    if (postRecord.firstSeenAt < runStartedAt) {
+      result.postsReseen++;
+    } else {
+      result.postsNew++;
+    }
+  }
+
+  private async persistMedia(postId: number, mediaUrls: string[] | undefined): Promise<void> {
+    if (!mediaUrls || mediaUrls.length === 0) return;
+
+    try {
+      await mediaStoreService.syncForPost(postId, mediaUrls, Math.floor(Date.now() / 1000));
+      if (env.MEDIA_DOWNLOAD_ENABLED) {
+        await mediaStoreService.downloadForPost(postId);
       }
+    } catch (error) {
+      logger.warn({ error, postId }, "Failed to persist post media");
+    }
+  }
 
-      await applyCooldown(this.account.cooldownSeconds);
+  // Adapters only log block pages and carry on, so the runner checks where each step left the page.
+  private assertNotBlocked(page: Page, stage: string, result: ScrapeResult): void {
+    const url = page.url();
+    const blockStatus = detectBlockChallenge(url);
+    if (!blockStatus.isBlocked || !blockStatus.reason) return;
+
+    logger.error({ accountId: this.account.id, url, reason: blockStatus.reason, stage }, "Block/challenge detected on page URL");
+    result.blockDetected = { reason: blockStatus.reason, url };
+    throw new AuthError(`Block/challenge detected: ${blockStatus.reason}`, "BLOCK_CHALLENGE_DETECTED");
+  }
+
+  // A quota hit mid-source keeps everything stored so far; the remaining steps are skipped by the caller.
+  private async untilQuota<T>(pacer: PacingGovernor | null, fallback: T, collect: () => Promise<T>): Promise<T> {
+    if (pacer?.exhausted) return fallback;
+    try {
+      return await collect();
+    } catch (error) {
+      if (pacer?.exhausted) return fallback;
+      throw error;
+    }
+  }
+
+  private async pause(pacer: PacingGovernor | null): Promise<void> {
+    if (pacer) {
+      await pacer.delay();
+    } else {
+      await actionDelay();
+    }
+  }
+
+  private async withCapture<T>(
+    recorder: PageCaptureRecorder | null,
+    page: Page,
+    source: string,
+    collect: (page: Page) => Promise<T>
+  ): Promise<T> {
+    if (!recorder) return collect(page);
+
+    recorder.begin(page, source);
+    try {
+      return await collect(page);
+    } finally {
+      await recorder.end().catch((error) => {
+        logger.warn({ error, source }, "Failed to write page capture");
+      });
+    }
+  }
+
+  // Mentions, replies and quotes are stored as posts owned by this account so the pipeline triages them like any other post.
+  private async collectNotifications(
+    page: Page,
+    maxItems: number | undefined,
+    postIdByPlatformPostId: Map<string, number>,
+    result: ScrapeResult,
+    runStartedAt: number,
+    pacer: PacingGovernor | null
+  ): Promise<void> {
+    if (!this.adapter.collectNotifications) {
+      logger.warn({ platform: this.adapter.platform }, "Adapter does not support notification collection; skipping");
+      return;
+    }
+
+    const collected = await this.adapter.collectNotifications(page, this.account.handle, {
+      maxItems,
+      pacer: pacer ?? undefined,
+    });
+    await this.pause(pacer);
+
+    for (const notification of collected) {
+      const post = notification.post;
+      post.contentHash = computeContentHash(post.bodyText || "", post.mediaUrls);
+      const now = Math.floor(Date.now() / 1000);
+
+      let postId = post.platformPostId ? postIdByPlatformPostId.get(post.platformPostId) : undefined;
+      if (!postId) {
+        const postRecord = await postsRepo.create({
+          platform: this.account.platform,
+          platformPostId: post.platformPostId,
+          authorHandle: post.authorHandle,
+          authorDisplayName: post.authorDisplayName,
+          bodyText: post.bodyText,
+          contentHash: post.contentHash,
+          postUrl: post.postUrl,
+          threadRootPlatformPostId: post.threadRootPlatformPostId,
+          publishedAt: post.publishedAt,
+          firstSeenAt: now,
+          lastSeenAt: now,
+          sourceAccountId: this.account.id,
+        });
+        if (!postRecord) continue;
+
+        postId = postRecord.id;
+        await authorsRepo.recordSeen(this.account.platform, post.authorHandle, post.authorDisplayName, now);
+        await this.persistMedia(postId, post.mediaUrls);
+        if (post.platformPostId) postIdByPlatformPostId.set(post.platformPostId, postId);
+        result.postsFound++;
+        this.countPost(result, postRecord, runStartedAt);
+      }
+
+      const { created } = await notificationsRepo.createOrSkip({
+        accountId: this.account.id,
+        platform: this.account.platform,
+        kind: notification.kind,
+        actorHandle: notification.actorHandle,
+        postId,
+        targetPlatformPostId: notification.targetPlatformPostId,
+        occurredAt: notification.occurredAt,
+        firstSeenAt: now,
+        runAccountId: this.runAccountId,
+      });
+      if (!created) continue;
+
+      result.notificationsFound++;
+      await snapshotsRepo.create({
+        entityType: "notification",
+        entityRef: `${notification.kind}:${post.platformPostId || `local-${postId}`}`,
+        platform: this.account.platform,
+        snapshotJson: JSON.stringify(notification),
+        snapshotHash: computeSnapshotHash(notification),
+        capturedAt: now,
+        runAccountId: this.runAccountId,
+      });
+      result.snapshotsWritten++;
     }
   }
 
@@ -1,8 +1,10 @@
 import { logger } from "../core/logger";
 import { env } from "../core/config";
 import { policySnapshotService } from "../services/policy-snapshot.service";
+import { prefilterStage } from "./stages/prefilter-stage";
 import { triageStage } from "./stages/triage-stage";
-import { selectionStage } from "./stages/selection-stage";
+import { selectionStage, getEnvSelectionConfig, resolveSelectionConfig } from "./stages/selection-stage";
+import type { SelectionOverrides } from "../domain/selection";
 import { deepScrapeStage } from "./stages/deep-scrape-stage";
 import { draftGenerationStage } from "./stages/draft-generation-stage";
 
@@ -10,26 +12,41 @@ export interface EngagementPipelineInput {
   runAccountId: number;
   accountId: number;
   generateDrafts?: boolean;
+  triageBatchSize?: number;
+  // Cron jobs can override the strategy frozen into the policy snapshot.
+  selectionOverrides?: SelectionOverrides;
 }
 
 export interface EngagementPipelineResult {
+  prefilter: {
+    totalPosts: number;
+    filteredPosts: number;
+  };
   triage: {
     totalPosts: number;
     triagedPosts: number;
     failedPosts: number;
+    cacheHits: number;
+    cacheMisses: number;
+    postsPerMinute: number;
   };
   selection: {
-    top20Count: number;
+    strategy: string | null;
+    selectedCount: number;
     selectedForDeepScrape: number;
   };
   deepScrape: {
     totalTasks: number;
     successCount: number;
     commentsCollected: number;
+    authorsEnriched: number;
+    quotaExhausted: boolean;
+    quarantined: boolean;
   };
   drafts: {
     totalPosts: number;
     draftsGenerated: number;
+    postsPerMinute: number;
   };
   errors: Array<{ stage: string; postId?: number; error: string }>;
 }
@@ -42,10 +59,11 @@ export class EngagementPipelineCoordinator {
     );
 
     const result: EngagementPipelineResult = {
-      triage: { totalPosts: 0, triagedPosts: 0, failedPosts: 0 },
-      selection: { top20Count: 0, selectedForDeepScrape: 0 },
-      deepScrape: { totalTasks: 0, successCount: 0, commentsCollected: 0 },
-      drafts: { totalPosts: 0, draftsGenerated: 0 },
+      prefilter: { totalPosts: 0, filteredPosts: 0 },
+      triage: { totalPosts: 0, triagedPosts: 0, failedPosts: 0, cacheHits: 0, cacheMisses: 0, postsPerMinute: 0 },
+      selection: { strategy: null, selectedCount: 0, selectedForDeepScrape: 0 },
+      deepScrape: { totalTasks: 0, successCount: 0, commentsCollected: 0, authorsEnriched: 0, quotaExhausted: false, quarantined: false },
+      drafts: { totalPosts: 0, draftsGenerated: 0, postsPerMinute: 0 },
       errors: [],
     };
 
@@ -56,15 +74,30 @@ export class EngagementPipelineCoordinator {
       );
 
       if (env.TRIAGE_ENABLED) {
+        const prefilterResult = await prefilterStage.run({
+          runAccountId: input.runAccountId,
+          accountId: input.accountId,
+          policy: policyJson,
+        });
+        result.prefilter = {
+          totalPosts: prefilterResult.totalPosts,
+          filteredPosts: prefilterResult.filteredPosts,
+        };
+
         const triageResult = await triageStage.run({
           runAccountId: input.runAccountId,
           accountId: input.accountId,
           policy: policyJson,
+          batchSize: input.triageBatchSize,
+          excludePostIds: prefilterResult.filteredPostIds,
         });
         result.triage = {
           totalPosts: triageResult.totalPosts,
           triagedPosts: triageResult.triagedPosts,
           failedPosts: triageResult.failedPosts,
+          cacheHits: triageResult.cacheHits,
+          cacheMisses: triageResult.cacheMisses,
+          postsPerMinute: triageResult.postsPerMinute,
         };
         for (const err of triageResult.errors) {
           result.errors.push({ stage: "triage", postId: err.postId, error: err.error });
@@ -73,9 +106,14 @@ export class EngagementPipelineCoordinator {
 
       const selectionResult = await selectionStage.run({
         runAccountId: input.runAccountId,
+        config: resolveSelectionConfig(
+          policyJson.selection ?? getEnvSelectionConfig(),
+          input.selectionOverrides
+        ),
       });
       result.selection = {
-        top20Count: selectionResult.top20Count,
+        strategy: selectionResult.strategy,
+        selectedCount: selectionResult.selectedCount,
         selectedForDeepScrape: selectionResult.selectedForDeepScrape,
       };
 
@@ -88,6 +126,9 @@ export class EngagementPipelineCoordinator {
           totalTasks: deepScrapeResult.totalTasks,
           successCount: deepScrapeResult.successCount,
           commentsCollected: deepScrapeResult.commentsCollected,
+          authorsEnriched: deepScrapeResult.authorsEnriched,
+          quotaExhausted: deepScrapeResult.quotaExhausted,
+          quarantined: deepScrapeResult.quarantined,
         };
         for (const err of deepScrapeResult.errors) {
           result.errors.push({ stage: "deepScrape", postId: err.postId, error: err.error });
@@ -103,6 +144,7 @@ export class EngagementPipelineCoordinator {
         result.drafts = {
           totalPosts: draftsResult.totalPosts,
           draftsGenerated: draftsResult.draftsGenerated,
+          postsPerMinute: draftsResult.postsPerMinute,
         };
         for (const err of draftsResult.errors) {
           result.errors.push({ stage: "drafts", postId: err.postId, error: err.error });
@@ -4,6 +4,7 @@ import { cronJobsRepo } from "../../db/repositories/cron-jobs.repo";
 import { accountsRepo } from "../../db/repositories/accounts.repo";
 import { scrapeCoordinator } from "../scrape-coordinator";
 import { engagementPipelineCoordinator } from "../engagement-pipeline-coordinator";
+import { accountQuarantineService } from "../../services/account-quarantine.service";
 import {
   parsePipelineConfig,
   getSourcesFromConfig,
@@ -51,12 +52,20 @@ export class CronJobExecutor {
     const logCtx = { cronJobId: cronJob.id, accountId: cronJob.accountId };
     logger.info(logCtx, "Starting cron job execution");
 
-    const account = await accountsRepo.findById(cronJob.accountId);
-    if (!account) {
+    const found = await accountsRepo.findById(cronJob.accountId);
+    if (!found) {
       const error = "Account not found";
       await cronJobsRepo.markJobFailed(cronJob.id, error);
       return { success: false, error };
     }
+    const account = await accountQuarantineService.releaseIfDue(found);
+
+    if (account.status === "quarantined") {
+      const error = accountQuarantineService.describe(account);
+      logger.warn({ ...logCtx, quarantinedUntil: account.quarantinedUntil }, "Skipping cron execution because account is quarantined");
+      await cronJobsRepo.markJobFailed(cronJob.id, error);
+      return { success: false, error };
+    }
 
     if (account.status !== "active") {
       const error = `Account ${account.id} is ${account.status}; re-authenticate or set status to active before cron scrape`;
@@ -94,7 +103,8 @@ export class CronJobExecutor {
 
         const outcome = await withTimeout(
           (async () => {
-            const { collectHome, profileHandles, searchQueries } = getSourcesFromConfig(config);
+            const { collectHome, profileHandles, searchQueries, feedTabs, tags, postUrls, collectNotifications } =
+              getSourcesFromConfig(config);
 
             const scrapeResult = await scrapeCoordinator.run({
               platform: account.platform as any,
@@ -104,10 +114,15 @@ export class CronJobExecutor {
               collectProfiles: profileHandles.length > 0,
               profileHandles,
               searchQueries,
+              feedTabs,
+              tags,
+              postUrls,
+              collectNotifications,
               maxPostsPerRun: config.maxPostsPerRun,
+              incremental: config.incremental,
             });
 
-            if (!scrapeResult || scrapeResult.accountsSucceeded === 0) {
+            if (!scrapeResult || scrapeResult.accountsSucceeded + scrapeResult.accountsQuotaExhausted === 0) {
               const error = scrapeResult?.errors?.[0]?.error || "Scrape failed";
               return { ok: false as const, scrapeRunId: scrapeResult?.runId, error };
             }
@@ -119,6 +134,8 @@ export class CronJobExecutor {
                   runAccountId: runAccount.id,
                   accountId: account.id,
                   generateDrafts: config.generateDrafts,
+                  triageBatchSize: config.triageBatchSize,
+                  selectionOverrides: config.selection,
                 });
               }
             }
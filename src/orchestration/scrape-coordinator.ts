@@ -1,25 +1,46 @@
-import type { Platform } from "../domain/models";
+import type { FeedTab, Platform } from "../domain/models";
 import { accountsRepo } from "../db/repositories/accounts.repo";
 import { runsRepo } from "../db/repositories/runs.repo";
 import { accountsRepo as accounts } from "../db/repositories/accounts.repo";
 import { ThreadsAdapter } from "../platforms/threads";
 import { XAdapter } from "../platforms/x";
+import type { Account } from "../db/schema";
+import type { PlatformAdapter } from "../platforms/adapter";
 import { AccountScrapeRunner } from "./account-scrape-runner";
+import type { PageCaptureOptions } from "../services/page-capture";
+import { accountQuarantineService } from "../services/account-quarantine.service";
+import { runArtifactsService } from "../services/run-artifacts.service";
 import { logger } from "../core/logger";
 import { env } from "../core/config";
+import { runWithConcurrency } from "../core/concurrency";
 
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutError: Error): Promise<T> {
+// Past the account timeout, how long a runner gets to save failure artifacts and close its browser.
+const SCRAPE_TEARDOWN_GRACE_MS = 30_000;
+
+/**
+ * Aborts the signal once `timeoutMs` passes, then rejects with `timeoutError` if the work has not
+ * settled within `graceMs` more, so a runner that ignores the signal or hangs closing its browser
+ * cannot hold its concurrency slot forever.
+ */
+function withTimeout<T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  graceMs: number,
+  timeoutError: Error
+): Promise<T> {
   return new Promise<T>((resolve, reject) => {
-    const timeout = setTimeout(() => reject(timeoutError), timeoutMs);
+    const abort = new AbortController();
+    let graceTimer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = setTimeout(() => {
+      abort.abort(timeoutError);
+      graceTimer = setTimeout(() => reject(timeoutError), graceMs);
+    }, timeoutMs);
 
-    promise
-      .then((value) => {
-        clearTimeout(timeout);
-        resolve(value);
-      })
-      .catch((error) => {
+    work(abort.signal)
+      .then(resolve, reject)
+      .finally(() => {
         clearTimeout(timeout);
-        reject(error);
+        clearTimeout(graceTimer);
       });
   });
 }
@@ -32,7 +53,26 @@ export interface ScrapeCoordinatorOptions {
   collectProfiles?: boolean;
   profileHandles?: string[];
   searchQueries?: string[];
+  feedTabs?: FeedTab[];
+  tags?: string[];
+  postUrls?: string[];
+  collectNotifications?: boolean;
   maxPostsPerRun?: number;
+  // Record each source's page to disk, or serve previously recorded pages instead of the live site.
+  capture?: PageCaptureOptions;
+  // Stop scrolling each source at posts collected on earlier runs; cheap enough for frequent cron jobs.
+  incremental?: boolean;
+  // Accounts scraped at once; defaults to SCRAPER_ACCOUNT_CONCURRENCY. Either way the platform's cap applies.
+  concurrency?: number;
+}
+
+/**
+ * `requested` (or SCRAPER_ACCOUNT_CONCURRENCY), lowered to the platform's SCRAPER_MAX_CONCURRENCY_* when one
+ * is set; a per-run override cannot lift the platform cap.
+ */
+export function scrapeConcurrency(platform: Platform, requested?: number): number {
+  const cap = platform === "threads" ? env.SCRAPER_MAX_CONCURRENCY_THREADS : env.SCRAPER_MAX_CONCURRENCY_X;
+  return Math.max(1, Math.min(requested ?? env.SCRAPER_ACCOUNT_CONCURRENCY, cap ?? Infinity));
 }
 
 export interface ScrapeCoordinatorResult {
@@ -42,13 +82,29 @@ export interface ScrapeCoordinatorResult {
   accountsSucceeded: number;
   accountsFailed: number;
   accountsSkipped: number;
+  // Stopped early on their pacing budget; their partial results are still counted in the totals.
+  accountsQuotaExhausted: number;
   totalPostsFound: number;
+  totalPostsNew: number;
+  totalPostsReseen: number;
   totalCommentsFound: number;
   totalSnapshotsWritten: number;
   errors: Array<{ accountId: number; error: string }>;
 }
 
+export type AccountRunnerFactory = (
+  account: Account,
+  adapter: PlatformAdapter,
+  runAccountId: number
+) => Pick<AccountScrapeRunner, "run">;
+
 export class ScrapeCoordinator {
+  constructor(
+    private createRunner: AccountRunnerFactory = (account, adapter, runAccountId) =>
+      new AccountScrapeRunner(account, adapter, runAccountId),
+    private teardownGraceMs = SCRAPE_TEARDOWN_GRACE_MS
+  ) {}
+
   async run(options: ScrapeCoordinatorOptions): Promise<ScrapeCoordinatorResult> {
     logger.info({ options }, "Starting scrape coordinator run");
 
@@ -61,6 +117,10 @@ export class ScrapeCoordinator {
       logger.error({ error }, "Failed to recover stale running scrape records");
     }
 
+    await runArtifactsService.pruneExpired().catch((error) => {
+      logger.warn({ error }, "Failed to prune expired run artifacts");
+    });
+
     const run = await runsRepo.createRun({
       trigger: options.trigger,
       startedAt: Math.floor(Date.now() / 1000),
@@ -74,16 +134,30 @@ export class ScrapeCoordinator {
       accountsSucceeded: 0,
       accountsFailed: 0,
       accountsSkipped: 0,
+      accountsQuotaExhausted: 0,
       totalPostsFound: 0,
+      totalPostsNew: 0,
+      totalPostsReseen: 0,
       totalCommentsFound: 0,
       totalSnapshotsWritten: 0,
       errors: [],
     };
 
     try {
-      const targetAccounts = options.accountIds
+      const foundAccounts = options.accountIds
         ? await Promise.all(options.accountIds.map((id) => accountsRepo.findById(id))).then((a) => a.filter(Boolean))
         : await accountsRepo.listByPlatform(options.platform);
+      const targetAccounts = await Promise.all(
+        foundAccounts.map((account) => accountQuarantineService.releaseIfDue(account!))
+      );
+
+      // Quarantined accounts are reported on every run, not only when requested by id, so a silent gap is explained.
+      for (const account of targetAccounts.filter((acc) => acc.status === "quarantined")) {
+        const reason = accountQuarantineService.describe(account);
+        logger.warn({ accountId: account.id, quarantinedUntil: account.quarantinedUntil }, "Skipping quarantined account");
+        result.accountsSkipped++;
+        result.errors.push({ accountId: account.id, error: reason });
+      }
 
       const activeAccounts = targetAccounts.filter((acc) => acc!.status === "active") as any[];
 
@@ -94,7 +168,9 @@ export class ScrapeCoordinator {
           result.errors.push({ accountId: missingId, error: `Account ${missingId} not found` });
         }
 
-        const inactiveAccounts = targetAccounts.filter((acc) => acc && acc.status !== "active") as any[];
+        const inactiveAccounts = targetAccounts.filter(
+          (acc) => acc.status !== "active" && acc.status !== "quarantined"
+        ) as any[];
         for (const account of inactiveAccounts) {
           result.accountsSkipped++;
           result.errors.push({
@@ -115,9 +191,15 @@ export class ScrapeCoordinator {
         result.status = "partial";
       }
 
-      const adapter = this.getAdapter(options.platform);
+      const concurrency = scrapeConcurrency(options.platform, options.concurrency);
+      if (concurrency > 1 && activeAccounts.length > 1) {
+        logger.info({ runId: run.id, concurrency, accounts: activeAccounts.length }, "Scraping accounts in parallel");
+      }
 
-      for (const account of activeAccounts) {
+      // Workers share `result`; each counter update is synchronous, so the totals stay right in parallel.
+      await runWithConcurrency(activeAccounts, concurrency, async (account) => {
+        // Adapters keep per-page state (e.g. captured network posts), so each worker gets its own.
+        const adapter = this.getAdapter(options.platform);
         result.accountsProcessed++;
 
         const runAccount = await runsRepo.createRunAccount({
@@ -131,20 +213,30 @@ export class ScrapeCoordinator {
         });
 
         try {
-          const runner = new AccountScrapeRunner(account, adapter, runAccount.id);
+          const runner = this.createRunner(account, adapter, runAccount.id);
           const scrapeTimeoutMs = env.SCRAPER_ACCOUNT_TIMEOUT_SECONDS * 1000;
           const timeoutError = new Error(`Account scrape timed out after ${env.SCRAPER_ACCOUNT_TIMEOUT_SECONDS}s`);
           (timeoutError as any).code = "ACCOUNT_SCRAPE_TIMEOUT";
-
+          // On timeout the runner saves failure artifacts and closes its browser; the slot stays taken
+          // while it does, up to the teardown grace period.
           const scrapeResult = await withTimeout(
-            runner.run({
-              collectHome: options.collectHome ?? true,
-              collectProfiles: options.collectProfiles ?? true,
-              profileHandles: options.profileHandles ?? [],
-              searchQueries: options.searchQueries ?? [],
-              maxPostsPerRun: options.maxPostsPerRun,
-            }),
+            (signal) =>
+              runner.run({
+                collectHome: options.collectHome ?? true,
+                collectProfiles: options.collectProfiles ?? true,
+                profileHandles: options.profileHandles ?? [],
+                searchQueries: options.searchQueries ?? [],
+                feedTabs: options.feedTabs,
+                tags: options.tags,
+                postUrls: options.postUrls,
+                collectNotifications: options.collectNotifications ?? false,
+                maxPostsPerRun: options.maxPostsPerRun,
+                capture: options.capture,
+                incremental: options.incremental,
+                signal,
+              }),
             scrapeTimeoutMs,
+            this.teardownGraceMs,
             timeoutError
           );
 
@@ -153,19 +245,46 @@ export class ScrapeCoordinator {
               await accounts.setNeedsReauth(account.id, scrapeResult.error.code, scrapeResult.error.message);
               await runsRepo.markRunAccountSkippedNeedsReauth(runAccount.id);
               result.accountsSkipped++;
+            } else if (scrapeResult.error.code === "BLOCK_CHALLENGE_DETECTED") {
+              const quarantine = await accountQuarantineService.quarantine(account, {
+                reason: scrapeResult.blockDetected?.reason ?? scrapeResult.error.message,
+                url: scrapeResult.blockDetected?.url,
+                runAccountId: runAccount.id,
+              });
+              const detail = quarantine
+                ? `${scrapeResult.error.message}; quarantined until ${new Date(quarantine.releaseAt * 1000).toISOString()}`
+                : scrapeResult.error.message;
+              await runsRepo.markRunAccountFailed(runAccount.id, scrapeResult.error.code, detail);
+              result.accountsFailed++;
+              result.errors.push({ accountId: account.id, error: detail });
             } else {
               await runsRepo.markRunAccountFailed(runAccount.id, scrapeResult.error.code, scrapeResult.error.message);
               result.accountsFailed++;
               result.errors.push({ accountId: account.id, error: scrapeResult.error.message });
             }
           } else {
-            await runsRepo.markRunAccountSuccess(runAccount.id, {
+            const counters = {
               postsFound: scrapeResult.postsFound,
+              postsNew: scrapeResult.postsNew,
+              postsReseen: scrapeResult.postsReseen,
               commentsFound: scrapeResult.commentsFound,
               snapshotsWritten: scrapeResult.snapshotsWritten,
-            });
-            result.accountsSucceeded++;
+            };
+            if (scrapeResult.quotaExhausted) {
+              const { action, window, used, limit } = scrapeResult.quotaExhausted;
+              await runsRepo.markRunAccountQuotaExhausted(
+                runAccount.id,
+                counters,
+                `${window} ${action} quota reached (${used}/${limit})`
+              );
+              result.accountsQuotaExhausted++;
+            } else {
+              await runsRepo.markRunAccountSuccess(runAccount.id, counters);
+              result.accountsSucceeded++;
+            }
             result.totalPostsFound += scrapeResult.postsFound;
+            result.totalPostsNew += scrapeResult.postsNew;
+            result.totalPostsReseen += scrapeResult.postsReseen;
             result.totalCommentsFound += scrapeResult.commentsFound;
             result.totalSnapshotsWritten += scrapeResult.snapshotsWritten;
           }
@@ -177,10 +296,10 @@ export class ScrapeCoordinator {
           result.accountsFailed++;
           result.errors.push({ accountId: account.id, error: errorMessage });
         }
-      }
+      });
 
       result.status =
-        result.accountsFailed > 0
+        result.accountsFailed > 0 || result.accountsQuotaExhausted > 0
           ? "partial"
           : result.accountsProcessed === 0 && result.errors.length > 0
           ? "failed"
@@ -196,7 +315,10 @@ export class ScrapeCoordinator {
           accountsSucceeded: result.accountsSucceeded,
           accountsFailed: result.accountsFailed,
           accountsSkipped: result.accountsSkipped,
+          accountsQuotaExhausted: result.accountsQuotaExhausted,
           totalPostsFound: result.totalPostsFound,
+          totalPostsNew: result.totalPostsNew,
+          totalPostsReseen: result.totalPostsReseen,
           totalCommentsFound: result.totalCommentsFound,
           totalSnapshotsWritten: result.totalSnapshotsWritten,
         }),
@@ -10,10 +10,18 @@ import { commentsRepo } from "../../db/repositories/comments.repo";
 import { metricsRepo } from "../../db/repositories/metrics.repo";
 import { snapshotsRepo } from "../../db/repositories/snapshots.repo";
 import { computeContentHash, computeSnapshotHash } from "../../core/hash";
+import { orderParentsFirst } from "../../domain/thread-tree";
 import { accountsRepo } from "../../db/repositories/accounts.repo";
+import { authorsRepo } from "../../db/repositories/authors.repo";
 import { ThreadsAdapter } from "../../platforms/threads";
 import { XAdapter } from "../../platforms/x";
 import { getRequiredStorageState } from "../../services/playwright-session-state";
+import { accountProxyService } from "../../services/account-proxy.service";
+import { browserProfileService } from "../../services/browser-profile.service";
+import { detectBlockChallenge, newAccountContext } from "../../services/browser-session";
+import { accountQuarantineService } from "../../services/account-quarantine.service";
+import { egressRateLimiters } from "../../services/egress-rate-limiter";
+import { PacingGovernor } from "../../services/pacing-governor";
 
 export interface DeepScrapeStageInput {
   runAccountId: number;
@@ -25,6 +33,11 @@ export interface DeepScrapeStageResult {
   successCount: number;
   failedCount: number;
   commentsCollected: number;
+  authorsEnriched: number;
+  // True when the account's pacing budget ran out; the remaining tasks stay pending.
+  quotaExhausted: boolean;
+  // True when the account was (or got) quarantined for a block/challenge; remaining tasks stay pending.
+  quarantined: boolean;
   errors: Array<{ postId: number; error: string }>;
 }
 
@@ -32,7 +45,16 @@ export class DeepScrapeStage {
   async run(input: DeepScrapeStageInput): Promise<DeepScrapeStageResult> {
     if (!env.DEEP_SCRAPE_ENABLED) {
       logger.info({ runAccountId: input.runAccountId }, "Deep scrape stage disabled, skipping");
-      return { totalTasks: 0, successCount: 0, failedCount: 0, commentsCollected: 0, errors: [] };
+      return {
+        totalTasks: 0,
+        successCount: 0,
+        failedCount: 0,
+        commentsCollected: 0,
+        authorsEnriched: 0,
+        quotaExhausted: false,
+        quarantined: false,
+        errors: [],
+      };
     }
 
     logger.info({ runAccountId: input.runAccountId }, "Starting deep scrape stage");
@@ -44,6 +66,9 @@ export class DeepScrapeStage {
       successCount: 0,
       failedCount: 0,
       commentsCollected: 0,
+      authorsEnriched: 0,
+      quotaExhausted: false,
+      quarantined: false,
       errors: [],
     };
 
@@ -52,10 +77,16 @@ export class DeepScrapeStage {
       return result;
     }
 
-    const account = await accountsRepo.findById(input.accountId);
-    if (!account) {
+    const found = await accountsRepo.findById(input.accountId);
+    if (!found) {
       throw new Error(`Account ${input.accountId} not found`);
     }
+    const account = await accountQuarantineService.releaseIfDue(found);
+    if (account.status === "quarantined") {
+      logger.warn({ runAccountId: input.runAccountId, reason: accountQuarantineService.describe(account) }, "Skipping deep scrape for quarantined account");
+      result.quarantined = true;
+      return result;
+    }
 
     const adapter = this.getAdapter(account.platform);
     const postRecords = await this.loadPosts(tasks.map((t) => t.postId));
@@ -70,10 +101,12 @@ export class DeepScrapeStage {
       browser = await chromium.launch({
         headless: env.PLAYWRIGHT_HEADLESS,
         slowMo: env.PLAYWRIGHT_SLOW_MO,
+        proxy: accountProxyService.getBrowserProxy(account),
       });
 
-      context = await browser.newContext({
-        storageState: storageState as any,
+      context = await newAccountContext(browser, {
+        storageState,
+        browserProfile: await browserProfileService.getOrCreate(account),
       });
 
       page = await context.newPage();
@@ -85,11 +118,18 @@ export class DeepScrapeStage {
         throw new Error(`Session invalid: ${authState.error}`);
       }
 
+      const pacer = new PacingGovernor(account.id, { egressLimiter: egressRateLimiters.forAccount(account) });
       const commentOptions: CollectCommentOptions = {
         maxComments: env.SCRAPER_MAX_COMMENTS_PER_THREAD,
+        pacer,
       };
 
       for (const task of tasks) {
+        if (pacer.exhausted) break;
+        if (await this.quarantineIfBlocked(account, page, input.runAccountId)) {
+          result.quarantined = true;
+          break;
+        }
         const post = postRecords.get(task.postId);
         if (!post) {
           logger.warn({ taskId: task.id, postId: task.postId }, "Post not found for task");
@@ -111,6 +151,14 @@ export class DeepScrapeStage {
             mediaUrls: [],
           }, commentOptions);
 
+          if (pacer.exhausted) {
+            // Comments read before the quota hit are kept, but the thread was cut short.
+            await this.persistComments(post.id, collectedComments, input.runAccountId, account.id);
+            await deepScrapeTasksRepo.markFailed(task.id, "QUOTA_EXHAUSTED", "Pacing quota exhausted while expanding the thread");
+            result.commentsCollected += collectedComments.length;
+            break;
+          }
+
           await this.persistComments(post.id, collectedComments, input.runAccountId, account.id);
 
           await deepScrapeTasksRepo.markSuccess(task.id);
@@ -123,6 +171,10 @@ export class DeepScrapeStage {
           );
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : "Unknown error";
+          if (pacer.exhausted) {
+            await deepScrapeTasksRepo.markFailed(task.id, "QUOTA_EXHAUSTED", errorMessage);
+            break;
+          }
           await deepScrapeTasksRepo.markFailed(task.id, "DEEP_SCRAPE_ERROR", errorMessage);
           result.failedCount++;
           result.errors.push({ postId: task.postId, error: errorMessage });
@@ -133,6 +185,24 @@ export class DeepScrapeStage {
           );
         }
       }
+
+      if (!result.quarantined && (await this.quarantineIfBlocked(account, page, input.runAccountId))) {
+        result.quarantined = true;
+      }
+
+      if (env.AUTHOR_ENRICHMENT_ENABLED && adapter.collectAuthorProfile && !pacer.exhausted && !result.quarantined) {
+        const handles = [...postRecords.values()].map((post) => post.authorHandle);
+        result.authorsEnriched = await this.enrichAuthors(adapter, page, account.platform, handles, pacer);
+        result.quarantined = await this.quarantineIfBlocked(account, page, input.runAccountId);
+      }
+
+      if (pacer.exhaustion) {
+        result.quotaExhausted = true;
+        logger.warn(
+          { runAccountId: input.runAccountId, accountId: account.id, ...pacer.exhaustion },
+          "Deep scrape stopped early: pacing quota exhausted"
+        );
+      }
     } finally {
       if (page) await page.close();
       if (context) await context.close();
@@ -147,6 +217,16 @@ export class DeepScrapeStage {
     return result;
   }
 
+  private async quarantineIfBlocked(account: Account, page: Page, runAccountId: number): Promise<boolean> {
+    const url = page.url();
+    const blockStatus = detectBlockChallenge(url);
+    if (!blockStatus.isBlocked || !blockStatus.reason) return false;
+
+    logger.error({ accountId: account.id, url, reason: blockStatus.reason, stage: "deep_scrape" }, "Block/challenge detected during deep scrape");
+    await accountQuarantineService.quarantine(account, { reason: blockStatus.reason, url, runAccountId });
+    return true;
+  }
+
   private getAdapter(platform: string): PlatformAdapter {
     switch (platform) {
       case "threads":
@@ -158,6 +238,38 @@ export class DeepScrapeStage {
     }
   }
 
+  private async enrichAuthors(
+    adapter: PlatformAdapter,
+    page: Page,
+    platform: string,
+    handles: string[],
+    pacer: PacingGovernor
+  ): Promise<number> {
+    const now = Math.floor(Date.now() / 1000);
+    const staleBefore = now - env.AUTHOR_PROFILE_REFRESH_HOURS * 3600;
+    const authors = await authorsRepo.listProfilesToRefresh(platform, handles, staleBefore);
+    let enriched = 0;
+
+    for (const author of authors) {
+      if (pacer.exhausted) break;
+      try {
+        const profile = await adapter.collectAuthorProfile!(page, author.handle, { pacer });
+        if (!profile) {
+          logger.debug({ handle: author.handle }, "Author profile not readable, keeping previous data");
+          continue;
+        }
+        await authorsRepo.updateProfile(author.id, profile, Math.floor(Date.now() / 1000));
+        enriched++;
+      } catch (error) {
+        // Enrichment is best-effort; a broken profile page must not fail the deep scrape.
+        logger.warn({ handle: author.handle, error: error instanceof Error ? error.message : error }, "Author profile enrichment failed");
+      }
+    }
+
+    logger.debug({ platform, candidates: authors.length, enriched }, "Author profile enrichment completed");
+    return enriched;
+  }
+
   private async loadPosts(postIds: number[]): Promise<Map<number, import("../../db/schema").Post>> {
     const posts = new Map<number, import("../../db/schema").Post>();
     for (const postId of postIds) {
@@ -179,17 +291,20 @@ export class DeepScrapeStage {
       commentUrl: string | null;
       publishedAt: number | null;
       mediaUrls: string[];
+      parentPlatformCommentId?: string | null;
     }>,
     runAccountId: number,
     sourceAccountId: number
   ): Promise<void> {
-    for (const comment of comments) {
+    for (const comment of orderParentsFirst(comments)) {
       const contentHash = computeContentHash(comment.bodyText || "", comment.mediaUrls);
+      const platform = (await postsRepo.findById(parentPostId))?.platform || "threads";
 
       const commentRecord = await commentsRepo.create({
-        platform: (await postsRepo.findById(parentPostId))?.platform || "threads",
+        platform,
         platformCommentId: comment.platformCommentId,
         parentPostId,
+        ...(await commentsRepo.resolveThreading(platform, comment.parentPlatformCommentId)),
         authorHandle: comment.authorHandle,
         authorDisplayName: comment.authorDisplayName,
         bodyText: comment.bodyText,
@@ -202,6 +317,8 @@ export class DeepScrapeStage {
       });
 
       if (commentRecord) {
+        await authorsRepo.recordSeen(platform, comment.authorHandle, comment.authorDisplayName, commentRecord.lastSeenAt);
+
         await metricsRepo.create({
           entityType: "comment",
           entityId: commentRecord.id,
@@ -216,7 +333,7 @@ export class DeepScrapeStage {
         await snapshotsRepo.create({
           entityType: "comment",
           entityRef: comment.platformCommentId || `local-${commentRecord.id}`,
-          platform: (await postsRepo.findById(parentPostId))?.platform || "threads",
+          platform,
           snapshotJson: JSON.stringify(comment),
           snapshotHash: computeSnapshotHash(comment),
           capturedAt: Math.floor(Date.now() / 1000),
@@ -2,7 +2,8 @@ import type { EngagementPolicyInput } from "../../domain/models";
 import type { Post } from "../../db/schema";
 import { logger } from "../../core/logger";
 import { env } from "../../core/config";
-import { openRouterClient } from "../../llm/openrouter-client";
+import { runWithConcurrency, throughputPerMinute } from "../../core/concurrency";
+import { llmProviderRegistry, type ResolvedLLM } from "../../llm/provider-registry";
 import {
   buildDraftSystemPrompt,
   buildDraftUserPrompt,
@@ -12,7 +13,8 @@ import {
 import type { DraftPromptInput, DraftOutput } from "../../llm/contracts";
 import { postTriageRepo } from "../../db/repositories/post-triage.repo";
 import { postsRepo } from "../../db/repositories/posts.repo";
-import { commentsRepo } from "../../db/repositories/comments.repo";
+import { postMediaRepo } from "../../db/repositories/post-media.repo";
+import { threadService, CONVERSATION_CONTEXT_LIMIT } from "../../services/thread.service";
 import { draftFeedbackRepo } from "../../db/repositories/draft-feedback.repo";
 
 export interface DraftGenerationStageInput {
@@ -26,6 +28,8 @@ export interface DraftGenerationStageResult {
   draftsGenerated: number;
   draftsPerPost: number;
   failedPosts: number;
+  durationMs: number;
+  postsPerMinute: number;
   errors: Array<{ postId: number; error: string }>;
 }
 
@@ -33,10 +37,19 @@ export class DraftGenerationStage {
   async run(input: DraftGenerationStageInput): Promise<DraftGenerationStageResult> {
     if (!env.DRAFTS_ENABLED) {
       logger.info({ runAccountId: input.runAccountId }, "Draft generation stage disabled, skipping");
-      return { totalPosts: 0, draftsGenerated: 0, draftsPerPost: 3, failedPosts: 0, errors: [] };
+      return {
+        totalPosts: 0,
+        draftsGenerated: 0,
+        draftsPerPost: 3,
+        failedPosts: 0,
+        durationMs: 0,
+        postsPerMinute: 0,
+        errors: [],
+      };
     }
 
     logger.info({ runAccountId: input.runAccountId }, "Starting draft generation stage");
+    const startedAt = Date.now();
 
     const selectedTriage = await postTriageRepo.listSelectedForDeepScrape(input.runAccountId);
 
@@ -45,6 +58,8 @@ export class DraftGenerationStage {
       draftsGenerated: 0,
       draftsPerPost: 3,
       failedPosts: 0,
+      durationMs: 0,
+      postsPerMinute: 0,
       errors: [],
     };
 
@@ -54,19 +69,23 @@ export class DraftGenerationStage {
     }
 
     const pastApprovedReplies = await this.getPastApprovedReplies(input.accountId);
+    const llm = llmProviderRegistry.forStage("draft", input.policy.llm?.draft);
 
-    for (const triage of selectedTriage) {
+    let completedPosts = 0;
+
+    await runWithConcurrency(selectedTriage, env.LLM_STAGE_CONCURRENCY, async (triage) => {
       const post = await postsRepo.findById(triage.postId);
       if (!post) {
         logger.warn({ postId: triage.postId }, "Post not found for draft generation");
-        continue;
+        return;
       }
 
       try {
-        const topComments = await this.getTopComments(post.id, 3);
-        const draftOutput = await this.generateDrafts(post, input.policy, topComments, pastApprovedReplies);
-        await this.persistDrafts(input.runAccountId, post.id, draftOutput, input.policy, topComments, pastApprovedReplies);
+        const topComments = await threadService.getConversation(post.id, CONVERSATION_CONTEXT_LIMIT);
+        const draftOutput = await this.generateDrafts(llm, input.runAccountId, post, input.policy, topComments, pastApprovedReplies);
+        await this.persistDrafts(input.runAccountId, post.id, draftOutput, llm.model, input.policy, topComments, pastApprovedReplies);
         result.draftsGenerated += draftOutput.options.length;
+        completedPosts++;
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         logger.error(
@@ -76,7 +95,10 @@ export class DraftGenerationStage {
         result.failedPosts++;
         result.errors.push({ postId: post.id, error: errorMessage });
       }
-    }
+    });
+
+    result.durationMs = Date.now() - startedAt;
+    result.postsPerMinute = throughputPerMinute(completedPosts, result.durationMs);
 
     logger.info(
       { runAccountId: input.runAccountId, ...result },
@@ -86,21 +108,14 @@ export class DraftGenerationStage {
     return result;
   }
 
-  private async getTopComments(postId: number, limit: number): Promise<DraftPromptInput["topComments"]> {
-    const comments = await commentsRepo.findByParentPostId(postId);
-    return comments.slice(0, limit).map((c) => ({
-      authorHandle: c.authorHandle,
-      authorDisplayName: c.authorDisplayName,
-      bodyText: c.bodyText,
-    }));
-  }
-
   private async getPastApprovedReplies(accountId: number): Promise<string[]> {
     const drafts = await draftFeedbackRepo.listApprovedDraftsForStyle(accountId, 10);
     return drafts.map((d) => d.draftText).filter(Boolean);
   }
 
   private async generateDrafts(
+    llm: ResolvedLLM,
+    runAccountId: number,
     post: Post,
     policy: EngagementPolicyInput,
     topComments: DraftPromptInput["topComments"],
@@ -113,6 +128,8 @@ export class DraftGenerationStage {
         authorDisplayName: post.authorDisplayName,
         bodyText: post.bodyText,
         postUrl: post.postUrl,
+        media: await postMediaRepo.findByPostId(post.id),
+        selfThread: await threadService.getSelfThreadContext(post),
       },
       topComments,
       pastApprovedReplies,
@@ -121,11 +138,16 @@ export class DraftGenerationStage {
     const systemPrompt = buildDraftSystemPrompt();
     const userPrompt = buildDraftUserPrompt(promptInput);
 
-    const output = await openRouterClient.complete(
+    const output = await llm.client.complete(
       systemPrompt,
       userPrompt,
       draftPromptSchema(),
-      { temperature: 0.7, maxTokens: 1024 }
+      {
+        temperature: llm.temperature,
+        maxTokens: llm.maxTokens,
+        model: llm.model,
+        context: { stage: "draft", promptVersion: DRAFT_PROMPT_VERSION, runAccountId, postId: post.id },
+      }
     );
 
     return output;
@@ -135,6 +157,7 @@ export class DraftGenerationStage {
     runAccountId: number,
     postId: number,
     draftOutput: DraftOutput,
+    model: string,
     policy: EngagementPolicyInput,
     topComments: DraftPromptInput["topComments"],
     pastApprovedReplies: string[]
@@ -155,7 +178,7 @@ export class DraftGenerationStage {
         optionIndex: i,
         promptVersion: DRAFT_PROMPT_VERSION,
         draftText: option.text,
-        model: env.OPENROUTER_MODEL,
+        model,
         status: "generated",
         inputContextJson: JSON.stringify(inputContext),
       });
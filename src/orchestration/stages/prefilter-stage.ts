@@ -0,0 +1,83 @@
+import type { EngagementPolicyInput } from "../../domain/models";
+import { evaluatePrefilter, PREFILTER_RULES_VERSION, type PrefilterRule } from "../../domain/prefilter";
+import { logger } from "../../core/logger";
+import { postTriageRepo } from "../../db/repositories/post-triage.repo";
+import { runsRepo } from "../../db/repositories/runs.repo";
+import { postsRepo } from "../../db/repositories/posts.repo";
+
+export interface PrefilterStageInput {
+  runAccountId: number;
+  accountId: number;
+  policy: EngagementPolicyInput;
+}
+
+export interface PrefilterStageResult {
+  totalPosts: number;
+  filteredPosts: number;
+  filteredPostIds: number[];
+  ruleCounts: Partial<Record<PrefilterRule, number>>;
+}
+
+export class PrefilterStage {
+  async run(input: PrefilterStageInput): Promise<PrefilterStageResult> {
+    logger.info({ runAccountId: input.runAccountId }, "Starting pre-filter stage");
+
+    const runAccount = await runsRepo.findRunAccountById(input.runAccountId);
+    if (!runAccount) {
+      throw new Error(`Run account ${input.runAccountId} not found`);
+    }
+
+    const posts = await postsRepo.listByRunAccount(
+      input.runAccountId,
+      input.accountId,
+      runAccount.startedAt
+    );
+
+    const result: PrefilterStageResult = {
+      totalPosts: posts.length,
+      filteredPosts: 0,
+      filteredPostIds: [],
+      ruleCounts: {},
+    };
+
+    for (const post of posts) {
+      const verdict = evaluatePrefilter(post, input.policy);
+      if (!verdict) continue;
+
+      // Filtered posts are recorded as a "drop" verdict so they show up in triage listings with the reason.
+      await postTriageRepo.bulkCreateOrSkip([
+        {
+          runAccountId: input.runAccountId,
+          postId: post.id,
+          relevanceScore: 0,
+          relevanceLabel: "drop",
+          reasonsJson: JSON.stringify([`prefilter: ${verdict.reason}`]),
+          action: "ignore",
+          confidence: 100,
+          model: null,
+          promptVersion: PREFILTER_RULES_VERSION,
+          isSelected: 0,
+          selectedForDeepScrape: 0,
+        },
+      ]);
+
+      result.filteredPosts++;
+      result.filteredPostIds.push(post.id);
+      result.ruleCounts[verdict.rule] = (result.ruleCounts[verdict.rule] ?? 0) + 1;
+    }
+
+    logger.info(
+      {
+        runAccountId: input.runAccountId,
+        totalPosts: result.totalPosts,
+        filteredPosts: result.filteredPosts,
+        ruleCounts: result.ruleCounts,
+      },
+      "Pre-filter stage completed"
+    );
+
+    return result;
+  }
+}
+
+export const prefilterStage = new PrefilterStage();
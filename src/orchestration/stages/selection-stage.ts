@@ -1,42 +1,88 @@
+import type { PostTriage } from "../../db/schema";
 import { logger } from "../../core/logger";
 import { env } from "../../core/config";
 import { postTriageRepo } from "../../db/repositories/post-triage.repo";
 import { deepScrapeTasksRepo } from "../../db/repositories/deep-scrape-tasks.repo";
+import { postsRepo } from "../../db/repositories/posts.repo";
+import { metricsAnalyticsService } from "../../services/metrics-analytics.service";
+import { PREFILTER_RULES_VERSION } from "../../domain/prefilter";
+import {
+  selectCandidates,
+  type SelectionCandidate,
+  type SelectionConfig,
+  type SelectionOverrides,
+  type SelectionStrategyName,
+} from "../../domain/selection";
 
 export interface SelectionStageInput {
   runAccountId: number;
+  config?: SelectionConfig;
 }
 
 export interface SelectionStageResult {
+  strategy: SelectionStrategyName;
   totalTriaged: number;
-  top20Count: number;
+  selectedCount: number;
   selectedForDeepScrape: number;
-  top20PostIds: number[];
+  selectedPostIds: number[];
   deepScrapePostIds: number[];
 }
 
+export function getEnvSelectionConfig(): SelectionConfig {
+  return {
+    strategy: env.SELECTION_STRATEGY,
+    topN: env.SELECTION_TOP_N,
+    scoreThreshold: env.SELECTION_SCORE_THRESHOLD,
+    maxPerAuthor: env.SELECTION_MAX_PER_AUTHOR ?? null,
+    recencyHalfLifeHours: env.SELECTION_RECENCY_HALF_LIFE_HOURS,
+  };
+}
+
+// Later overrides win; undefined fields fall through to the previous layer.
+export function resolveSelectionConfig(
+  base: SelectionConfig,
+  ...overrides: Array<SelectionOverrides | null | undefined>
+): SelectionConfig {
+  const resolved = { ...base };
+  for (const override of overrides) {
+    if (!override) continue;
+    for (const [key, value] of Object.entries(override)) {
+      if (value !== undefined) {
+        (resolved as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return resolved;
+}
+
 export class SelectionStage {
   async run(input: SelectionStageInput): Promise<SelectionStageResult> {
+    const config = input.config ?? getEnvSelectionConfig();
+
     if (!env.TRIAGE_ENABLED) {
       logger.info({ runAccountId: input.runAccountId }, "Selection stage disabled (triage disabled), skipping");
       return {
+        strategy: config.strategy,
         totalTriaged: 0,
-        top20Count: 0,
+        selectedCount: 0,
         selectedForDeepScrape: 0,
-        top20PostIds: [],
+        selectedPostIds: [],
         deepScrapePostIds: [],
       };
     }
 
-    logger.info({ runAccountId: input.runAccountId }, "Starting selection stage");
+    logger.info({ runAccountId: input.runAccountId, strategy: config.strategy }, "Starting selection stage");
 
-    const triageResults = await postTriageRepo.listByRunAccount(input.runAccountId, 200);
+    const triageResults = (await postTriageRepo.listByRunAccount(input.runAccountId, 200)).filter(
+      (triage) => triage.promptVersion !== PREFILTER_RULES_VERSION
+    );
 
     const result: SelectionStageResult = {
+      strategy: config.strategy,
       totalTriaged: triageResults.length,
-      top20Count: 0,
+      selectedCount: 0,
       selectedForDeepScrape: 0,
-      top20PostIds: [],
+      selectedPostIds: [],
       deepScrapePostIds: [],
     };
 
@@ -45,34 +91,32 @@ export class SelectionStage {
       return result;
     }
 
-    const top20 = triageResults.slice(0, env.SELECTION_TOP_N);
-    const deepScrapeThreshold = env.SELECTION_SCORE_THRESHOLD;
+    const candidates = await this.buildCandidates(triageResults);
+    const picks = selectCandidates(candidates, config);
+
+    await postTriageRepo.clearSelection(input.runAccountId);
 
-    for (let i = 0; i < top20.length; i++) {
-      const triage = top20[i];
-      if (!triage) continue;
-      
-      const rank = i + 1;
-      const isTop20 = true;
-      const selectedForDeepScrape = triage.relevanceScore >= deepScrapeThreshold;
+    for (const pick of picks) {
+      const selectedForDeepScrape = pick.relevanceScore >= config.scoreThreshold;
 
-      await postTriageRepo.updateSelectionFlags(input.runAccountId, triage.postId, {
-        rank,
-        isTop20,
+      await postTriageRepo.updateSelectionFlags(input.runAccountId, pick.postId, {
+        rank: pick.rank,
+        isSelected: true,
         selectedForDeepScrape,
+        selectionStrategy: pick.strategy,
       });
 
-      result.top20Count++;
-      result.top20PostIds.push(triage.postId);
+      result.selectedCount++;
+      result.selectedPostIds.push(pick.postId);
 
       if (selectedForDeepScrape) {
         result.selectedForDeepScrape++;
-        result.deepScrapePostIds.push(triage.postId);
+        result.deepScrapePostIds.push(pick.postId);
 
         if (env.DEEP_SCRAPE_ENABLED) {
           await deepScrapeTasksRepo.createOrSkip({
             runAccountId: input.runAccountId,
-            postId: triage.postId,
+            postId: pick.postId,
             status: "pending",
             attemptCount: 0,
           });
@@ -83,16 +127,36 @@ export class SelectionStage {
     logger.info(
       {
         runAccountId: input.runAccountId,
+        strategy: config.strategy,
         totalTriaged: result.totalTriaged,
-        top20Count: result.top20Count,
+        selectedCount: result.selectedCount,
         selectedForDeepScrape: result.selectedForDeepScrape,
-        deepScrapeThreshold,
+        deepScrapeThreshold: config.scoreThreshold,
       },
       "Selection stage completed"
     );
 
     return result;
   }
+
+  private async buildCandidates(triageResults: PostTriage[]): Promise<SelectionCandidate[]> {
+    const entries = [];
+    for (const triage of triageResults) {
+      const post = await postsRepo.findById(triage.postId);
+      if (post) entries.push({ triage, post });
+    }
+
+    const engagement = await metricsAnalyticsService.summarizePosts(entries.map(({ post }) => post));
+
+    return entries.map(({ triage, post }) => ({
+      postId: triage.postId,
+      relevanceScore: triage.relevanceScore,
+      action: triage.action,
+      authorHandle: post.authorHandle,
+      publishedAt: post.publishedAt,
+      engagementVelocity: engagement.get(post.id)?.latestVelocity ?? null,
+    }));
+  }
 }
 
 export const selectionStage = new SelectionStage();
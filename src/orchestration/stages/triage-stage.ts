@@ -1,56 +1,100 @@
-import type { EngagementPolicyInput } from "../../domain/models";
-import type { Post } from "../../db/schema";
+import { PostTriageBatchItemSchema, type EngagementPolicyInput } from "../../domain/models";
+import { DEFAULT_TRIAGE_BATCH_SIZE } from "../../domain/cron-config";
+import type { Post, PostTriage } from "../../db/schema";
 import { logger } from "../../core/logger";
 import { env } from "../../core/config";
-import { openRouterClient } from "../../llm/openrouter-client";
+import { runWithConcurrency, throughputPerMinute } from "../../core/concurrency";
+import { computeSnapshotHash } from "../../core/hash";
+import { llmProviderRegistry, type ResolvedLLM } from "../../llm/provider-registry";
 import {
   buildTriageSystemPrompt,
   buildTriageUserPrompt,
+  buildTriageBatchSystemPrompt,
+  buildTriageBatchUserPrompt,
   TRIAGE_PROMPT_VERSION,
+  TRIAGE_BATCH_PROMPT_VERSION,
+  toPromptAuthor,
   triagePromptSchema,
+  triageBatchPromptSchema,
 } from "../../llm/prompts/triage";
 import type { TriagePromptInput, TriageOutput } from "../../llm/contracts";
 import { postTriageRepo } from "../../db/repositories/post-triage.repo";
 import { runsRepo } from "../../db/repositories/runs.repo";
 import { postsRepo } from "../../db/repositories/posts.repo";
+import { postMediaRepo } from "../../db/repositories/post-media.repo";
+import { authorsRepo } from "../../db/repositories/authors.repo";
 
 export interface TriageStageInput {
   runAccountId: number;
   accountId: number;
   policy: EngagementPolicyInput;
+  batchSize?: number;
+  // Posts already settled by the pre-filter stage.
+  excludePostIds?: number[];
 }
 
 export interface TriageStageResult {
   totalPosts: number;
   triagedPosts: number;
   failedPosts: number;
+  cacheHits: number;
+  cacheMisses: number;
+  durationMs: number;
+  postsPerMinute: number;
   errors: Array<{ postId: number; error: string }>;
 }
 
+// Same content, same policy snapshot and same prompt version means the verdict can be reused.
+export function computeTriageCacheKey(contentHash: string, policyHash: string, promptVersion: string): string {
+  return computeSnapshotHash(`${contentHash}|${policyHash}|${promptVersion}`);
+}
+
+export interface TriagePromptVersions {
+  single: string;
+  batch: string;
+}
+
 export class TriageStage {
+  constructor(
+    private promptVersions: TriagePromptVersions = { single: TRIAGE_PROMPT_VERSION, batch: TRIAGE_BATCH_PROMPT_VERSION }
+  ) {}
+
   async run(input: TriageStageInput): Promise<TriageStageResult> {
     if (!env.TRIAGE_ENABLED) {
       logger.info({ runAccountId: input.runAccountId }, "Triage stage disabled, skipping");
-      return { totalPosts: 0, triagedPosts: 0, failedPosts: 0, errors: [] };
+      return {
+        totalPosts: 0,
+        triagedPosts: 0,
+        failedPosts: 0,
+        cacheHits: 0,
+        cacheMisses: 0,
+        durationMs: 0,
+        postsPerMinute: 0,
+        errors: [],
+      };
     }
 
     logger.info({ runAccountId: input.runAccountId }, "Starting triage stage");
+    const startedAt = Date.now();
 
     const runAccount = await runsRepo.findRunAccountById(input.runAccountId);
     if (!runAccount) {
       throw new Error(`Run account ${input.runAccountId} not found`);
     }
 
-    const posts = await postsRepo.listByRunAccount(
-      input.runAccountId,
-      input.accountId,
-      runAccount.startedAt
-    );
+    const excluded = new Set(input.excludePostIds ?? []);
+    const posts = (
+      await postsRepo.listByRunAccount(input.runAccountId, input.accountId, runAccount.startedAt)
+    ).filter((post) => !excluded.has(post.id));
 
     const result: TriageStageResult = {
       totalPosts: posts.length,
       triagedPosts: 0,
       failedPosts: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      durationMs: 0,
+      postsPerMinute: 0,
       errors: [],
     };
 
@@ -59,21 +103,90 @@ export class TriageStage {
       return result;
     }
 
+    const policyHash = computeSnapshotHash(input.policy);
+    // Verdicts are cached under the prompt that produced them, so either prompt's version bump invalidates its own.
+    const versions = this.promptVersions;
+    const singleKeys = new Map(posts.map((post) => [post.id, computeTriageCacheKey(post.contentHash, policyHash, versions.single)]));
+    const batchKeys = new Map(posts.map((post) => [post.id, computeTriageCacheKey(post.contentHash, policyHash, versions.batch)]));
+    const cachedVerdicts = env.TRIAGE_CACHE_ENABLED
+      ? await postTriageRepo.findLatestByCacheKeys([...new Set([...singleKeys.values(), ...batchKeys.values()])])
+      : new Map<string, PostTriage>();
+
+    const uncachedPosts: Post[] = [];
     for (const post of posts) {
+      const cached = cachedVerdicts.get(singleKeys.get(post.id)!) ?? cachedVerdicts.get(batchKeys.get(post.id)!);
+      if (!cached) {
+        uncachedPosts.push(post);
+        continue;
+      }
+
       try {
-        const triageOutput = await this.triagePost(post, input.policy);
-        await this.persistTriageResult(input.runAccountId, post.id, triageOutput);
+        await this.persistCachedResult(input.runAccountId, post.id, cached);
         result.triagedPosts++;
+        result.cacheHits++;
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        logger.error(
-          { runAccountId: input.runAccountId, postId: post.id, error: errorMessage },
-          "Failed to triage post"
+        logger.warn(
+          { runAccountId: input.runAccountId, postId: post.id, error: error instanceof Error ? error.message : error },
+          "Failed to reuse cached triage verdict"
         );
-        result.failedPosts++;
-        result.errors.push({ postId: post.id, error: errorMessage });
+        uncachedPosts.push(post);
       }
     }
+    result.cacheMisses = uncachedPosts.length;
+
+    const llm = llmProviderRegistry.forStage("triage", input.policy.llm?.triage);
+    const batchSize = Math.max(1, input.batchSize ?? DEFAULT_TRIAGE_BATCH_SIZE);
+
+    const batches: Post[][] = [];
+    for (let i = 0; i < uncachedPosts.length; i += batchSize) {
+      batches.push(uncachedPosts.slice(i, i + batchSize));
+    }
+
+    await runWithConcurrency(batches, env.LLM_STAGE_CONCURRENCY, async (batch) => {
+      const batchOutputs =
+        batch.length > 1
+          ? await this.triageBatch(llm, input.runAccountId, batch, input.policy)
+          : new Map<number, TriageOutput>();
+
+      // Posts missing from the batch response (or with invalid entries) fall back to the single-post prompt.
+      for (const post of batch) {
+        try {
+          const batchOutput = batchOutputs.get(post.id);
+          if (batchOutput) {
+            await this.persistTriageResult(
+              input.runAccountId,
+              post.id,
+              batchOutput,
+              llm.model,
+              versions.batch,
+              batchKeys.get(post.id)!
+            );
+          } else {
+            const triageOutput = await this.triagePost(llm, input.runAccountId, post, input.policy);
+            await this.persistTriageResult(
+              input.runAccountId,
+              post.id,
+              triageOutput,
+              llm.model,
+              versions.single,
+              singleKeys.get(post.id)!
+            );
+          }
+          result.triagedPosts++;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : "Unknown error";
+          logger.error(
+            { runAccountId: input.runAccountId, postId: post.id, error: errorMessage },
+            "Failed to triage post"
+          );
+          result.failedPosts++;
+          result.errors.push({ postId: post.id, error: errorMessage });
+        }
+      }
+    });
+
+    result.durationMs = Date.now() - startedAt;
+    result.postsPerMinute = throughputPerMinute(result.triagedPosts, result.durationMs);
 
     logger.info(
       { runAccountId: input.runAccountId, ...result },
@@ -83,7 +196,12 @@ export class TriageStage {
     return result;
   }
 
-  private async triagePost(post: Post, policy: EngagementPolicyInput): Promise<TriageOutput> {
+  private async triagePost(
+    llm: ResolvedLLM,
+    runAccountId: number,
+    post: Post,
+    policy: EngagementPolicyInput
+  ): Promise<TriageOutput> {
     const promptInput: TriagePromptInput = {
       policy,
       post: {
@@ -91,26 +209,105 @@ export class TriageStage {
         authorDisplayName: post.authorDisplayName,
         bodyText: post.bodyText,
         postUrl: post.postUrl,
+        media: await postMediaRepo.findByPostId(post.id),
+        author: toPromptAuthor(await authorsRepo.findByHandle(post.platform, post.authorHandle)),
       },
     };
 
     const systemPrompt = buildTriageSystemPrompt();
     const userPrompt = buildTriageUserPrompt(promptInput);
 
-    const output = await openRouterClient.complete(
+    const output = await llm.client.complete(
       systemPrompt,
       userPrompt,
       triagePromptSchema(),
-      { temperature: 0.3, maxTokens: 512 }
+      {
+        temperature: llm.temperature,
+        maxTokens: llm.maxTokens,
+        model: llm.model,
+        context: { stage: "triage", promptVersion: this.promptVersions.single, runAccountId, postId: post.id },
+      }
     );
 
     return output;
   }
 
+  private async triageBatch(
+    llm: ResolvedLLM,
+    runAccountId: number,
+    posts: Post[],
+    policy: EngagementPolicyInput
+  ): Promise<Map<number, TriageOutput>> {
+    const outputs = new Map<number, TriageOutput>();
+    const postIds = new Set(posts.map((post) => post.id));
+
+    try {
+      const mediaByPost = await postMediaRepo.findByPostIds(posts.map((post) => post.id));
+      const authorsByHandle = await authorsRepo.findByHandles(
+        posts[0]!.platform,
+        posts.map((post) => post.authorHandle)
+      );
+      const systemPrompt = buildTriageBatchSystemPrompt();
+      const userPrompt = buildTriageBatchUserPrompt({
+        policy,
+        posts: posts.map((post) => ({
+          postId: post.id,
+          authorHandle: post.authorHandle,
+          authorDisplayName: post.authorDisplayName,
+          bodyText: post.bodyText,
+          postUrl: post.postUrl,
+          media: mediaByPost.get(post.id) ?? [],
+          author: toPromptAuthor(authorsByHandle.get(post.authorHandle)),
+        })),
+      });
+
+      const output = await llm.client.complete(
+        systemPrompt,
+        userPrompt,
+        triageBatchPromptSchema(),
+        {
+          temperature: llm.temperature,
+          maxTokens: llm.maxTokens * posts.length,
+          model: llm.model,
+          context: { stage: "triage", promptVersion: this.promptVersions.batch, runAccountId },
+        }
+      );
+
+      let invalidItems = 0;
+      for (const item of output.results) {
+        const parsed = PostTriageBatchItemSchema.safeParse(item);
+        if (!parsed.success || !postIds.has(parsed.data.post_id) || outputs.has(parsed.data.post_id)) {
+          invalidItems++;
+          continue;
+        }
+        const { post_id, ...triageOutput } = parsed.data;
+        outputs.set(post_id, triageOutput);
+      }
+
+      if (invalidItems > 0 || outputs.size < posts.length) {
+        logger.warn(
+          { runAccountId, batchSize: posts.length, validItems: outputs.size, invalidItems },
+          "Triage batch partially invalid, falling back to single-post triage for the rest"
+        );
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      logger.warn(
+        { runAccountId, batchSize: posts.length, error: errorMessage },
+        "Triage batch failed, falling back to single-post triage"
+      );
+    }
+
+    return outputs;
+  }
+
   private async persistTriageResult(
     runAccountId: number,
     postId: number,
-    triageOutput: TriageOutput
+    triageOutput: TriageOutput,
+    model: string,
+    promptVersion: string,
+    cacheKey: string
   ): Promise<void> {
     await postTriageRepo.bulkCreateOrSkip([
       {
@@ -121,9 +318,29 @@ export class TriageStage {
         reasonsJson: JSON.stringify(triageOutput.reasons),
         action: triageOutput.action,
         confidence: Math.round(triageOutput.confidence * 100),
-        model: env.OPENROUTER_MODEL,
-        promptVersion: TRIAGE_PROMPT_VERSION,
-        isTop20: 0,
+        model,
+        promptVersion,
+        cacheKey,
+        isSelected: 0,
+        selectedForDeepScrape: 0,
+      },
+    ]);
+  }
+
+  private async persistCachedResult(runAccountId: number, postId: number, cached: PostTriage): Promise<void> {
+    await postTriageRepo.bulkCreateOrSkip([
+      {
+        runAccountId,
+        postId,
+        relevanceScore: cached.relevanceScore,
+        relevanceLabel: cached.relevanceLabel,
+        reasonsJson: cached.reasonsJson,
+        action: cached.action,
+        confidence: cached.confidence,
+        model: cached.model,
+        promptVersion: cached.promptVersion,
+        cacheKey: cached.cacheKey,
+        isSelected: 0,
         selectedForDeepScrape: 0,
       },
     ]);
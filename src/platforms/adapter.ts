@@ -1,13 +1,35 @@
 import type { Page, BrowserContext } from "playwright";
-import type { AuthState } from "../domain/models";
-import type { CollectedPost, CollectedComment, MetricSnapshot } from "../domain/models";
+import type { IncrementalScrapeOptions } from "../domain/incremental-scrape";
+import type { ActionPacer } from "../domain/pacing";
+import type { AuthState, FeedTab } from "../domain/models";
+import type {
+  CollectedPost,
+  CollectedComment,
+  CollectedNotification,
+  CollectedAuthorProfile,
+  MetricSnapshot,
+} from "../domain/models";
 
 export interface CollectPostOptions {
   maxPosts?: number;
+  // Set on incremental runs: stop scrolling once the feed reaches posts collected earlier.
+  incremental?: IncrementalScrapeOptions;
+  // Counts navigations and scrolls against the account's pacing budget.
+  pacer?: ActionPacer;
 }
 
 export interface CollectCommentOptions {
   maxComments?: number;
+  pacer?: ActionPacer;
+}
+
+export interface CollectNotificationOptions {
+  maxItems?: number;
+  pacer?: ActionPacer;
+}
+
+export interface PacedPageOptions {
+  pacer?: ActionPacer;
 }
 
 export interface PlatformAdapter {
@@ -21,9 +43,31 @@ export interface PlatformAdapter {
 
   collectSearch(page: Page, query: string, options: CollectPostOptions): Promise<CollectedPost[]>;
 
+  // Optional capabilities for the post_url, tag and feed cron sources; unsupported ones are skipped.
+  collectPostsByUrl?(page: Page, urls: string[], options: CollectPostOptions): Promise<CollectedPost[]>;
+
+  collectTag?(page: Page, tag: string, options: CollectPostOptions): Promise<CollectedPost[]>;
+
+  collectFeedTab?(page: Page, tab: FeedTab, options: CollectPostOptions): Promise<CollectedPost[]>;
+
   expandThreadComments(page: Page, post: CollectedPost, options: CollectCommentOptions): Promise<CollectedComment[]>;
 
-  extractMetrics(page: Page, entityType: "post" | "comment", entityRef: string): Promise<MetricSnapshot>;
+  // Optional capability: adapters that cannot read the activity feed leave this undefined.
+  collectNotifications?(
+    page: Page,
+    ownHandle: string,
+    options: CollectNotificationOptions
+  ): Promise<CollectedNotification[]>;
+
+  // Optional capability: reads bio, follower count and verified badge from an author's profile page.
+  collectAuthorProfile?(page: Page, handle: string, options?: PacedPageOptions): Promise<CollectedAuthorProfile | null>;
+
+  extractMetrics(
+    page: Page,
+    entityType: "post" | "comment",
+    entityRef: string,
+    options?: PacedPageOptions
+  ): Promise<MetricSnapshot>;
 
   performLogin(page: Page, handle: string): Promise<void>;
 }
@@ -1,4 +1,11 @@
 export { ThreadsAdapter } from "./threads.adapter";
 export { performThreadsLogin, validateThreadsSession } from "./auth";
-export { parsePostFromElement, parseCommentFromElement, extractMetricsFromElement } from "./parsers";
+export {
+  parsePostFromElement,
+  parseCommentFromElement,
+  extractMetricsFromElement,
+  classifyThreadsActivityItem,
+  parseThreadsProfileMeta,
+} from "./parsers";
+export { ThreadsNetworkCapture, parseThreadsPayload, type CapturedThreadsPost } from "./network";
 export { THREADS_SELECTORS, THREADS_SELECTORS_FALLBACK } from "./selectors";
@@ -0,0 +1,237 @@
+import type { Page, Response } from "playwright";
+import type { MetricSnapshot } from "../../domain/models";
+import { logger } from "../../core/logger";
+import { THREADS_SELECTORS } from "./selectors";
+
+export interface CapturedThreadsPost {
+  platformPostId: string;
+  authorHandle: string;
+  authorDisplayName: string;
+  bodyText: string | null;
+  postUrl: string;
+  publishedAt: number | null;
+  isReply: boolean;
+  replyToHandle: string | null;
+  // Post this one directly replies to, known when the payload lays replies out as a thread chain.
+  replyToPostId: string | null;
+  mediaUrls: string[];
+  metrics: MetricSnapshot;
+}
+
+// Bounds memory on long scroll sessions; a feed page never legitimately holds this many posts.
+const MAX_CAPTURED_POSTS = 2000;
+const MAX_WALK_DEPTH = 40;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+function pickMediaUrls(node: JsonObject): string[] {
+  const urls: string[] = [];
+  const collect = (media: unknown) => {
+    if (!isObject(media)) return;
+    const candidates = isObject(media.image_versions2) ? media.image_versions2.candidates : null;
+    const firstImage = Array.isArray(candidates) && isObject(candidates[0]) ? asString(candidates[0].url) : null;
+    const videos = Array.isArray(media.video_versions) ? media.video_versions : [];
+    const firstVideo = isObject(videos[0]) ? asString(videos[0].url) : null;
+    const url = firstVideo ?? firstImage;
+    if (url) urls.push(url);
+  };
+
+  if (Array.isArray(node.carousel_media) && node.carousel_media.length > 0) {
+    node.carousel_media.forEach(collect);
+  } else {
+    collect(node);
+  }
+  return urls;
+}
+
+/** Maps a Threads post object (the `post` node inside thread items) to our shape, or null if it is not one. */
+export function parseThreadsPostNode(node: JsonObject): CapturedThreadsPost | null {
+  const code = asString(node.code);
+  const user = isObject(node.user) ? node.user : null;
+  const username = user ? asString(user.username) : null;
+  if (!code || !username || !("taken_at" in node || "caption" in node)) return null;
+
+  const caption = isObject(node.caption) ? asString(node.caption.text) : null;
+  const appInfo = isObject(node.text_post_app_info) ? node.text_post_app_info : {};
+  const replyToAuthor = isObject(appInfo.reply_to_author) ? asString(appInfo.reply_to_author.username) : null;
+  const reposts = asNumber(appInfo.repost_count);
+  const quotes = asNumber(appInfo.quote_count);
+
+  return {
+    platformPostId: code,
+    authorHandle: username,
+    authorDisplayName: asString(user?.full_name) ?? username,
+    bodyText: caption,
+    postUrl: `${THREADS_SELECTORS.HOME_URL}/@${username}/post/${code}`,
+    publishedAt: asNumber(node.taken_at),
+    isReply: replyToAuthor !== null,
+    replyToHandle: replyToAuthor,
+    replyToPostId: null,
+    mediaUrls: pickMediaUrls(node),
+    metrics: {
+      likesCount: asNumber(node.like_count),
+      repliesCount: asNumber(appInfo.direct_reply_count),
+      // The Threads UI shows reposts and quotes as one "repost" count; keep the same meaning as the DOM path.
+      repostsCount: reposts === null && quotes === null ? null : (reposts ?? 0) + (quotes ?? 0),
+      viewsCount: asNumber(node.view_count),
+    },
+  };
+}
+
+function threadItemCodes(thread: unknown): string[] {
+  if (!isObject(thread) || !Array.isArray(thread.thread_items)) return [];
+  return thread.thread_items
+    .map((item) => (isObject(item) && isObject(item.post) ? asString(item.post.code) : null))
+    .filter((code): code is string => code !== null);
+}
+
+/**
+ * Walks an arbitrary GraphQL/JSON payload and returns every Threads post object found in it, in document order.
+ * Each `thread_items` list is a reply chain, and on a post page every reply thread hangs off the last item of
+ * `containing_thread`; both are used to fill in `replyToPostId`.
+ */
+export function parseThreadsPayload(payload: unknown): CapturedThreadsPost[] {
+  const found: CapturedThreadsPost[] = [];
+  const seen = new Set<string>();
+  const parentByCode = new Map<string, string>();
+
+  const walk = (value: unknown, depth: number) => {
+    if (depth > MAX_WALK_DEPTH) return;
+    if (Array.isArray(value)) {
+      for (const item of value) walk(item, depth + 1);
+      return;
+    }
+    if (!isObject(value)) return;
+
+    const chain = threadItemCodes(value);
+    for (let i = 1; i < chain.length; i++) {
+      parentByCode.set(chain[i]!, chain[i - 1]!);
+    }
+    if (Array.isArray(value.reply_threads)) {
+      const focal = threadItemCodes(value.containing_thread).at(-1);
+      for (const replyThread of value.reply_threads) {
+        const first = threadItemCodes(replyThread)[0];
+        if (focal && first && !parentByCode.has(first)) parentByCode.set(first, focal);
+      }
+    }
+
+    const post = parseThreadsPostNode(value);
+    if (post && !seen.has(post.platformPostId)) {
+      seen.add(post.platformPostId);
+      found.push(post);
+    }
+
+    for (const child of Object.values(value)) {
+      if (typeof child === "object" && child !== null) walk(child, depth + 1);
+    }
+  };
+
+  walk(payload, 0);
+  for (const post of found) {
+    post.replyToPostId = parentByCode.get(post.platformPostId) ?? null;
+  }
+  return found;
+}
+
+/** Threads responses may carry an anti-hijacking prefix and several JSON documents separated by newlines. */
+export function parseResponseBody(body: string): unknown[] {
+  const cleaned = body.replace(/^for \(;;\);/, "").trim();
+  if (!cleaned) return [];
+
+  try {
+    return [JSON.parse(cleaned)];
+  } catch {
+    const documents: unknown[] = [];
+    for (const line of cleaned.split("\n")) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith("{")) continue;
+      try {
+        documents.push(JSON.parse(trimmed));
+      } catch {
+        // Partial chunk of a streamed response; the complete copy arrives in another line.
+      }
+    }
+    return documents;
+  }
+}
+
+function isCandidateResponse(response: Response): boolean {
+  const url = response.url();
+  if (!url.startsWith(THREADS_SELECTORS.HOME_URL)) return false;
+  if (!/\/(?:api\/)?graphql|\/api\//.test(url)) return false;
+  const contentType = response.headers()["content-type"] || "";
+  return /json|javascript|text\/plain/.test(contentType);
+}
+
+/**
+ * Records post objects from the page's own GraphQL/JSON responses while attached.
+ * Attach before navigating so the initial feed request is captured.
+ */
+export class ThreadsNetworkCapture {
+  private posts = new Map<string, CapturedThreadsPost>();
+  private pending = new Set<Promise<void>>();
+  private page: Page | null = null;
+
+  private readonly onResponse = (response: Response) => {
+    if (!isCandidateResponse(response)) return;
+
+    const task = response
+      .text()
+      .then((body) => {
+        for (const document of parseResponseBody(body)) {
+          for (const post of parseThreadsPayload(document)) {
+            if (this.posts.size >= MAX_CAPTURED_POSTS && !this.posts.has(post.platformPostId)) break;
+            this.posts.set(post.platformPostId, post);
+          }
+        }
+      })
+      .catch((error) => {
+        logger.debug({ error, url: response.url() }, "Failed to read Threads network response");
+      })
+      .finally(() => {
+        this.pending.delete(task);
+      });
+    this.pending.add(task);
+  };
+
+  attach(page: Page): this {
+    this.page = page;
+    page.on("response", this.onResponse);
+    return this;
+  }
+
+  /** Waits for in-flight response bodies, then stops listening. */
+  async detach(): Promise<void> {
+    await this.settle();
+    this.page?.off("response", this.onResponse);
+    this.page = null;
+  }
+
+  async settle(): Promise<void> {
+    await Promise.allSettled(Array.from(this.pending));
+  }
+
+  get size(): number {
+    return this.posts.size;
+  }
+
+  list(): CapturedThreadsPost[] {
+    return Array.from(this.posts.values());
+  }
+
+  get(platformPostId: string): CapturedThreadsPost | null {
+    return this.posts.get(platformPostId) ?? null;
+  }
+}
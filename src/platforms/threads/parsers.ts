@@ -1,5 +1,5 @@
 import type { ElementHandle, Page } from "playwright";
-import type { CollectedPost, CollectedComment, MetricSnapshot } from "../../domain/models";
+import type { CollectedPost, CollectedComment, MetricSnapshot, NotificationKind } from "../../domain/models";
 import { THREADS_SELECTORS } from "./selectors";
 
 type ExtractedPostData = {
@@ -165,3 +165,72 @@ export async function extractMetricsFromElement(
     viewsCount: await parseNumber(viewsEl),
   };
 }
+
+export interface ThreadsActivityItem {
+  itemText: string;
+  bodyText: string | null;
+  // Whether the item also links one of the account's own posts (the post being replied to or quoted).
+  linksOwnPost: boolean;
+}
+
+/**
+ * Classifies an activity-feed item from its visible text. Returns null for
+ * likes, follows and other activity that carries nothing to reply to.
+ */
+export function classifyThreadsActivityItem(item: ThreadsActivityItem, ownHandle: string): NotificationKind | null {
+  const text = item.itemText.toLowerCase();
+  if (/\bquoted (?:you|your)\b/.test(text)) return "quote";
+  if (/\bmentioned you\b/.test(text)) return "mention";
+  if (/\brepl(?:ied|y) to (?:you|your)\b/.test(text)) return "reply";
+
+  const handle = ownHandle.replace(/^@/, "").trim().toLowerCase();
+  const escapedHandle = handle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (handle && item.bodyText && new RegExp(`@${escapedHandle}(?![\\w.])`, "i").test(item.bodyText)) {
+    return "mention";
+  }
+
+  if (item.linksOwnPost && item.bodyText && !/\bliked\b/.test(text)) return "reply";
+  return null;
+}
+
+export interface ThreadsProfileMeta {
+  // og:title, e.g. "Jane Doe (@jane) • Threads, Say more"
+  title: string | null;
+  // og:description, e.g. "12.3K Followers • 210 Threads • Bio text. See the latest conversations with @jane."
+  description: string | null;
+  hasVerifiedBadge: boolean;
+}
+
+function parseCompactCount(value: string): number | null {
+  const match = value.replace(/,/g, "").match(/^(\d+(?:\.\d+)?)([KMB])?$/i);
+  if (!match || !match[1]) return null;
+  const multiplier = { K: 1_000, M: 1_000_000, B: 1_000_000_000 }[(match[2] || "").toUpperCase()] ?? 1;
+  return Math.round(Number.parseFloat(match[1]) * multiplier);
+}
+
+/** Reads display name, follower count and bio from a profile page's meta tags; fields missing from the tags stay null. */
+export function parseThreadsProfileMeta(
+  meta: ThreadsProfileMeta,
+  handle: string
+): { displayName: string | null; bio: string | null; followerCount: number | null; isVerified: boolean } {
+  const normalizedHandle = handle.replace(/^@/, "").trim();
+  const escapedHandle = normalizedHandle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+  const titleMatch = meta.title?.match(new RegExp(`^(.+?)\\s*\\(@${escapedHandle}\\)`, "i"));
+  const displayName = titleMatch?.[1]?.trim() || null;
+
+  const description = (meta.description || "").replace(/\s+/g, " ").trim();
+  const followerMatch = description.match(/([\d.,]+\s?[KMB]?)\s+Followers?\b/i);
+  const followerCount = followerMatch?.[1] ? parseCompactCount(followerMatch[1].replace(/\s/g, "")) : null;
+
+  // The bio follows the "N Followers • N Threads •" counters and precedes Threads' own call to action.
+  const bio =
+    description
+      .split(" • ")
+      .filter((part) => !/^[\d.,]+\s?[KMB]?\s+(?:Followers?|Threads?|Replies)$/i.test(part.trim()))
+      .join(" • ")
+      .replace(new RegExp(`\\s*See the latest conversations with @${escapedHandle}\\.?$`, "i"), "")
+      .trim() || null;
+
+  return { displayName, bio, followerCount, isVerified: meta.hasVerifiedBadge };
+}
@@ -46,6 +46,28 @@ export const THREADS_SELECTORS = {
       "button:has-text('Show'), button:has-text('Load'), button:has-text('View')",
   },
 
+  ACTIVITY: {
+    URL_PATH: "/activity",
+    ITEM_LINK: 'a[href*="/post/"]:not([href*="/media"])',
+  },
+
+  FEED: {
+    // "For you" is the default home feed at HOME_URL.
+    FOLLOWING_PATH: "/following",
+  },
+
+  TAG: {
+    // Topic/hashtag pages are tag-typed searches; the tag is passed without its leading #.
+    SEARCH_PATH: "/search?serp_type=tags&q=",
+  },
+
+  PROFILE: {
+    TITLE_META: 'meta[property="og:title"]',
+    DESCRIPTION_META: 'meta[property="og:description"], meta[name="description"]',
+    NAME_HEADING: "h1",
+    VERIFIED_BADGE: 'svg[aria-label="Verified"]',
+  },
+
   THREAD: {
     THREAD_ROOT: 'article:has-text("Thread"), [class*="thread"]',
     THREAD_EXPAND: "button:has-text('View'), button:has-text('Show')",
@@ -1,13 +1,33 @@
 /// <reference lib="dom" />
 import type { Page } from "playwright";
-import type { AuthState, CollectedPost, CollectedComment, MetricSnapshot } from "../../domain/models";
-import type { PlatformAdapter, CollectPostOptions, CollectCommentOptions } from "../adapter";
-import { NavigationError } from "../../core/errors";
+import type {
+  AuthState,
+  FeedTab,
+  CollectedPost,
+  CollectedComment,
+  CollectedNotification,
+  CollectedAuthorProfile,
+  MetricSnapshot,
+} from "../../domain/models";
+import type {
+  PlatformAdapter,
+  CollectPostOptions,
+  CollectCommentOptions,
+  CollectNotificationOptions,
+  PacedPageOptions,
+} from "../adapter";
+import { NavigationError, RateLimitError } from "../../core/errors";
 import { THREADS_SELECTORS } from "./selectors";
+import { classifyThreadsActivityItem, parseThreadsProfileMeta, type ThreadsProfileMeta } from "./parsers";
+import { ThreadsNetworkCapture, type CapturedThreadsPost } from "./network";
 import { performThreadsLogin, validateThreadsSession } from "./auth";
 import { actionDelay } from "../../core/cooldown";
 import { logger } from "../../core/logger";
+import { env } from "../../core/config";
 import { detectBlockChallenge } from "../../services/browser-session";
+import { reachedKnownPosts, type IncrementalScrapeOptions } from "../../domain/incremental-scrape";
+import type { ActionPacer } from "../../domain/pacing";
+import { resolveSelfThreadRoots } from "../../domain/thread-tree";
 
 // Type for the post extraction result from page.evaluate
 interface ExtractedPost {
@@ -17,8 +37,23 @@ interface ExtractedPost {
   postUrl: string;
 }
 
+interface ExtractedActivityItem {
+  platformPostId: string;
+  authorHandle: string;
+  postUrl: string;
+  itemText: string;
+  bodyText: string | null;
+  targetPlatformPostId: string | null;
+  publishedAt: number | null;
+}
+
+// DOM fallback on a post page: enough to get past the parent posts shown above a reply.
+const POST_PAGE_DOM_SCAN_POSTS = 20;
+
 export class ThreadsAdapter implements PlatformAdapter {
   readonly platform = "threads";
+  // Posts seen in GraphQL responses during this adapter's lifetime, keyed by post code.
+  private capturedPosts = new Map<string, CapturedThreadsPost>();
 
   private parseCompactNumber(value: string | null | undefined): number | null {
     if (!value) return null;
@@ -57,7 +92,7 @@ export class ThreadsAdapter implements PlatformAdapter {
     return null;
   }
 
-  private async safeGoto(page: Page, url: string, source: string): Promise<void> {
+  private async safeGoto(page: Page, url: string, source: string, pacer?: ActionPacer): Promise<void> {
     const currentUrl = page.url();
     const isSameOrigin = currentUrl.startsWith(THREADS_SELECTORS.HOME_URL) && url.startsWith(THREADS_SELECTORS.HOME_URL);
     const isAlreadyOnTarget = currentUrl === url || (isSameOrigin && this.isSamePage(currentUrl, url));
@@ -67,7 +102,9 @@ export class ThreadsAdapter implements PlatformAdapter {
       await page.waitForTimeout(800);
       return;
     }
-    
+
+    await pacer?.pace("navigation");
+
     if (isSameOrigin) {
       logger.debug({ currentUrl, targetUrl: url, source }, "Same-origin navigation, using soft transition");
       try {
@@ -160,20 +197,21 @@ export class ThreadsAdapter implements PlatformAdapter {
   async collectHome(page: Page, options: CollectPostOptions): Promise<CollectedPost[]> {
     logger.debug("Collecting Threads home feed");
 
-    await this.safeGoto(page, THREADS_SELECTORS.HOME_URL, "home");
-    await actionDelay();
-
-    return this.collectPostsFromCurrentPage(page, options.maxPosts ?? 50, "home");
+    return this.collectFeed(page, THREADS_SELECTORS.HOME_URL, options.maxPosts ?? 50, "home", options.incremental, options.pacer);
   }
 
   async collectProfileByHandle(page: Page, handle: string, options: CollectPostOptions): Promise<CollectedPost[]> {
     const normalizedHandle = handle.replace(/^@/, "").trim();
     logger.debug({ handle: normalizedHandle }, "Collecting Threads profile feed");
 
-    await this.safeGoto(page, `${THREADS_SELECTORS.HOME_URL}/@${normalizedHandle}`, `profile:${normalizedHandle}`);
-    await actionDelay();
-
-    return this.collectPostsFromCurrentPage(page, options.maxPosts ?? 50, `profile:${normalizedHandle}`);
+    return this.collectFeed(
+      page,
+      `${THREADS_SELECTORS.HOME_URL}/@${normalizedHandle}`,
+      options.maxPosts ?? 50,
+      `profile:${normalizedHandle}`,
+      options.incremental,
+      options.pacer
+    );
   }
 
   async collectSearch(page: Page, query: string, options: CollectPostOptions): Promise<CollectedPost[]> {
@@ -182,13 +220,397 @@ export class ThreadsAdapter implements PlatformAdapter {
       ? query
       : `${THREADS_SELECTORS.HOME_URL}/search?q=${encodeURIComponent(query)}&serp_type=default&filter=recent`;
 
-    await this.safeGoto(page, searchUrl, `search:${query}`);
+    return this.collectFeed(page, searchUrl, options.maxPosts ?? 50, `search:${query}`, options.incremental, options.pacer);
+  }
+
+  async collectTag(page: Page, tag: string, options: CollectPostOptions): Promise<CollectedPost[]> {
+    const normalizedTag = tag.replace(/^#/, "").trim();
+    logger.debug({ tag: normalizedTag }, "Collecting Threads tag page");
+
+    return this.collectFeed(
+      page,
+      `${THREADS_SELECTORS.HOME_URL}${THREADS_SELECTORS.TAG.SEARCH_PATH}${encodeURIComponent(normalizedTag)}`,
+      options.maxPosts ?? 50,
+      `tag:${normalizedTag}`,
+      options.incremental,
+      options.pacer
+    );
+  }
+
+  async collectFeedTab(page: Page, tab: FeedTab, options: CollectPostOptions): Promise<CollectedPost[]> {
+    logger.debug({ tab }, "Collecting Threads feed tab");
+    const url =
+      tab === "following" ? `${THREADS_SELECTORS.HOME_URL}${THREADS_SELECTORS.FEED.FOLLOWING_PATH}` : THREADS_SELECTORS.HOME_URL;
+
+    return this.collectFeed(page, url, options.maxPosts ?? 50, `feed:${tab}`, options.incremental, options.pacer);
+  }
+
+  /** Re-reads each listed post from its own page; URLs without a /post/<code> path are skipped. */
+  async collectPostsByUrl(page: Page, urls: string[], options: CollectPostOptions): Promise<CollectedPost[]> {
+    const posts: CollectedPost[] = [];
+
+    for (const rawUrl of urls.slice(0, options.maxPosts ?? urls.length)) {
+      const url = rawUrl.startsWith("http") ? rawUrl : `${THREADS_SELECTORS.HOME_URL}${rawUrl}`;
+      const code = url.match(/\/post\/([A-Za-z0-9_-]+)/)?.[1] ?? null;
+      if (!code) {
+        logger.warn({ url }, "Skipping post URL without a Threads post code");
+        continue;
+      }
+
+      const post = await this.collectPostPage(page, url, code, options.pacer);
+      if (!post) {
+        logger.warn({ url }, "Listed Threads post not found on its page");
+        continue;
+      }
+      posts.push(post);
+      await actionDelay();
+    }
+
+    return posts;
+  }
+
+  async collectNotifications(
+    page: Page,
+    ownHandle: string,
+    options: CollectNotificationOptions
+  ): Promise<CollectedNotification[]> {
+    const normalizedHandle = ownHandle.replace(/^@/, "").trim().toLowerCase();
+    const maxItems = options.maxItems ?? 50;
+    logger.debug({ handle: normalizedHandle }, "Collecting Threads notifications");
+
+    await this.safeGoto(
+      page,
+      `${THREADS_SELECTORS.HOME_URL}${THREADS_SELECTORS.ACTIVITY.URL_PATH}`,
+      "notifications",
+      options.pacer
+    );
     await actionDelay();
 
-    return this.collectPostsFromCurrentPage(page, options.maxPosts ?? 50, `search:${query}`);
+    const notificationByPostId = new Map<string, CollectedNotification>();
+
+    try {
+      for (let pass = 0; pass < 6 && notificationByPostId.size < maxItems; pass++) {
+        this.logBlockTelemetry(page, "notifications", { pass, collected: notificationByPostId.size });
+
+        const items = await page.evaluate(
+          ({ homeUrl, ownHandle, linkSelector }): ExtractedActivityItem[] => {
+            const cleanText = (value: string | null | undefined): string =>
+              (value || "").replace(/\s+/g, " ").trim();
+
+            const parseLink = (href: string | null) => {
+              const match = (href || "").match(/\/@([^/]+)\/post\/([A-Za-z0-9_-]+)/);
+              if (!match || !match[1] || !match[2]) return null;
+              return { handle: match[1].toLowerCase(), postId: match[2], href: href as string };
+            };
+
+            // An activity row holds the actor's post link and at most one link to our own post.
+            const pickItemContainer = (link: HTMLElement): HTMLElement | null => {
+              let cursor: HTMLElement | null = link;
+              for (let depth = 0; depth < 12 && cursor; depth++) {
+                cursor = cursor.parentElement as HTMLElement | null;
+                if (!cursor) break;
+                const textLength = cleanText(cursor.textContent).length;
+                if (textLength < 20 || textLength > 2000) continue;
+                const postIds = new Set(
+                  Array.from(cursor.querySelectorAll(linkSelector))
+                    .map((node) => parseLink(node.getAttribute("href"))?.postId)
+                    .filter(Boolean)
+                );
+                if (postIds.size >= 1 && postIds.size <= 2) return cursor;
+                if (postIds.size > 2) return null;
+              }
+              return null;
+            };
+
+            const results: ExtractedActivityItem[] = [];
+            const links = Array.from(document.querySelectorAll(linkSelector)) as HTMLElement[];
+
+            for (const link of links) {
+              const parsed = parseLink(link.getAttribute("href"));
+              if (!parsed || parsed.handle === ownHandle) continue;
+
+              const container = pickItemContainer(link);
+              if (!container) continue;
+
+              const ownPost = Array.from(container.querySelectorAll(linkSelector))
+                .map((node) => parseLink(node.getAttribute("href")))
+                .find((candidate) => candidate && candidate.handle === ownHandle);
+
+              const bodyCandidates = Array.from(container.querySelectorAll('span[dir="auto"], div[dir="auto"]'))
+                .map((node) => cleanText(node.textContent))
+                .filter((text) => text.length > 0 && text.toLowerCase() !== parsed.handle);
+
+              const datetime = container.querySelector("time")?.getAttribute("datetime") || null;
+
+              results.push({
+                platformPostId: parsed.postId,
+                authorHandle: parsed.handle,
+                postUrl: parsed.href.startsWith("http") ? parsed.href : `${homeUrl}${parsed.href}`,
+                itemText: cleanText(container.textContent),
+                bodyText: bodyCandidates.sort((a, b) => b.length - a.length)[0] || null,
+                targetPlatformPostId: ownPost?.postId ?? null,
+                publishedAt: datetime ? Math.floor(new Date(datetime).getTime() / 1000) : null,
+              });
+            }
+
+            return results;
+          },
+          {
+            homeUrl: THREADS_SELECTORS.HOME_URL,
+            ownHandle: normalizedHandle,
+            linkSelector: THREADS_SELECTORS.ACTIVITY.ITEM_LINK,
+          }
+        );
+
+        const previousCount = notificationByPostId.size;
+
+        for (const item of items) {
+          if (notificationByPostId.has(item.platformPostId)) continue;
+
+          const bodyText = this.sanitizeBodyText(item.bodyText);
+          const kind = classifyThreadsActivityItem(
+            { itemText: item.itemText, bodyText, linksOwnPost: item.targetPlatformPostId !== null },
+            normalizedHandle
+          );
+          if (!kind) continue;
+
+          notificationByPostId.set(item.platformPostId, {
+            kind,
+            actorHandle: item.authorHandle,
+            targetPlatformPostId: item.targetPlatformPostId,
+            occurredAt: item.publishedAt,
+            post: {
+              platformPostId: item.platformPostId,
+              authorHandle: item.authorHandle,
+              authorDisplayName: item.authorHandle,
+              bodyText,
+              contentHash: "",
+              postUrl: item.postUrl,
+              threadRootPlatformPostId: kind === "reply" ? item.targetPlatformPostId : null,
+              publishedAt: item.publishedAt,
+              mediaUrls: [],
+            },
+          });
+        }
+
+        if (notificationByPostId.size >= maxItems || notificationByPostId.size === previousCount) break;
+
+        await options.pacer?.pace("scroll");
+        await page.mouse.wheel(0, 2000);
+        await page.waitForTimeout(1000);
+      }
+
+      const notifications = Array.from(notificationByPostId.values()).slice(0, maxItems);
+      logger.debug({ collected: notifications.length }, "Threads notifications collected");
+      return notifications;
+    } catch (error) {
+      this.logBlockTelemetry(page, "notifications", { error: String(error) });
+      logger.error({ error }, "Failed to collect Threads notifications");
+      throw new NavigationError("Failed to collect Threads notifications", "COLLECT_NOTIFICATIONS_FAILED");
+    }
   }
 
-  private async collectPostsFromCurrentPage(page: Page, maxPosts: number, source: string): Promise<CollectedPost[]> {
+  async collectAuthorProfile(page: Page, handle: string, options?: PacedPageOptions): Promise<CollectedAuthorProfile | null> {
+    const normalizedHandle = handle.replace(/^@/, "").trim();
+    logger.debug({ handle: normalizedHandle }, "Collecting Threads author profile");
+
+    await this.safeGoto(
+      page,
+      `${THREADS_SELECTORS.HOME_URL}/@${normalizedHandle}`,
+      `author:${normalizedHandle}`,
+      options?.pacer
+    );
+
+    const meta = await page.evaluate(
+      ({ titleSelector, descriptionSelector, headingSelector, verifiedSelector }): ThreadsProfileMeta => {
+        // Only the badge next to the profile name counts; feed items below carry badges of other authors.
+        const heading = document.querySelector(headingSelector);
+        return {
+          title: document.querySelector(titleSelector)?.getAttribute("content") ?? null,
+          description: document.querySelector(descriptionSelector)?.getAttribute("content") ?? null,
+          hasVerifiedBadge: Boolean(heading?.parentElement?.querySelector(verifiedSelector)),
+        };
+      },
+      {
+        titleSelector: THREADS_SELECTORS.PROFILE.TITLE_META,
+        descriptionSelector: THREADS_SELECTORS.PROFILE.DESCRIPTION_META,
+        headingSelector: THREADS_SELECTORS.PROFILE.NAME_HEADING,
+        verifiedSelector: THREADS_SELECTORS.PROFILE.VERIFIED_BADGE,
+      }
+    );
+
+    if (!meta.title && !meta.description) {
+      this.logBlockTelemetry(page, `author:${normalizedHandle}`);
+      return null;
+    }
+
+    const parsed = parseThreadsProfileMeta(meta, normalizedHandle);
+    return {
+      handle: normalizedHandle,
+      displayName: parsed.displayName,
+      bio: parsed.bio,
+      followerCount: parsed.followerCount,
+      // A missing badge only means "not verified" when the rest of the profile rendered.
+      isVerified: parsed.displayName ? parsed.isVerified : null,
+    };
+  }
+
+  private startCapture(page: Page): ThreadsNetworkCapture | null {
+    if (env.THREADS_EXTRACTION_MODE !== "network") return null;
+    return new ThreadsNetworkCapture().attach(page);
+  }
+
+  private async finishCapture(capture: ThreadsNetworkCapture | null): Promise<CapturedThreadsPost[]> {
+    if (!capture) return [];
+    await capture.detach();
+    const captured = capture.list();
+    for (const post of captured) {
+      this.capturedPosts.set(post.platformPostId, post);
+    }
+    return captured;
+  }
+
+  private async collectFeed(
+    page: Page,
+    url: string,
+    maxPosts: number,
+    source: string,
+    incremental?: IncrementalScrapeOptions,
+    pacer?: ActionPacer
+  ): Promise<CollectedPost[]> {
+    const capture = this.startCapture(page);
+    let domPosts: CollectedPost[];
+    try {
+      await this.safeGoto(page, url, source, pacer);
+      await actionDelay();
+      domPosts = await this.collectPostsFromCurrentPage(page, maxPosts, source, incremental, pacer);
+    } finally {
+      await this.finishCapture(capture);
+    }
+
+    const captured = capture?.list() ?? [];
+    if (captured.length === 0) {
+      if (capture) logger.debug({ source }, "No Threads network payloads captured, using DOM extraction");
+      return domPosts;
+    }
+
+    return this.mergeCapturedPosts(captured, domPosts, maxPosts, source);
+  }
+
+  /**
+   * Reads one post from its own page. Unlike a feed, the listed post is kept even when it is a reply;
+   * the parents and replies shown around it are not returned.
+   */
+  private async collectPostPage(page: Page, url: string, code: string, pacer?: ActionPacer): Promise<CollectedPost | null> {
+    const source = `post:${code}`;
+    const isTarget = (post: { platformPostId: string | null; postUrl: string | null }) =>
+      post.platformPostId === code || (post.postUrl?.includes(`/post/${code}`) ?? false);
+    const capture = this.startCapture(page);
+    let domPost: CollectedPost | undefined;
+    try {
+      await this.safeGoto(page, url, source, pacer);
+      await actionDelay();
+      await capture?.settle();
+      if (!capture?.list().some(isTarget)) {
+        // Scrolls only until the listed post shows up, the same way an incremental feed stops at a known post.
+        const domPosts = await this.collectPostsFromCurrentPage(
+          page,
+          POST_PAGE_DOM_SCAN_POSTS,
+          source,
+          { cursor: null, knownPostIds: new Set([code]), stopAfterKnown: 1 },
+          pacer
+        );
+        domPost = domPosts.find(isTarget);
+      }
+    } finally {
+      await this.finishCapture(capture);
+    }
+
+    const captured = capture?.list() ?? [];
+    const networkPost = captured.find(isTarget);
+    if (!networkPost) return domPost ?? null;
+
+    const selfThreadRoots = resolveSelfThreadRoots(
+      captured.map((post) => ({ id: post.platformPostId, authorHandle: post.authorHandle, replyToId: post.replyToPostId }))
+    );
+    return this.toCollectedPost(networkPost, selfThreadRoots.get(networkPost.platformPostId) ?? null);
+  }
+
+  /**
+   * Network posts are authoritative; DOM-only posts fill in anything the payloads did not carry.
+   * Replies are dropped except continuations of the author's own thread, which keep a pointer to its first post.
+   */
+  private mergeCapturedPosts(
+    captured: CapturedThreadsPost[],
+    domPosts: CollectedPost[],
+    maxPosts: number,
+    source: string
+  ): CollectedPost[] {
+    const merged = new Map<string, CollectedPost>();
+    const selfThreadRoots = resolveSelfThreadRoots(
+      captured.map((post) => ({ id: post.platformPostId, authorHandle: post.authorHandle, replyToId: post.replyToPostId }))
+    );
+
+    for (const post of captured) {
+      const threadRoot = selfThreadRoots.get(post.platformPostId) ?? null;
+      if (post.isReply && !threadRoot) continue;
+      merged.set(post.platformPostId, this.toCollectedPost(post, threadRoot));
+    }
+
+    const fromNetwork = merged.size;
+    for (const post of domPosts) {
+      const key = post.platformPostId ?? `${post.authorHandle}:${post.bodyText ?? ""}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.bodyText = existing.bodyText ?? post.bodyText;
+        continue;
+      }
+      merged.set(key, post);
+    }
+
+    const result = Array.from(merged.values()).slice(0, maxPosts);
+    logger.debug(
+      { source, fromNetwork, fromDomOnly: merged.size - fromNetwork, collected: result.length },
+      "Merged Threads network and DOM posts"
+    );
+    return result;
+  }
+
+  private toCollectedPost(post: CapturedThreadsPost, threadRoot: string | null): CollectedPost {
+    return {
+      platformPostId: post.platformPostId,
+      authorHandle: post.authorHandle,
+      authorDisplayName: post.authorDisplayName,
+      bodyText: post.bodyText,
+      contentHash: "",
+      postUrl: post.postUrl,
+      threadRootPlatformPostId: threadRoot,
+      publishedAt: post.publishedAt,
+      mediaUrls: post.mediaUrls,
+    };
+  }
+
+  private toCapturedComment(post: CapturedThreadsPost, threadPostId: string | null): CollectedComment {
+    return {
+      platformCommentId: post.platformPostId,
+      authorHandle: post.authorHandle,
+      authorDisplayName: post.authorDisplayName,
+      bodyText: post.bodyText,
+      contentHash: "",
+      commentUrl: post.postUrl,
+      publishedAt: post.publishedAt,
+      mediaUrls: post.mediaUrls,
+      parentPlatformCommentId: post.replyToPostId && post.replyToPostId !== threadPostId ? post.replyToPostId : null,
+    };
+  }
+
+  private async collectPostsFromCurrentPage(
+    page: Page,
+    maxPosts: number,
+    source: string,
+    incremental?: IncrementalScrapeOptions,
+    pacer?: ActionPacer
+  ): Promise<CollectedPost[]> {
     const postById = new Map<string, CollectedPost>();
     let previousUniqueCount = 0;
     let navigationTimeoutCount = 0;
@@ -327,8 +749,13 @@ export class ThreadsAdapter implements PlatformAdapter {
         }
 
         if (postById.size >= maxPosts || postById.size === previousUniqueCount) break;
+        if (incremental && reachedKnownPosts(Array.from(postById.values()), incremental)) {
+          logger.debug({ source, pass, collected: postById.size }, "Reached already-seen Threads posts; stopping scroll");
+          break;
+        }
         previousUniqueCount = postById.size;
 
+        await pacer?.pace("scroll");
         await page.mouse.wheel(0, 2200);
         await page.waitForTimeout(1000);
         
@@ -356,6 +783,11 @@ export class ThreadsAdapter implements PlatformAdapter {
       
       return resultPosts;
     } catch (error) {
+      if (error instanceof RateLimitError && error.code === "QUOTA_EXHAUSTED") {
+        // The runner stops on its own once the governor is exhausted; keep what this source already read.
+        logger.info({ source, collected: postById.size }, "Pacing quota exhausted; returning Threads posts collected so far");
+        return Array.from(postById.values()).slice(0, maxPosts);
+      }
       this.logBlockTelemetry(page, source, { error: String(error) });
       logger.error({ error, source, navigationTimeoutCount }, "Failed to collect Threads posts");
       throw new NavigationError("Failed to collect Threads posts", "COLLECT_POSTS_FAILED");
@@ -409,6 +841,9 @@ export class ThreadsAdapter implements PlatformAdapter {
       return [];
     }
 
+    const capture = this.startCapture(page);
+    let domComments: CollectedComment[] = [];
+
     try {
       const currentUrl = page.url();
       const isAlreadyOnPost = currentUrl === post.postUrl;
@@ -416,6 +851,7 @@ export class ThreadsAdapter implements PlatformAdapter {
       if (isAlreadyOnPost) {
         logger.debug({ postId: post.platformPostId }, "Already on post page, skipping navigation");
       } else {
+        await options.pacer?.pace("navigation");
         await page.goto(post.postUrl, { waitUntil: "domcontentloaded", timeout: 12000 });
         await page.waitForLoadState("domcontentloaded", { timeout: 4000 }).catch(() => undefined);
         await page.waitForTimeout(800);
@@ -428,6 +864,7 @@ export class ThreadsAdapter implements PlatformAdapter {
         const expandCandidates = page.locator(THREADS_SELECTORS.COMMENTS.LOAD_MORE_COMMENTS);
         const count = await expandCandidates.count();
         if (count === 0) {
+          await options.pacer?.pace("scroll");
           await page.mouse.wheel(0, 1400);
           await page.waitForTimeout(600);
           continue;
@@ -439,6 +876,7 @@ export class ThreadsAdapter implements PlatformAdapter {
           const button = expandCandidates.nth(i);
           try {
             if (await button.isVisible({ timeout: 600 })) {
+              await options.pacer?.pace("expand");
               await button.click({ timeout: 1200 });
               clickedInPass++;
               expandClicks++;
@@ -449,6 +887,7 @@ export class ThreadsAdapter implements PlatformAdapter {
         }
 
         if (clickedInPass === 0) {
+          await options.pacer?.pace("scroll");
           await page.mouse.wheel(0, 1600);
           await page.waitForTimeout(700);
         }
@@ -653,28 +1092,71 @@ export class ThreadsAdapter implements PlatformAdapter {
         "Thread comments extraction completed",
       );
 
-      return extractedComments.map((comment) => ({
+      domComments = extractedComments.map((comment) => ({
         ...comment,
         contentHash: "",
       }));
     } catch (error) {
       logger.debug({ error, postId: post.platformPostId, postUrl: post.postUrl }, "Failed to expand thread comments");
-      return [];
     }
+
+    const captured = await this.finishCapture(capture);
+    // When the post continues a self-thread, the page also shows its ancestors; those are not replies to it.
+    const ancestors = new Set<string>();
+    const capturedById = new Map(captured.map((item) => [item.platformPostId, item]));
+    for (
+      let parentId = post.platformPostId ? capturedById.get(post.platformPostId)?.replyToPostId : null;
+      parentId && !ancestors.has(parentId);
+      parentId = capturedById.get(parentId)?.replyToPostId
+    ) {
+      ancestors.add(parentId);
+    }
+
+    const networkComments = captured
+      .filter((item) => item.isReply && item.platformPostId !== post.platformPostId && !ancestors.has(item.platformPostId))
+      .map((item) => this.toCapturedComment(item, post.platformPostId));
+    if (networkComments.length === 0) {
+      return domComments;
+    }
+
+    const seen = new Set(networkComments.map((comment) => comment.platformCommentId));
+    const merged = [
+      ...networkComments,
+      ...domComments.filter((comment) => !comment.platformCommentId || !seen.has(comment.platformCommentId)),
+    ].slice(0, maxComments);
+    logger.debug(
+      { postId: post.platformPostId, fromNetwork: networkComments.length, collected: merged.length },
+      "Merged Threads network and DOM comments"
+    );
+    return merged;
   }
 
-  async extractMetrics(page: Page, entityType: "post" | "comment", entityRef: string): Promise<MetricSnapshot> {
+  async extractMetrics(
+    page: Page,
+    entityType: "post" | "comment",
+    entityRef: string,
+    options?: PacedPageOptions
+  ): Promise<MetricSnapshot> {
     logger.debug({ entityType, entityRef }, "Extracting metrics");
 
     if (!entityRef.startsWith("http")) {
       entityRef = `${THREADS_SELECTORS.HOME_URL}${entityRef}`;
     }
 
+    const targetCode = entityRef.match(/\/post\/([A-Za-z0-9_-]+)/)?.[1] ?? null;
+    const cached = targetCode ? this.capturedPosts.get(targetCode) : undefined;
+    if (cached && this.hasAnyMetric(cached.metrics)) {
+      logger.debug({ entityRef, metrics: cached.metrics }, "Using Threads metrics from captured network payload");
+      return cached.metrics;
+    }
+
+    const capture = this.startCapture(page);
     try {
       const currentUrl = page.url();
       const isAlreadyOnPage = currentUrl === entityRef;
       
       if (!isAlreadyOnPage) {
+        await options?.pacer?.pace("navigation");
         await page.goto(entityRef, { waitUntil: "domcontentloaded", timeout: 3500 });
         await page.waitForLoadState("networkidle", { timeout: 1200 }).catch(() => undefined);
         await page.waitForTimeout(700);
@@ -825,10 +1307,23 @@ export class ThreadsAdapter implements PlatformAdapter {
 
       logger.debug({ entityRef, bestScore, metrics: bestMetrics }, "Threads metrics extraction result");
 
+      await this.finishCapture(capture);
+      const captured = targetCode ? this.capturedPosts.get(targetCode) : undefined;
+      if (captured && this.hasAnyMetric(captured.metrics)) {
+        return captured.metrics;
+      }
+
       return bestMetrics;
     } catch (error) {
+      await this.finishCapture(capture).catch(() => undefined);
       logger.debug({ error }, "Failed to extract metrics");
       return { likesCount: null, repliesCount: null, repostsCount: null, viewsCount: null };
     }
   }
+
+  private hasAnyMetric(metrics: MetricSnapshot): boolean {
+    return [metrics.likesCount, metrics.repliesCount, metrics.repostsCount, metrics.viewsCount].some(
+      (value) => value !== null
+    );
+  }
 }
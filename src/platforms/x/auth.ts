@@ -0,0 +1,150 @@
+import type { Page, BrowserContext } from "playwright";
+import { AuthError } from "../../core/errors";
+import { X_SELECTORS } from "./selectors";
+import { actionDelay } from "../../core/cooldown";
+import readline from "readline";
+
+const X_ALLOWED_HOSTS = new Set(["x.com", "www.x.com", "twitter.com", "www.twitter.com"]);
+
+function parseHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+async function isPageAuthenticatedByHeuristic(
+  page: Page,
+): Promise<{ isAuthenticated: boolean; url: string; hostname: string | null; loginLinkCount: number }> {
+  const url = page.url();
+  const hostname = parseHostname(url);
+  const loginLinkCount = await page
+    .locator(X_SELECTORS.AUTH.LOGIN_LINK)
+    .count()
+    .catch(() => Number.POSITIVE_INFINITY);
+
+  const isOnLoginFlow = /\/i\/flow\/login|\/login\b/.test(url);
+  const isAuthenticated =
+    hostname !== null && X_ALLOWED_HOSTS.has(hostname) && !isOnLoginFlow && loginLinkCount === 0;
+
+  return { isAuthenticated, url, hostname, loginLinkCount };
+}
+
+async function waitForXAuthenticatedSession(
+  page: Page,
+  timeoutMs = 120000,
+  pollIntervalMs = 1500,
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    for (const currentPage of page.context().pages()) {
+      const state = await isPageAuthenticatedByHeuristic(currentPage);
+      if (state.isAuthenticated) {
+        return true;
+      }
+    }
+
+    await page.waitForTimeout(pollIntervalMs);
+  }
+
+  return false;
+}
+
+async function hasSessionCookie(context: BrowserContext): Promise<boolean> {
+  const cookies = await context.cookies();
+  return cookies.some(
+    (c) =>
+      c.name === "auth_token" &&
+      (c.domain.includes("x.com") || c.domain.includes("twitter.com")) &&
+      c.value &&
+      c.value.length > 0
+  );
+}
+
+export async function performXLogin(page: Page, _handle: string): Promise<void> {
+  await page.goto(X_SELECTORS.LOGIN_URL, { waitUntil: "domcontentloaded", timeout: 12000 }).catch(() => undefined);
+  await actionDelay();
+
+  console.log("\n========================================");
+  console.log("Please complete login in the browser.");
+  console.log("Press ENTER in this terminal when done.");
+  console.log("========================================\n");
+
+  await new Promise<void>((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+    rl.question("Press ENTER after completing login... ", () => {
+      rl.close();
+      resolve();
+    });
+  });
+
+  await page.goto(X_SELECTORS.HOME_TIMELINE_URL, {
+    waitUntil: "domcontentloaded",
+    timeout: 12000,
+  }).catch(() => undefined);
+  await actionDelay();
+
+  const isAuthenticated = await waitForXAuthenticatedSession(page);
+  const hasAuthToken = await hasSessionCookie(page.context());
+
+  if (!isAuthenticated) {
+    throw new AuthError(
+      "Login was not completed successfully: URL/login-link check failed. Please ensure you are on x.com and no login link is visible.",
+      "LOGIN_NOT_COMPLETED",
+    );
+  }
+
+  if (!hasAuthToken) {
+    throw new AuthError(
+      "Login was not completed successfully: auth_token cookie not found. Please ensure you completed the full X login flow.",
+      "SESSION_COOKIE_MISSING",
+    );
+  }
+}
+
+export async function validateXSession(page: Page): Promise<{ isValid: boolean; error: string | null }> {
+  try {
+    await page.goto(X_SELECTORS.HOME_TIMELINE_URL, { waitUntil: "domcontentloaded", timeout: 12000 });
+    await page.waitForLoadState("domcontentloaded", { timeout: 5000 }).catch(() => undefined);
+    await actionDelay();
+
+    const state = await isPageAuthenticatedByHeuristic(page);
+
+    if (!state.isAuthenticated) {
+      const reasons: string[] = [];
+      if (state.hostname === null) {
+        reasons.push("invalid URL");
+      } else if (!X_ALLOWED_HOSTS.has(state.hostname)) {
+        reasons.push(`unexpected host: ${state.hostname}`);
+      }
+      if (/\/i\/flow\/login|\/login\b/.test(state.url)) {
+        reasons.push("redirected to login flow");
+      }
+      if (state.loginLinkCount > 0) {
+        reasons.push(`login links visible (${state.loginLinkCount})`);
+      }
+      const reasonText = reasons.length > 0 ? reasons.join(", ") : "unknown reason";
+      return {
+        isValid: false,
+        error: `SESSION_INVALID: URL/login-link check failed - ${reasonText}`,
+      };
+    }
+
+    const hasAuthToken = await hasSessionCookie(page.context());
+    if (!hasAuthToken) {
+      return {
+        isValid: false,
+        error: "SESSION_COOKIE_MISSING: auth_token cookie not found for x.com",
+      };
+    }
+
+    return { isValid: true, error: null };
+  } catch (error: any) {
+    return { isValid: false, error: `VALIDATION_ERROR: ${error.message}` };
+  }
+}
@@ -1 +1,11 @@
 export { XAdapter } from "./x.adapter";
+export { performXLogin, validateXSession } from "./auth";
+export {
+  splitXTweetArticles,
+  parseXTweetHtml,
+  parseXReplyHtml,
+  parseXConversation,
+  parseXMetricsFromTweetHtml,
+  parseXCompactNumber,
+} from "./parsers";
+export { X_SELECTORS } from "./selectors";
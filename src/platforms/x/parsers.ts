@@ -0,0 +1,293 @@
+import type { CollectedPost, CollectedComment, MetricSnapshot } from "../../domain/models";
+import { X_SELECTORS } from "./selectors";
+
+// X renders every tweet as <article data-testid="tweet">. The adapter pulls the
+// outerHTML of those nodes from the page and the helpers below parse them as
+// plain strings, so the same code path can be exercised against saved fixtures.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+const STATUS_HREF_PATTERN = /^\/([A-Za-z0-9_]{1,15})\/status\/(\d+)(?:[/?#].*)?$/;
+const NON_PERMALINK_SUFFIX = /\/status\/\d+\/(?:photo|video|analytics|retweets|likes|quotes|history)\b/;
+
+type MetricLabel = "reply" | "repost" | "like" | "view";
+
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function getAttribute(tagHtml: string, name: string): string | null {
+  const match = tagHtml.match(new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`, "i"));
+  return match ? decodeHtmlEntities(match[1] || "") : null;
+}
+
+function htmlToText(html: string): string {
+  const withEmoji = html
+    .replace(/<img\b[^>]*>/gi, (tag) => getAttribute(tag, "alt") ?? "")
+    .replace(/<br\s*\/?>/gi, " ");
+  return decodeHtmlEntities(withEmoji.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Returns the outer HTML of every element carrying the given data-testid,
+ * matching nested tags of the same name so the closing tag is the right one.
+ */
+export function extractElementsByTestId(html: string, testId: string): string[] {
+  const results: string[] = [];
+  const openPattern = new RegExp(`<([a-zA-Z][\\w-]*)\\b[^>]*\\bdata-testid="${testId}"[^>]*>`, "g");
+
+  let match: RegExpExecArray | null;
+  while ((match = openPattern.exec(html)) !== null) {
+    const tagName = (match[1] || "").toLowerCase();
+    const start = match.index;
+    const tagPattern = new RegExp(`<(/?)${tagName}\\b[^>]*>`, "gi");
+    tagPattern.lastIndex = start + match[0].length;
+
+    let depth = 1;
+    let end = html.length;
+    let tagMatch: RegExpExecArray | null;
+    while ((tagMatch = tagPattern.exec(html)) !== null) {
+      if (tagMatch[1] === "/") {
+        depth--;
+      } else if (!tagMatch[0].endsWith("/>")) {
+        depth++;
+      }
+      if (depth === 0) {
+        end = tagMatch.index + tagMatch[0].length;
+        break;
+      }
+    }
+
+    results.push(html.slice(start, end));
+    openPattern.lastIndex = end;
+  }
+
+  return results;
+}
+
+export function splitXTweetArticles(html: string): string[] {
+  return extractElementsByTestId(html, "tweet").filter((block) => /^<article\b/i.test(block));
+}
+
+export function isPromotedTweetHtml(articleHtml: string): boolean {
+  if (articleHtml.includes('data-testid="placementTracking"')) return true;
+  const socialContext = extractElementsByTestId(articleHtml, "socialContext")[0];
+  if (socialContext && /^(ad|promoted)$/i.test(htmlToText(socialContext))) return true;
+  return /<span\b[^>]*>\s*(?:Ad|Promoted)\s*<\/span>/.test(articleHtml);
+}
+
+export function parseXCompactNumber(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const normalized = value.replace(/\s+/g, "").replace(/,/g, "").trim();
+  const match = normalized.match(/^(\d+(?:\.\d+)?)([KMB])?$/i);
+  if (!match) return null;
+
+  const base = Number.parseFloat(match[1] || "");
+  if (!Number.isFinite(base)) return null;
+
+  const suffix = (match[2] || "").toUpperCase();
+  if (suffix === "K") return Math.round(base * 1_000);
+  if (suffix === "M") return Math.round(base * 1_000_000);
+  if (suffix === "B") return Math.round(base * 1_000_000_000);
+  return Math.round(base);
+}
+
+function parseMetricFromLabel(label: string, metric: MetricLabel): number | null {
+  const words: Record<MetricLabel, string> = {
+    reply: "repl(?:y|ies)",
+    repost: "(?:repost|retweet)s?",
+    like: "likes?",
+    view: "views?",
+  };
+  const match = label.match(new RegExp(`(\\d[\\d,.]*\\s?[KMB]?)\\s+${words[metric]}\\b`, "i"));
+  return parseXCompactNumber(match?.[1]);
+}
+
+function findPermalink(articleHtml: string): { handle: string; statusId: string; anchorHtml: string } | null {
+  const anchorPattern = /<a\b[^>]*>[\s\S]*?<\/a>/gi;
+  let fallback: { handle: string; statusId: string; anchorHtml: string } | null = null;
+
+  for (const anchorHtml of articleHtml.match(anchorPattern) ?? []) {
+    const openTag = anchorHtml.slice(0, anchorHtml.indexOf(">") + 1);
+    const href = getAttribute(openTag, "href");
+    if (!href || NON_PERMALINK_SUFFIX.test(href)) continue;
+
+    const path = href.startsWith("http") ? href.replace(/^https?:\/\/(?:www\.)?(?:x|twitter)\.com/, "") : href;
+    const match = path.match(STATUS_HREF_PATTERN);
+    if (!match) continue;
+
+    const candidate = { handle: match[1] || "", statusId: match[2] || "", anchorHtml };
+    if (/<time\b/i.test(anchorHtml)) return candidate;
+    fallback = fallback ?? candidate;
+  }
+
+  return fallback;
+}
+
+function extractMediaUrls(articleHtml: string): string[] {
+  const urls = new Set<string>();
+
+  for (const tag of articleHtml.match(/<img\b[^>]*>/gi) ?? []) {
+    const src = getAttribute(tag, "src");
+    if (src && /pbs\.twimg\.com\/(?:media|ext_tw_video_thumb|amplify_video_thumb|tweet_video_thumb)\//.test(src)) {
+      urls.add(src);
+    }
+  }
+
+  for (const tag of articleHtml.match(/<video\b[^>]*>/gi) ?? []) {
+    const src = getAttribute(tag, "src");
+    const poster = getAttribute(tag, "poster");
+    if (src && !src.startsWith("blob:")) {
+      urls.add(src);
+    } else if (poster) {
+      urls.add(poster);
+    }
+  }
+
+  return Array.from(urls);
+}
+
+export function parseXMetricsFromTweetHtml(articleHtml: string): MetricSnapshot {
+  const metrics: MetricSnapshot = {
+    likesCount: null,
+    repliesCount: null,
+    repostsCount: null,
+    viewsCount: null,
+  };
+
+  // The action bar carries a summary label such as "3 replies, 12 reposts, 240 likes, 5 bookmarks, 10234 views".
+  // X leaves zero counts out of that label, so a present summary means missing metrics are zero.
+  const groupTag = (articleHtml.match(/<div\b[^>]*\brole="group"[^>]*>/gi) ?? []).find((tag) =>
+    getAttribute(tag, "aria-label"),
+  );
+  const groupLabel = groupTag ? getAttribute(groupTag, "aria-label") || "" : "";
+  if (groupLabel && /\d/.test(groupLabel)) {
+    metrics.repliesCount = parseMetricFromLabel(groupLabel, "reply") ?? 0;
+    metrics.repostsCount = parseMetricFromLabel(groupLabel, "repost") ?? 0;
+    metrics.likesCount = parseMetricFromLabel(groupLabel, "like") ?? 0;
+    metrics.viewsCount = parseMetricFromLabel(groupLabel, "view");
+  }
+
+  const fromButton = (testIds: string[], metric: MetricLabel): number | null => {
+    for (const testId of testIds) {
+      const block = extractElementsByTestId(articleHtml, testId)[0];
+      if (!block) continue;
+      const openTag = block.slice(0, block.indexOf(">") + 1);
+      const label = getAttribute(openTag, "aria-label") || "";
+      const parsed = parseMetricFromLabel(label, metric) ?? parseXCompactNumber(htmlToText(block));
+      if (parsed !== null) return parsed;
+    }
+    return null;
+  };
+
+  metrics.repliesCount = metrics.repliesCount ?? fromButton(["reply"], "reply");
+  metrics.repostsCount = metrics.repostsCount ?? fromButton(["retweet", "unretweet"], "repost");
+  metrics.likesCount = metrics.likesCount ?? fromButton(["like", "unlike"], "like");
+
+  if (metrics.viewsCount === null) {
+    for (const tag of articleHtml.match(/<a\b[^>]*href="[^"]*\/analytics"[^>]*>/gi) ?? []) {
+      const parsed = parseMetricFromLabel(getAttribute(tag, "aria-label") || "", "view");
+      if (parsed !== null) {
+        metrics.viewsCount = parsed;
+        break;
+      }
+    }
+  }
+
+  return metrics;
+}
+
+export function parseXTweetHtml(articleHtml: string): CollectedPost | null {
+  if (isPromotedTweetHtml(articleHtml)) return null;
+
+  const permalink = findPermalink(articleHtml);
+  if (!permalink) return null;
+
+  const userNameBlock = extractElementsByTestId(articleHtml, "User-Name")[0] ?? "";
+  const firstUserLink = userNameBlock.match(/<a\b[^>]*>[\s\S]*?<\/a>/i)?.[0] ?? "";
+  const authorDisplayName = htmlToText(firstUserLink) || permalink.handle;
+
+  const textBlock = extractElementsByTestId(articleHtml, "tweetText")[0];
+  const bodyText = textBlock ? htmlToText(textBlock) || null : null;
+
+  const timeTag = permalink.anchorHtml.match(/<time\b[^>]*>/i)?.[0] ?? articleHtml.match(/<time\b[^>]*>/i)?.[0];
+  const datetime = timeTag ? getAttribute(timeTag, "datetime") : null;
+  const parsedTime = datetime ? Date.parse(datetime) : NaN;
+  const publishedAt = Number.isFinite(parsedTime) ? Math.floor(parsedTime / 1000) : null;
+
+  return {
+    platformPostId: permalink.statusId,
+    authorHandle: permalink.handle,
+    authorDisplayName,
+    bodyText,
+    contentHash: "",
+    postUrl: `${X_SELECTORS.HOME_URL}/${permalink.handle}/status/${permalink.statusId}`,
+    threadRootPlatformPostId: null,
+    publishedAt,
+    mediaUrls: extractMediaUrls(articleHtml),
+  };
+}
+
+export function parseXReplyHtml(articleHtml: string): CollectedComment | null {
+  const parsed = parseXTweetHtml(articleHtml);
+  if (!parsed) return null;
+
+  return {
+    platformCommentId: parsed.platformPostId,
+    authorHandle: parsed.authorHandle,
+    authorDisplayName: parsed.authorDisplayName,
+    bodyText: parsed.bodyText,
+    contentHash: "",
+    commentUrl: parsed.postUrl,
+    publishedAt: parsed.publishedAt,
+    mediaUrls: parsed.mediaUrls,
+  };
+}
+
+/**
+ * Splits the articles of a conversation page into the focal tweet and its replies.
+ * Articles rendered above the focal tweet are ancestors in the thread, not replies.
+ */
+export function parseXConversation(
+  articles: string[],
+  focalPostId: string,
+): { focal: CollectedPost | null; replies: CollectedComment[] } {
+  let focal: CollectedPost | null = null;
+  const replies: CollectedComment[] = [];
+  const seen = new Set<string>();
+
+  for (const articleHtml of articles) {
+    if (!focal) {
+      const candidate = parseXTweetHtml(articleHtml);
+      if (candidate?.platformPostId === focalPostId) {
+        focal = candidate;
+      }
+      continue;
+    }
+
+    const reply = parseXReplyHtml(articleHtml);
+    if (!reply?.platformCommentId || seen.has(reply.platformCommentId)) continue;
+    seen.add(reply.platformCommentId);
+    replies.push(reply);
+  }
+
+  return { focal, replies };
+}
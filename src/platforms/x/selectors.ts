@@ -0,0 +1,45 @@
+export const X_SELECTORS = {
+  HOME_URL: "https://x.com",
+  HOME_TIMELINE_URL: "https://x.com/home",
+  LOGIN_URL: "https://x.com/i/flow/login",
+
+  NAVIGATION: {
+    HOME: 'a[data-testid="AppTabBar_Home_Link"]',
+    NOTIFICATIONS: 'a[data-testid="AppTabBar_Notifications_Link"], a[href="/notifications"]',
+    PROFILE: 'a[data-testid="AppTabBar_Profile_Link"]',
+    SEARCH: 'input[data-testid="SearchBox_Search_Input"], input[placeholder*="Search"]',
+  },
+
+  AUTH: {
+    LOGIN_LINK: 'a[href="/login"], a[href="/i/flow/login"], a[data-testid="loginButton"]',
+    USERNAME_INPUT: 'input[autocomplete="username"], input[name="text"]',
+    PASSWORD_INPUT: 'input[type="password"], input[name="password"]',
+    LOGGED_IN_INDICATOR:
+      '[data-testid="SideNav_AccountSwitcher_Button"], a[data-testid="AppTabBar_Profile_Link"]',
+  },
+
+  POSTS: {
+    POST_ITEM: 'article[data-testid="tweet"]',
+    POST_TEXT: '[data-testid="tweetText"]',
+    POST_USER_NAME: '[data-testid="User-Name"]',
+    POST_LINK: 'a[href*="/status/"]',
+    POST_TIMESTAMP: "time[datetime]",
+    POST_MEDIA: '[data-testid="tweetPhoto"] img, video',
+    POST_ACTION_BAR: '[role="group"]',
+    POST_LIKES: '[data-testid="like"], [data-testid="unlike"]',
+    POST_REPLIES: '[data-testid="reply"]',
+    POST_REPOSTS: '[data-testid="retweet"], [data-testid="unretweet"]',
+    POST_VIEWS: 'a[href$="/analytics"]',
+    PROMOTED_MARKER: '[data-testid="placementTracking"]',
+  },
+
+  COMMENTS: {
+    COMMENT_CONTAINER: 'article[data-testid="tweet"]',
+    LOAD_MORE_COMMENTS:
+      "button:has-text('Show more replies'), button:has-text('Show probable spam'), button:has-text('Show additional replies')",
+  },
+
+  LOADING: {
+    SPINNER: '[role="progressbar"]',
+  },
+};
@@ -1,40 +1,305 @@
 import type { Page } from "playwright";
 import type { AuthState, CollectedPost, CollectedComment, MetricSnapshot } from "../../domain/models";
-import type { PlatformAdapter, CollectPostOptions, CollectCommentOptions } from "../adapter";
-import { AuthError } from "../../core/errors";
+import type { PlatformAdapter, CollectPostOptions, CollectCommentOptions, PacedPageOptions } from "../adapter";
+import { NavigationError, RateLimitError } from "../../core/errors";
+import { X_SELECTORS } from "./selectors";
+import { performXLogin, validateXSession } from "./auth";
+import { parseXConversation, parseXMetricsFromTweetHtml, parseXReplyHtml, parseXTweetHtml } from "./parsers";
+import { actionDelay } from "../../core/cooldown";
+import { logger } from "../../core/logger";
+import { detectBlockChallenge } from "../../services/browser-session";
+import { reachedKnownPosts, type IncrementalScrapeOptions } from "../../domain/incremental-scrape";
+import type { ActionPacer } from "../../domain/pacing";
 
 export class XAdapter implements PlatformAdapter {
   readonly platform = "x";
 
-  async validateSession(_page: Page): Promise<AuthState> {
-    throw new AuthError("X adapter not yet implemented", "NOT_IMPLEMENTED");
+  private async safeGoto(page: Page, url: string, source: string, pacer?: ActionPacer): Promise<void> {
+    if (page.url() === url) {
+      logger.debug({ targetUrl: url, source }, "Already on target page, skipping navigation");
+      await page.waitForTimeout(800);
+      return;
+    }
+
+    await pacer?.pace("navigation");
+
+    try {
+      await page.goto(url, {
+        waitUntil: "domcontentloaded",
+        timeout: 12000,
+      });
+    } catch (error) {
+      logger.debug({ error, url, source }, "X navigation timeout, continuing with current DOM");
+    }
+    await page.waitForLoadState("domcontentloaded", { timeout: 5000 }).catch(() => undefined);
+    await page
+      .locator(X_SELECTORS.POSTS.POST_ITEM)
+      .first()
+      .waitFor({ state: "attached", timeout: 8000 })
+      .catch(() => undefined);
+
+    this.logBlockTelemetry(page, source, { targetUrl: url, stage: "navigation" });
+  }
+
+  private logBlockTelemetry(page: Page, source: string, extra?: Record<string, unknown>): void {
+    const url = page.url();
+    const blockStatus = detectBlockChallenge(url);
+    if (blockStatus.isBlocked) {
+      logger.error(
+        { url, source, reason: blockStatus.reason, ...extra },
+        "X block/challenge telemetry"
+      );
+    }
+  }
+
+  private async readTweetArticles(page: Page): Promise<string[]> {
+    return page.$$eval(X_SELECTORS.POSTS.POST_ITEM, (nodes) => nodes.map((node) => node.outerHTML));
+  }
+
+  async validateSession(page: Page): Promise<AuthState> {
+    logger.debug("Validating X session");
+    const result = await validateXSession(page);
+
+    if (!result.isValid) {
+      const url = page.url();
+      const blockStatus = detectBlockChallenge(url);
+      if (blockStatus.isBlocked) {
+        logger.error(
+          { url, reason: blockStatus.reason, authError: result.error, stage: "auth_validation" },
+          "X block/challenge detected during session validation"
+        );
+      } else {
+        logger.warn(
+          { url, authError: result.error, stage: "auth_validation" },
+          "X session validation failed"
+        );
+      }
+    }
+
+    return result;
   }
 
-  async performLogin(_page: Page, _handle: string): Promise<void> {
-    throw new AuthError("X adapter not yet implemented", "NOT_IMPLEMENTED");
+  performLogin(page: Page, handle: string): Promise<void> {
+    logger.info({ handle }, "Performing X login");
+    return performXLogin(page, handle);
   }
 
-  async collectHome(_page: Page, _options: CollectPostOptions): Promise<CollectedPost[]> {
-    throw new AuthError("X adapter not yet implemented", "NOT_IMPLEMENTED");
+  async collectHome(page: Page, options: CollectPostOptions): Promise<CollectedPost[]> {
+    logger.debug("Collecting X home timeline");
+
+    await this.safeGoto(page, X_SELECTORS.HOME_TIMELINE_URL, "home", options.pacer);
+    await actionDelay();
+
+    return this.collectPostsFromCurrentPage(page, options.maxPosts ?? 50, "home", options.incremental, options.pacer);
   }
 
-  async collectProfileByHandle(_page: Page, _handle: string, _options: CollectPostOptions): Promise<CollectedPost[]> {
-    throw new AuthError("X adapter not yet implemented", "NOT_IMPLEMENTED");
+  async collectProfileByHandle(page: Page, handle: string, options: CollectPostOptions): Promise<CollectedPost[]> {
+    const normalizedHandle = handle.replace(/^@/, "").trim();
+    logger.debug({ handle: normalizedHandle }, "Collecting X profile timeline");
+
+    await this.safeGoto(page, `${X_SELECTORS.HOME_URL}/${normalizedHandle}`, `profile:${normalizedHandle}`, options.pacer);
+    await actionDelay();
+
+    return this.collectPostsFromCurrentPage(
+      page,
+      options.maxPosts ?? 50,
+      `profile:${normalizedHandle}`,
+      options.incremental,
+      options.pacer
+    );
   }
 
-  async collectSearch(_page: Page, _query: string, _options: CollectPostOptions): Promise<CollectedPost[]> {
-    throw new AuthError("X adapter not yet implemented", "NOT_IMPLEMENTED");
+  async collectSearch(page: Page, query: string, options: CollectPostOptions): Promise<CollectedPost[]> {
+    logger.debug({ query }, "Collecting X search results");
+    const searchUrl = query.startsWith("http")
+      ? query
+      : `${X_SELECTORS.HOME_URL}/search?q=${encodeURIComponent(query)}&src=typed_query&f=live`;
+
+    await this.safeGoto(page, searchUrl, `search:${query}`, options.pacer);
+    await actionDelay();
+
+    return this.collectPostsFromCurrentPage(
+      page,
+      options.maxPosts ?? 50,
+      `search:${query}`,
+      options.incremental,
+      options.pacer
+    );
+  }
+
+  private async collectPostsFromCurrentPage(
+    page: Page,
+    maxPosts: number,
+    source: string,
+    incremental?: IncrementalScrapeOptions,
+    pacer?: ActionPacer
+  ): Promise<CollectedPost[]> {
+    const postById = new Map<string, CollectedPost>();
+    let previousUniqueCount = 0;
+
+    try {
+      for (let pass = 0; pass < 8 && postById.size < maxPosts; pass++) {
+        this.logBlockTelemetry(page, source, { pass, postsCollected: postById.size });
+
+        // X virtualizes the timeline, so articles are read on every pass and merged by status id.
+        const articles = await this.readTweetArticles(page);
+        logger.debug({ source, pass, extracted: articles.length }, "X extraction pass complete");
+
+        for (const articleHtml of articles) {
+          const post = parseXTweetHtml(articleHtml);
+          if (!post?.platformPostId || postById.has(post.platformPostId)) continue;
+          postById.set(post.platformPostId, post);
+        }
+
+        if (postById.size >= maxPosts || postById.size === previousUniqueCount) break;
+        if (incremental && reachedKnownPosts(Array.from(postById.values()), incremental)) {
+          logger.debug({ source, pass, collected: postById.size }, "Reached already-seen X posts; stopping scroll");
+          break;
+        }
+        previousUniqueCount = postById.size;
+
+        await pacer?.pace("scroll");
+        await page.mouse.wheel(0, 2200);
+        await page.waitForTimeout(1200);
+
+        const blockStatus = detectBlockChallenge(page.url());
+        if (blockStatus.isBlocked) {
+          logger.error(
+            { url: page.url(), source, pass, reason: blockStatus.reason, stage: "scroll" },
+            "X block/challenge detected during scroll"
+          );
+          break;
+        }
+      }
+
+      const resultPosts = Array.from(postById.values()).slice(0, maxPosts);
+
+      const withBody = resultPosts.filter((p) => p.bodyText && p.bodyText.length > 0).length;
+      logger.debug({
+        source,
+        collected: resultPosts.length,
+        withBodyText: withBody,
+        withoutBodyText: resultPosts.length - withBody,
+      }, "X posts collected");
+
+      return resultPosts;
+    } catch (error) {
+      if (error instanceof RateLimitError && error.code === "QUOTA_EXHAUSTED") {
+        // The runner stops on its own once the governor is exhausted; keep what this source already read.
+        logger.info({ source, collected: postById.size }, "Pacing quota exhausted; returning X posts collected so far");
+        return Array.from(postById.values()).slice(0, maxPosts);
+      }
+      this.logBlockTelemetry(page, source, { error: String(error) });
+      logger.error({ error, source }, "Failed to collect X posts");
+      throw new NavigationError("Failed to collect X posts", "COLLECT_POSTS_FAILED");
+    }
   }
 
   async expandThreadComments(
-    _page: Page,
-    _post: CollectedPost,
-    _options: CollectCommentOptions
+    page: Page,
+    post: CollectedPost,
+    options: CollectCommentOptions
   ): Promise<CollectedComment[]> {
-    throw new AuthError("X adapter not yet implemented", "NOT_IMPLEMENTED");
+    logger.debug({ postId: post.platformPostId }, "Expanding X conversation replies");
+    const maxComments = options.maxComments ?? 50;
+
+    const focalPostId = post.platformPostId;
+    if (!post.postUrl || !focalPostId) {
+      logger.debug({ postId: focalPostId }, "Skipping reply extraction because post URL is missing");
+      return [];
+    }
+
+    try {
+      await this.safeGoto(page, post.postUrl, `comments:${post.platformPostId}`, options.pacer);
+
+      const replyById = new Map<string, CollectedComment>();
+      let expandClicks = 0;
+
+      for (let pass = 0; pass < 6 && replyById.size < maxComments; pass++) {
+        const articles = await this.readTweetArticles(page);
+        const { focal, replies } = parseXConversation(articles, focalPostId);
+
+        // Once the focal tweet scrolls out of the virtualized list, everything rendered is a reply.
+        const passReplies = focal
+          ? replies
+          : articles
+              .map((articleHtml) => parseXReplyHtml(articleHtml))
+              .filter((reply): reply is CollectedComment => reply !== null && reply.platformCommentId !== focalPostId);
+
+        for (const reply of passReplies) {
+          if (!reply.platformCommentId || replyById.has(reply.platformCommentId)) continue;
+          replyById.set(reply.platformCommentId, reply);
+        }
+
+        const expandCandidates = page.locator(X_SELECTORS.COMMENTS.LOAD_MORE_COMMENTS);
+        const button = expandCandidates.first();
+        try {
+          if ((await expandCandidates.count()) > 0 && (await button.isVisible({ timeout: 600 }))) {
+            await options.pacer?.pace("expand");
+            await button.click({ timeout: 1200 });
+            expandClicks++;
+            await page.waitForTimeout(900);
+            continue;
+          }
+        } catch {
+        }
+
+        await options.pacer?.pace("scroll");
+        await page.mouse.wheel(0, 1600);
+        await page.waitForTimeout(900);
+      }
+
+      const extractedComments = Array.from(replyById.values()).slice(0, maxComments);
+
+      logger.debug(
+        {
+          postId: post.platformPostId,
+          postUrl: post.postUrl,
+          expandClicks,
+          extractedComments: extractedComments.length,
+        },
+        "X conversation replies extraction completed",
+      );
+
+      return extractedComments;
+    } catch (error) {
+      logger.debug({ error, postId: post.platformPostId, postUrl: post.postUrl }, "Failed to expand X conversation replies");
+      return [];
+    }
   }
 
-  async extractMetrics(_page: Page, _entityType: "post" | "comment", _entityRef: string): Promise<MetricSnapshot> {
-    throw new AuthError("X adapter not yet implemented", "NOT_IMPLEMENTED");
+  async extractMetrics(
+    page: Page,
+    entityType: "post" | "comment",
+    entityRef: string,
+    options?: PacedPageOptions
+  ): Promise<MetricSnapshot> {
+    logger.debug({ entityType, entityRef }, "Extracting metrics");
+
+    if (!entityRef.startsWith("http")) {
+      entityRef = `${X_SELECTORS.HOME_URL}${entityRef}`;
+    }
+
+    const empty: MetricSnapshot = { likesCount: null, repliesCount: null, repostsCount: null, viewsCount: null };
+    const statusId = entityRef.match(/\/status\/(\d+)/)?.[1];
+    if (!statusId) return empty;
+
+    try {
+      await this.safeGoto(page, entityRef, `metrics:${entityType}:${entityRef}`, options?.pacer);
+
+      const articles = await this.readTweetArticles(page);
+      const target = articles.find((articleHtml) => parseXTweetHtml(articleHtml)?.platformPostId === statusId);
+      if (!target) {
+        logger.debug({ entityRef, articles: articles.length }, "Target tweet not found for metrics extraction");
+        return empty;
+      }
+
+      const metrics = parseXMetricsFromTweetHtml(target);
+      logger.debug({ entityRef, metrics }, "X metrics extraction result");
+      return metrics;
+    } catch (error) {
+      logger.debug({ error }, "Failed to extract metrics");
+      return empty;
+    }
   }
 }
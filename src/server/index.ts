@@ -8,6 +8,11 @@ import { draftsRoutes } from "./routes/drafts.routes";
 import { policiesRoutes } from "./routes/policies.routes";
 import { cronRoutes } from "./routes/cron.routes";
 import { authRoutes } from "./routes/auth.routes";
+import { llmRoutes } from "./routes/llm.routes";
+import { notificationsRoutes } from "./routes/notifications.routes";
+import { scrapeHealthRoutes } from "./routes/scrape-health.routes";
+import { authorsRoutes } from "./routes/authors.routes";
+import { accountsRoutes } from "./routes/accounts.routes";
 import { cronScheduler } from "../orchestration/scheduler";
 
 const app = express();
@@ -25,6 +30,11 @@ app.use("/api/drafts", draftsRoutes);
 app.use("/api/policies", policiesRoutes);
 app.use("/api/cron", cronRoutes);
 app.use("/api/auth", authRoutes);
+app.use("/api/llm", llmRoutes);
+app.use("/api/notifications", notificationsRoutes);
+app.use("/api/scrape-health", scrapeHealthRoutes);
+app.use("/api/authors", authorsRoutes);
+app.use("/api/accounts", accountsRoutes);
 
 app.use(
   (
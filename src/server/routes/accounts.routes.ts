@@ -0,0 +1,147 @@
+import { Router } from "express";
+import { accountsRepo } from "../../db/repositories/accounts.repo";
+import { ProxySettingsInputSchema } from "../../domain/proxy";
+import { isQuarantineDue } from "../../domain/quarantine";
+import { accountProxyService } from "../../services/account-proxy.service";
+import { accountQuarantineService } from "../../services/account-quarantine.service";
+import { ConfigError } from "../../core/errors";
+import { logger } from "../../core/logger";
+
+export const accountsRoutes = Router();
+
+accountsRoutes.get("/:id/proxy", async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid account id" });
+      return;
+    }
+
+    const account = await accountsRepo.findById(id);
+    if (!account) {
+      res.status(404).json({ error: "Account not found" });
+      return;
+    }
+
+    res.json({ accountId: id, proxy: accountProxyService.describe(account) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+accountsRoutes.put("/:id/proxy", async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid account id" });
+      return;
+    }
+
+    const parsed = ProxySettingsInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: `Invalid proxy settings: ${parsed.error.issues[0]?.message ?? "unknown error"}` });
+      return;
+    }
+
+    const account = await accountsRepo.findById(id);
+    if (!account) {
+      res.status(404).json({ error: "Account not found" });
+      return;
+    }
+
+    let updated;
+    try {
+      updated = await accountProxyService.setProxy(account, parsed.data);
+    } catch (error) {
+      // Bad server URLs and unsupported credentials are the caller's to fix; a missing key is server config.
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(error instanceof ConfigError ? 500 : 400).json({ error: message });
+      return;
+    }
+
+    logger.info({ accountId: id, server: updated.proxyServer }, "Account proxy updated via API");
+    res.json({ accountId: id, proxy: accountProxyService.describe(updated) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+accountsRoutes.delete("/:id/proxy", async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid account id" });
+      return;
+    }
+
+    const account = await accountsRepo.findById(id);
+    if (!account) {
+      res.status(404).json({ error: "Account not found" });
+      return;
+    }
+
+    await accountProxyService.clearProxy(account);
+    res.json({ success: true, accountId: id });
+  } catch (err) {
+    next(err);
+  }
+});
+
+accountsRoutes.get("/:id/quarantines", async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid account id" });
+      return;
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      res.status(400).json({ error: "Invalid limit" });
+      return;
+    }
+
+    const account = await accountsRepo.findById(id);
+    if (!account) {
+      res.status(404).json({ error: "Account not found" });
+      return;
+    }
+
+    // Read-only: a due quarantine is reported here and released by the next scrape or the release endpoint.
+    const history = await accountQuarantineService.listHistory(id, limit);
+    res.json({
+      accountId: id,
+      status: account.status,
+      quarantinedUntil: account.quarantinedUntil,
+      releaseDue: account.status === "quarantined" && isQuarantineDue(account.quarantinedUntil, Math.floor(Date.now() / 1000)),
+      history,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+accountsRoutes.post("/:id/quarantine/release", async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid account id" });
+      return;
+    }
+
+    const account = await accountsRepo.findById(id);
+    if (!account) {
+      res.status(404).json({ error: "Account not found" });
+      return;
+    }
+    if (account.status !== "quarantined") {
+      res.status(409).json({ error: `Account is not quarantined (status: ${account.status})` });
+      return;
+    }
+
+    const updated = await accountQuarantineService.release(account, "manual");
+    res.json({ success: true, accountId: id, status: updated.status });
+  } catch (err) {
+    next(err);
+  }
+});
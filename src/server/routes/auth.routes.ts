@@ -2,6 +2,7 @@ import { Router } from "express";
 import { accountsRepo } from "../../db/repositories/accounts.repo";
 import { serializeStorageState } from "../../services/playwright-session-state";
 import { decodeSessionBlob } from "../../services/session-blob";
+import { accountQuarantineService } from "../../services/account-quarantine.service";
 import { logger } from "../../core/logger";
 
 export const authRoutes = Router();
@@ -31,12 +32,11 @@ authRoutes.post("/import-session", async (req, res, next) => {
     const sessionStateJson = serializeStorageState(decoded.state);
 
     await accountsRepo.update(accountId, {
-      status: "active",
       sessionStateJson,
       lastAuthAt: Math.floor(Date.now() / 1000),
       lastAuthCheckAt: Math.floor(Date.now() / 1000),
     });
-    await accountsRepo.clearAuthError(accountId);
+    await accountQuarantineService.markAuthenticated(account);
 
     logger.info(
       {
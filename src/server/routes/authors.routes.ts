@@ -0,0 +1,44 @@
+import { Router } from "express";
+import { authorsRepo } from "../../db/repositories/authors.repo";
+import { authorService } from "../../services/author.service";
+
+export const authorsRoutes = Router();
+
+authorsRoutes.get("/", async (req, res, next) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+    const platform = req.query.platform as string | undefined;
+    const search = typeof req.query.search === "string" ? req.query.search.trim() : undefined;
+    const sort = req.query.sort ?? "recent";
+    if (sort !== "recent" && sort !== "followers") {
+      res.status(400).json({ error: "sort must be one of recent, followers" });
+      return;
+    }
+
+    const { authors, total } = await authorsRepo.listPaginated({ limit, offset, platform, search: search || undefined, sort });
+    res.json({ authors, total, hasMore: offset + authors.length < total });
+  } catch (err) {
+    next(err);
+  }
+});
+
+authorsRoutes.get("/:id", async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid author id" });
+      return;
+    }
+
+    const detail = await authorService.getDetail(id);
+    if (!detail) {
+      res.status(404).json({ error: "Author not found" });
+      return;
+    }
+
+    res.json(detail);
+  } catch (err) {
+    next(err);
+  }
+});
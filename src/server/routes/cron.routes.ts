@@ -3,6 +3,14 @@ import { CronExpressionParser } from "cron-parser";
 import { cronJobsRepo } from "../../db/repositories/cron-jobs.repo";
 import { cronJobExecutor } from "../../orchestration/scheduler/cron-job-executor";
 import { logger } from "../../core/logger";
+import { CronPipelineConfigSchema } from "../../domain/cron-config";
+
+// Catch bad sources when the job is saved rather than on its first scheduled run.
+function pipelineConfigError(pipelineConfig: unknown): string | null {
+  if (pipelineConfig === undefined || pipelineConfig === null) return null;
+  const parsed = CronPipelineConfigSchema.safeParse(pipelineConfig);
+  return parsed.success ? null : `Invalid pipelineConfig: ${parsed.error.issues[0]?.message ?? "unknown error"}`;
+}
 
 function calculateNextRun(cronExpr: string, timezone: string): number {
   const interval = CronExpressionParser.parse(cronExpr, {
@@ -47,6 +55,12 @@ cronRoutes.post("/", async (req, res, next) => {
       return;
     }
 
+    const configError = pipelineConfigError(pipelineConfig);
+    if (configError) {
+      res.status(400).json({ error: configError });
+      return;
+    }
+
     const tz = timezone || "UTC";
     const nextRunAt = calculateNextRun(cronExpr, tz);
 
@@ -130,6 +144,12 @@ cronRoutes.put("/:id", async (req, res, next) => {
 
     const { name, cronExpr, timezone, pipelineConfig } = req.body;
 
+    const configError = pipelineConfigError(pipelineConfig);
+    if (configError) {
+      res.status(400).json({ error: configError });
+      return;
+    }
+
     const finalCronExpr = cronExpr ?? job.cronExpr;
     const finalTimezone = timezone ?? job.timezone;
     const nextRunAt = calculateNextRun(finalCronExpr, finalTimezone);
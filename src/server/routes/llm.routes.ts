@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { llmLedgerService } from "../../services/llm-ledger.service";
+
+export const llmRoutes = Router();
+
+llmRoutes.get("/usage", async (req, res, next) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const accountId = req.query.accountId ? parseInt(req.query.accountId as string) : undefined;
+
+    if (accountId !== undefined && isNaN(accountId)) {
+      res.status(400).json({ error: "Invalid account id" });
+      return;
+    }
+
+    const report = await llmLedgerService.getUsageReport({ days, accountId });
+    res.json(report);
+  } catch (err) {
+    next(err);
+  }
+});
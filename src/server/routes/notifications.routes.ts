@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { notificationsRepo } from "../../db/repositories/notifications.repo";
+import { NotificationKindSchema } from "../../domain/models";
+
+export const notificationsRoutes = Router();
+
+notificationsRoutes.get("/", async (req, res, next) => {
+  try {
+    const accountId = parseInt(req.query.accountId as string);
+    if (isNaN(accountId)) {
+      res.status(400).json({ error: "accountId is required" });
+      return;
+    }
+
+    const kind = req.query.kind ? NotificationKindSchema.safeParse(req.query.kind) : null;
+    if (kind && !kind.success) {
+      res.status(400).json({ error: "kind must be one of mention, reply, quote" });
+      return;
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+    const notifications = await notificationsRepo.listByAccount(accountId, { kind: kind?.data, limit });
+    res.json(notifications);
+  } catch (err) {
+    next(err);
+  }
+});
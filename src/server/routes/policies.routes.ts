@@ -1,9 +1,140 @@
 import { Router } from "express";
 import { engagementPoliciesRepo } from "../../db/repositories/engagement-policies.repo";
 import { logger } from "../../core/logger";
+import type { EngagementPolicy } from "../../db/schema";
+import { SelectionOverridesSchema } from "../../domain/selection";
 
 export const policiesRoutes = Router();
 
+type LlmOverrideFields = {
+  triageModel: string | null;
+  triageTemperature: number | null;
+  triageMaxTokens: number | null;
+  draftModel: string | null;
+  draftTemperature: number | null;
+  draftMaxTokens: number | null;
+};
+
+function parseLlmOverrides(body: Record<string, unknown>): { values: LlmOverrideFields } | { error: string } {
+  const values: LlmOverrideFields = {
+    triageModel: null,
+    triageTemperature: null,
+    triageMaxTokens: null,
+    draftModel: null,
+    draftTemperature: null,
+    draftMaxTokens: null,
+  };
+
+  for (const stage of ["triage", "draft"] as const) {
+    const model = body[`${stage}Model`];
+    if (model !== undefined && model !== null && model !== "") {
+      if (typeof model !== "string") return { error: `${stage}Model must be a string` };
+      values[`${stage}Model`] = model.trim() || null;
+    }
+
+    const temperature = body[`${stage}Temperature`];
+    if (temperature !== undefined && temperature !== null && temperature !== "") {
+      const parsed = Number(temperature);
+      if (!Number.isFinite(parsed) || parsed < 0 || parsed > 2) {
+        return { error: `${stage}Temperature must be a number between 0 and 2` };
+      }
+      values[`${stage}Temperature`] = parsed;
+    }
+
+    const maxTokens = body[`${stage}MaxTokens`];
+    if (maxTokens !== undefined && maxTokens !== null && maxTokens !== "") {
+      const parsed = Number(maxTokens);
+      if (!Number.isInteger(parsed) || parsed <= 0) {
+        return { error: `${stage}MaxTokens must be a positive integer` };
+      }
+      values[`${stage}MaxTokens`] = parsed;
+    }
+  }
+
+  return { values };
+}
+
+type PrefilterRuleFields = {
+  authorAllowListJson: string;
+  authorDenyListJson: string;
+  excludePatternsJson: string;
+  minBodyLength: number | null;
+  maxPostAgeHours: number | null;
+};
+
+function parsePrefilterRules(body: Record<string, unknown>): { values: PrefilterRuleFields } | { error: string } {
+  const lists: Record<"authorAllowList" | "authorDenyList" | "excludePatterns", string[]> = {
+    authorAllowList: [],
+    authorDenyList: [],
+    excludePatterns: [],
+  };
+
+  for (const field of ["authorAllowList", "authorDenyList", "excludePatterns"] as const) {
+    const value = body[field];
+    if (value === undefined || value === null) continue;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+      return { error: `${field} must be an array of strings` };
+    }
+    lists[field] = value.map((item: string) => item.trim()).filter(Boolean);
+  }
+
+  for (const pattern of lists.excludePatterns) {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      return { error: `Invalid exclude pattern: ${pattern}` };
+    }
+  }
+
+  const numbers: Pick<PrefilterRuleFields, "minBodyLength" | "maxPostAgeHours"> = {
+    minBodyLength: null,
+    maxPostAgeHours: null,
+  };
+  for (const field of ["minBodyLength", "maxPostAgeHours"] as const) {
+    const value = body[field];
+    if (value === undefined || value === null || value === "") continue;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      return { error: `${field} must be a non-negative integer` };
+    }
+    numbers[field] = parsed || null;
+  }
+
+  return {
+    values: {
+      authorAllowListJson: JSON.stringify(lists.authorAllowList),
+      authorDenyListJson: JSON.stringify(lists.authorDenyList),
+      excludePatternsJson: JSON.stringify(lists.excludePatterns),
+      ...numbers,
+    },
+  };
+}
+
+function parseSelectionConfig(value: unknown): { value: string | null } | { error: string } {
+  if (value === undefined || value === null) return { value: null };
+  const parsed = SelectionOverridesSchema.safeParse(value);
+  if (!parsed.success) {
+    return { error: `Invalid selection config: ${parsed.error.issues[0]?.message ?? "unknown error"}` };
+  }
+  return { value: Object.keys(parsed.data).length > 0 ? JSON.stringify(parsed.data) : null };
+}
+
+function serializePolicy(policy: EngagementPolicy) {
+  return {
+    ...policy,
+    topics: policy.topicsJson ? JSON.parse(policy.topicsJson) : [],
+    goals: policy.goalsJson ? JSON.parse(policy.goalsJson) : [],
+    avoidList: policy.avoidListJson ? JSON.parse(policy.avoidListJson) : [],
+    preferredLanguages: policy.preferredLanguagesJson
+      ? JSON.parse(policy.preferredLanguagesJson)
+      : ["en"],
+    authorAllowList: JSON.parse(policy.authorAllowListJson),
+    authorDenyList: JSON.parse(policy.authorDenyListJson),
+    excludePatterns: JSON.parse(policy.excludePatternsJson),
+    selection: policy.selectionConfigJson ? JSON.parse(policy.selectionConfigJson) : null,
+  };
+}
+
 policiesRoutes.get("/account/:accountId", async (req, res, next) => {
   try {
     const accountId = parseInt(req.params.accountId);
@@ -18,15 +149,7 @@ policiesRoutes.get("/account/:accountId", async (req, res, next) => {
       return;
     }
 
-    res.json({
-      ...policy,
-      topics: policy.topicsJson ? JSON.parse(policy.topicsJson) : [],
-      goals: policy.goalsJson ? JSON.parse(policy.goalsJson) : [],
-      avoidList: policy.avoidListJson ? JSON.parse(policy.avoidListJson) : [],
-      preferredLanguages: policy.preferredLanguagesJson
-        ? JSON.parse(policy.preferredLanguagesJson)
-        : ["en"],
-    });
+    res.json(serializePolicy(policy));
   } catch (err) {
     next(err);
   }
@@ -47,6 +170,24 @@ policiesRoutes.put("/account/:accountId", async (req, res, next) => {
       return;
     }
 
+    const llmOverrides = parseLlmOverrides(req.body);
+    if ("error" in llmOverrides) {
+      res.status(400).json({ error: llmOverrides.error });
+      return;
+    }
+
+    const prefilterRules = parsePrefilterRules(req.body);
+    if ("error" in prefilterRules) {
+      res.status(400).json({ error: prefilterRules.error });
+      return;
+    }
+
+    const selectionConfig = parseSelectionConfig(req.body.selection);
+    if ("error" in selectionConfig) {
+      res.status(400).json({ error: selectionConfig.error });
+      return;
+    }
+
     const policy = await engagementPoliciesRepo.upsertByAccountId(accountId, {
       name,
       topicsJson: JSON.stringify(topics || []),
@@ -54,18 +195,13 @@ policiesRoutes.put("/account/:accountId", async (req, res, next) => {
       avoidListJson: JSON.stringify(avoidList || []),
       toneIdentity,
       preferredLanguagesJson: JSON.stringify(preferredLanguages || ["en"]),
+      ...llmOverrides.values,
+      ...prefilterRules.values,
+      selectionConfigJson: selectionConfig.value,
     });
 
     logger.info({ accountId, policyId: policy.id }, "Policy updated via API");
-    res.json({
-      ...policy,
-      topics: policy.topicsJson ? JSON.parse(policy.topicsJson) : [],
-      goals: policy.goalsJson ? JSON.parse(policy.goalsJson) : [],
-      avoidList: policy.avoidListJson ? JSON.parse(policy.avoidListJson) : [],
-      preferredLanguages: policy.preferredLanguagesJson
-        ? JSON.parse(policy.preferredLanguagesJson)
-        : ["en"],
-    });
+    res.json(serializePolicy(policy));
   } catch (err) {
     next(err);
   }
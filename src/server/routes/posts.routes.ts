@@ -1,10 +1,15 @@
 import { Router } from "express";
+import { existsSync } from "fs";
 import { desc, eq, and, sql } from "drizzle-orm";
-import { posts } from "../../db/schema";
+import { posts, type Account, type PostMedia } from "../../db/schema";
 import { postsRepo } from "../../db/repositories/posts.repo";
+import { postMediaRepo } from "../../db/repositories/post-media.repo";
+import { mediaStoreService } from "../../services/media-store.service";
 import { commentsRepo } from "../../db/repositories/comments.repo";
 import { deleteService } from "../../services/delete.service";
 import { postWorkspaceService } from "../../services/post-workspace.service";
+import { threadService } from "../../services/thread.service";
+import { metricsAnalyticsService } from "../../services/metrics-analytics.service";
 import { getDb } from "../../db/client";
 import { logger } from "../../core/logger";
 
@@ -13,6 +18,25 @@ export const postsRoutes = Router();
 // IMPORTANT: Static/specific routes must be defined BEFORE dynamic routes like /:id
 // to prevent Express from matching the dynamic route first.
 
+function serializeMedia(media: PostMedia) {
+  return {
+    id: media.id,
+    position: media.position,
+    mediaType: media.mediaType,
+    sourceUrl: media.sourceUrl,
+    contentType: media.contentType,
+    byteSize: media.byteSize,
+    isDownloaded: media.localPath !== null,
+    fileUrl: `/api/posts/media/${media.id}/file`,
+  };
+}
+
+// Session cookies and proxy credentials stay server-side.
+function serializeAccount(account: Account) {
+  const { sessionStateJson: _sessionStateJson, proxyPasswordEncrypted: _proxyPasswordEncrypted, ...rest } = account;
+  return rest;
+}
+
 postsRoutes.get("/", async (req, res, next) => {
   try {
     logger.info("POSTS LIST ENDPOINT CALLED - NEW CODE");
@@ -100,8 +124,41 @@ postsRoutes.get("/", async (req, res, next) => {
 
     const total = countResult[0]?.count ?? 0;
     const hasMore = offset + result.length < total;
+    const mediaByPost = await postMediaRepo.findByPostIds(result.map((post) => post.id));
 
-    res.json({ posts: result, total, hasMore });
+    res.json({
+      posts: result.map((post) => ({ ...post, media: (mediaByPost.get(post.id) ?? []).map(serializeMedia) })),
+      total,
+      hasMore,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Serves the downloaded copy when there is one, otherwise sends the browser to the original CDN URL.
+postsRoutes.get("/media/:mediaId/file", async (req, res, next) => {
+  try {
+    const mediaId = parseInt(req.params.mediaId);
+    if (isNaN(mediaId)) {
+      res.status(400).json({ error: "Invalid media id" });
+      return;
+    }
+
+    const media = await postMediaRepo.findById(mediaId);
+    if (!media) {
+      res.status(404).json({ error: "Media not found" });
+      return;
+    }
+
+    const filePath = media.localPath ? mediaStoreService.resolveFile(media.localPath) : null;
+    if (filePath && existsSync(filePath)) {
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+      res.sendFile(filePath, media.contentType ? { headers: { "Content-Type": media.contentType } } : {});
+      return;
+    }
+
+    res.redirect(media.sourceUrl);
   } catch (err) {
     next(err);
   }
@@ -131,6 +188,26 @@ postsRoutes.get("/:id/comments", async (req, res, next) => {
   }
 });
 
+postsRoutes.get("/:id/thread", async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid post id" });
+      return;
+    }
+
+    const thread = await threadService.getThread(id);
+    if (!thread) {
+      res.status(404).json({ error: "Post not found" });
+      return;
+    }
+
+    res.json(thread);
+  } catch (err) {
+    next(err);
+  }
+});
+
 postsRoutes.get("/:id/workspace", async (req, res, next) => {
   try {
     const id = parseInt(req.params.id);
@@ -145,7 +222,41 @@ postsRoutes.get("/:id/workspace", async (req, res, next) => {
       return;
     }
 
-    res.json(workspace);
+    res.json({
+      ...workspace,
+      account: workspace.account && serializeAccount(workspace.account),
+      media: workspace.media.map(serializeMedia),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+postsRoutes.get("/:id/metrics/history", async (req, res, next) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ error: "Invalid post id" });
+      return;
+    }
+
+    let since: number | undefined;
+    if (req.query.hours !== undefined) {
+      const hours = Number(req.query.hours);
+      if (!Number.isFinite(hours) || hours <= 0) {
+        res.status(400).json({ error: "hours must be a positive number" });
+        return;
+      }
+      since = Math.floor(Date.now() / 1000 - hours * 3600);
+    }
+
+    const history = await metricsAnalyticsService.getPostHistory(id, { since });
+    if (!history) {
+      res.status(404).json({ error: "Post not found" });
+      return;
+    }
+
+    res.json(history);
   } catch (err) {
     next(err);
   }
@@ -220,7 +331,8 @@ postsRoutes.get("/:id", async (req, res, next) => {
     }
 
     const comments = await commentsRepo.findByParentPostId(id);
-    res.json({ ...post, comments });
+    const media = await postMediaRepo.findByPostId(id);
+    res.json({ ...post, media: media.map(serializeMedia), comments });
   } catch (err) {
     next(err);
   }
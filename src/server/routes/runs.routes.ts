@@ -1,17 +1,41 @@
 import { Router } from "express";
+import { existsSync } from "fs";
+import { basename } from "path";
 import { runsRepo } from "../../db/repositories/runs.repo";
 import { accountsRepo } from "../../db/repositories/accounts.repo";
 import { deleteService } from "../../services/delete.service";
+import { runArtifactsService } from "../../services/run-artifacts.service";
 import { scrapeCoordinator } from "../../orchestration/scrape-coordinator";
 import { engagementPipelineCoordinator } from "../../orchestration/engagement-pipeline-coordinator";
 import { logger } from "../../core/logger";
 import { env } from "../../core/config";
 import { getDb } from "../../db/client";
-import { scrapeRunAccounts, accounts } from "../../db/schema";
+import { scrapeRunAccounts, accounts, type RunAccountArtifact } from "../../db/schema";
+import { runAccountArtifactsRepo } from "../../db/repositories/run-account-artifacts.repo";
 import { eq } from "drizzle-orm";
 
 export const runsRoutes = Router();
 
+function serializeArtifact(artifact: RunAccountArtifact) {
+  return {
+    id: artifact.id,
+    kind: artifact.kind,
+    contentType: artifact.contentType,
+    byteSize: artifact.byteSize,
+    pageUrl: artifact.pageUrl,
+    createdAt: artifact.createdAt,
+    fileUrl: `/api/runs/artifacts/${artifact.id}/file`,
+  };
+}
+
+async function withArtifacts<T extends { id: number }>(runAccounts: T[]) {
+  const artifactsByRunAccount = await runArtifactsService.listForRunAccounts(runAccounts.map((ra) => ra.id));
+  return runAccounts.map((ra) => ({
+    ...ra,
+    artifacts: (artifactsByRunAccount.get(ra.id) ?? []).map(serializeArtifact),
+  }));
+}
+
 // IMPORTANT: Static/specific routes must be defined BEFORE dynamic routes like /:id
 // to prevent Express from matching the dynamic route first.
 
@@ -33,8 +57,10 @@ runsRoutes.post("/trigger", async (req, res, next) => {
     const collectProfiles = req.body.collectProfiles !== false;
     const profileHandles: string[] = req.body.profileHandles || [];
     const searchQueries: string[] = req.body.searchQueries || [];
+    const collectNotifications = req.body.collectNotifications === true;
     const runPipeline = req.body.runPipeline !== false;
     const generateDrafts = req.body.generateDrafts === true;
+    const incremental = req.body.incremental === true;
 
     const scrapeResult = await scrapeCoordinator.run({
       platform: account.platform as "threads" | "x",
@@ -44,6 +70,8 @@ runsRoutes.post("/trigger", async (req, res, next) => {
       collectProfiles,
       profileHandles,
       searchQueries,
+      collectNotifications,
+      incremental,
     });
 
     const pipelineResults: Array<{
@@ -58,7 +86,7 @@ runsRoutes.post("/trigger", async (req, res, next) => {
       const runAccounts = await runsRepo.findByRunId(scrapeResult.runId);
 
       for (const runAccount of runAccounts) {
-        if (runAccount.status !== "success") {
+        if (runAccount.status !== "success" && runAccount.status !== "quota_exhausted") {
           continue;
         }
 
@@ -112,7 +140,10 @@ runsRoutes.post("/trigger", async (req, res, next) => {
         accountsProcessed: scrapeResult.accountsProcessed,
         accountsSucceeded: scrapeResult.accountsSucceeded,
         accountsFailed: scrapeResult.accountsFailed,
+        accountsQuotaExhausted: scrapeResult.accountsQuotaExhausted,
         postsFound: scrapeResult.totalPostsFound,
+        postsNew: scrapeResult.totalPostsNew,
+        postsReseen: scrapeResult.totalPostsReseen,
         commentsFound: scrapeResult.totalCommentsFound,
       },
       pipeline: pipelineResults,
@@ -132,6 +163,33 @@ runsRoutes.get("/", async (req, res, next) => {
   }
 });
 
+// Screenshots open inline. The DOM dump is always downloaded, never rendered, so scraped scripts
+// cannot run on the API's origin; the trace zip opens with `npx playwright show-trace`.
+runsRoutes.get("/artifacts/:artifactId/file", async (req, res, next) => {
+  try {
+    const artifactId = parseInt(req.params.artifactId);
+    if (isNaN(artifactId)) {
+      res.status(400).json({ error: "Invalid artifact id" });
+      return;
+    }
+
+    const artifact = await runAccountArtifactsRepo.findById(artifactId);
+    const filePath = artifact ? runArtifactsService.resolveFile(artifact.localPath) : null;
+    if (!artifact || !filePath || !existsSync(filePath)) {
+      res.status(404).json({ error: "Artifact not found" });
+      return;
+    }
+
+    if (artifact.kind !== "screenshot") {
+      res.download(filePath, `run-account-${artifact.runAccountId}-${basename(artifact.localPath)}`);
+      return;
+    }
+    res.sendFile(filePath, { headers: { "Content-Type": artifact.contentType } });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Nested routes like /:id/accounts MUST come BEFORE /:id
 // Otherwise /123/accounts matches /:id with id="123/accounts"
 
@@ -150,7 +208,7 @@ runsRoutes.get("/:id/accounts", async (req, res, next) => {
     }
 
     const runAccounts = await runsRepo.findByRunId(id);
-    res.json(runAccounts);
+    res.json(await withArtifacts(runAccounts));
   } catch (err) {
     next(err);
   }
@@ -181,6 +239,8 @@ runsRoutes.get("/:id", async (req, res, next) => {
         accountId: scrapeRunAccounts.accountId,
         status: scrapeRunAccounts.status,
         postsFound: scrapeRunAccounts.postsFound,
+        postsNew: scrapeRunAccounts.postsNew,
+        postsReseen: scrapeRunAccounts.postsReseen,
         commentsFound: scrapeRunAccounts.commentsFound,
         snapshotsWritten: scrapeRunAccounts.snapshotsWritten,
         errorCode: scrapeRunAccounts.errorCode,
@@ -195,7 +255,7 @@ runsRoutes.get("/:id", async (req, res, next) => {
       .innerJoin(accounts, eq(scrapeRunAccounts.accountId, accounts.id))
       .where(eq(scrapeRunAccounts.runId, id));
 
-    res.json({ ...run, accounts: runAccounts });
+    res.json({ ...run, accounts: await withArtifacts(runAccounts) });
   } catch (err) {
     next(err);
   }
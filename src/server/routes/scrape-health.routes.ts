@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { resolve, sep } from "path";
+import { scrapeHealthService } from "../../services/scrape-health.service";
+import { ScraperError } from "../../core/errors";
+import { THREADS_SELECTORS } from "../../platforms/threads/selectors";
+
+export const scrapeHealthRoutes = Router();
+
+scrapeHealthRoutes.get("/drift", async (req, res, next) => {
+  try {
+    const accountId = req.query.accountId ? parseInt(req.query.accountId as string) : undefined;
+    if (accountId !== undefined && isNaN(accountId)) {
+      res.status(400).json({ error: "accountId must be a number" });
+      return;
+    }
+
+    res.json(await scrapeHealthService.detectDrift({ accountId }));
+  } catch (err) {
+    next(err);
+  }
+});
+
+scrapeHealthRoutes.post("/selectors", async (req, res, next) => {
+  try {
+    const body = req.body ?? {};
+    const accountId = body.accountId !== undefined ? Number(body.accountId) : undefined;
+    if (accountId !== undefined && !Number.isInteger(accountId)) {
+      res.status(400).json({ error: "accountId must be an integer" });
+      return;
+    }
+    if (body.url !== undefined && (typeof body.url !== "string" || !body.url.startsWith(THREADS_SELECTORS.HOME_URL))) {
+      res.status(400).json({ error: `url must start with ${THREADS_SELECTORS.HOME_URL}` });
+      return;
+    }
+
+    let capturePath: string | undefined;
+    if (body.capturePath !== undefined) {
+      // Only captures inside the project directory can be read through the API.
+      capturePath = typeof body.capturePath === "string" ? resolve(body.capturePath) : "";
+      if (!capturePath.startsWith(`${process.cwd()}${sep}`) || !capturePath.endsWith(".json")) {
+        res.status(400).json({ error: "capturePath must be a .json file inside the project directory" });
+        return;
+      }
+    }
+
+    if (accountId === undefined && !capturePath) {
+      res.status(400).json({ error: "accountId or capturePath is required" });
+      return;
+    }
+
+    res.json(await scrapeHealthService.checkSelectors({ accountId, url: body.url, capturePath }));
+  } catch (err) {
+    if (err instanceof ScraperError) {
+      const status = err.code === "ACCOUNT_NOT_FOUND" || err.code === "CAPTURE_NOT_FOUND" ? 404 : 400;
+      res.status(status).json({ error: err.message });
+      return;
+    }
+    next(err);
+  }
+});
@@ -1,4 +1,4 @@
-import { Router } from "express";
+import { Router, type RequestHandler } from "express";
 import { desc, eq, and, gte, inArray, sql } from "drizzle-orm";
 import { postTriage, posts, llmDrafts } from "../../db/schema";
 import { postTriageRepo } from "../../db/repositories/post-triage.repo";
@@ -47,7 +47,8 @@ triageRoutes.get("/", async (req, res, next) => {
         model: postTriage.model,
         promptVersion: postTriage.promptVersion,
         rank: postTriage.rank,
-        isTop20: postTriage.isTop20,
+        isSelected: postTriage.isSelected,
+        selectionStrategy: postTriage.selectionStrategy,
         selectedForDeepScrape: postTriage.selectedForDeepScrape,
         createdAt: postTriage.createdAt,
         post: {
@@ -90,7 +91,7 @@ triageRoutes.get("/run-account/:runAccountId", async (req, res, next) => {
   }
 });
 
-triageRoutes.get("/run-account/:runAccountId/top20", async (req, res, next) => {
+const listSelection: RequestHandler<{ runAccountId: string }> = async (req, res, next) => {
   try {
     const runAccountId = parseInt(req.params.runAccountId);
     if (isNaN(runAccountId)) {
@@ -98,12 +99,16 @@ triageRoutes.get("/run-account/:runAccountId/top20", async (req, res, next) => {
       return;
     }
 
-    const triage = await postTriageRepo.listTop20(runAccountId);
+    const triage = await postTriageRepo.listSelected(runAccountId);
     res.json(triage);
   } catch (err) {
     next(err);
   }
-});
+};
+
+triageRoutes.get("/run-account/:runAccountId/selection", listSelection);
+// Older clients still call /top20; it now returns whatever the selection strategy picked.
+triageRoutes.get("/run-account/:runAccountId/top20", listSelection);
 
 triageRoutes.get("/run-account/:runAccountId/selected", async (req, res, next) => {
   try {
@@ -127,7 +132,8 @@ triageRoutes.get("/run-account/:runAccountId/selected", async (req, res, next) =
         model: postTriage.model,
         promptVersion: postTriage.promptVersion,
         rank: postTriage.rank,
-        isTop20: postTriage.isTop20,
+        isSelected: postTriage.isSelected,
+        selectionStrategy: postTriage.selectionStrategy,
         selectedForDeepScrape: postTriage.selectedForDeepScrape,
         createdAt: postTriage.createdAt,
         post: {
@@ -176,7 +182,8 @@ triageRoutes.get("/run-account/:runAccountId/review", async (req, res, next) =>
         model: postTriage.model,
         promptVersion: postTriage.promptVersion,
         rank: postTriage.rank,
-        isTop20: postTriage.isTop20,
+        isSelected: postTriage.isSelected,
+        selectionStrategy: postTriage.selectionStrategy,
         selectedForDeepScrape: postTriage.selectedForDeepScrape,
         createdAt: postTriage.createdAt,
         post: {
@@ -0,0 +1,129 @@
+import type { BrowserContext } from "playwright";
+import type { Account } from "../db/schema";
+import { accountsRepo } from "../db/repositories/accounts.repo";
+import {
+  assertProxyCredentialsSupported,
+  normalizeProxyServer,
+  parseBypassList,
+  parseEgressIp,
+  type BrowserProxy,
+  type ProxySettingsInput,
+} from "../domain/proxy";
+import { decryptSecret, encryptSecret } from "./secret-box";
+import { logger } from "../core/logger";
+import { env } from "../core/config";
+
+// What the CLI and API show; the password itself never leaves the service.
+export interface AccountProxyView {
+  server: string;
+  username: string | null;
+  hasPassword: boolean;
+  bypass: string[];
+  checkedAt: number | null;
+  egressIp: string | null;
+}
+
+export interface ProxyCheckResult {
+  ok: boolean;
+  egressIp: string | null;
+  error: string | null;
+}
+
+export class AccountProxyService {
+  constructor(private secretKey: string | undefined = env.ACCOUNT_SECRETS_KEY) {}
+
+  /** Launch option for the account's browser, or undefined when it uses the machine's own connection. */
+  getBrowserProxy(account: Account): BrowserProxy | undefined {
+    if (!account.proxyServer) return undefined;
+
+    const bypass = parseBypassList(account.proxyBypass);
+    return {
+      server: account.proxyServer,
+      ...(account.proxyUsername ? { username: account.proxyUsername } : {}),
+      ...(account.proxyPasswordEncrypted
+        ? { password: decryptSecret(account.proxyPasswordEncrypted, this.secretKey) }
+        : {}),
+      ...(bypass.length > 0 ? { bypass: bypass.join(",") } : {}),
+    };
+  }
+
+  describe(account: Account): AccountProxyView | null {
+    if (!account.proxyServer) return null;
+    return {
+      server: account.proxyServer,
+      username: account.proxyUsername,
+      hasPassword: account.proxyPasswordEncrypted !== null,
+      bypass: parseBypassList(account.proxyBypass),
+      checkedAt: account.proxyCheckedAt,
+      egressIp: account.proxyEgressIp,
+    };
+  }
+
+  async setProxy(account: Account, input: ProxySettingsInput): Promise<Account> {
+    const server = normalizeProxyServer(input.server);
+    const username = input.username === undefined ? account.proxyUsername : input.username;
+
+    let passwordEncrypted = account.proxyPasswordEncrypted;
+    if (input.password === null) {
+      passwordEncrypted = null;
+    } else if (input.password !== undefined) {
+      passwordEncrypted = encryptSecret(input.password, this.secretKey);
+    }
+
+    if (passwordEncrypted && !username) {
+      throw new Error("A proxy password needs a username");
+    }
+    assertProxyCredentialsSupported(server, Boolean(username || passwordEncrypted));
+
+    const bypass = input.bypass === undefined ? account.proxyBypass : parseBypassList(input.bypass).join(",") || null;
+
+    const updated = await accountsRepo.update(account.id, {
+      proxyServer: server,
+      proxyUsername: username ?? null,
+      proxyPasswordEncrypted: passwordEncrypted,
+      proxyBypass: bypass,
+      // A new egress has not been verified yet.
+      proxyCheckedAt: null,
+      proxyEgressIp: null,
+    });
+    logger.info({ accountId: account.id, server, hasCredentials: Boolean(username) }, "Account proxy updated");
+    return updated!;
+  }
+
+  async clearProxy(account: Account): Promise<Account> {
+    const updated = await accountsRepo.update(account.id, {
+      proxyServer: null,
+      proxyUsername: null,
+      proxyPasswordEncrypted: null,
+      proxyBypass: null,
+      proxyCheckedAt: null,
+      proxyEgressIp: null,
+    });
+    logger.info({ accountId: account.id }, "Account proxy cleared");
+    return updated!;
+  }
+
+  /** Loads PROXY_CHECK_URL through a context launched with the account's proxy and records the egress IP. */
+  async checkProxy(account: Account, context: BrowserContext): Promise<ProxyCheckResult> {
+    const page = await context.newPage();
+    try {
+      const response = await page.goto(env.PROXY_CHECK_URL, { waitUntil: "domcontentloaded", timeout: 15000 });
+      if (!response || !response.ok()) {
+        return { ok: false, egressIp: null, error: `Proxy check returned HTTP ${response?.status() ?? "no response"}` };
+      }
+
+      const egressIp = parseEgressIp(await response.text());
+      await accountsRepo.update(account.id, {
+        proxyCheckedAt: Math.floor(Date.now() / 1000),
+        proxyEgressIp: egressIp,
+      });
+      return { ok: true, egressIp, error: null };
+    } catch (error) {
+      return { ok: false, egressIp: null, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  }
+}
+
+export const accountProxyService = new AccountProxyService();
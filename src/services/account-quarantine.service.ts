@@ -0,0 +1,136 @@
+import type { Account, AccountQuarantine } from "../db/schema";
+import { accountsRepo } from "../db/repositories/accounts.repo";
+import { accountQuarantinesRepo } from "../db/repositories/account-quarantines.repo";
+import { canTransition, validateTransition } from "../domain/account-state-machine";
+import type { AccountStatus } from "../domain/models";
+import {
+  isQuarantineDue,
+  nextQuarantineLevel,
+  quarantineDurationSeconds,
+  type QuarantineBackoffConfig,
+} from "../domain/quarantine";
+import { logger } from "../core/logger";
+import { env } from "../core/config";
+
+export interface BlockDetection {
+  reason: string;
+  url?: string | null;
+  runAccountId?: number | null;
+}
+
+export function quarantineConfigFromEnv(): QuarantineBackoffConfig {
+  return {
+    baseSeconds: Math.round(env.QUARANTINE_BASE_MINUTES * 60),
+    maxSeconds: Math.round(env.QUARANTINE_MAX_HOURS * 3600),
+    resetAfterSeconds: Math.round(env.QUARANTINE_RESET_DAYS * 86400),
+  };
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export class AccountQuarantineService {
+  constructor(private config: QuarantineBackoffConfig = quarantineConfigFromEnv()) {}
+
+  /** Puts the account in quarantine after a block/challenge; returns null when its status does not allow it. */
+  async quarantine(account: Account, block: BlockDetection, now = nowSeconds()): Promise<AccountQuarantine | null> {
+    if (account.status === "quarantined") {
+      return accountQuarantinesRepo.findLatest(account.id);
+    }
+    if (!canTransition(account.status, "quarantined")) {
+      logger.warn({ accountId: account.id, status: account.status, reason: block.reason }, "Block detected but account cannot be quarantined");
+      return null;
+    }
+
+    const level = nextQuarantineLevel(await accountQuarantinesRepo.findLatest(account.id), now, this.config);
+    const releaseAt = now + quarantineDurationSeconds(level, this.config);
+
+    const quarantine = await accountQuarantinesRepo.create({
+      accountId: account.id,
+      runAccountId: block.runAccountId ?? null,
+      reason: block.reason,
+      url: block.url ?? null,
+      level,
+      startedAt: now,
+      releaseAt,
+    });
+    await accountsRepo.update(account.id, {
+      status: "quarantined",
+      quarantinedUntil: releaseAt,
+      lastErrorCode: "BLOCK_CHALLENGE_DETECTED",
+      lastErrorDetail: block.reason,
+      lastErrorAt: now,
+    });
+
+    logger.warn(
+      { accountId: account.id, level, releaseAt: new Date(releaseAt * 1000).toISOString(), reason: block.reason },
+      "Account quarantined after block/challenge"
+    );
+    return quarantine;
+  }
+
+  /** Returns the account as it should be used now: released to active once its backoff has passed. */
+  async releaseIfDue(account: Account, now = nowSeconds()): Promise<Account> {
+    if (account.status !== "quarantined" || !isQuarantineDue(account.quarantinedUntil, now)) {
+      return account;
+    }
+    return this.release(account, "auto", now);
+  }
+
+  /** Closes the open quarantine entry; the account goes back to active unless `status` says otherwise. */
+  async release(
+    account: Account,
+    kind: "auto" | "manual",
+    now = nowSeconds(),
+    status: AccountStatus = "active"
+  ): Promise<Account> {
+    await accountQuarantinesRepo.releaseOpen(account.id, kind, now);
+    const updated = await accountsRepo.update(account.id, { status, quarantinedUntil: null });
+    logger.info({ accountId: account.id, kind, status }, "Account released from quarantine");
+    return updated!;
+  }
+
+  /** Manual status change; leaving quarantine for any status ends the quarantine as well. */
+  async setStatus(account: Account, status: AccountStatus, now = nowSeconds()): Promise<Account> {
+    validateTransition(account.status, status);
+    if (account.status === "quarantined") {
+      return this.release(account, "manual", now, status);
+    }
+    return (await accountsRepo.updateStatus(account.id, status))!;
+  }
+
+  /**
+   * Records a successful login, session check or session import. A valid session says nothing about
+   * the block, so a quarantined account keeps its status and backoff until it is released.
+   */
+  async markAuthenticated(account: Account): Promise<Account> {
+    if (account.status === "quarantined") {
+      logger.info({ accountId: account.id, quarantinedUntil: account.quarantinedUntil }, "Session is valid; account stays quarantined");
+      return account;
+    }
+    await accountsRepo.updateStatus(account.id, "active");
+    return (await accountsRepo.clearAuthError(account.id))!;
+  }
+
+  /** Records a failed session check; a quarantined account keeps its status and block reason. */
+  async markNeedsReauth(account: Account, errorCode: string, errorDetail: string): Promise<Account> {
+    if (account.status === "quarantined") {
+      logger.warn({ accountId: account.id, errorCode, errorDetail }, "Session check failed; account stays quarantined");
+      return account;
+    }
+    return (await accountsRepo.setNeedsReauth(account.id, errorCode, errorDetail))!;
+  }
+
+  /** Skip reason shown for scrapes of a quarantined account. */
+  describe(account: Account): string {
+    const until = account.quarantinedUntil ? new Date(account.quarantinedUntil * 1000).toISOString() : "manual release";
+    return `Account ${account.id} is quarantined until ${until} after a block/challenge (${account.lastErrorDetail ?? "unknown reason"})`;
+  }
+
+  async listHistory(accountId: number, limit?: number): Promise<AccountQuarantine[]> {
+    return accountQuarantinesRepo.listByAccount(accountId, limit);
+  }
+}
+
+export const accountQuarantineService = new AccountQuarantineService();
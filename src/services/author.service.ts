@@ -0,0 +1,97 @@
+import type { Author, Notification, Post, PostTriage } from "../db/schema";
+import { authorsRepo } from "../db/repositories/authors.repo";
+import { postsRepo } from "../db/repositories/posts.repo";
+import { commentsRepo } from "../db/repositories/comments.repo";
+import { postTriageRepo } from "../db/repositories/post-triage.repo";
+import { draftFeedbackRepo } from "../db/repositories/draft-feedback.repo";
+import { notificationsRepo } from "../db/repositories/notifications.repo";
+
+const AUTHOR_POSTS_LIMIT = 50;
+const AUTHOR_HISTORY_LIMIT = 100;
+
+// Everything we did with an author's posts, plus the mentions, replies and quotes they sent our accounts.
+export type AuthorInteraction =
+  | { kind: "engaged"; at: number; postId: number; engagedBy: string | null }
+  | { kind: "reply_approved"; at: number; postId: number; draftId: number; draftText: string }
+  | { kind: "notification"; at: number; postId: number; accountId: number; notificationKind: Notification["kind"] };
+
+export interface AuthorDetail {
+  author: Author;
+  stats: {
+    postCount: number;
+    commentCount: number;
+    triagedCount: number;
+    keepCount: number;
+    avgRelevanceScore: number | null;
+  };
+  // Most recently seen first.
+  posts: Post[];
+  triage: PostTriage[];
+  interactions: AuthorInteraction[];
+}
+
+export class AuthorService {
+  async getDetail(authorId: number): Promise<AuthorDetail | null> {
+    const author = await authorsRepo.findById(authorId);
+    if (!author) return null;
+
+    const { platform, handle } = author;
+    const { posts, total: postCount } = await postsRepo.listByAuthor(platform, handle, { limit: AUTHOR_POSTS_LIMIT });
+    const commentCount = await commentsRepo.countByAuthor(platform, handle);
+    const triage = await postTriageRepo.listByAuthor(platform, handle, AUTHOR_HISTORY_LIMIT);
+
+    return {
+      author,
+      stats: {
+        postCount,
+        commentCount,
+        triagedCount: triage.length,
+        keepCount: triage.filter((row) => row.relevanceLabel === "keep").length,
+        avgRelevanceScore:
+          triage.length > 0 ? Math.round(triage.reduce((sum, row) => sum + row.relevanceScore, 0) / triage.length) : null,
+      },
+      posts,
+      triage,
+      interactions: await this.getInteractions(author),
+    };
+  }
+
+  async getInteractions(author: Author): Promise<AuthorInteraction[]> {
+    const { platform, handle } = author;
+    const { posts: engagedPosts } = await postsRepo.listByAuthor(platform, handle, {
+      engaged: true,
+      limit: AUTHOR_HISTORY_LIMIT,
+    });
+    const approvedDrafts = await draftFeedbackRepo.listApprovedDraftsForAuthor(platform, handle, AUTHOR_HISTORY_LIMIT);
+    const notifications = await notificationsRepo.listByActor(platform, handle, AUTHOR_HISTORY_LIMIT);
+
+    const interactions: AuthorInteraction[] = [
+      ...engagedPosts.map((post) => ({
+        kind: "engaged" as const,
+        at: post.engagedAt ?? post.lastSeenAt,
+        postId: post.id,
+        engagedBy: post.engagedBy,
+      })),
+      ...approvedDrafts
+        .filter((draft) => draft.postId !== null)
+        .map((draft) => ({
+          kind: "reply_approved" as const,
+          at: draft.selectedAt ?? draft.reviewedAt ?? draft.createdAt,
+          postId: draft.postId!,
+          draftId: draft.id,
+          draftText: draft.draftText,
+        })),
+      ...notifications.map((notification) => ({
+        kind: "notification" as const,
+        at: notification.occurredAt ?? notification.firstSeenAt,
+        postId: notification.postId,
+        accountId: notification.accountId,
+        notificationKind: notification.kind,
+      })),
+    ];
+
+    return interactions.sort((a, b) => b.at - a.at);
+  }
+}
+
+export const authorService = new AuthorService();
@@ -0,0 +1,37 @@
+import type { Account } from "../db/schema";
+import { accountsRepo } from "../db/repositories/accounts.repo";
+import { generateBrowserProfile, parseBrowserProfile, type BrowserProfile } from "../domain/browser-profile";
+import { logger } from "../core/logger";
+
+export class BrowserProfileService {
+  constructor(private generate: () => BrowserProfile = () => generateBrowserProfile()) {}
+
+  /** The account's stored fingerprint, generated and saved on first use so every later launch reuses it. */
+  async getOrCreate(account: Account): Promise<BrowserProfile> {
+    const existing = parseBrowserProfile(account.browserProfileJson);
+    if (existing) return existing;
+
+    if (account.browserProfileJson) {
+      logger.warn({ accountId: account.id }, "Stored browser profile is invalid; generating a new one");
+    }
+    return this.save(account, this.generate());
+  }
+
+  /** Replaces the fingerprint. The site will see a different browser, so only do this alongside a fresh login. */
+  async regenerate(account: Account): Promise<BrowserProfile> {
+    return this.save(account, this.generate());
+  }
+
+  private async save(account: Account, profile: BrowserProfile): Promise<BrowserProfile> {
+    await accountsRepo.update(account.id, { browserProfileJson: JSON.stringify(profile) });
+    // Keep the in-memory row in sync for callers that hold on to it, e.g. the scrape runner.
+    account.browserProfileJson = JSON.stringify(profile);
+    logger.info(
+      { accountId: account.id, locale: profile.locale, timezoneId: profile.timezoneId, viewport: profile.viewport },
+      "Browser profile saved for account"
+    );
+    return profile;
+  }
+}
+
+export const browserProfileService = new BrowserProfileService();
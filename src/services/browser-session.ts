@@ -1,9 +1,11 @@
-import { chromium, type BrowserContext } from "playwright";
+import { chromium, type Browser, type BrowserContext, type BrowserContextOptions } from "playwright";
 import { mkdir, access } from "fs/promises";
 import { join } from "path";
 import { logger } from "../core/logger";
 import { env } from "../core/config";
 import type { StorageState } from "./playwright-session-state";
+import type { BrowserProxy } from "../domain/proxy";
+import type { BrowserProfile } from "../domain/browser-profile";
 
 export const PERSISTENT_SESSIONS_DIR = join(process.cwd(), "data", "sessions", "profiles");
 
@@ -91,6 +93,38 @@ export async function hydrateContextFromStorageState(
   }
 }
 
+// Contexts without an account profile (replays, selector checks) keep the previous fixed defaults.
+const DEFAULT_CONTEXT_OPTIONS: BrowserContextOptions = {
+  viewport: { width: 1280, height: 800 },
+  locale: "en-US",
+};
+
+export function browserProfileContextOptions(profile: BrowserProfile | undefined): BrowserContextOptions {
+  if (!profile) return DEFAULT_CONTEXT_OPTIONS;
+  return {
+    userAgent: profile.userAgent,
+    locale: profile.locale,
+    timezoneId: profile.timezoneId,
+    viewport: profile.viewport,
+    deviceScaleFactor: profile.deviceScaleFactor,
+    colorScheme: profile.colorScheme,
+  };
+}
+
+/** Opens a non-persistent context with the account's fingerprint, optionally restoring a saved storageState. */
+export async function newAccountContext(
+  browser: Browser,
+  options?: {
+    storageState?: StorageState;
+    browserProfile?: BrowserProfile;
+  }
+): Promise<BrowserContext> {
+  return browser.newContext({
+    ...browserProfileContextOptions(options?.browserProfile),
+    storageState: options?.storageState as BrowserContextOptions["storageState"],
+  });
+}
+
 export async function launchPersistentContext(
   accountId: number,
   platform: string,
@@ -98,6 +132,8 @@ export async function launchPersistentContext(
     headless?: boolean;
     slowMo?: number;
     storageState?: StorageState;
+    proxy?: BrowserProxy;
+    browserProfile?: BrowserProfile;
   }
 ): Promise<PersistentContextResult> {
   const profileDir = getPersistentProfileDir(accountId, platform);
@@ -108,8 +144,8 @@ export async function launchPersistentContext(
   const context = await chromium.launchPersistentContext(profileDir, {
     headless: options?.headless ?? env.PLAYWRIGHT_HEADLESS,
     slowMo: options?.slowMo ?? env.PLAYWRIGHT_SLOW_MO,
-    viewport: { width: 1280, height: 800 },
-    locale: "en-US",
+    ...browserProfileContextOptions(options?.browserProfile),
+    proxy: options?.proxy,
     args: [
       "--disable-blink-features=AutomationControlled",
       "--disable-features=IsolateOrigins,site-per-process",
@@ -133,7 +169,15 @@ export async function launchPersistentContext(
   }
 
   logger.info(
-    { accountId, platform, profileDir, isNew },
+    {
+      accountId,
+      platform,
+      profileDir,
+      isNew,
+      proxy: options?.proxy?.server ?? null,
+      locale: options?.browserProfile?.locale ?? null,
+      timezoneId: options?.browserProfile?.timezoneId ?? null,
+    },
     "Launched persistent browser context"
   );
 
@@ -13,20 +13,30 @@ import {
   rawSnapshots,
   engagementPolicySnapshots,
   cronJobRuns,
+  llmCalls,
+  notifications,
+  postMedia,
+  accountQuarantines,
+  runAccountArtifacts,
 } from "../db/schema";
+import { runArtifactsService } from "./run-artifacts.service";
+import { mediaStoreService, type MediaStoreService } from "./media-store.service";
 import { logger } from "../core/logger";
 
 export class DeleteService {
   private db = getDb();
 
+  constructor(private mediaStore: MediaStoreService = mediaStoreService) {}
+
   async deleteRun(runId: number): Promise<void> {
+    let runAccountIds: number[] = [];
     await this.db.transaction(async (tx) => {
       const runAccounts = await tx
         .select({ id: scrapeRunAccounts.id })
         .from(scrapeRunAccounts)
         .where(eq(scrapeRunAccounts.runId, runId));
 
-      const runAccountIds = runAccounts.map((ra) => ra.id);
+      runAccountIds = runAccounts.map((ra) => ra.id);
 
       if (runAccountIds.length > 0) {
         await tx
@@ -50,27 +60,56 @@ export class DeleteService {
         await tx
           .delete(engagementPolicySnapshots)
           .where(inArray(engagementPolicySnapshots.runAccountId, runAccountIds));
+        // Keep the LLM ledger for cost history, just detach it from the deleted run.
+        await tx
+          .update(llmCalls)
+          .set({ runAccountId: null })
+          .where(inArray(llmCalls.runAccountId, runAccountIds));
+        await tx
+          .update(notifications)
+          .set({ runAccountId: null })
+          .where(inArray(notifications.runAccountId, runAccountIds));
+        await tx
+          .update(accountQuarantines)
+          .set({ runAccountId: null })
+          .where(inArray(accountQuarantines.runAccountId, runAccountIds));
+        await tx
+          .delete(runAccountArtifacts)
+          .where(inArray(runAccountArtifacts.runAccountId, runAccountIds));
       }
 
       await tx.delete(scrapeRunAccounts).where(eq(scrapeRunAccounts.runId, runId));
       await tx.delete(cronJobRuns).where(eq(cronJobRuns.scrapeRunId, runId));
       await tx.delete(scrapeRuns).where(eq(scrapeRuns.id, runId));
     });
+    await runArtifactsService.removeFiles(runAccountIds);
 
     logger.info({ runId }, "Run and all dependent records deleted");
   }
 
   async deletePost(postId: number): Promise<void> {
+    let mediaPaths: string[] = [];
     await this.db.transaction(async (tx) => {
+      const media = await tx
+        .select({ localPath: postMedia.localPath })
+        .from(postMedia)
+        .where(eq(postMedia.postId, postId));
+      mediaPaths = media.flatMap((item) => (item.localPath ? [item.localPath] : []));
+
       await tx.delete(draftFeedbackSignals).where(eq(draftFeedbackSignals.postId, postId));
       await tx.delete(llmDrafts).where(eq(llmDrafts.postId, postId));
       await tx.delete(deepScrapeTasks).where(eq(deepScrapeTasks.postId, postId));
       await tx.delete(postTriage).where(eq(postTriage.postId, postId));
       await tx.delete(metricSnapshots).where(eq(metricSnapshots.entityId, postId));
         await tx.delete(rawSnapshots).where(eq(rawSnapshots.entityRef, String(postId)));
+      await tx.update(llmCalls).set({ postId: null }).where(eq(llmCalls.postId, postId));
+      await tx.delete(notifications).where(eq(notifications.postId, postId));
+      await tx.delete(postMedia).where(eq(postMedia.postId, postId));
       await tx.delete(comments).where(eq(comments.parentPostId, postId));
       await tx.delete(posts).where(eq(posts.id, postId));
     });
+    // Checked after the rows are gone, so files this post shared with others stay.
+    await this.mediaStore.removeUnreferenced(mediaPaths);
 
     logger.info({ postId }, "Post and all dependent records deleted");
   }
@@ -92,8 +131,19 @@ export class DeleteService {
       await tx
         .delete(engagementPolicySnapshots)
         .where(eq(engagementPolicySnapshots.runAccountId, runAccountId));
+      await tx.update(llmCalls).set({ runAccountId: null }).where(eq(llmCalls.runAccountId, runAccountId));
+      await tx
+        .update(notifications)
+        .set({ runAccountId: null })
+        .where(eq(notifications.runAccountId, runAccountId));
+      await tx
+        .update(accountQuarantines)
+        .set({ runAccountId: null })
+        .where(eq(accountQuarantines.runAccountId, runAccountId));
+      await tx.delete(runAccountArtifacts).where(eq(runAccountArtifacts.runAccountId, runAccountId));
       await tx.delete(scrapeRunAccounts).where(eq(scrapeRunAccounts.id, runAccountId));
     });
+    await runArtifactsService.removeFiles([runAccountId]);
 
     logger.info({ runAccountId }, "Run account and all dependent records deleted");
   }
@@ -0,0 +1,40 @@
+import type { Account } from "../db/schema";
+import { RateLimiter } from "../core/concurrency";
+import { env } from "../core/config";
+
+// Accounts without a proxy all leave through the machine's own IP.
+const DIRECT_EGRESS = "direct";
+
+/**
+ * Navigation limiters keyed by egress: accounts sharing a proxy login (or no proxy) share one budget, so
+ * parallel workers and the deep-scrape stage together stay under SCRAPER_EGRESS_NAVIGATIONS_PER_MINUTE.
+ */
+export class EgressRateLimiters {
+  private limiters = new Map<string, RateLimiter>();
+
+  constructor(private navigationsPerMinute: number = env.SCRAPER_EGRESS_NAVIGATIONS_PER_MINUTE) {}
+
+  /**
+   * Proxy server plus username: rotating and residential gateways pick the exit IP per username
+   * (session), so accounts on one gateway with different usernames leave through different addresses.
+   */
+  egressKey(account: Account): string {
+    if (!account.proxyServer) return DIRECT_EGRESS;
+    return `${account.proxyServer}|${account.proxyUsername ?? ""}`;
+  }
+
+  /** Null when unlimited. */
+  forAccount(account: Account): RateLimiter | null {
+    if (this.navigationsPerMinute <= 0) return null;
+
+    const key = this.egressKey(account);
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter(this.navigationsPerMinute);
+      this.limiters.set(key, limiter);
+    }
+    return limiter;
+  }
+}
+
+export const egressRateLimiters = new EgressRateLimiters();
@@ -0,0 +1,101 @@
+import { llmCallsRepo, type LlmUsageRow } from "../db/repositories/llm-calls.repo";
+import { logger } from "../core/logger";
+import { LLMError } from "../core/errors";
+import type { LLMCallContext, LLMUsage } from "../llm/contracts";
+
+export interface LlmCallRecord {
+  context: LLMCallContext;
+  provider: string;
+  model: string;
+  usage: LLMUsage | null;
+  latencyMs: number;
+  attempts: number;
+  error?: unknown;
+}
+
+export interface LlmUsageReport {
+  since: number;
+  accountId: number | null;
+  totals: Omit<LlmUsageRow, "key">;
+  byDay: LlmUsageRow[];
+  byAccount: LlmUsageRow[];
+  byStage: LlmUsageRow[];
+}
+
+export class LlmLedgerService {
+  // Ledger writes must never fail the LLM call they describe.
+  async record(entry: LlmCallRecord): Promise<void> {
+    const errorCode = entry.error
+      ? entry.error instanceof LLMError
+        ? entry.error.code
+        : "unknown_error"
+      : null;
+
+    try {
+      await llmCallsRepo.create({
+        stage: entry.context.stage,
+        promptVersion: entry.context.promptVersion ?? null,
+        provider: entry.provider,
+        model: entry.model,
+        promptTokens: entry.usage?.promptTokens ?? null,
+        completionTokens: entry.usage?.completionTokens ?? null,
+        totalTokens: entry.usage?.totalTokens ?? null,
+        costUsd: entry.usage?.costUsd ?? null,
+        latencyMs: Math.round(entry.latencyMs),
+        retryCount: Math.max(entry.attempts - 1, 0),
+        status: entry.error ? "failed" : "success",
+        errorCode,
+        runAccountId: entry.context.runAccountId ?? null,
+        postId: entry.context.postId ?? null,
+      });
+    } catch (error) {
+      logger.warn({ error, stage: entry.context.stage }, "Failed to record LLM call");
+    }
+  }
+
+  async getUsageReport(options: { days: number; accountId?: number }): Promise<LlmUsageReport> {
+    const since = Math.floor(Date.now() / 1000) - options.days * 86400;
+    const filters = { since, accountId: options.accountId };
+
+    const [byDay, byAccount, byStage] = await Promise.all([
+      llmCallsRepo.summarizeUsage("day", filters),
+      llmCallsRepo.summarizeUsage("account", filters),
+      llmCallsRepo.summarizeUsage("stage", filters),
+    ]);
+
+    const totals = byStage.reduce(
+      (acc, row) => ({
+        calls: acc.calls + row.calls,
+        failedCalls: acc.failedCalls + row.failedCalls,
+        promptTokens: acc.promptTokens + row.promptTokens,
+        completionTokens: acc.completionTokens + row.completionTokens,
+        totalTokens: acc.totalTokens + row.totalTokens,
+        costUsd: acc.costUsd + row.costUsd,
+        avgLatencyMs: acc.avgLatencyMs + row.avgLatencyMs * row.calls,
+        retries: acc.retries + row.retries,
+      }),
+      {
+        calls: 0,
+        failedCalls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        costUsd: 0,
+        avgLatencyMs: 0,
+        retries: 0,
+      }
+    );
+    totals.avgLatencyMs = totals.calls > 0 ? Math.round(totals.avgLatencyMs / totals.calls) : 0;
+
+    return {
+      since,
+      accountId: options.accountId ?? null,
+      totals,
+      byDay,
+      byAccount,
+      byStage,
+    };
+  }
+}
+
+export const llmLedgerService = new LlmLedgerService();
@@ -0,0 +1,132 @@
+import { createHash } from "crypto";
+import { access, mkdir, rm, rmdir, writeFile } from "fs/promises";
+import { dirname, join, resolve, sep } from "path";
+import type { PostMedia } from "../db/schema";
+import { postMediaRepo } from "../db/repositories/post-media.repo";
+import { env } from "../core/config";
+import { logger } from "../core/logger";
+
+export const MEDIA_STORE_DIR = join(process.cwd(), "data", "media");
+
+const EXTENSION_BY_CONTENT_TYPE: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/heic": "heic",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov",
+};
+
+export interface StoredMediaFile {
+  sha256: string;
+  // Relative to the media store root, e.g. `ab/ab12…ef.jpg`.
+  localPath: string;
+  contentType: string | null;
+  byteSize: number;
+}
+
+/** Content-addressed file store: identical media downloaded for different posts is written once. */
+export class MediaStoreService {
+  constructor(private rootDir: string = MEDIA_STORE_DIR) {}
+
+  async store(bytes: Uint8Array, contentType: string | null): Promise<StoredMediaFile> {
+    const sha256 = createHash("sha256").update(bytes).digest("hex");
+    const normalizedType = contentType?.split(";")[0]?.trim().toLowerCase() || null;
+    const extension = (normalizedType && EXTENSION_BY_CONTENT_TYPE[normalizedType]) || "bin";
+    const localPath = join(sha256.slice(0, 2), `${sha256}.${extension}`);
+    const filePath = join(this.rootDir, localPath);
+
+    const exists = await access(filePath).then(
+      () => true,
+      () => false
+    );
+    if (!exists) {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, bytes);
+    }
+
+    return { sha256, localPath, contentType: normalizedType, byteSize: bytes.byteLength };
+  }
+
+  async download(url: string): Promise<StoredMediaFile> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(20000) });
+    if (!response.ok) {
+      throw new Error(`Media download failed with HTTP ${response.status}`);
+    }
+
+    const declaredSize = Number(response.headers.get("content-length") || 0);
+    if (declaredSize > env.MEDIA_MAX_BYTES) {
+      throw new Error(`Media is ${declaredSize} bytes, above MEDIA_MAX_BYTES`);
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.byteLength > env.MEDIA_MAX_BYTES) {
+      throw new Error(`Media is ${bytes.byteLength} bytes, above MEDIA_MAX_BYTES`);
+    }
+
+    return this.store(bytes, response.headers.get("content-type"));
+  }
+
+  /** Downloads every not-yet-stored media item of a post. Failures are logged and retried on the next scrape. */
+  /** Records the post's media URLs and deletes the stored files of assets replaced at their position. */
+  async syncForPost(postId: number, mediaUrls: string[], seenAt: number): Promise<PostMedia[]> {
+    const previous = await postMediaRepo.findByPostId(postId);
+    const media = await postMediaRepo.syncForPost(postId, mediaUrls, seenAt);
+
+    const current = new Map(media.map((row) => [row.position, row.localPath]));
+    const replaced = previous
+      .filter((row) => row.localPath !== null && current.has(row.position) && current.get(row.position) !== row.localPath)
+      .map((row) => row.localPath!);
+    if (replaced.length > 0) {
+      await this.removeUnreferenced(replaced);
+    }
+    return media;
+  }
+
+  async downloadForPost(postId: number): Promise<number> {
+    let downloaded = 0;
+
+    for (const media of await postMediaRepo.findNotDownloaded(postId)) {
+      try {
+        const stored = await this.download(media.sourceUrl);
+        await postMediaRepo.markDownloaded(media.id, stored);
+        downloaded++;
+      } catch (error) {
+        logger.debug({ error, postId, mediaId: media.id }, "Failed to download post media");
+      }
+    }
+
+    return downloaded;
+  }
+
+  /**
+   * Deletes the given files unless another post_media row still points at them: the store is
+   * content-addressed, so posts with the same media share one file. Returns how many were removed.
+   */
+  async removeUnreferenced(localPaths: string[]): Promise<number> {
+    const candidates = Array.from(new Set(localPaths));
+    const referenced = await postMediaRepo.findReferencedLocalPaths(candidates);
+    let removed = 0;
+
+    for (const localPath of candidates) {
+      if (referenced.has(localPath)) continue;
+      const filePath = this.resolveFile(localPath);
+      if (!filePath) continue;
+      await rm(filePath, { force: true });
+      // Only succeeds once the sha256 prefix folder is empty.
+      await rmdir(dirname(filePath)).catch(() => undefined);
+      removed++;
+    }
+    return removed;
+  }
+
+  resolveFile(localPath: string): string | null {
+    const root = resolve(this.rootDir);
+    const filePath = resolve(root, localPath);
+    return filePath.startsWith(`${root}${sep}`) ? filePath : null;
+  }
+}
+
+export const mediaStoreService = new MediaStoreService();
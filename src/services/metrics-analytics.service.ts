@@ -0,0 +1,58 @@
+import type { MetricSnapshot } from "../db/schema";
+import { postsRepo } from "../db/repositories/posts.repo";
+import { metricsRepo } from "../db/repositories/metrics.repo";
+import { env } from "../core/config";
+import {
+  buildMetricSeries,
+  summarizeEngagement,
+  type EngagementSummary,
+  type MetricSeriesPoint,
+} from "../domain/engagement-metrics";
+
+export interface PostMetricsHistory extends EngagementSummary {
+  postId: number;
+  publishedAt: number | null;
+  points: MetricSeriesPoint[];
+}
+
+export class MetricsAnalyticsService {
+  async getPostHistory(postId: number, options: { since?: number } = {}): Promise<PostMetricsHistory | null> {
+    const post = await postsRepo.findById(postId);
+    if (!post) return null;
+
+    const snapshots = await metricsRepo.findHistory("post", postId, options.since);
+    const points = buildMetricSeries(snapshots, post.publishedAt);
+
+    return {
+      postId,
+      publishedAt: post.publishedAt,
+      points,
+      ...summarizeEngagement(points, env.METRICS_RISING_MIN_VELOCITY),
+    };
+  }
+
+  async summarizePosts(
+    posts: Array<{ id: number; publishedAt: number | null }>
+  ): Promise<Map<number, EngagementSummary>> {
+    const snapshots = await metricsRepo.findByEntities(
+      "post",
+      posts.map((post) => post.id)
+    );
+
+    const snapshotsByPost = new Map<number, MetricSnapshot[]>();
+    for (const snapshot of snapshots) {
+      const list = snapshotsByPost.get(snapshot.entityId) ?? [];
+      list.push(snapshot);
+      snapshotsByPost.set(snapshot.entityId, list);
+    }
+
+    const summaries = new Map<number, EngagementSummary>();
+    for (const post of posts) {
+      const points = buildMetricSeries(snapshotsByPost.get(post.id) ?? [], post.publishedAt);
+      summaries.set(post.id, summarizeEngagement(points, env.METRICS_RISING_MIN_VELOCITY));
+    }
+    return summaries;
+  }
+}
+
+export const metricsAnalyticsService = new MetricsAnalyticsService();
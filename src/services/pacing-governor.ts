@@ -0,0 +1,112 @@
+import { accountActionCountsRepo } from "../db/repositories/account-action-counts.repo";
+import {
+  findQuotaExhaustion,
+  pacingDelayMultiplier,
+  pacingPressure,
+  PACING_WINDOW_SECONDS,
+  type ActionPacer,
+  type PacedAction,
+  type PacingLimits,
+  type QuotaExhaustion,
+} from "../domain/pacing";
+import { RateLimitError } from "../core/errors";
+import type { RateLimiter } from "../core/concurrency";
+import { logger } from "../core/logger";
+import { env } from "../core/config";
+import { sleep } from "../core/retry";
+
+export function pacingLimitsFromEnv(): PacingLimits {
+  return {
+    navigation: { hourly: env.PACING_HOURLY_NAVIGATIONS, daily: env.PACING_DAILY_NAVIGATIONS },
+    scroll: { hourly: env.PACING_HOURLY_SCROLLS, daily: env.PACING_DAILY_SCROLLS },
+    expand: { hourly: env.PACING_HOURLY_EXPANSIONS, daily: env.PACING_DAILY_EXPANSIONS },
+  };
+}
+
+export interface PacingGovernorOptions {
+  limits?: PacingLimits;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  // Shared with other accounts on the same egress IP; navigations wait for a slot.
+  egressLimiter?: RateLimiter | null;
+}
+
+/**
+ * Counts one account's browser actions against its rolling hourly and daily budgets. Counts live in
+ * the database, so the scrape and deep-scrape stages (and separate processes) share one budget.
+ */
+export class PacingGovernor implements ActionPacer {
+  private limits: PacingLimits;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+  private egressLimiter: RateLimiter | null;
+  private multiplier = 1;
+  exhaustion: QuotaExhaustion | null = null;
+
+  constructor(private accountId: number, options: PacingGovernorOptions = {}) {
+    this.limits = options.limits ?? pacingLimitsFromEnv();
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000));
+    this.sleep = options.sleep ?? sleep;
+    this.egressLimiter = options.egressLimiter ?? null;
+  }
+
+  get exhausted(): boolean {
+    return this.exhaustion !== null;
+  }
+
+  /** Records `action` before it happens; throws QUOTA_EXHAUSTED instead once the budget is spent. */
+  async pace(action: PacedAction): Promise<void> {
+    if (this.exhaustion) throw this.quotaError(this.exhaustion);
+    if (action === "navigation") await this.egressLimiter?.acquire();
+
+    const now = this.now();
+    const usage = await accountActionCountsRepo.getUsage(this.accountId, now);
+    const exhaustion = findQuotaExhaustion(usage, this.limits, action);
+    if (exhaustion) {
+      this.exhaustion = exhaustion;
+      logger.warn({ accountId: this.accountId, ...exhaustion }, "Account pacing quota exhausted");
+      throw this.quotaError(exhaustion);
+    }
+
+    await accountActionCountsRepo.increment(this.accountId, action, now);
+    usage[action].hourly++;
+    usage[action].daily++;
+
+    const multiplier = pacingDelayMultiplier(
+      pacingPressure(usage, this.limits),
+      env.PACING_SLOWDOWN_THRESHOLD,
+      env.PACING_MAX_DELAY_MULTIPLIER
+    );
+    if (multiplier > 1 && this.multiplier === 1) {
+      logger.info({ accountId: this.accountId, multiplier }, "Account nearing its pacing quota; stretching delays");
+    }
+    this.multiplier = multiplier;
+
+    // Below the slowdown threshold the adapters' own waits are enough; above it every action waits longer.
+    if (multiplier > 1) {
+      await this.sleep(this.baseDelayMs() * (multiplier - 1));
+    }
+  }
+
+  /** Pause between scrape steps; replaces actionDelay and stretches as the account nears its limits. */
+  async delay(): Promise<void> {
+    await this.sleep(this.baseDelayMs() * this.multiplier);
+  }
+
+  async pruneExpired(): Promise<void> {
+    await accountActionCountsRepo.pruneBefore(this.accountId, this.now() - PACING_WINDOW_SECONDS.daily * 2);
+  }
+
+  private baseDelayMs(): number {
+    const min = env.SCRAPER_ACTION_DELAY_MIN_MS;
+    const max = env.SCRAPER_ACTION_DELAY_MAX_MS;
+    return min + Math.random() * (max - min);
+  }
+
+  private quotaError(exhaustion: QuotaExhaustion): RateLimitError {
+    return new RateLimitError(
+      `Account ${this.accountId} used its ${exhaustion.window} ${exhaustion.action} quota (${exhaustion.used}/${exhaustion.limit})`,
+      "QUOTA_EXHAUSTED"
+    );
+  }
+}
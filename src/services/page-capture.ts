@@ -0,0 +1,226 @@
+import type { BrowserContext, Page, Response, Route } from "playwright";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { logger } from "../core/logger";
+
+export type PageCaptureMode = "record" | "replay";
+
+export interface PageCaptureOptions {
+  mode: PageCaptureMode;
+  dir: string;
+}
+
+export interface CapturedResponse {
+  url: string;
+  method: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/** One scrape source (home, profile:x, search:q, thread:id, ...) as the adapter saw it. */
+export interface PageCapture {
+  version: 1;
+  platform: string;
+  source: string;
+  recordedAt: number;
+  url: string;
+  html: string;
+  responses: CapturedResponse[];
+}
+
+const MAX_RESPONSES_PER_CAPTURE = 200;
+const MAX_RESPONSE_BYTES = 2_000_000;
+const REPLAY_HEADER = "x-engagekit-replay";
+
+export function captureFileName(source: string): string {
+  const slug = source
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "page"}.json`;
+}
+
+export function getCaptureDir(dir: string, platform: string): string {
+  return join(dir, platform);
+}
+
+function isJsonResponse(response: Response): boolean {
+  const resourceType = response.request().resourceType();
+  if (resourceType !== "xhr" && resourceType !== "fetch") return false;
+  const contentType = response.headers()["content-type"] || "";
+  return /json|javascript|text\/plain/.test(contentType);
+}
+
+/** Saves the rendered DOM and same-origin API responses of each scrape source to `<dir>/<platform>/<source>.json`. */
+export class PageCaptureRecorder {
+  private responses: CapturedResponse[] = [];
+  private pending = new Set<Promise<void>>();
+  private page: Page | null = null;
+  private source: string | null = null;
+
+  constructor(
+    private dir: string,
+    private platform: string
+  ) {}
+
+  private readonly onResponse = (response: Response) => {
+    if (!this.page || !isJsonResponse(response)) return;
+    if (this.responses.length >= MAX_RESPONSES_PER_CAPTURE) return;
+
+    let pageOrigin: string;
+    try {
+      pageOrigin = new URL(this.page.url()).origin;
+      if (new URL(response.url()).origin !== pageOrigin) return;
+    } catch {
+      return;
+    }
+
+    const task = response
+      .text()
+      .then((body) => {
+        if (body.length > MAX_RESPONSE_BYTES) return;
+        this.responses.push({
+          url: response.url(),
+          method: response.request().method(),
+          status: response.status(),
+          contentType: response.headers()["content-type"] || "application/json",
+          body,
+        });
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        this.pending.delete(task);
+      });
+    this.pending.add(task);
+  };
+
+  begin(page: Page, source: string): void {
+    this.page = page;
+    this.source = source;
+    this.responses = [];
+    page.on("response", this.onResponse);
+  }
+
+  async end(): Promise<string | null> {
+    const page = this.page;
+    const source = this.source;
+    if (!page || !source) return null;
+
+    await Promise.allSettled(Array.from(this.pending));
+    page.off("response", this.onResponse);
+    this.page = null;
+    this.source = null;
+
+    const capture: PageCapture = {
+      version: 1,
+      platform: this.platform,
+      source,
+      recordedAt: Math.floor(Date.now() / 1000),
+      url: page.url(),
+      html: await page.content(),
+      responses: this.responses,
+    };
+
+    const dir = getCaptureDir(this.dir, this.platform);
+    await mkdir(dir, { recursive: true });
+    const filePath = join(dir, captureFileName(source));
+    await writeFile(filePath, JSON.stringify(capture, null, 2));
+    logger.info({ source, filePath, responses: capture.responses.length }, "Page capture recorded");
+    return filePath;
+  }
+}
+
+export async function loadPageCaptures(dir: string, platform: string): Promise<PageCapture[]> {
+  const captureDir = getCaptureDir(dir, platform);
+  let files: string[];
+  try {
+    files = (await readdir(captureDir)).filter((file) => file.endsWith(".json")).sort();
+  } catch {
+    return [];
+  }
+
+  const captures: PageCapture[] = [];
+  for (const file of files) {
+    const capture = await readPageCapture(join(captureDir, file));
+    if (!capture) {
+      logger.warn({ file }, "Skipping unrecognized page capture");
+      continue;
+    }
+    captures.push(capture);
+  }
+  return captures;
+}
+
+export async function readPageCapture(filePath: string): Promise<PageCapture | null> {
+  const parsed = JSON.parse(await readFile(filePath, "utf-8")) as PageCapture;
+  return parsed.version === 1 && typeof parsed.html === "string" ? parsed : null;
+}
+
+function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, "")}${parsed.search}`;
+  } catch {
+    return null;
+  }
+}
+
+/** Exact URL match first, then the same path with a different query string. */
+export function findCaptureForUrl(captures: PageCapture[], url: string): PageCapture | null {
+  const target = normalizeUrl(url);
+  if (!target) return null;
+
+  const exact = captures.find((capture) => normalizeUrl(capture.url) === target);
+  if (exact) return exact;
+
+  const targetPath = target.split("?")[0];
+  return captures.find((capture) => normalizeUrl(capture.url)?.split("?")[0] === targetPath) ?? null;
+}
+
+/**
+ * Strips the site's own scripts and re-issues the recorded API calls on load and again on the first
+ * scroll, so listeners attached after navigation (as when the page is already open) still see them.
+ */
+export function buildReplayDocument(capture: PageCapture, captureIndex: number): string {
+  const html = capture.html.replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, "");
+  const requests = capture.responses.map((response, index) => ({
+    url: response.url,
+    method: response.method,
+    key: `${captureIndex}:${index}`,
+  }));
+  if (requests.length === 0) return html;
+
+  const script = `<script>(function(){var requests=${JSON.stringify(requests).replace(/</g, "\\u003c")};var scrolled=false;function fire(){requests.forEach(function(r){var headers={};headers[${JSON.stringify(REPLAY_HEADER)}]=r.key;fetch(r.url,{method:r.method,headers:headers}).catch(function(){});});}function onScroll(){if(scrolled)return;scrolled=true;fire();}window.addEventListener("load",fire,{once:true});window.addEventListener("wheel",onScroll);window.addEventListener("scroll",onScroll);})();</script>`;
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>/i, () => `${script}</body>`) : `${html}${script}`;
+}
+
+/** Serves recorded captures for every request in the context; anything not recorded is aborted so replay stays offline. */
+export async function installReplayRoutes(context: BrowserContext, captures: PageCapture[]): Promise<void> {
+  await context.route("**/*", async (route: Route) => {
+    const request = route.request();
+    const replayKey = request.headers()[REPLAY_HEADER];
+
+    if (replayKey) {
+      const [captureIndex, responseIndex] = replayKey.split(":").map(Number);
+      const response = captures[captureIndex ?? -1]?.responses[responseIndex ?? -1];
+      if (!response) return route.abort();
+      return route.fulfill({ status: response.status, contentType: response.contentType, body: response.body });
+    }
+
+    if (request.resourceType() === "document") {
+      const capture = findCaptureForUrl(captures, request.url());
+      if (!capture) {
+        logger.debug({ url: request.url() }, "No page capture for URL; serving empty document");
+        return route.fulfill({ status: 404, contentType: "text/html", body: "<html><body></body></html>" });
+      }
+      return route.fulfill({
+        status: 200,
+        contentType: "text/html",
+        body: buildReplayDocument(capture, captures.indexOf(capture)),
+      });
+    }
+
+    return route.abort();
+  });
+}
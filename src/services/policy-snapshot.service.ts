@@ -1,9 +1,13 @@
-import type { EngagementPolicyInput } from "../domain/models";
+import type { EngagementPolicyInput, PolicyLlmSettings, PolicyPrefilterSettings } from "../domain/models";
+import type { EngagementPolicy } from "../db/schema";
 import { engagementPoliciesRepo } from "../db/repositories/engagement-policies.repo";
 import { policySnapshotsRepo } from "../db/repositories/engagement-policy-snapshots.repo";
 import { logger } from "../core/logger";
 import { TRIAGE_PROMPT_VERSION } from "../llm/prompts/triage";
 import { DRAFT_PROMPT_VERSION } from "../llm/prompts/draft";
+import { getEnvStageSettings } from "../llm/provider-registry";
+import { SelectionOverridesSchema, type SelectionConfig } from "../domain/selection";
+import { getEnvSelectionConfig, resolveSelectionConfig } from "../orchestration/stages/selection-stage";
 
 export class PolicySnapshotService {
   async createSnapshotForRunAccount(
@@ -20,7 +24,12 @@ export class PolicySnapshotService {
     const policy = await engagementPoliciesRepo.findByAccountId(accountId);
     if (!policy) {
       logger.warn({ accountId }, "No active policy found for account, using defaults");
-      const defaultPolicy = this.getDefaultPolicy();
+      const defaultPolicy = {
+        ...this.getDefaultPolicy(),
+        llm: this.buildLlmSettings(null),
+        prefilter: this.buildPrefilterSettings(null),
+        selection: this.buildSelectionConfig(null),
+      };
       const snapshot = await policySnapshotsRepo.create({
         runAccountId,
         policyId: null,
@@ -37,6 +46,9 @@ export class PolicySnapshotService {
       avoidList: JSON.parse(policy.avoidListJson),
       toneIdentity: policy.toneIdentity,
       preferredLanguages: JSON.parse(policy.preferredLanguagesJson),
+      llm: this.buildLlmSettings(policy),
+      prefilter: this.buildPrefilterSettings(policy),
+      selection: this.buildSelectionConfig(policy),
     };
 
     const snapshot = await policySnapshotsRepo.create({
@@ -75,6 +87,48 @@ export class PolicySnapshotService {
     };
   }
 
+  // Freeze the effective provider, model and sampling settings so a run can be reproduced
+  // even after the policy or env config changes.
+  private buildLlmSettings(policy: EngagementPolicy | null): PolicyLlmSettings {
+    const triage = getEnvStageSettings("triage");
+    const draft = getEnvStageSettings("draft");
+
+    return {
+      triage: {
+        provider: triage.provider,
+        model: policy?.triageModel || triage.model,
+        temperature: policy?.triageTemperature ?? triage.temperature,
+        maxTokens: policy?.triageMaxTokens ?? triage.maxTokens,
+      },
+      draft: {
+        provider: draft.provider,
+        model: policy?.draftModel || draft.model,
+        temperature: policy?.draftTemperature ?? draft.temperature,
+        maxTokens: policy?.draftMaxTokens ?? draft.maxTokens,
+      },
+    };
+  }
+
+  private buildPrefilterSettings(policy: EngagementPolicy | null): PolicyPrefilterSettings {
+    return {
+      authorAllowList: policy ? JSON.parse(policy.authorAllowListJson) : [],
+      authorDenyList: policy ? JSON.parse(policy.authorDenyListJson) : [],
+      excludePatterns: policy ? JSON.parse(policy.excludePatternsJson) : [],
+      minBodyLength: policy?.minBodyLength ?? null,
+      maxPostAgeHours: policy?.maxPostAgeHours ?? null,
+    };
+  }
+
+  private buildSelectionConfig(policy: EngagementPolicy | null): SelectionConfig {
+    const overrides = policy?.selectionConfigJson
+      ? SelectionOverridesSchema.safeParse(JSON.parse(policy.selectionConfigJson))
+      : null;
+    if (overrides && !overrides.success) {
+      logger.warn({ policyId: policy?.id }, "Ignoring invalid selection config on policy");
+    }
+    return resolveSelectionConfig(getEnvSelectionConfig(), overrides?.success ? overrides.data : null);
+  }
+
   private getPromptVersion(): string {
     return `triage:${TRIAGE_PROMPT_VERSION},draft:${DRAFT_PROMPT_VERSION}`;
   }
@@ -1,18 +1,21 @@
 import type { EngagementPolicyInput } from "../domain/models";
-import type { Post, PostTriage, MetricSnapshot, LlmDraft, Account } from "../db/schema";
+import type { Post, PostTriage, MetricSnapshot, LlmDraft, Account, PostMedia, Author } from "../db/schema";
 import { postsRepo } from "../db/repositories/posts.repo";
 import { runsRepo } from "../db/repositories/runs.repo";
 import { postTriageRepo } from "../db/repositories/post-triage.repo";
 import { metricsRepo } from "../db/repositories/metrics.repo";
 import { draftFeedbackRepo } from "../db/repositories/draft-feedback.repo";
-import { commentsRepo } from "../db/repositories/comments.repo";
+import { threadService, CONVERSATION_CONTEXT_LIMIT } from "./thread.service";
 import { accountsRepo } from "../db/repositories/accounts.repo";
+import { postMediaRepo } from "../db/repositories/post-media.repo";
+import { authorsRepo } from "../db/repositories/authors.repo";
 import { policySnapshotService } from "./policy-snapshot.service";
-import { openRouterClient } from "../llm/openrouter-client";
+import { llmProviderRegistry, type ResolvedLLM } from "../llm/provider-registry";
 import {
   buildTriageSystemPrompt,
   buildTriageUserPrompt,
   TRIAGE_PROMPT_VERSION,
+  toPromptAuthor,
   triagePromptSchema,
 } from "../llm/prompts/triage";
 import {
@@ -31,6 +34,8 @@ export interface PostWorkspace {
   triage: PostTriage | null;
   metrics: MetricSnapshot | null;
   drafts: LlmDraft[];
+  media: PostMedia[];
+  author: Author | null;
 }
 
 export interface GenerateDraftsResult {
@@ -64,8 +69,10 @@ export class PostWorkspaceService {
     }
 
     const metrics = await metricsRepo.findLatestByEntity("post", postId);
+    const media = await postMediaRepo.findByPostId(postId);
+    const author = await authorsRepo.findByHandle(post.platform, post.authorHandle);
 
-    return { post, account, triage, metrics, drafts };
+    return { post, account, triage, metrics, drafts, media, author };
   }
 
   async setEngagement(postId: number, engaged: boolean, engagedBy?: string): Promise<Post | null> {
@@ -111,10 +118,11 @@ export class PostWorkspaceService {
       return { runAccountId: runAccount.id, triage, drafts: existingDrafts };
     }
 
-    const topComments = await this.getTopComments(postId, 3);
+    const topComments = await threadService.getConversation(postId, CONVERSATION_CONTEXT_LIMIT);
     const pastApprovedReplies = await this.getPastApprovedReplies(account.id);
-    const draftOutput = await this.generateDraftOutput(post, policyJson, topComments, pastApprovedReplies);
-    const drafts = await this.persistDrafts(runAccount.id, postId, draftOutput, policyJson, topComments, pastApprovedReplies);
+    const llm = llmProviderRegistry.forStage("draft", policyJson.llm?.draft);
+    const draftOutput = await this.generateDraftOutput(llm, runAccount.id, post, policyJson, topComments, pastApprovedReplies);
+    const drafts = await this.persistDrafts(runAccount.id, postId, draftOutput, llm.model, policyJson, topComments, pastApprovedReplies);
 
     logger.info({ postId, runAccountId: runAccount.id, draftsCount: drafts.length }, "Generated drafts for post");
 
@@ -169,7 +177,8 @@ export class PostWorkspaceService {
         confidence: 100,
         model: "manual",
         promptVersion: "manual",
-        isTop20: 1,
+        isSelected: 1,
+        selectionStrategy: "manual",
         selectedForDeepScrape: 1,
         rank: 1,
       });
@@ -190,7 +199,8 @@ export class PostWorkspaceService {
       account.id
     );
 
-    const triageOutput = await this.runTriage(post, policyJson);
+    const llm = llmProviderRegistry.forStage("triage", policyJson.llm?.triage);
+    const triageOutput = await this.runTriage(llm, runAccountId, post, policyJson);
     const triage = await postTriageRepo.create({
       runAccountId,
       postId: post.id,
@@ -199,16 +209,21 @@ export class PostWorkspaceService {
       reasonsJson: JSON.stringify(triageOutput.reasons),
       action: triageOutput.action,
       confidence: Math.round(triageOutput.confidence * 100),
-      model: env.OPENROUTER_MODEL,
+      model: llm.model,
       promptVersion: TRIAGE_PROMPT_VERSION,
-      isTop20: 0,
+      isSelected: 0,
       selectedForDeepScrape: 0,
     });
 
     return triage;
   }
 
-  private async runTriage(post: Post, policy: EngagementPolicyInput): Promise<TriageOutput> {
+  private async runTriage(
+    llm: ResolvedLLM,
+    runAccountId: number,
+    post: Post,
+    policy: EngagementPolicyInput
+  ): Promise<TriageOutput> {
     const promptInput: TriagePromptInput = {
       policy,
       post: {
@@ -216,15 +231,19 @@ export class PostWorkspaceService {
         authorDisplayName: post.authorDisplayName,
         bodyText: post.bodyText,
         postUrl: post.postUrl,
+        media: await postMediaRepo.findByPostId(post.id),
+        author: toPromptAuthor(await authorsRepo.findByHandle(post.platform, post.authorHandle)),
       },
     };
 
     const systemPrompt = buildTriageSystemPrompt();
     const userPrompt = buildTriageUserPrompt(promptInput);
 
-    return openRouterClient.complete(systemPrompt, userPrompt, triagePromptSchema(), {
-      temperature: 0.3,
-      maxTokens: 512,
+    return llm.client.complete(systemPrompt, userPrompt, triagePromptSchema(), {
+      temperature: llm.temperature,
+      maxTokens: llm.maxTokens,
+      model: llm.model,
+      context: { stage: "triage", promptVersion: TRIAGE_PROMPT_VERSION, runAccountId, postId: post.id },
     });
   }
 
@@ -241,21 +260,14 @@ export class PostWorkspaceService {
     return updated ?? triage;
   }
 
-  private async getTopComments(postId: number, limit: number): Promise<DraftPromptInput["topComments"]> {
-    const comments = await commentsRepo.findByParentPostId(postId);
-    return comments.slice(0, limit).map((c) => ({
-      authorHandle: c.authorHandle,
-      authorDisplayName: c.authorDisplayName,
-      bodyText: c.bodyText,
-    }));
-  }
-
   private async getPastApprovedReplies(accountId: number): Promise<string[]> {
     const drafts = await draftFeedbackRepo.listApprovedDraftsForStyle(accountId, 10);
     return drafts.map((d) => d.draftText).filter(Boolean);
   }
 
   private async generateDraftOutput(
+    llm: ResolvedLLM,
+    runAccountId: number,
     post: Post,
     policy: EngagementPolicyInput,
     topComments: DraftPromptInput["topComments"],
@@ -268,6 +280,8 @@ export class PostWorkspaceService {
         authorDisplayName: post.authorDisplayName,
         bodyText: post.bodyText,
         postUrl: post.postUrl,
+        media: await postMediaRepo.findByPostId(post.id),
+        selfThread: await threadService.getSelfThreadContext(post),
       },
       topComments,
       pastApprovedReplies,
@@ -276,9 +290,11 @@ export class PostWorkspaceService {
     const systemPrompt = buildDraftSystemPrompt();
     const userPrompt = buildDraftUserPrompt(promptInput);
 
-    return openRouterClient.complete(systemPrompt, userPrompt, draftPromptSchema(), {
-      temperature: 0.7,
-      maxTokens: 1024,
+    return llm.client.complete(systemPrompt, userPrompt, draftPromptSchema(), {
+      temperature: llm.temperature,
+      maxTokens: llm.maxTokens,
+      model: llm.model,
+      context: { stage: "draft", promptVersion: DRAFT_PROMPT_VERSION, runAccountId, postId: post.id },
     });
   }
 
@@ -286,6 +302,7 @@ export class PostWorkspaceService {
     runAccountId: number,
     postId: number,
     draftOutput: DraftOutput,
+    model: string,
     policy: EngagementPolicyInput,
     topComments: DraftPromptInput["topComments"],
     pastApprovedReplies: string[]
@@ -307,7 +324,7 @@ export class PostWorkspaceService {
         optionIndex: i,
         promptVersion: DRAFT_PROMPT_VERSION,
         draftText: option.text,
-        model: env.OPENROUTER_MODEL,
+        model,
         status: "generated",
         inputContextJson: JSON.stringify(inputContext),
       });
@@ -0,0 +1,168 @@
+import type { BrowserContext, Page } from "playwright";
+import { mkdir, rm, rmdir, stat, writeFile } from "fs/promises";
+import { join, resolve, sep } from "path";
+import type { RunAccountArtifact } from "../db/schema";
+import { runAccountArtifactsRepo } from "../db/repositories/run-account-artifacts.repo";
+import { env } from "../core/config";
+import { logger } from "../core/logger";
+
+export const RUN_ARTIFACTS_DIR = join(process.cwd(), "data", "run-artifacts");
+
+export type RunArtifactsMode = "off" | "on_failure" | "always";
+export type RunArtifactKind = RunAccountArtifact["kind"];
+
+export interface RunArtifactsSettings {
+  mode: RunArtifactsMode;
+  trace: boolean;
+  retentionDays: number;
+}
+
+export function runArtifactsSettingsFromEnv(): RunArtifactsSettings {
+  return {
+    mode: env.RUN_ARTIFACTS_MODE,
+    trace: env.RUN_ARTIFACTS_TRACE,
+    retentionDays: env.RUN_ARTIFACTS_RETENTION_DAYS,
+  };
+}
+
+export interface RunArtifactTarget {
+  context: BrowserContext | null;
+  page: Page | null;
+  failed: boolean;
+}
+
+const SCREENSHOT_TIMEOUT_MS = 10000;
+
+/**
+ * Keeps a final screenshot, DOM dump and optional Playwright trace per run account under
+ * `<root>/<runAccountId>/`, so a failed scrape can be looked at after the browser is gone.
+ */
+export class RunArtifactsService {
+  private tracing = new WeakSet<BrowserContext>();
+
+  constructor(
+    private rootDir: string = RUN_ARTIFACTS_DIR,
+    private settings: RunArtifactsSettings = runArtifactsSettingsFromEnv()
+  ) {}
+
+  /** Starts tracing up front; whether the trace is kept is only known once the scrape ends. */
+  async startTracing(context: BrowserContext): Promise<void> {
+    if (this.settings.mode === "off" || !this.settings.trace) return;
+
+    try {
+      await context.tracing.start({ screenshots: true, snapshots: true });
+      this.tracing.add(context);
+    } catch (error) {
+      logger.warn({ error }, "Failed to start Playwright tracing");
+    }
+  }
+
+  shouldKeep(failed: boolean): boolean {
+    return this.settings.mode === "always" || (this.settings.mode === "on_failure" && failed);
+  }
+
+  /** Saves whatever the page and context still offer. Must run before the context is closed. */
+  async collect(runAccountId: number, target: RunArtifactTarget): Promise<RunAccountArtifact[]> {
+    const { context, page } = target;
+    const traced = context !== null && this.tracing.has(context);
+    if (context) this.tracing.delete(context);
+
+    if (!this.shouldKeep(target.failed)) {
+      if (traced) await context!.tracing.stop().catch(() => undefined);
+      return [];
+    }
+
+    await mkdir(join(this.rootDir, String(runAccountId)), { recursive: true });
+    const pageUrl = page && !page.isClosed() ? page.url() : null;
+    const saved: Array<RunAccountArtifact | null> = [];
+
+    if (page && !page.isClosed()) {
+      saved.push(
+        await this.save(runAccountId, "screenshot", "screenshot.png", "image/png", pageUrl, async (filePath) => {
+          await page.screenshot({ path: filePath, fullPage: true, timeout: SCREENSHOT_TIMEOUT_MS });
+        })
+      );
+      saved.push(
+        await this.save(runAccountId, "dom", "page.html", "text/html", pageUrl, async (filePath) => {
+          await writeFile(filePath, `<!-- ${pageUrl} -->\n${await page.content()}`);
+        })
+      );
+    }
+    if (traced) {
+      saved.push(
+        await this.save(runAccountId, "trace", "trace.zip", "application/zip", pageUrl, async (filePath) => {
+          await context!.tracing.stop({ path: filePath });
+        })
+      );
+    }
+
+    const artifacts = saved.filter((artifact): artifact is RunAccountArtifact => artifact !== null);
+    logger.info({ runAccountId, kinds: artifacts.map((artifact) => artifact.kind), failed: target.failed }, "Run artifacts saved");
+    return artifacts;
+  }
+
+  async listForRunAccounts(runAccountIds: number[]): Promise<Map<number, RunAccountArtifact[]>> {
+    return runAccountArtifactsRepo.findByRunAccountIds(runAccountIds);
+  }
+
+  resolveFile(localPath: string): string | null {
+    const root = resolve(this.rootDir);
+    const filePath = resolve(root, localPath);
+    return filePath.startsWith(`${root}${sep}`) ? filePath : null;
+  }
+
+  /** Drops artifacts older than the retention window, files first. Returns how many rows were removed. */
+  async pruneExpired(now = Math.floor(Date.now() / 1000)): Promise<number> {
+    const expired = await runAccountArtifactsRepo.findCreatedBefore(now - Math.round(this.settings.retentionDays * 86400));
+    if (expired.length === 0) return 0;
+
+    for (const artifact of expired) {
+      const filePath = this.resolveFile(artifact.localPath);
+      if (filePath) await rm(filePath, { force: true });
+    }
+    // Only succeeds once a run account's folder is empty.
+    for (const runAccountId of new Set(expired.map((artifact) => artifact.runAccountId))) {
+      await rmdir(join(this.rootDir, String(runAccountId))).catch(() => undefined);
+    }
+    await runAccountArtifactsRepo.deleteByIds(expired.map((artifact) => artifact.id));
+    logger.info({ count: expired.length, retentionDays: this.settings.retentionDays }, "Expired run artifacts removed");
+    return expired.length;
+  }
+
+  /** Removes the artifact folders of deleted run accounts; their rows go with the run account itself. */
+  async removeFiles(runAccountIds: number[]): Promise<void> {
+    for (const runAccountId of runAccountIds) {
+      await rm(join(this.rootDir, String(runAccountId)), { recursive: true, force: true });
+    }
+  }
+
+  private async save(
+    runAccountId: number,
+    kind: RunArtifactKind,
+    fileName: string,
+    contentType: string,
+    pageUrl: string | null,
+    write: (filePath: string) => Promise<void>
+  ): Promise<RunAccountArtifact | null> {
+    const localPath = join(String(runAccountId), fileName);
+    const filePath = join(this.rootDir, localPath);
+    try {
+      await write(filePath);
+      const { size } = await stat(filePath);
+      return await runAccountArtifactsRepo.create({
+        runAccountId,
+        kind,
+        localPath,
+        contentType,
+        byteSize: size,
+        pageUrl,
+        createdAt: Math.floor(Date.now() / 1000),
+      });
+    } catch (error) {
+      logger.warn({ error, runAccountId, kind }, "Failed to save run artifact");
+      return null;
+    }
+  }
+}
+
+export const runArtifactsService = new RunArtifactsService();
@@ -0,0 +1,138 @@
+import { chromium, type Browser, type BrowserContext, type Page } from "playwright";
+import { accountsRepo } from "../db/repositories/accounts.repo";
+import { runsRepo } from "../db/repositories/runs.repo";
+import { ScraperError } from "../core/errors";
+import { env } from "../core/config";
+import { logger } from "../core/logger";
+import { THREADS_SELECTORS } from "../platforms/threads/selectors";
+import { getRequiredStorageState, hasSessionState } from "./playwright-session-state";
+import { closeContextSafely, launchPersistentContext } from "./browser-session";
+import { accountProxyService } from "./account-proxy.service";
+import { browserProfileService } from "./browser-profile.service";
+import { installReplayRoutes, readPageCapture } from "./page-capture";
+import {
+  buildSelectorGroupReport,
+  detectScrapeDrift,
+  listSelectorGroups,
+  type ScrapeDriftAlert,
+  type SelectorFieldResult,
+  type SelectorGroupReport,
+} from "../domain/scrape-health";
+
+export interface SelectorCheckTarget {
+  // Live check through this account's browser profile.
+  accountId?: number;
+  url?: string;
+  // Offline check against a page capture written by `scrape:account --record`.
+  capturePath?: string;
+}
+
+export interface SelectorCheckResult {
+  target: "live" | "capture";
+  url: string;
+  checkedAt: number;
+  groups: SelectorGroupReport[];
+}
+
+export interface ScrapeDriftReport {
+  samplesChecked: number;
+  alerts: ScrapeDriftAlert[];
+}
+
+export class ScrapeHealthService {
+  async checkSelectorsOnPage(page: Page, selectors: Record<string, unknown> = THREADS_SELECTORS): Promise<SelectorGroupReport[]> {
+    const reports: SelectorGroupReport[] = [];
+
+    for (const group of listSelectorGroups(selectors)) {
+      const fields: SelectorFieldResult[] = [];
+      for (const field of group.fields) {
+        const count = await page
+          .locator(field.selector)
+          .count()
+          .catch((error) => {
+            logger.debug({ error, group: group.group, field: field.field }, "Selector could not be evaluated");
+            return 0;
+          });
+        fields.push({ ...field, count });
+      }
+      reports.push(buildSelectorGroupReport(group.group, fields));
+    }
+
+    return reports;
+  }
+
+  async checkSelectors(target: SelectorCheckTarget): Promise<SelectorCheckResult> {
+    if (target.capturePath) {
+      return this.checkCapture(target.capturePath);
+    }
+    if (target.accountId !== undefined) {
+      return this.checkLive(target.accountId, target.url ?? THREADS_SELECTORS.HOME_URL);
+    }
+    throw new ScraperError("Either an account or a capture path is required", "SELECTOR_CHECK_TARGET_MISSING");
+  }
+
+  async detectDrift(options: { accountId?: number } = {}): Promise<ScrapeDriftReport> {
+    const samples = await runsRepo.listHealthSamples({ accountId: options.accountId });
+    return { samplesChecked: samples.length, alerts: detectScrapeDrift(samples) };
+  }
+
+  private async checkCapture(capturePath: string): Promise<SelectorCheckResult> {
+    const capture = await readPageCapture(capturePath).catch(() => null);
+    if (!capture) {
+      throw new ScraperError(`No page capture found at ${capturePath}`, "CAPTURE_NOT_FOUND");
+    }
+
+    let browser: Browser | null = null;
+    try {
+      browser = await chromium.launch({ headless: true });
+      const context = await browser.newContext();
+      await installReplayRoutes(context, [capture]);
+      const page = await context.newPage();
+      await page.goto(capture.url, { waitUntil: "domcontentloaded", timeout: 12000 });
+
+      return {
+        target: "capture",
+        url: capture.url,
+        checkedAt: Math.floor(Date.now() / 1000),
+        groups: await this.checkSelectorsOnPage(page),
+      };
+    } finally {
+      if (browser) await browser.close().catch(() => undefined);
+    }
+  }
+
+  private async checkLive(accountId: number, url: string): Promise<SelectorCheckResult> {
+    const account = await accountsRepo.findById(accountId);
+    if (!account) {
+      throw new ScraperError(`Account ${accountId} not found`, "ACCOUNT_NOT_FOUND");
+    }
+    if (account.platform !== "threads") {
+      throw new ScraperError("Selector checks are only available for Threads accounts", "PLATFORM_UNSUPPORTED");
+    }
+
+    let context: BrowserContext | null = null;
+    try {
+      const launched = await launchPersistentContext(account.id, account.platform, {
+        headless: env.PLAYWRIGHT_HEADLESS,
+        storageState: hasSessionState(account) ? getRequiredStorageState(account) : undefined,
+        proxy: accountProxyService.getBrowserProxy(account),
+        browserProfile: await browserProfileService.getOrCreate(account),
+      });
+      context = launched.context;
+      const page = context.pages()[0] ?? (await context.newPage());
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 12000 });
+      await page.waitForTimeout(2500);
+
+      return {
+        target: "live",
+        url: page.url(),
+        checkedAt: Math.floor(Date.now() / 1000),
+        groups: await this.checkSelectorsOnPage(page),
+      };
+    } finally {
+      await closeContextSafely(context);
+    }
+  }
+}
+
+export const scrapeHealthService = new ScrapeHealthService();
@@ -0,0 +1,35 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { env } from "../core/config";
+import { ConfigError } from "../core/errors";
+
+const VERSION = "v1";
+
+function deriveKey(secret: string | undefined): Buffer {
+  if (!secret || secret.length < 16) {
+    throw new ConfigError("ACCOUNT_SECRETS_KEY is missing or too short (min 16 chars). Set it in .env to store credentials.");
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+/** Encrypts a credential for storage as `v1.<iv>.<tag>.<ciphertext>` (AES-256-GCM, base64url parts). */
+export function encryptSecret(plaintext: string, secret: string | undefined = env.ACCOUNT_SECRETS_KEY): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext].map((part) => (typeof part === "string" ? part : part.toString("base64url"))).join(".");
+}
+
+export function decryptSecret(token: string, secret: string | undefined = env.ACCOUNT_SECRETS_KEY): string {
+  const [version, iv, tag, ciphertext] = token.split(".");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Invalid encrypted secret format");
+  }
+
+  const decipher = createDecipheriv("aes-256-gcm", deriveKey(secret), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+  } catch {
+    throw new Error("Encrypted secret could not be decrypted (wrong ACCOUNT_SECRETS_KEY?)");
+  }
+}
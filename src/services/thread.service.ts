@@ -0,0 +1,70 @@
+import type { Comment, Post } from "../db/schema";
+import { postsRepo } from "../db/repositories/posts.repo";
+import { commentsRepo } from "../db/repositories/comments.repo";
+import { buildCommentTree, flattenCommentTree, type CommentTreeNode } from "../domain/thread-tree";
+import type { DraftPromptInput } from "../llm/contracts";
+
+// Replies handed to the draft prompt; enough to follow a couple of nested exchanges.
+export const CONVERSATION_CONTEXT_LIMIT = 8;
+
+export interface ThreadPart {
+  post: Post;
+  replies: CommentTreeNode<Comment>[];
+}
+
+export interface PostThread {
+  rootPostId: number;
+  // The first post followed by the author's self-thread continuations, oldest first.
+  parts: ThreadPart[];
+}
+
+export class ThreadService {
+  async getThread(postId: number): Promise<PostThread | null> {
+    const post = await postsRepo.findById(postId);
+    if (!post) return null;
+
+    const posts = await this.getSelfThreadPosts(post);
+    const comments = await commentsRepo.findByParentPostIds(posts.map((part) => part.id));
+
+    return {
+      rootPostId: posts[0]!.id,
+      parts: posts.map((part) => ({
+        post: part,
+        replies: buildCommentTree(comments.filter((comment) => comment.parentPostId === part.id)),
+      })),
+    };
+  }
+
+  /** The whole self-thread a post belongs to, first post first; just the post when it stands alone. */
+  async getSelfThreadPosts(post: Post): Promise<Post[]> {
+    let root = post;
+    if (post.threadRootPlatformPostId && post.threadRootPlatformPostId !== post.platformPostId) {
+      root = (await postsRepo.findByPlatformPostId(post.platform, post.threadRootPlatformPostId)) ?? post;
+    }
+    if (!root.platformPostId) return [root];
+
+    const continuations = await postsRepo.findSelfThreadPosts(root.platform, root.platformPostId, root.authorHandle);
+    const parts = [root, ...continuations.filter((continuation) => continuation.id !== root.id)];
+    return parts.some((part) => part.id === post.id) ? parts : [post];
+  }
+
+  /** Replies under a post in reading order (each reply right after what it answers), for prompt context. */
+  async getConversation(postId: number, limit: number): Promise<DraftPromptInput["topComments"]> {
+    const comments = await commentsRepo.findByParentPostId(postId);
+    return flattenCommentTree(buildCommentTree(comments), limit).map(({ comment, depth }) => ({
+      authorHandle: comment.authorHandle,
+      authorDisplayName: comment.authorDisplayName,
+      bodyText: comment.bodyText,
+      depth,
+    }));
+  }
+
+  /** Self-thread parts for the draft prompt, or undefined when the post is not part of a self-thread. */
+  async getSelfThreadContext(post: Post): Promise<DraftPromptInput["post"]["selfThread"]> {
+    const parts = await this.getSelfThreadPosts(post);
+    if (parts.length < 2) return undefined;
+    return parts.map((part) => ({ bodyText: part.bodyText, isReplyTarget: part.id === post.id }));
+  }
+}
+
+export const threadService = new ThreadService();
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "bun:test";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { chromium } from "playwright";
+import { ThreadsAdapter } from "../../src/platforms/threads";
+import { installReplayRoutes, loadPageCaptures } from "../../src/services/page-capture";
+
+const CAPTURE_DIR = join(import.meta.dir, "../fixtures/threads/captures");
+const hasChromium = existsSync(chromium.executablePath());
+
+// Runs the real adapter against recorded pages; needs `bunx playwright install chromium` but no network.
+describe("ThreadsAdapter replay", () => {
+  it.skipIf(!hasChromium)(
+    "collects the home feed from a recorded capture",
+    async () => {
+      const browser = await chromium.launch({ headless: true });
+      try {
+        const context = await browser.newContext();
+        await installReplayRoutes(context, await loadPageCaptures(CAPTURE_DIR, "threads"));
+        const page = await context.newPage();
+
+        const posts = await new ThreadsAdapter().collectHome(page, { maxPosts: 10 });
+        const root = posts.find((post) => post.platformPostId === "DAbc123xyz");
+
+        expect(root?.authorHandle).toBe("alice");
+        expect(root?.publishedAt).toBe(1750000000);
+        expect(posts.some((post) => post.platformPostId === "DAdef456uvw")).toBe(false);
+      } finally {
+        await browser.close();
+      }
+    },
+    60000
+  );
+});
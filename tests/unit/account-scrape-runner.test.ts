@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Browser, BrowserContext, Page } from "playwright";
+import type { AuthState, CollectedComment, CollectedPost, FeedTab, MetricSnapshot } from "../../src/domain/models";
+import type { CollectPostOptions, PlatformAdapter } from "../../src/platforms/adapter";
+import { AccountScrapeRunner, type AccountScrapeOptions } from "../../src/orchestration/account-scrape-runner";
+import { RunArtifactsService } from "../../src/services/run-artifacts.service";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { runsRepo } from "../../src/db/repositories/runs.repo";
+import { scrapeCursorsRepo } from "../../src/db/repositories/scrape-cursors.repo";
+
+// Just enough of Playwright's browser -> context -> page chain for the runner's non-persistent launch.
+class FakeBrowser {
+  closed: string[] = [];
+  private onPageClose: Array<() => void> = [];
+
+  launch = async (): Promise<Browser> => {
+    const page = {
+      setDefaultNavigationTimeout: () => undefined,
+      setDefaultTimeout: () => undefined,
+      isClosed: () => this.closed.includes("page"),
+      url: () => "https://x.com/home",
+      content: async () => "<html><body>still loading</body></html>",
+      screenshot: async ({ path }: { path: string }) => {
+        await writeFile(path, "png-bytes");
+      },
+      close: async () => {
+        this.closed.push("page");
+        for (const listener of this.onPageClose) listener();
+      },
+    };
+    const context = {
+      newPage: async () => page as unknown as Page,
+      close: async () => {
+        this.closed.push("context");
+      },
+    };
+    return {
+      newContext: async () => context as unknown as BrowserContext,
+      close: async () => {
+        this.closed.push("browser");
+      },
+    } as unknown as Browser;
+  };
+
+  // Like Playwright, a call still waiting on the page fails once the page is closed.
+  hangUntilPageClosed<T>(): Promise<T> {
+    return new Promise<T>((_, reject) => {
+      this.onPageClose.push(() => reject(new Error("Target page, context or browser has been closed")));
+    });
+  }
+}
+
+class StubAdapter implements PlatformAdapter {
+  readonly platform = "x";
+  collectHomeImpl: (page: Page, options: CollectPostOptions) => Promise<CollectedPost[]> = async () => [];
+
+  async validateSession(): Promise<AuthState> {
+    return { isValid: true, error: null };
+  }
+
+  collectHome(page: Page, options: CollectPostOptions): Promise<CollectedPost[]> {
+    return this.collectHomeImpl(page, options);
+  }
+
+  async collectProfileByHandle(): Promise<CollectedPost[]> {
+    return [];
+  }
+
+  async collectSearch(): Promise<CollectedPost[]> {
+    return [];
+  }
+
+  async expandThreadComments(): Promise<CollectedComment[]> {
+    return [];
+  }
+
+  async extractMetrics(): Promise<MetricSnapshot> {
+    return { likesCount: null, repliesCount: null, repostsCount: null, viewsCount: null };
+  }
+
+  async performLogin(): Promise<void> {}
+}
+
+// Every source costs one navigation and yields one post, so the pacing quota decides how far a run gets.
+class SourcesAdapter extends StubAdapter {
+  visited: string[] = [];
+  private runId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  async collectFeedTab(_page: Page, tab: FeedTab, options: CollectPostOptions): Promise<CollectedPost[]> {
+    return this.visit(`feed:${tab}`, options);
+  }
+
+  async collectTag(_page: Page, tag: string, options: CollectPostOptions): Promise<CollectedPost[]> {
+    return this.visit(`tag:${tag}`, options);
+  }
+
+  async collectPostsByUrl(_page: Page, urls: string[], options: CollectPostOptions): Promise<CollectedPost[]> {
+    return this.visit(`post:${urls.join(",")}`, options);
+  }
+
+  private async visit(source: string, options: CollectPostOptions): Promise<CollectedPost[]> {
+    this.visited.push(source);
+    await options.pacer?.pace("navigation");
+    const platformPostId = `${source.replace(/\W+/g, "-")}-${this.runId}`;
+    return [
+      {
+        platformPostId,
+        authorHandle: "alice",
+        authorDisplayName: "Alice",
+        bodyText: `Post from ${source}`,
+        contentHash: "",
+        postUrl: `https://x.com/alice/status/${platformPostId}`,
+        threadRootPlatformPostId: null,
+        publishedAt: 1_750_000_000 + this.visited.length,
+        mediaUrls: [],
+      },
+    ];
+  }
+}
+
+const homeOnly: AccountScrapeOptions = {
+  collectHome: true,
+  collectProfiles: false,
+  profileHandles: [],
+  searchQueries: [],
+};
+
+async function createRunAccount() {
+  const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const now = Math.floor(Date.now() / 1000);
+  const account = await accountsRepo.create({
+    platform: "x",
+    displayName: "Runner Test",
+    handle: `runner-${uniqueId}`,
+    status: "active",
+    sessionStatePath: "./data/sessions/runner-test.json",
+    sessionStateJson: JSON.stringify({ cookies: [], origins: [] }),
+    cooldownSeconds: 0,
+  });
+  const run = await runsRepo.createRun({ trigger: "manual", startedAt: now, status: "running" });
+  const runAccount = await runsRepo.createRunAccount({
+    runId: run.id,
+    accountId: account.id,
+    status: "running",
+    startedAt: now,
+    postsFound: 0,
+    commentsFound: 0,
+    snapshotsWritten: 0,
+  });
+  return { account, runAccountId: runAccount.id };
+}
+
+describe("AccountScrapeRunner", () => {
+  let rootDir: string;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "engagekit-runner-"));
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("saves failure artifacts and closes the browser when a timed-out scrape is aborted", async () => {
+    const { account, runAccountId } = await createRunAccount();
+    const artifacts = new RunArtifactsService(rootDir, { mode: "on_failure", trace: false, retentionDays: 14 });
+    const browser = new FakeBrowser();
+    const adapter = new StubAdapter();
+    const abort = new AbortController();
+    const timeoutError = Object.assign(new Error("Account scrape timed out after 1s"), { code: "ACCOUNT_SCRAPE_TIMEOUT" });
+    adapter.collectHomeImpl = () => {
+      setTimeout(() => abort.abort(timeoutError), 10);
+      return browser.hangUntilPageClosed();
+    };
+
+    const runner = new AccountScrapeRunner(account, adapter, runAccountId, { launchBrowser: browser.launch, artifacts });
+    const result = await runner.run({ ...homeOnly, signal: abort.signal });
+
+    expect(result.error).toEqual({ code: "ACCOUNT_SCRAPE_TIMEOUT", message: "Account scrape timed out after 1s" });
+    expect(browser.closed).toEqual(expect.arrayContaining(["page", "context", "browser"]));
+
+    const saved = (await artifacts.listForRunAccounts([runAccountId])).get(runAccountId) ?? [];
+    expect(saved.map((artifact) => artifact.kind).sort()).toEqual(["dom", "screenshot"]);
+  });
+
+  it("loops over feed tabs, tags and post URLs until the pacing quota runs out", async () => {
+    const { account, runAccountId } = await createRunAccount();
+    const adapter = new SourcesAdapter();
+    const runner = new AccountScrapeRunner(account, adapter, runAccountId, {
+      launchBrowser: new FakeBrowser().launch,
+      artifacts: new RunArtifactsService(rootDir, { mode: "off", trace: false, retentionDays: 14 }),
+      pacing: {
+        limits: {
+          navigation: { hourly: 2, daily: 0 },
+          scroll: { hourly: 0, daily: 0 },
+          expand: { hourly: 0, daily: 0 },
+        },
+        sleep: async () => undefined,
+      },
+    });
+
+    const result = await runner.run({
+      ...homeOnly,
+      collectHome: false,
+      feedTabs: ["following"],
+      tags: ["#typescript"],
+      postUrls: ["https://x.com/alice/status/1", "https://x.com/alice/status/2"],
+    });
+
+    // The first post URL is refused its navigation; the second one is not tried at all.
+    expect(adapter.visited).toEqual(["feed:following", "tag:#typescript", "post:https://x.com/alice/status/1"]);
+    expect(result.error).toBeUndefined();
+    expect(result.quotaExhausted).toMatchObject({ action: "navigation", window: "hourly", limit: 2 });
+    expect(result.postsFound).toBe(2);
+
+    // Post URLs are a fixed list, so only the feed and tag sources keep a cursor.
+    const cursors = await scrapeCursorsRepo.findByAccountId(account.id);
+    expect(cursors.map((cursor) => cursor.source).sort()).toEqual(["feed:following", "tag:typescript"]);
+  });
+});
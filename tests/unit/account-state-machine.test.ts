@@ -24,6 +24,16 @@ describe("Account state machine", () => {
       expect(canTransition("disabled", "active")).toBe(true);
     });
 
+    it("should allow active to quarantined and quarantined back to active", () => {
+      expect(canTransition("active", "quarantined")).toBe(true);
+      expect(canTransition("quarantined", "active")).toBe(true);
+    });
+
+    it("should not quarantine accounts that are not active", () => {
+      expect(canTransition("needs_reauth", "quarantined")).toBe(false);
+      expect(canTransition("disabled", "quarantined")).toBe(false);
+    });
+
     it("should reject invalid transitions", () => {
       expect(canTransition("needs_initial_auth", "needs_reauth")).toBe(false);
       expect(canTransition("active", "needs_initial_auth")).toBe(false);
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll } from "bun:test";
+import { parseThreadsProfileMeta } from "../../src/platforms/threads/parsers";
+import { buildTriageUserPrompt, toPromptAuthor } from "../../src/llm/prompts/triage";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { authorsRepo } from "../../src/db/repositories/authors.repo";
+import { postsRepo } from "../../src/db/repositories/posts.repo";
+import { runsRepo } from "../../src/db/repositories/runs.repo";
+import { postTriageRepo } from "../../src/db/repositories/post-triage.repo";
+import { draftFeedbackRepo } from "../../src/db/repositories/draft-feedback.repo";
+import { notificationsRepo } from "../../src/db/repositories/notifications.repo";
+import { authorService } from "../../src/services/author.service";
+
+describe("parseThreadsProfileMeta", () => {
+  it("reads display name, followers and bio from the profile meta tags", () => {
+    const parsed = parseThreadsProfileMeta(
+      {
+        title: "Jane Doe (@jane.doe) • Threads, Say more",
+        description: "12.3K Followers • 210 Threads • Building tools for makers • ex-founder. See the latest conversations with @jane.doe.",
+        hasVerifiedBadge: true,
+      },
+      "@jane.doe"
+    );
+
+    expect(parsed).toEqual({
+      displayName: "Jane Doe",
+      bio: "Building tools for makers • ex-founder.",
+      followerCount: 12300,
+      isVerified: true,
+    });
+  });
+
+  it("leaves fields null when the tags do not carry them", () => {
+    const parsed = parseThreadsProfileMeta(
+      { title: null, description: "1,204 Followers • 3 Threads • See the latest conversations with @quiet.", hasVerifiedBadge: false },
+      "quiet"
+    );
+
+    expect(parsed.displayName).toBeNull();
+    expect(parsed.bio).toBeNull();
+    expect(parsed.followerCount).toBe(1204);
+  });
+});
+
+describe("triage prompt author reach", () => {
+  const policy = { topics: [], goals: [], avoidList: [], toneIdentity: "friendly", preferredLanguages: [] };
+  const post = { authorHandle: "alice", authorDisplayName: "Alice", bodyText: "hello", postUrl: null };
+
+  it("adds known follower count and verification to the post", () => {
+    const prompt = buildTriageUserPrompt({
+      policy,
+      post: { ...post, author: toPromptAuthor({ followerCount: 48200, isVerified: 1 }) },
+    });
+    expect(prompt).toContain("Author reach: 48,200 followers, verified");
+  });
+
+  it("omits the line for authors without a scraped profile", () => {
+    const prompt = buildTriageUserPrompt({
+      policy,
+      post: { ...post, author: toPromptAuthor({ followerCount: null, isVerified: null }) },
+    });
+    expect(prompt).not.toContain("Author reach");
+    expect(toPromptAuthor(null)).toBeUndefined();
+  });
+});
+
+describe("authorsRepo", () => {
+  it("keeps the earliest first sighting and does not replace a real name with the handle", async () => {
+    const handle = `author-${Date.now()}`;
+
+    await authorsRepo.recordSeen("threads", handle, "Real Name", 200);
+    await authorsRepo.recordSeen("threads", handle, handle, 300);
+    const author = await authorsRepo.recordSeen("threads", handle, "Older Name", 100);
+
+    expect(author.displayName).toBe("Real Name");
+    expect(author.firstSeenAt).toBe(100);
+    expect(author.lastSeenAt).toBe(300);
+  });
+
+  it("lists only profiles that were never scraped or are stale", async () => {
+    const suffix = Date.now();
+    const fresh = await authorsRepo.recordSeen("threads", `fresh-${suffix}`, "Fresh", 100);
+    const stale = await authorsRepo.recordSeen("threads", `stale-${suffix}`, "Stale", 100);
+    const unscraped = await authorsRepo.recordSeen("threads", `new-${suffix}`, "New", 100);
+
+    const profile = { handle: "", displayName: null, bio: "bio", followerCount: 10, isVerified: false };
+    await authorsRepo.updateProfile(fresh.id, profile, 5000);
+    await authorsRepo.updateProfile(stale.id, profile, 1000);
+
+    const due = await authorsRepo.listProfilesToRefresh("threads", [fresh.handle, stale.handle, unscraped.handle], 2000);
+    expect(due.map((author) => author.handle).sort()).toEqual([stale.handle, unscraped.handle].sort());
+
+    const updated = await authorsRepo.findById(stale.id);
+    expect(updated?.displayName).toBe("Stale");
+    expect(updated?.isVerified).toBe(0);
+  });
+});
+
+describe("authorService", () => {
+  let authorId: number;
+  let postIds: number[];
+
+  beforeAll(async () => {
+    const suffix = Date.now();
+    const handle = `detail-${suffix}`;
+    const account = await accountsRepo.create({
+      platform: "threads",
+      displayName: "Author Detail Test",
+      handle: `author-detail-${suffix}`,
+      status: "active",
+      sessionStatePath: "./data/sessions/author-detail-test.json",
+      cooldownSeconds: 1,
+    });
+    const run = await runsRepo.createRun({ trigger: "manual", startedAt: 1000, status: "success" });
+    const runAccount = await runsRepo.createRunAccount({ runId: run.id, accountId: account.id, status: "success", startedAt: 1000 });
+
+    postIds = [];
+    for (let i = 0; i < 2; i++) {
+      const post = await postsRepo.create({
+        platform: "threads",
+        platformPostId: `detail-${suffix}-${i}`,
+        authorHandle: handle,
+        authorDisplayName: "Detail",
+        bodyText: `post ${i} ${suffix}`,
+        contentHash: `detail-${suffix}-${i}`,
+        postUrl: null,
+        threadRootPlatformPostId: null,
+        publishedAt: 1000 + i,
+        firstSeenAt: 1000 + i,
+        lastSeenAt: 1000 + i,
+        sourceAccountId: account.id,
+      });
+      postIds.push(post!.id);
+      await postTriageRepo.create({
+        runAccountId: runAccount.id,
+        postId: post!.id,
+        relevanceScore: i === 0 ? 90 : 40,
+        relevanceLabel: i === 0 ? "keep" : "maybe",
+        reasonsJson: "[]",
+        action: "reply",
+        confidence: 80,
+      });
+    }
+
+    await postsRepo.updateEngagement(postIds[0]!, true, "tester");
+    const draft = await draftFeedbackRepo.createDraft({
+      runAccountId: runAccount.id,
+      postId: postIds[0]!,
+      optionIndex: 0,
+      promptVersion: "test",
+      draftText: "Nice write-up",
+      status: "generated",
+    });
+    await draftFeedbackRepo.selectDraft(draft.id, "tester");
+    await notificationsRepo.create({
+      accountId: account.id,
+      platform: "threads",
+      kind: "mention",
+      actorHandle: handle,
+      postId: postIds[1]!,
+      occurredAt: 500,
+      firstSeenAt: 1001,
+    });
+
+    authorId = (await authorsRepo.recordSeen("threads", handle, "Detail", 1001)).id;
+  });
+
+  it("collects posts, triage history and past interactions", async () => {
+    const detail = await authorService.getDetail(authorId);
+
+    expect(detail?.stats).toEqual({
+      postCount: 2,
+      commentCount: 0,
+      triagedCount: 2,
+      keepCount: 1,
+      avgRelevanceScore: 65,
+    });
+    expect(detail?.posts.map((post) => post.id)).toEqual([postIds[1]!, postIds[0]!]);
+    expect(detail?.interactions.map((interaction) => interaction.kind).sort()).toEqual([
+      "engaged",
+      "notification",
+      "reply_approved",
+    ]);
+    expect(detail?.interactions.at(-1)?.kind).toBe("notification");
+  });
+
+  it("returns null for unknown authors", async () => {
+    expect(await authorService.getDetail(-1)).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "bun:test";
+import { BrowserProfileSchema, generateBrowserProfile, parseBrowserProfile } from "../../src/domain/browser-profile";
+import { browserProfileContextOptions } from "../../src/services/browser-session";
+import { BrowserProfileService } from "../../src/services/browser-profile.service";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+
+function sequence(values: number[]): () => number {
+  let index = 0;
+  return () => values[index++ % values.length]!;
+}
+
+describe("generateBrowserProfile", () => {
+  it("produces valid profiles with a timezone that matches the locale", () => {
+    for (let i = 0; i < 50; i++) {
+      const profile = generateBrowserProfile();
+      expect(BrowserProfileSchema.safeParse(profile).success).toBe(true);
+      if (profile.locale === "en-GB") expect(profile.timezoneId).toBe("Europe/London");
+      if (profile.locale === "en-US") expect(profile.timezoneId.startsWith("America/")).toBe(true);
+    }
+  });
+
+  it("is deterministic for a given random source", () => {
+    expect(generateBrowserProfile(sequence([0.1, 0.5, 0.9]))).toEqual(generateBrowserProfile(sequence([0.1, 0.5, 0.9])));
+  });
+});
+
+describe("parseBrowserProfile", () => {
+  it("returns null for missing or malformed profiles", () => {
+    expect(parseBrowserProfile(null)).toBeNull();
+    expect(parseBrowserProfile("{not json")).toBeNull();
+    expect(parseBrowserProfile(JSON.stringify({ userAgent: "x" }))).toBeNull();
+  });
+});
+
+describe("browserProfileContextOptions", () => {
+  it("maps the profile onto Playwright context options and keeps defaults without one", () => {
+    const profile = generateBrowserProfile(sequence([0]));
+    expect(browserProfileContextOptions(profile)).toEqual({
+      userAgent: profile.userAgent,
+      locale: profile.locale,
+      timezoneId: profile.timezoneId,
+      viewport: profile.viewport,
+      deviceScaleFactor: profile.deviceScaleFactor,
+      colorScheme: profile.colorScheme,
+    });
+    expect(browserProfileContextOptions(undefined)).toEqual({ viewport: { width: 1280, height: 800 }, locale: "en-US" });
+  });
+});
+
+describe("BrowserProfileService", () => {
+  it("generates the profile once and reuses it on later launches", async () => {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const account = await accountsRepo.create({
+      platform: "threads",
+      displayName: "Fingerprint Test",
+      handle: `fingerprint-${uniqueId}`,
+      status: "active",
+      sessionStatePath: "./data/sessions/fingerprint-test.json",
+      cooldownSeconds: 1,
+    });
+
+    let generated = 0;
+    const service = new BrowserProfileService(() => {
+      generated++;
+      return generateBrowserProfile(sequence([generated / 10]));
+    });
+
+    const first = await service.getOrCreate(account);
+    const reloaded = await accountsRepo.findById(account.id);
+    const second = await service.getOrCreate(reloaded!);
+
+    expect(second).toEqual(first);
+    expect(generated).toBe(1);
+
+    const replaced = await service.regenerate(reloaded!);
+    expect(generated).toBe(2);
+    expect(parseBrowserProfile((await accountsRepo.findById(account.id))!.browserProfileJson)).toEqual(replaced);
+  });
+});
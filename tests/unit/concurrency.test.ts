@@ -0,0 +1,62 @@
+import { describe, it, expect } from "bun:test";
+import { RateLimiter, parseRetryAfterMs, runWithConcurrency, throughputPerMinute } from "../../src/core/concurrency";
+import { sleep } from "../../src/core/retry";
+
+describe("runWithConcurrency", () => {
+  it("never runs more than the limit at once and keeps input order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await runWithConcurrency([5, 1, 4, 2, 3, 1], 2, async (value) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(value);
+      inFlight--;
+      return value * 10;
+    });
+
+    expect(maxInFlight).toBe(2);
+    expect(results).toEqual([50, 10, 40, 20, 30, 10]);
+  });
+
+  it("handles an empty list", async () => {
+    expect(await runWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("spaces calls to the requests-per-minute budget", async () => {
+    const limiter = new RateLimiter(60000 / 20);
+    const startedAt = Date.now();
+
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(35);
+  });
+
+  it("holds every caller during a pause", async () => {
+    const limiter = new RateLimiter(0);
+    limiter.pauseFor(40);
+    const startedAt = Date.now();
+
+    await Promise.all([limiter.acquire(), limiter.acquire()]);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(35);
+  });
+});
+
+describe("parseRetryAfterMs", () => {
+  it("parses delay seconds and HTTP dates", () => {
+    expect(parseRetryAfterMs("3")).toBe(3000);
+    expect(parseRetryAfterMs(new Date(Date.now() + 5000).toUTCString())).toBeGreaterThan(3000);
+    expect(parseRetryAfterMs("soon")).toBeNull();
+    expect(parseRetryAfterMs(null)).toBeNull();
+  });
+});
+
+describe("throughputPerMinute", () => {
+  it("reports items per minute", () => {
+    expect(throughputPerMinute(30, 60000)).toBe(30);
+    expect(throughputPerMinute(1, 0)).toBe(0);
+  });
+});
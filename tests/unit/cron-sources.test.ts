@@ -0,0 +1,30 @@
+import { describe, it, expect } from "bun:test";
+import { CronPipelineConfigSchema, getSourcesFromConfig } from "../../src/domain/cron-config";
+
+describe("cron sources", () => {
+  it("maps feed, tag and post_url sources to deduplicated scrape options", () => {
+    const config = CronPipelineConfigSchema.parse({
+      sources: [
+        { type: "feed", value: "following" },
+        { type: "feed", value: "following" },
+        { type: "tag", value: "#typescript" },
+        { type: "tag", value: "typescript" },
+        { type: "post_url", value: "https://www.threads.com/@alice/post/ABC123" },
+      ],
+    });
+
+    const sources = getSourcesFromConfig(config);
+    expect(sources.collectHome).toBe(false);
+    expect(sources.feedTabs).toEqual(["following"]);
+    expect(sources.tags).toEqual(["typescript"]);
+    expect(sources.postUrls).toEqual(["https://www.threads.com/@alice/post/ABC123"]);
+  });
+
+  it("rejects sources whose value cannot be scraped", () => {
+    expect(CronPipelineConfigSchema.safeParse({ sources: [{ type: "feed", value: "latest" }] }).success).toBe(false);
+    expect(CronPipelineConfigSchema.safeParse({ sources: [{ type: "tag", value: "#" }] }).success).toBe(false);
+    expect(CronPipelineConfigSchema.safeParse({ sources: [{ type: "post_url", value: "ABC123" }] }).success).toBe(false);
+    // Existing sources keep accepting a missing value.
+    expect(CronPipelineConfigSchema.safeParse({ sources: [{ type: "profile" }] }).success).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "bun:test";
+import {
+  buildMetricSeries,
+  computeEngagementVelocity,
+  summarizeEngagement,
+  type MetricSeriesSample,
+} from "../../src/domain/engagement-metrics";
+
+const NOW = 1_750_000_000;
+const HOUR = 3600;
+
+function sample(hoursAgo: number, likes: number, replies = 0, reposts = 0): MetricSeriesSample {
+  return {
+    likesCount: likes,
+    repliesCount: replies,
+    repostsCount: reposts,
+    viewsCount: null,
+    capturedAt: NOW - hoursAgo * HOUR,
+  };
+}
+
+describe("computeEngagementVelocity", () => {
+  it("uses the delta between the two latest snapshots", () => {
+    const velocity = computeEngagementVelocity([sample(2, 10), sample(0, 30, 5)], NOW - 24 * HOUR);
+
+    expect(velocity).toBe(15);
+  });
+
+  it("falls back to age since publication with a single snapshot", () => {
+    expect(computeEngagementVelocity([sample(0, 20)], NOW - 4 * HOUR)).toBe(5);
+  });
+
+  it("returns null without metrics", () => {
+    expect(computeEngagementVelocity([], NOW)).toBeNull();
+  });
+});
+
+describe("buildMetricSeries", () => {
+  it("orders points oldest first with per-interval velocity", () => {
+    const points = buildMetricSeries([sample(0, 40), sample(4, 8), sample(2, 20)], NOW - 6 * HOUR);
+
+    expect(points.map((p) => p.capturedAt)).toEqual([NOW - 4 * HOUR, NOW - 2 * HOUR, NOW]);
+    expect(points.map((p) => p.velocityPerHour)).toEqual([4, 6, 10]);
+  });
+
+  it("collapses snapshots captured at the same time and never reports negative velocity", () => {
+    const points = buildMetricSeries([sample(1, 50), sample(1, 50), sample(0, 45)], null);
+
+    expect(points).toHaveLength(2);
+    expect(points[0]?.velocityPerHour).toBeNull();
+    expect(points[1]?.velocityPerHour).toBe(0);
+  });
+});
+
+describe("summarizeEngagement", () => {
+  it("flags accelerating posts above the minimum velocity as rising", () => {
+    const points = buildMetricSeries([sample(2, 10), sample(1, 25), sample(0, 60)], NOW - 3 * HOUR);
+    const summary = summarizeEngagement(points, 10);
+
+    expect(summary.trend).toBe("rising");
+    expect(summary.isRising).toBe(true);
+    expect(summary.latestVelocity).toBe(35);
+    expect(summary.previousVelocity).toBe(15);
+  });
+
+  it("keeps slow posts steady and marks sharp slowdowns as cooling", () => {
+    const slow = buildMetricSeries([sample(1, 2), sample(0, 4)], null);
+    expect(summarizeEngagement(slow, 10).trend).toBe("steady");
+
+    const cooling = buildMetricSeries([sample(2, 0), sample(1, 100), sample(0, 110)], null);
+    expect(summarizeEngagement(cooling, 10).trend).toBe("cooling");
+  });
+
+  it("reports insufficient data when no velocity can be computed", () => {
+    const summary = summarizeEngagement(buildMetricSeries([sample(0, 10)], null), 10);
+
+    expect(summary.trend).toBe("insufficient_data");
+    expect(summary.isRising).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "bun:test";
+import {
+  advanceCursor,
+  isKnownPost,
+  reachedKnownPosts,
+  type IncrementalScrapeOptions,
+} from "../../src/domain/incremental-scrape";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { scrapeCursorsRepo } from "../../src/db/repositories/scrape-cursors.repo";
+
+function options(overrides: Partial<IncrementalScrapeOptions> = {}): IncrementalScrapeOptions {
+  return {
+    cursor: { newestPlatformPostId: "p10", newestPublishedAt: 1000 },
+    knownPostIds: new Set(["p3", "p4"]),
+    stopAfterKnown: 3,
+    ...overrides,
+  };
+}
+
+describe("isKnownPost", () => {
+  it("recognizes stored IDs, the cursor post and anything published at or before the cursor", () => {
+    expect(isKnownPost({ platformPostId: "p3", publishedAt: null }, options())).toBe(true);
+    expect(isKnownPost({ platformPostId: "p10", publishedAt: null }, options())).toBe(true);
+    expect(isKnownPost({ platformPostId: "p11", publishedAt: 900 }, options())).toBe(true);
+    expect(isKnownPost({ platformPostId: "p12", publishedAt: 1100 }, options())).toBe(false);
+    expect(isKnownPost({ platformPostId: "p13", publishedAt: null }, options())).toBe(false);
+  });
+
+  it("treats everything as new without a cursor or stored IDs", () => {
+    const empty = options({ cursor: null, knownPostIds: new Set() });
+    expect(isKnownPost({ platformPostId: "p3", publishedAt: 1 }, empty)).toBe(false);
+  });
+});
+
+describe("reachedKnownPosts", () => {
+  it("requires the configured number of consecutive known posts", () => {
+    const feed = [
+      { platformPostId: "new-1", publishedAt: null },
+      { platformPostId: "p3", publishedAt: null },
+      { platformPostId: "new-2", publishedAt: null },
+      { platformPostId: "p4", publishedAt: null },
+      { platformPostId: "p10", publishedAt: null },
+    ];
+
+    expect(reachedKnownPosts(feed, options())).toBe(false);
+    expect(reachedKnownPosts([...feed, { platformPostId: "old", publishedAt: 500 }], options())).toBe(true);
+  });
+
+  it("never stops when stopAfterKnown is zero", () => {
+    const feed = [{ platformPostId: "p3", publishedAt: null }];
+    expect(reachedKnownPosts(feed, options({ stopAfterKnown: 0 }))).toBe(false);
+  });
+});
+
+describe("advanceCursor", () => {
+  it("moves to the newest dated post", () => {
+    const cursor = advanceCursor({ newestPlatformPostId: "p10", newestPublishedAt: 1000 }, [
+      { platformPostId: "a", publishedAt: 1200 },
+      { platformPostId: "b", publishedAt: 1500 },
+      { platformPostId: "c", publishedAt: 900 },
+    ]);
+    expect(cursor).toEqual({ newestPlatformPostId: "b", newestPublishedAt: 1500 });
+  });
+
+  it("keeps the existing cursor when nothing newer was collected", () => {
+    const existing = { newestPlatformPostId: "p10", newestPublishedAt: 1000 };
+    expect(advanceCursor(existing, [{ platformPostId: "c", publishedAt: 900 }])).toBe(existing);
+    expect(advanceCursor(existing, [{ platformPostId: "d", publishedAt: null }])).toBe(existing);
+  });
+
+  it("falls back to the first post in feed order when no publish times are known", () => {
+    const cursor = advanceCursor(null, [
+      { platformPostId: null, publishedAt: null },
+      { platformPostId: "first", publishedAt: null },
+      { platformPostId: "second", publishedAt: null },
+    ]);
+    expect(cursor).toEqual({ newestPlatformPostId: "first", newestPublishedAt: null });
+    expect(advanceCursor(null, [])).toBeNull();
+  });
+});
+
+describe("scrapeCursorsRepo", () => {
+  it("upserts one cursor per account and source", async () => {
+    const uniqueId = Date.now();
+    const account = await accountsRepo.create({
+      platform: "threads",
+      displayName: "Cursor Test",
+      handle: `cursor-${uniqueId}`,
+      status: "active",
+      sessionStatePath: "./data/sessions/cursor-test.json",
+      cooldownSeconds: 1,
+    });
+
+    await scrapeCursorsRepo.upsert(account.id, "home", { newestPlatformPostId: "a", newestPublishedAt: 100 }, 1);
+    await scrapeCursorsRepo.upsert(account.id, "home", { newestPlatformPostId: "b", newestPublishedAt: 200 }, 2);
+    await scrapeCursorsRepo.upsert(account.id, "search:bun", { newestPlatformPostId: "c", newestPublishedAt: null }, 2);
+
+    const rows = await scrapeCursorsRepo.findByAccountId(account.id);
+    const bySource = new Map(rows.map((row) => [row.source, row]));
+
+    expect(rows).toHaveLength(2);
+    expect(bySource.get("home")?.newestPlatformPostId).toBe("b");
+    expect(bySource.get("home")?.newestPublishedAt).toBe(200);
+    expect(bySource.get("search:bun")?.newestPlatformPostId).toBe("c");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll } from "bun:test";
+import { z } from "zod";
+import { FakeLLMClient } from "../../src/llm/fake-client";
+import { PostTriageOutputSchema } from "../../src/domain/models";
+import { llmCallsRepo } from "../../src/db/repositories/llm-calls.repo";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { runsRepo } from "../../src/db/repositories/runs.repo";
+import { llmLedgerService } from "../../src/services/llm-ledger.service";
+
+describe("LLM call ledger", () => {
+  let testAccountId: number;
+  let testRunAccountId: number;
+
+  beforeAll(async () => {
+    const uniqueId = Date.now();
+    const now = Math.floor(Date.now() / 1000);
+
+    const account = await accountsRepo.create({
+      platform: "threads",
+      displayName: "Ledger Account",
+      handle: `test-ledger-${uniqueId}`,
+      status: "active",
+      sessionStatePath: "./data/sessions/test-session.json",
+      cooldownSeconds: 1,
+    });
+    testAccountId = account.id;
+
+    const run = await runsRepo.createRun({ trigger: "manual", startedAt: now });
+    const runAccount = await runsRepo.createRunAccount({
+      runId: run.id,
+      accountId: testAccountId,
+      startedAt: now,
+    });
+    testRunAccountId = runAccount.id;
+  });
+
+  it("records successful and failed calls with their context", async () => {
+    const client = new FakeLLMClient();
+    const context = { stage: "triage" as const, promptVersion: "test-v1", runAccountId: testRunAccountId };
+
+    await client.complete("system", "user prompt", PostTriageOutputSchema, { context });
+    await expect(
+      client.complete("system", "user prompt", z.object({ unknown: z.string() }), { context })
+    ).rejects.toThrow();
+
+    const calls = await llmCallsRepo.listByRunAccount(testRunAccountId);
+    expect(calls).toHaveLength(2);
+
+    const failed = calls.find((call) => call.status === "failed");
+    const succeeded = calls.find((call) => call.status === "success");
+    expect(failed?.errorCode).toBe("fake_no_responder");
+    expect(succeeded?.provider).toBe("fake");
+    expect(succeeded?.model).toBe("fake-deterministic");
+    expect(succeeded?.promptVersion).toBe("test-v1");
+    expect(succeeded?.retryCount).toBe(0);
+  });
+
+  it("does not record calls made without a context", async () => {
+    const client = new FakeLLMClient();
+    const before = (await llmCallsRepo.listByRunAccount(testRunAccountId)).length;
+
+    await client.complete("system", "another prompt", PostTriageOutputSchema);
+
+    expect(await llmCallsRepo.listByRunAccount(testRunAccountId)).toHaveLength(before);
+  });
+
+  it("aggregates usage for an account by stage and day", async () => {
+    const report = await llmLedgerService.getUsageReport({ days: 1, accountId: testAccountId });
+
+    expect(report.totals.calls).toBe(2);
+    expect(report.totals.failedCalls).toBe(1);
+    expect(report.byStage).toEqual([expect.objectContaining({ key: "triage", calls: 2 })]);
+    expect(report.byAccount).toEqual([expect.objectContaining({ key: String(testAccountId), calls: 2 })]);
+    expect(report.byDay).toHaveLength(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "bun:test";
+import { z } from "zod";
+import { LLMProviderRegistry, createDefaultRegistry, STAGE_LLM_DEFAULTS } from "../../src/llm/provider-registry";
+import { FakeLLMClient, FAKE_DEFAULT_MODEL } from "../../src/llm/fake-client";
+import { triagePromptSchema } from "../../src/llm/prompts/triage";
+import { draftPromptSchema } from "../../src/llm/prompts/draft";
+import { LLMError } from "../../src/core/errors";
+
+describe("LLM provider registry", () => {
+  it("should register the built-in providers", () => {
+    const registry = createDefaultRegistry();
+    expect(registry.listProviders().sort()).toEqual(["fake", "openai_compatible", "openrouter"]);
+  });
+
+  it("should build clients lazily and reuse them", () => {
+    const registry = new LLMProviderRegistry();
+    let built = 0;
+    registry.register("fake", () => {
+      built++;
+      return new FakeLLMClient();
+    });
+
+    expect(built).toBe(0);
+    const first = registry.get("fake");
+    const second = registry.get("fake");
+    expect(first).toBe(second);
+    expect(built).toBe(1);
+  });
+
+  it("should fall back to the provider default model", () => {
+    const registry = createDefaultRegistry();
+    expect(registry.resolve("fake").model).toBe(FAKE_DEFAULT_MODEL);
+    expect(registry.resolve("fake", "").model).toBe(FAKE_DEFAULT_MODEL);
+    expect(registry.resolve("fake", "custom-model").model).toBe("custom-model");
+  });
+
+  it("should apply snapshot overrides over stage defaults", () => {
+    const registry = createDefaultRegistry();
+    const resolved = registry.forStage("draft", {
+      provider: "fake",
+      model: "persona-model",
+      temperature: 1.1,
+      maxTokens: null,
+    });
+
+    expect(resolved.provider).toBe("fake");
+    expect(resolved.model).toBe("persona-model");
+    expect(resolved.temperature).toBe(1.1);
+    expect(resolved.maxTokens).toBe(STAGE_LLM_DEFAULTS.draft.maxTokens);
+  });
+
+  it("should reject unknown providers", () => {
+    const registry = createDefaultRegistry();
+    expect(() => registry.get("missing")).toThrow(LLMError);
+  });
+});
+
+describe("FakeLLMClient", () => {
+  it("should return deterministic schema-valid triage output", async () => {
+    const client = new FakeLLMClient();
+    const first = await client.complete("system", "post A", triagePromptSchema());
+    const second = await client.complete("system", "post A", triagePromptSchema());
+
+    expect(first).toEqual(second);
+    expect(first.relevance_score).toBeGreaterThanOrEqual(0);
+    expect(first.relevance_score).toBeLessThanOrEqual(100);
+  });
+
+  it("should return three draft options", async () => {
+    const client = new FakeLLMClient();
+    const output = await client.complete("system", "post A", draftPromptSchema());
+    expect(output.options).toHaveLength(3);
+  });
+
+  it("should use custom responders and record calls", async () => {
+    const client = new FakeLLMClient();
+    const schema = z.object({ ok: z.boolean() });
+    client.setResponder(schema, () => ({ ok: true }));
+
+    const output = await client.complete("system", "user", schema, { model: "m" });
+    expect(output).toEqual({ ok: true });
+    expect(client.calls).toHaveLength(1);
+    expect(client.calls[0]!.options?.model).toBe("m");
+  });
+
+  it("should fail validation when a responder returns the wrong shape", async () => {
+    const client = new FakeLLMClient();
+    const schema = z.object({ ok: z.boolean() });
+    client.setResponder(schema, () => ({ ok: "yes" }));
+
+    await expect(client.complete("system", "user", schema)).rejects.toThrow(LLMError);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "bun:test";
+import {
+  emptyPacingUsage,
+  findQuotaExhaustion,
+  pacingDelayMultiplier,
+  pacingPressure,
+  type PacingLimits,
+} from "../../src/domain/pacing";
+import { PacingGovernor } from "../../src/services/pacing-governor";
+import { accountActionCountsRepo } from "../../src/db/repositories/account-action-counts.repo";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { EgressRateLimiters } from "../../src/services/egress-rate-limiter";
+import { RateLimiter } from "../../src/core/concurrency";
+
+function limits(overrides: Partial<PacingLimits> = {}): PacingLimits {
+  return {
+    navigation: { hourly: 0, daily: 0 },
+    scroll: { hourly: 0, daily: 0 },
+    expand: { hourly: 0, daily: 0 },
+    ...overrides,
+  };
+}
+
+// Records acquisitions instead of waiting for a slot.
+class CountingRateLimiter extends RateLimiter {
+  acquired = 0;
+
+  override async acquire(): Promise<void> {
+    this.acquired++;
+  }
+}
+
+async function createAccount() {
+  const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  return accountsRepo.create({
+    platform: "threads",
+    displayName: "Pacing Test",
+    handle: `pacing-${uniqueId}`,
+    status: "active",
+    sessionStatePath: "./data/sessions/pacing-test.json",
+    cooldownSeconds: 1,
+  });
+}
+
+describe("pacing rules", () => {
+  it("reports the first exhausted window and treats 0 as unlimited", () => {
+    const usage = emptyPacingUsage();
+    usage.scroll = { hourly: 10, daily: 40 };
+
+    expect(findQuotaExhaustion(usage, limits({ scroll: { hourly: 10, daily: 100 } }), "scroll")).toEqual({
+      action: "scroll",
+      window: "hourly",
+      used: 10,
+      limit: 10,
+    });
+    expect(findQuotaExhaustion(usage, limits({ scroll: { hourly: 0, daily: 40 } }), "scroll")?.window).toBe("daily");
+    expect(findQuotaExhaustion(usage, limits(), "scroll")).toBeNull();
+  });
+
+  it("uses the tightest budget for pressure and stretches delays only past the threshold", () => {
+    const usage = emptyPacingUsage();
+    usage.navigation = { hourly: 9, daily: 9 };
+    usage.scroll = { hourly: 20, daily: 20 };
+
+    expect(pacingPressure(usage, limits({ navigation: { hourly: 10, daily: 100 }, scroll: { hourly: 100, daily: 0 } }))).toBe(0.9);
+    expect(pacingDelayMultiplier(0.5, 0.7, 3)).toBe(1);
+    expect(pacingDelayMultiplier(0.85, 0.7, 3)).toBeCloseTo(2);
+    expect(pacingDelayMultiplier(1, 0.7, 3)).toBe(3);
+  });
+});
+
+describe("PacingGovernor", () => {
+  it("shares usage across governors and stops at the hourly limit", async () => {
+    const account = await createAccount();
+    const now = 1_700_000_000;
+    const sleeps: number[] = [];
+    const options = {
+      limits: limits({ navigation: { hourly: 3, daily: 10 } }),
+      now: () => now,
+      sleep: async (ms: number) => {
+        sleeps.push(ms);
+      },
+    };
+
+    const scrape = new PacingGovernor(account.id, options);
+    await scrape.pace("navigation");
+    await scrape.pace("navigation");
+
+    const deepScrape = new PacingGovernor(account.id, options);
+    await deepScrape.pace("navigation");
+    await expect(deepScrape.pace("navigation")).rejects.toMatchObject({ code: "QUOTA_EXHAUSTED" });
+    expect(deepScrape.exhaustion).toEqual({ action: "navigation", window: "hourly", used: 3, limit: 3 });
+    // Stays exhausted without another lookup.
+    await expect(deepScrape.pace("scroll")).rejects.toMatchObject({ code: "QUOTA_EXHAUSTED" });
+
+    // The last actions before the limit are slowed down.
+    expect(sleeps.length).toBeGreaterThan(0);
+  });
+
+  it("frees the hourly budget once the window has rolled past", async () => {
+    const account = await createAccount();
+    let now = 1_700_000_000;
+    const governor = () =>
+      new PacingGovernor(account.id, {
+        limits: limits({ scroll: { hourly: 2, daily: 3 } }),
+        now: () => now,
+        sleep: async () => undefined,
+      });
+
+    await governor().pace("scroll");
+    await governor().pace("scroll");
+    await expect(governor().pace("scroll")).rejects.toMatchObject({ code: "QUOTA_EXHAUSTED" });
+
+    now += 3600 + 120;
+    await governor().pace("scroll");
+    const daily = governor();
+    await expect(daily.pace("scroll")).rejects.toMatchObject({ code: "QUOTA_EXHAUSTED" });
+    expect(daily.exhaustion?.window).toBe("daily");
+
+    const usage = await accountActionCountsRepo.getUsage(account.id, now);
+    expect(usage.scroll).toEqual({ hourly: 1, daily: 3 });
+  });
+});
+
+describe("egress navigation limits", () => {
+  it("shares one limiter per proxy login and treats 0 as unlimited", async () => {
+    const direct = await createAccount();
+    const alsoDirect = await createAccount();
+    const proxied = { ...(await createAccount()), proxyServer: "http://proxy.example.com:8080", proxyUsername: "session-a" };
+    const sameLogin = { ...(await createAccount()), proxyServer: "http://proxy.example.com:8080", proxyUsername: "session-a" };
+    const otherSession = { ...(await createAccount()), proxyServer: "http://proxy.example.com:8080", proxyUsername: "session-b" };
+    const limiters = new EgressRateLimiters(60);
+
+    expect(limiters.forAccount(direct)).toBe(limiters.forAccount(alsoDirect));
+    expect(limiters.forAccount(proxied)).not.toBe(limiters.forAccount(direct));
+    expect(limiters.forAccount(proxied)).toBe(limiters.forAccount(sameLogin));
+    expect(limiters.forAccount(otherSession)).not.toBe(limiters.forAccount(proxied));
+    expect(new EgressRateLimiters(0).forAccount(direct)).toBeNull();
+  });
+
+  it("waits for an egress slot before navigations only", async () => {
+    const account = await createAccount();
+    const egressLimiter = new CountingRateLimiter(60);
+    const governor = new PacingGovernor(account.id, {
+      limits: limits(),
+      now: () => 1_700_000_000,
+      sleep: async () => undefined,
+      egressLimiter,
+    });
+
+    await governor.pace("navigation");
+    await governor.pace("scroll");
+    await governor.pace("navigation");
+    expect(egressLimiter.acquired).toBe(2);
+  });
+});
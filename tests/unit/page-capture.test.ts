@@ -0,0 +1,74 @@
+import { describe, it, expect } from "bun:test";
+import { join } from "node:path";
+import {
+  buildReplayDocument,
+  captureFileName,
+  findCaptureForUrl,
+  loadPageCaptures,
+  type PageCapture,
+} from "../../src/services/page-capture";
+
+const CAPTURE_DIR = join(import.meta.dir, "../fixtures/threads/captures");
+
+function capture(url: string, source = "home"): PageCapture {
+  return { version: 1, platform: "threads", source, recordedAt: 0, url, html: "<html><body></body></html>", responses: [] };
+}
+
+describe("captureFileName", () => {
+  it("slugs source keys into stable file names", () => {
+    expect(captureFileName("home")).toBe("home.json");
+    expect(captureFileName("profile:Alice.Dev")).toBe("profile-alice-dev.json");
+    expect(captureFileName("search:ai agents")).toBe("search-ai-agents.json");
+    expect(captureFileName("::")).toBe("page.json");
+  });
+});
+
+describe("findCaptureForUrl", () => {
+  const captures = [
+    capture("https://www.threads.com/"),
+    capture("https://www.threads.com/@alice", "profile:alice"),
+    capture("https://www.threads.com/search?q=ai&filter=recent", "search:ai"),
+  ];
+
+  it("matches exact URLs, ignoring trailing slashes and fragments", () => {
+    expect(findCaptureForUrl(captures, "https://www.threads.com")?.source).toBe("home");
+    expect(findCaptureForUrl(captures, "https://www.threads.com/@alice/#top")?.source).toBe("profile:alice");
+  });
+
+  it("falls back to the same path with a different query", () => {
+    expect(findCaptureForUrl(captures, "https://www.threads.com/search?q=ai")?.source).toBe("search:ai");
+    expect(findCaptureForUrl(captures, "https://www.threads.com/@bob")).toBeNull();
+  });
+});
+
+describe("buildReplayDocument", () => {
+  it("removes site scripts and injects the replay requests before </body>", () => {
+    const home: PageCapture = {
+      ...capture("https://www.threads.com/"),
+      html: '<html><head><script src="app.js"></script></head><body><p>feed</p><script>boot()</script></body></html>',
+      responses: [
+        { url: "https://www.threads.com/graphql/query", method: "POST", status: 200, contentType: "application/json", body: "{}" },
+      ],
+    };
+    const html = buildReplayDocument(home, 3);
+
+    expect(html).not.toContain("app.js");
+    expect(html).not.toContain("boot()");
+    expect(html).toContain("<p>feed</p>");
+    expect(html).toContain('"key":"3:0"');
+    expect(html.indexOf("x-engagekit-replay")).toBeLessThan(html.indexOf("</body>"));
+  });
+
+  it("leaves documents without recorded responses script-free", () => {
+    expect(buildReplayDocument(capture("https://www.threads.com/"), 0)).toBe("<html><body></body></html>");
+  });
+});
+
+describe("loadPageCaptures", () => {
+  it("reads the recorded captures for a platform", async () => {
+    const captures = await loadPageCaptures(CAPTURE_DIR, "threads");
+
+    expect(captures.map((c) => c.source)).toContain("home");
+    expect(await loadPageCaptures(CAPTURE_DIR, "x")).toEqual([]);
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { inferMediaType } from "../../src/core/normalize";
+import { MediaStoreService } from "../../src/services/media-store.service";
+import { buildTriageUserPrompt } from "../../src/llm/prompts/triage";
+import { postsRepo } from "../../src/db/repositories/posts.repo";
+import { postMediaRepo } from "../../src/db/repositories/post-media.repo";
+import { DeleteService } from "../../src/services/delete.service";
+
+describe("inferMediaType", () => {
+  it("detects videos by extension or path and defaults to image", () => {
+    expect(inferMediaType("https://cdn.example.com/v/t50/clip.mp4?efg=abc")).toBe("video");
+    expect(inferMediaType("https://video.twimg.com/ext_tw_video/1/pu/vid/720x1280/a.m3u8")).toBe("video");
+    expect(inferMediaType("https://cdn.example.com/t51/photo.jpg?stp=dst")).toBe("image");
+    expect(inferMediaType("not a url")).toBe("image");
+  });
+});
+
+describe("MediaStoreService", () => {
+  let rootDir: string;
+  let store: MediaStoreService;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "engagekit-media-"));
+    store = new MediaStoreService(rootDir);
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("stores files under their sha256 and writes identical content once", async () => {
+    const bytes = new TextEncoder().encode("fake image bytes");
+    const first = await store.store(bytes, "image/jpeg; charset=binary");
+    const second = await store.store(bytes, "image/jpeg");
+
+    expect(first.localPath).toBe(join(first.sha256.slice(0, 2), `${first.sha256}.jpg`));
+    expect(second.localPath).toBe(first.localPath);
+    expect(first.contentType).toBe("image/jpeg");
+    expect(first.byteSize).toBe(bytes.byteLength);
+    expect(await readFile(store.resolveFile(first.localPath)!, "utf-8")).toBe("fake image bytes");
+  });
+
+  it("refuses paths that escape the store", () => {
+    expect(store.resolveFile("../app.db")).toBeNull();
+  });
+});
+
+describe("postMediaRepo.syncForPost", () => {
+  let postId: number;
+
+  beforeAll(async () => {
+    const uniqueId = Date.now();
+    const now = Math.floor(Date.now() / 1000);
+    const post = await postsRepo.create({
+      platform: "threads",
+      platformPostId: `media-post-${uniqueId}`,
+      authorHandle: "alice",
+      authorDisplayName: "alice",
+      bodyText: null,
+      contentHash: `media-hash-${uniqueId}`,
+      postUrl: null,
+      threadRootPlatformPostId: null,
+      publishedAt: now,
+      firstSeenAt: now,
+      lastSeenAt: now,
+      sourceAccountId: null,
+    });
+    postId = post!.id;
+  });
+
+  it("keeps one row per position and refreshes expired CDN URLs", async () => {
+    const first = await postMediaRepo.syncForPost(
+      postId,
+      ["https://cdn.example.com/a.jpg?sig=1", "https://cdn.example.com/b.mp4?sig=1"],
+      100
+    );
+    const second = await postMediaRepo.syncForPost(postId, ["https://cdn.example.com/a.jpg?sig=2"], 200);
+
+    expect(first.map((m) => m.mediaType)).toEqual(["image", "video"]);
+    expect(second[0]?.id).toBe(first[0]!.id);
+    expect(second[0]?.sourceUrl).toBe("https://cdn.example.com/a.jpg?sig=2");
+    expect(second[0]?.firstSeenAt).toBe(100);
+    expect(second[0]?.lastSeenAt).toBe(200);
+
+    const byPost = await postMediaRepo.findByPostIds([postId]);
+    expect(byPost.get(postId)).toHaveLength(2);
+  });
+});
+
+describe("MediaStoreService.syncForPost", () => {
+  let rootDir: string;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "engagekit-media-sync-"));
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("keeps the file for a re-signed URL and re-downloads a replaced asset", async () => {
+    const store = new MediaStoreService(rootDir);
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const now = Math.floor(Date.now() / 1000);
+    const post = await postsRepo.create({
+      platform: "threads",
+      platformPostId: `media-sync-${uniqueId}`,
+      authorHandle: "alice",
+      authorDisplayName: "alice",
+      bodyText: null,
+      contentHash: `media-sync-hash-${uniqueId}`,
+      postUrl: null,
+      threadRootPlatformPostId: null,
+      publishedAt: now,
+      firstSeenAt: now,
+      lastSeenAt: now,
+      sourceAccountId: null,
+    });
+    const postId = post!.id;
+
+    const [row] = await store.syncForPost(postId, ["https://cdn.example.com/a.jpg?sig=1"], 100);
+    const stored = await store.store(new TextEncoder().encode(`original-${uniqueId}`), "image/jpeg");
+    await postMediaRepo.markDownloaded(row!.id, stored);
+
+    const [resigned] = await store.syncForPost(postId, ["https://cdn.example.com/a.jpg?sig=2"], 200);
+    expect(resigned?.localPath).toBe(stored.localPath);
+    expect(await postMediaRepo.findNotDownloaded(postId)).toHaveLength(0);
+
+    const [replaced] = await store.syncForPost(postId, ["https://cdn.example.com/c.jpg?sig=1"], 300);
+    expect(replaced?.id).toBe(row!.id);
+    expect(replaced).toMatchObject({ localPath: null, sha256: null, downloadedAt: null });
+    expect((await postMediaRepo.findNotDownloaded(postId)).map((media) => media.sourceUrl)).toEqual([
+      "https://cdn.example.com/c.jpg?sig=1",
+    ]);
+    expect(existsSync(store.resolveFile(stored.localPath)!)).toBe(false);
+  });
+});
+
+describe("DeleteService.deletePost media files", () => {
+  let rootDir: string;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "engagekit-media-delete-"));
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  async function createPostWithMedia(files: Array<{ bytes: string; url: string }>, store: MediaStoreService) {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const now = Math.floor(Date.now() / 1000);
+    const post = await postsRepo.create({
+      platform: "threads",
+      platformPostId: `media-delete-${uniqueId}`,
+      authorHandle: "alice",
+      authorDisplayName: "alice",
+      bodyText: null,
+      contentHash: `media-delete-hash-${uniqueId}`,
+      postUrl: null,
+      threadRootPlatformPostId: null,
+      publishedAt: now,
+      firstSeenAt: now,
+      lastSeenAt: now,
+      sourceAccountId: null,
+    });
+    const rows = await postMediaRepo.syncForPost(post!.id, files.map((file) => file.url), now);
+    const stored = [];
+    for (const [index, file] of files.entries()) {
+      const result = await store.store(new TextEncoder().encode(file.bytes), "image/jpeg");
+      await postMediaRepo.markDownloaded(rows[index]!.id, result);
+      stored.push(result);
+    }
+    return { postId: post!.id, stored };
+  }
+
+  it("removes the post's files unless another post still uses them", async () => {
+    const store = new MediaStoreService(rootDir);
+    const uniqueBytes = `shared-${Date.now()}-${Math.random()}`;
+    const deleted = await createPostWithMedia(
+      [
+        { bytes: uniqueBytes, url: "https://cdn.example.com/shared.jpg" },
+        { bytes: `${uniqueBytes}-own`, url: "https://cdn.example.com/own.jpg" },
+      ],
+      store
+    );
+    const kept = await createPostWithMedia([{ bytes: uniqueBytes, url: "https://cdn.example.com/shared.jpg?sig=2" }], store);
+    const [shared, own] = deleted.stored;
+    expect(kept.stored[0]?.localPath).toBe(shared!.localPath);
+
+    await new DeleteService(store).deletePost(deleted.postId);
+
+    expect(await postMediaRepo.findByPostId(deleted.postId)).toHaveLength(0);
+    expect(existsSync(store.resolveFile(own!.localPath)!)).toBe(false);
+    expect(existsSync(store.resolveFile(shared!.localPath)!)).toBe(true);
+
+    await new DeleteService(store).deletePost(kept.postId);
+    expect(existsSync(store.resolveFile(shared!.localPath)!)).toBe(false);
+  });
+});
+
+describe("triage prompt media", () => {
+  it("tells the model about attachments on image-only posts", () => {
+    const prompt = buildTriageUserPrompt({
+      policy: {
+        topics: [],
+        goals: [],
+        avoidList: [],
+        toneIdentity: "friendly",
+        preferredLanguages: [],
+      },
+      post: {
+        authorHandle: "alice",
+        authorDisplayName: "Alice",
+        bodyText: null,
+        postUrl: null,
+        media: [{ mediaType: "image" }, { mediaType: "image" }, { mediaType: "video" }],
+      },
+    });
+
+    expect(prompt).toContain("Media: 2 images, 1 video attached");
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "bun:test";
+import type { EngagementPolicyInput } from "../../src/domain/models";
+import { evaluatePrefilter } from "../../src/domain/prefilter";
+import { detectLanguage } from "../../src/core/language";
+
+const NOW = 1_750_000_000;
+
+function makePolicy(overrides: Partial<EngagementPolicyInput> = {}): EngagementPolicyInput {
+  return {
+    topics: ["startups"],
+    goals: ["reply"],
+    avoidList: ["crypto"],
+    toneIdentity: "friendly",
+    preferredLanguages: ["en"],
+    prefilter: {
+      authorAllowList: ["@Friend"],
+      authorDenyList: ["spammer"],
+      excludePatterns: ["giveaway|airdrop", "link in (bio|profile)"],
+      minBodyLength: 20,
+      maxPostAgeHours: 48,
+    },
+    ...overrides,
+  };
+}
+
+function makePost(bodyText: string | null, authorHandle = "someone", publishedAt: number | null = NOW - 3600) {
+  return { authorHandle, bodyText, publishedAt };
+}
+
+describe("evaluatePrefilter", () => {
+  const policy = makePolicy();
+
+  it("passes posts that match no rule", () => {
+    expect(evaluatePrefilter(makePost("Shipping the new onboarding flow this week, and it is great"), policy, NOW)).toBeNull();
+  });
+
+  it("drops denied authors regardless of case or @", () => {
+    expect(evaluatePrefilter(makePost("Anything at all goes in this post body", "@SPAMMER"), policy, NOW)?.rule).toBe("author_denied");
+  });
+
+  it("lets allow-listed authors skip every rule", () => {
+    expect(evaluatePrefilter(makePost("short", "friend"), policy, NOW)).toBeNull();
+  });
+
+  it("drops short and old posts", () => {
+    expect(evaluatePrefilter(makePost("too short"), policy, NOW)?.rule).toBe("body_too_short");
+    expect(
+      evaluatePrefilter(makePost("An older post about building the product", "someone", NOW - 49 * 3600), policy, NOW)?.rule
+    ).toBe("post_too_old");
+  });
+
+  it("matches avoid keywords on word boundaries only", () => {
+    expect(evaluatePrefilter(makePost("Thoughts on Crypto and the state of the market"), policy, NOW)?.rule).toBe("avoid_keyword");
+    expect(evaluatePrefilter(makePost("The cryptography lecture was amazing and is online"), policy, NOW)).toBeNull();
+  });
+
+  it("drops posts matching exclude patterns", () => {
+    const verdict = evaluatePrefilter(makePost("Huge GIVEAWAY this weekend for all of you"), policy, NOW);
+    expect(verdict?.rule).toBe("exclude_pattern");
+    expect(verdict?.reason).toContain("giveaway|airdrop");
+  });
+
+  it("drops posts in non-preferred languages but keeps undetectable ones", () => {
+    expect(
+      evaluatePrefilter(makePost("Hoy lanzamos la nueva versión de la app para todos los usuarios"), policy, NOW)?.rule
+    ).toBe("language_mismatch");
+    expect(evaluatePrefilter(makePost("🚀🚀🚀 launch day 🚀🚀🚀 launch day"), policy, NOW)).toBeNull();
+  });
+
+  it("works for snapshots taken before pre-filter rules existed", () => {
+    const legacy = makePolicy({ prefilter: undefined, avoidList: [], preferredLanguages: [] });
+    expect(evaluatePrefilter(makePost("ok"), legacy, NOW)).toBeNull();
+  });
+});
+
+describe("detectLanguage", () => {
+  it("detects scripts and common Latin-script languages", () => {
+    expect(detectLanguage("今日はとても良い天気ですね")).toBe("ja");
+    expect(detectLanguage("Привет, как дела у тебя сегодня")).toBe("ru");
+    expect(detectLanguage("This is what you get with the new release")).toBe("en");
+    expect(detectLanguage("Das ist nicht die Lösung, aber ich bin auch nicht sicher")).toBe("de");
+  });
+
+  it("returns null when the text is too short to call", () => {
+    expect(detectLanguage("gm")).toBeNull();
+    expect(detectLanguage(null)).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "bun:test";
+import {
+  isQuarantineDue,
+  nextQuarantineLevel,
+  quarantineDurationSeconds,
+  type QuarantineBackoffConfig,
+} from "../../src/domain/quarantine";
+import { AccountQuarantineService } from "../../src/services/account-quarantine.service";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+
+const config: QuarantineBackoffConfig = { baseSeconds: 3600, maxSeconds: 4 * 3600, resetAfterSeconds: 86400 };
+
+async function createAccount() {
+  const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  return accountsRepo.create({
+    platform: "threads",
+    displayName: "Quarantine Test",
+    handle: `quarantine-${uniqueId}`,
+    status: "active",
+    sessionStatePath: "./data/sessions/quarantine-test.json",
+    cooldownSeconds: 1,
+  });
+}
+
+describe("quarantine backoff", () => {
+  it("doubles the duration per level up to the cap", () => {
+    expect(quarantineDurationSeconds(1, config)).toBe(3600);
+    expect(quarantineDurationSeconds(2, config)).toBe(7200);
+    expect(quarantineDurationSeconds(3, config)).toBe(4 * 3600);
+    expect(quarantineDurationSeconds(6, config)).toBe(4 * 3600);
+  });
+
+  it("escalates recurring blocks and starts over after a quiet period", () => {
+    const previous = { level: 2, releaseAt: 10_000, releasedAt: 10_500 };
+    expect(nextQuarantineLevel(null, 20_000, config)).toBe(1);
+    expect(nextQuarantineLevel(previous, 20_000, config)).toBe(3);
+    expect(nextQuarantineLevel(previous, 10_500 + 86400 + 1, config)).toBe(1);
+  });
+
+  it("is due only once a release time has passed", () => {
+    expect(isQuarantineDue(100, 100)).toBe(true);
+    expect(isQuarantineDue(101, 100)).toBe(false);
+    expect(isQuarantineDue(null, 100)).toBe(false);
+  });
+});
+
+describe("AccountQuarantineService", () => {
+  it("quarantines an active account, keeps history and releases it after the backoff", async () => {
+    const service = new AccountQuarantineService(config);
+    const account = await createAccount();
+
+    const first = await service.quarantine(account, { reason: "Checkpoint detected", url: "https://www.threads.net/checkpoint" }, 1_000);
+    expect(first?.level).toBe(1);
+    expect(first?.releaseAt).toBe(1_000 + 3600);
+
+    const quarantined = (await accountsRepo.findById(account.id))!;
+    expect(quarantined.status).toBe("quarantined");
+    expect(quarantined.quarantinedUntil).toBe(1_000 + 3600);
+    expect(service.describe(quarantined)).toContain("Checkpoint detected");
+
+    // A second block while quarantined does not stack another entry.
+    await service.quarantine(quarantined, { reason: "Checkpoint detected" }, 1_100);
+    expect(await service.listHistory(account.id)).toHaveLength(1);
+
+    expect((await service.releaseIfDue(quarantined, 2_000)).status).toBe("quarantined");
+    const released = await service.releaseIfDue(quarantined, 1_000 + 3600);
+    expect(released.status).toBe("active");
+    expect(released.quarantinedUntil).toBeNull();
+
+    const second = await service.quarantine(released, { reason: "Login challenge" }, 10_000);
+    expect(second?.level).toBe(2);
+    expect(second?.releaseAt).toBe(10_000 + 7200);
+
+    const history = await service.listHistory(account.id);
+    expect(history.map((entry) => entry.reason)).toEqual(["Login challenge", "Checkpoint detected"]);
+    expect(history[1]?.releaseKind).toBe("auto");
+    expect(history[0]?.releasedAt).toBeNull();
+  });
+
+  it("ends the quarantine when an operator moves the account to any other status", async () => {
+    const service = new AccountQuarantineService(config);
+    const account = await createAccount();
+    await service.quarantine(account, { reason: "Checkpoint detected" }, 1_000);
+
+    const disabled = await service.setStatus((await accountsRepo.findById(account.id))!, "disabled", 1_500);
+    expect(disabled.status).toBe("disabled");
+    expect(disabled.quarantinedUntil).toBeNull();
+
+    const [entry] = await service.listHistory(account.id);
+    expect(entry?.releasedAt).toBe(1_500);
+    expect(entry?.releaseKind).toBe("manual");
+    await expect(service.setStatus(disabled, "quarantined")).rejects.toThrow("Invalid account state transition");
+  });
+
+  it("keeps a quarantined account and its open entry when it re-authenticates", async () => {
+    const service = new AccountQuarantineService(config);
+    const account = await createAccount();
+    await service.quarantine(account, { reason: "Checkpoint detected" }, 1_000);
+    const quarantined = (await accountsRepo.findById(account.id))!;
+
+    await service.markAuthenticated(quarantined);
+    await service.markNeedsReauth(quarantined, "SESSION_INVALID", "Login form shown");
+
+    const stored = (await accountsRepo.findById(account.id))!;
+    expect(stored.status).toBe("quarantined");
+    expect(stored.quarantinedUntil).toBe(1_000 + 3600);
+    expect(stored.lastErrorDetail).toBe("Checkpoint detected");
+    const [entry] = await service.listHistory(account.id);
+    expect(entry?.releasedAt).toBeNull();
+
+    // Once released, the next successful check makes it active again.
+    const released = await service.release(stored, "manual", 2_000, "needs_reauth");
+    expect((await service.markAuthenticated(released)).status).toBe("active");
+  });
+
+  it("does not quarantine accounts that already need re-authentication", async () => {
+    const service = new AccountQuarantineService(config);
+    const account = await createAccount();
+    await accountsRepo.updateStatus(account.id, "needs_reauth");
+
+    const result = await service.quarantine((await accountsRepo.findById(account.id))!, { reason: "Checkpoint detected" }, 1_000);
+    expect(result).toBeNull();
+    expect((await accountsRepo.findById(account.id))!.status).toBe("needs_reauth");
+  });
+});
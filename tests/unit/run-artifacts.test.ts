@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { BrowserContext, Page } from "playwright";
+import { RunArtifactsService } from "../../src/services/run-artifacts.service";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { runsRepo } from "../../src/db/repositories/runs.repo";
+
+// Just enough of a Playwright page for collect(): screenshot, content and url.
+function fakePage(url: string): Page {
+  return {
+    isClosed: () => false,
+    url: () => url,
+    content: async () => "<html><body>login wall</body></html>",
+    screenshot: async ({ path }: { path: string }) => {
+      await writeFile(path, "png-bytes");
+    },
+  } as unknown as Page;
+}
+
+function fakeContext(): BrowserContext & { traceStarted: boolean } {
+  const context = {
+    traceStarted: false,
+    tracing: {
+      start: async () => {
+        context.traceStarted = true;
+      },
+      stop: async (options?: { path?: string }) => {
+        if (options?.path) await writeFile(options.path, "zip-bytes");
+      },
+    },
+  };
+  return context as unknown as BrowserContext & { traceStarted: boolean };
+}
+
+async function createRunAccount(): Promise<number> {
+  const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const now = Math.floor(Date.now() / 1000);
+  const account = await accountsRepo.create({
+    platform: "threads",
+    displayName: "Artifacts Test",
+    handle: `artifacts-${uniqueId}`,
+    status: "active",
+    sessionStatePath: "./data/sessions/artifacts-test.json",
+    cooldownSeconds: 1,
+  });
+  const run = await runsRepo.createRun({ trigger: "manual", startedAt: now, status: "running" });
+  const runAccount = await runsRepo.createRunAccount({
+    runId: run.id,
+    accountId: account.id,
+    status: "running",
+    startedAt: now,
+    postsFound: 0,
+    commentsFound: 0,
+    snapshotsWritten: 0,
+  });
+  return runAccount.id;
+}
+
+describe("RunArtifactsService", () => {
+  let rootDir: string;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "engagekit-artifacts-"));
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("keeps screenshot, DOM and trace for a failed run account", async () => {
+    const service = new RunArtifactsService(rootDir, { mode: "on_failure", trace: true, retentionDays: 14 });
+    const runAccountId = await createRunAccount();
+    const context = fakeContext();
+
+    await service.startTracing(context);
+    expect(context.traceStarted).toBe(true);
+
+    const artifacts = await service.collect(runAccountId, {
+      context,
+      page: fakePage("https://www.threads.net/login"),
+      failed: true,
+    });
+
+    expect(artifacts.map((artifact) => artifact.kind)).toEqual(["screenshot", "dom", "trace"]);
+    expect(artifacts.every((artifact) => artifact.pageUrl === "https://www.threads.net/login")).toBe(true);
+    const dom = artifacts.find((artifact) => artifact.kind === "dom")!;
+    expect(await readFile(service.resolveFile(dom.localPath)!, "utf-8")).toContain("login wall");
+    expect((await service.listForRunAccounts([runAccountId])).get(runAccountId)).toHaveLength(3);
+  });
+
+  it("discards artifacts of successful runs unless mode is always", async () => {
+    const onFailure = new RunArtifactsService(rootDir, { mode: "on_failure", trace: false, retentionDays: 14 });
+    const always = new RunArtifactsService(rootDir, { mode: "always", trace: false, retentionDays: 14 });
+    const runAccountId = await createRunAccount();
+    const page = fakePage("https://www.threads.net/");
+
+    expect(await onFailure.collect(runAccountId, { context: null, page, failed: false })).toEqual([]);
+    expect((await always.collect(runAccountId, { context: null, page, failed: false })).map((a) => a.kind)).toEqual([
+      "screenshot",
+      "dom",
+    ]);
+  });
+
+  it("removes artifacts past the retention window", async () => {
+    const service = new RunArtifactsService(rootDir, { mode: "always", trace: false, retentionDays: 1 });
+    const runAccountId = await createRunAccount();
+    const [screenshot] = await service.collect(runAccountId, {
+      context: null,
+      page: fakePage("https://www.threads.net/"),
+      failed: true,
+    });
+
+    await service.pruneExpired(screenshot!.createdAt + 2 * 86400);
+
+    expect(existsSync(service.resolveFile(screenshot!.localPath)!)).toBe(false);
+    expect((await service.listForRunAccounts([runAccountId])).get(runAccountId)).toBeUndefined();
+  });
+});
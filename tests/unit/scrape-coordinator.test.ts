@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import type { Account } from "../../src/db/schema";
+import type { AccountScrapeOptions, ScrapeResult } from "../../src/orchestration/account-scrape-runner";
+import { ScrapeCoordinator, scrapeConcurrency } from "../../src/orchestration/scrape-coordinator";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { runsRepo } from "../../src/db/repositories/runs.repo";
+import { sleep } from "../../src/core/retry";
+import { env } from "../../src/core/config";
+
+async function createAccount(): Promise<Account> {
+  const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  return accountsRepo.create({
+    platform: "x",
+    displayName: "Coordinator Test",
+    handle: `coordinator-${uniqueId}`,
+    status: "active",
+    sessionStatePath: "./data/sessions/coordinator-test.json",
+    cooldownSeconds: 0,
+  });
+}
+
+function scrapeResult(overrides: Partial<ScrapeResult> = {}): ScrapeResult {
+  return {
+    postsFound: 0,
+    postsNew: 0,
+    postsReseen: 0,
+    commentsFound: 0,
+    notificationsFound: 0,
+    snapshotsWritten: 0,
+    ...overrides,
+  };
+}
+
+const {
+  SCRAPER_ACCOUNT_CONCURRENCY,
+  SCRAPER_ACCOUNT_TIMEOUT_SECONDS,
+  SCRAPER_MAX_CONCURRENCY_THREADS,
+  SCRAPER_MAX_CONCURRENCY_X,
+} = env;
+
+afterEach(() => {
+  env.SCRAPER_ACCOUNT_CONCURRENCY = SCRAPER_ACCOUNT_CONCURRENCY;
+  env.SCRAPER_ACCOUNT_TIMEOUT_SECONDS = SCRAPER_ACCOUNT_TIMEOUT_SECONDS;
+  env.SCRAPER_MAX_CONCURRENCY_THREADS = SCRAPER_MAX_CONCURRENCY_THREADS;
+  env.SCRAPER_MAX_CONCURRENCY_X = SCRAPER_MAX_CONCURRENCY_X;
+});
+
+describe("scrapeConcurrency", () => {
+  it("keeps a per-run override under the platform cap and at least 1", () => {
+    env.SCRAPER_ACCOUNT_CONCURRENCY = 3;
+    env.SCRAPER_MAX_CONCURRENCY_THREADS = undefined;
+    env.SCRAPER_MAX_CONCURRENCY_X = 2;
+
+    expect(scrapeConcurrency("x")).toBe(2);
+    expect(scrapeConcurrency("x", 5)).toBe(2);
+    expect(scrapeConcurrency("x", 0)).toBe(1);
+    expect(scrapeConcurrency("threads", 5)).toBe(5);
+  });
+});
+
+describe("ScrapeCoordinator", () => {
+  it("runs accounts in parallel under the cap and adds up their outcomes", async () => {
+    const [succeeded, alsoSucceeded, failed, exhausted] = await Promise.all([
+      createAccount(),
+      createAccount(),
+      createAccount(),
+      createAccount(),
+    ]);
+    const outcomes = new Map<number, ScrapeResult>([
+      [succeeded.id, scrapeResult({ postsFound: 3, postsNew: 2, postsReseen: 1, snapshotsWritten: 3 })],
+      [alsoSucceeded.id, scrapeResult({ postsFound: 2, postsNew: 2, commentsFound: 4, snapshotsWritten: 6 })],
+      [failed.id, scrapeResult({ error: { code: "COLLECT_POSTS_FAILED", message: "Failed to collect X posts" } })],
+      [exhausted.id, scrapeResult({
+        postsFound: 1,
+        postsNew: 1,
+        snapshotsWritten: 1,
+        quotaExhausted: { action: "navigation", window: "hourly", used: 150, limit: 150 },
+      })],
+    ]);
+
+    env.SCRAPER_MAX_CONCURRENCY_X = undefined;
+    let running = 0;
+    let maxRunning = 0;
+    const signals: Array<AbortSignal | undefined> = [];
+    const coordinator = new ScrapeCoordinator((account) => ({
+      run: async (options: AccountScrapeOptions): Promise<ScrapeResult> => {
+        signals.push(options.signal);
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await sleep(20);
+        running--;
+        return outcomes.get(account.id)!;
+      },
+    }));
+
+    const result = await coordinator.run({
+      platform: "x",
+      trigger: "manual",
+      accountIds: [succeeded.id, alsoSucceeded.id, failed.id, exhausted.id],
+      concurrency: 2,
+    });
+
+    expect(maxRunning).toBe(2);
+    expect(signals.every((signal) => signal !== undefined && !signal.aborted)).toBe(true);
+    expect(result).toMatchObject({
+      status: "partial",
+      accountsProcessed: 4,
+      accountsSucceeded: 2,
+      accountsFailed: 1,
+      accountsQuotaExhausted: 1,
+      accountsSkipped: 0,
+      totalPostsFound: 6,
+      totalPostsNew: 5,
+      totalPostsReseen: 1,
+      totalCommentsFound: 4,
+      totalSnapshotsWritten: 10,
+      errors: [{ accountId: failed.id, error: "Failed to collect X posts" }],
+    });
+
+    const runAccounts = await runsRepo.findByRunId(result.runId);
+    const statusByAccount = new Map(runAccounts.map((runAccount) => [runAccount.accountId, runAccount.status]));
+    expect(statusByAccount.get(succeeded.id)).toBe("success");
+    expect(statusByAccount.get(failed.id)).toBe("failed");
+    expect(statusByAccount.get(exhausted.id)).toBe("quota_exhausted");
+  });
+
+  it("fails a timed-out account even when its runner ignores the abort", async () => {
+    const [stuck, other] = await Promise.all([createAccount(), createAccount()]);
+    env.SCRAPER_ACCOUNT_TIMEOUT_SECONDS = 0.05;
+    env.SCRAPER_MAX_CONCURRENCY_X = undefined;
+
+    let aborted: AbortSignal | undefined;
+    const coordinator = new ScrapeCoordinator(
+      (account) => ({
+        run: async (options: AccountScrapeOptions): Promise<ScrapeResult> => {
+          if (account.id !== stuck.id) return scrapeResult({ postsFound: 1, postsNew: 1 });
+          aborted = options.signal;
+          return new Promise<ScrapeResult>(() => {});
+        },
+      }),
+      20
+    );
+
+    const result = await coordinator.run({ platform: "x", trigger: "manual", accountIds: [stuck.id, other.id], concurrency: 1 });
+
+    expect(aborted?.aborted).toBe(true);
+    expect(result).toMatchObject({
+      status: "partial",
+      accountsProcessed: 2,
+      accountsSucceeded: 1,
+      accountsFailed: 1,
+      errors: [{ accountId: stuck.id, error: "Account scrape timed out after 0.05s" }],
+    });
+
+    const runAccounts = await runsRepo.findByRunId(result.runId);
+    expect(runAccounts.find((runAccount) => runAccount.accountId === stuck.id)).toMatchObject({
+      status: "failed",
+      errorCode: "ACCOUNT_SCRAPE_TIMEOUT",
+    });
+  });
+});
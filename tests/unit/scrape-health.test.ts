@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll } from "bun:test";
+import {
+  buildSelectorGroupReport,
+  detectScrapeDrift,
+  listSelectorGroups,
+  type RunAccountHealthSample,
+} from "../../src/domain/scrape-health";
+import { THREADS_SELECTORS } from "../../src/platforms/threads/selectors";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { runsRepo } from "../../src/db/repositories/runs.repo";
+import { postsRepo } from "../../src/db/repositories/posts.repo";
+import { metricsRepo } from "../../src/db/repositories/metrics.repo";
+
+describe("listSelectorGroups", () => {
+  it("flattens selector groups and skips URL constants", () => {
+    const groups = listSelectorGroups(THREADS_SELECTORS);
+    const names = groups.map((group) => group.group);
+
+    expect(names).toContain("POSTS");
+    expect(names).not.toContain("HOME_URL");
+
+    const activity = groups.find((group) => group.group === "ACTIVITY");
+    expect(activity?.fields.map((field) => field.field)).toEqual(["ITEM_LINK"]);
+  });
+});
+
+describe("buildSelectorGroupReport", () => {
+  it("reports ok, partial and missing groups with the missing fields", () => {
+    const ok = buildSelectorGroupReport("POSTS", [{ field: "POST_LINK", selector: "a", count: 12 }]);
+    const partial = buildSelectorGroupReport("POSTS", [
+      { field: "POST_LINK", selector: "a", count: 12 },
+      { field: "POST_TIMESTAMP", selector: "time", count: 0 },
+    ]);
+    const missing = buildSelectorGroupReport("SEARCH", [{ field: "RESULT_ITEM", selector: "li", count: 0 }]);
+
+    expect(ok.status).toBe("ok");
+    expect(partial.status).toBe("partial");
+    expect(partial.missingFields).toEqual(["POST_TIMESTAMP"]);
+    expect(partial.matchedFields).toBe(1);
+    expect(missing.status).toBe("missing");
+  });
+});
+
+function sample(
+  runAccountId: number,
+  postsFound: number,
+  postsWithNullBody = 0,
+  accountId = 1
+): RunAccountHealthSample {
+  return {
+    runAccountId,
+    accountId,
+    startedAt: 1_750_000_000 + runAccountId * 3600,
+    postsFound,
+    postsWithMetrics: postsFound,
+    postsWithNullBody,
+  };
+}
+
+describe("detectScrapeDrift", () => {
+  it("flags a sudden drop in posts found against the median of earlier runs", () => {
+    const alerts = detectScrapeDrift([sample(1, 40), sample(2, 44), sample(3, 38), sample(4, 0)]);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ kind: "posts_drop", runAccountId: 4, current: 0, baseline: 40 });
+  });
+
+  it("flags a spike in posts without body text", () => {
+    const alerts = detectScrapeDrift([sample(1, 40, 2), sample(2, 40, 4), sample(3, 40, 30)]);
+
+    expect(alerts.map((alert) => alert.kind)).toEqual(["null_body_spike"]);
+    expect(alerts[0]?.current).toBe(0.75);
+    expect(alerts[0]?.baseline).toBe(0.08);
+  });
+
+  it("stays quiet for normal variation, tiny baselines and accounts with a single run", () => {
+    expect(detectScrapeDrift([sample(1, 40), sample(2, 35), sample(3, 30)])).toEqual([]);
+    expect(detectScrapeDrift([sample(1, 3), sample(2, 0)])).toEqual([]);
+    expect(detectScrapeDrift([sample(1, 40, 0, 2)])).toEqual([]);
+  });
+});
+
+describe("runsRepo.listHealthSamples", () => {
+  const uniqueId = Date.now();
+  let accountId: number;
+  let runAccountId: number;
+
+  beforeAll(async () => {
+    const account = await accountsRepo.create({
+      platform: "threads",
+      displayName: "Health Test",
+      handle: `health-${uniqueId}`,
+      status: "active",
+      sessionStatePath: "./data/sessions/health-test.json",
+      cooldownSeconds: 1,
+    });
+    accountId = account.id;
+
+    const now = Math.floor(Date.now() / 1000);
+    const run = await runsRepo.createRun({ trigger: "manual", startedAt: now, status: "running" });
+    const runAccount = await runsRepo.createRunAccount({
+      runId: run.id,
+      accountId,
+      status: "running",
+      startedAt: now,
+      postsFound: 0,
+      commentsFound: 0,
+      snapshotsWritten: 0,
+    });
+    runAccountId = runAccount.id;
+    await runsRepo.markRunAccountSuccess(runAccountId, { postsFound: 2, commentsFound: 0, snapshotsWritten: 2 });
+
+    for (const [index, bodyText] of ["hello world", null].entries()) {
+      const post = await postsRepo.create({
+        platform: "threads",
+        platformPostId: `health-post-${uniqueId}-${index}`,
+        authorHandle: "alice",
+        authorDisplayName: "alice",
+        bodyText,
+        contentHash: `health-hash-${uniqueId}-${index}`,
+        postUrl: null,
+        threadRootPlatformPostId: null,
+        publishedAt: now,
+        firstSeenAt: now,
+        lastSeenAt: now,
+        sourceAccountId: accountId,
+      });
+      await metricsRepo.create({
+        entityType: "post",
+        entityId: post!.id,
+        likesCount: 1,
+        repliesCount: null,
+        repostsCount: null,
+        viewsCount: null,
+        capturedAt: now,
+        runAccountId,
+      });
+    }
+  });
+
+  it("counts posts without body text per successful run account", async () => {
+    const samples = await runsRepo.listHealthSamples({ accountId });
+
+    expect(samples).toHaveLength(1);
+    expect(samples[0]).toMatchObject({ runAccountId, postsFound: 2, postsWithMetrics: 2, postsWithNullBody: 1 });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "bun:test";
+import {
+  selectCandidates,
+  type SelectionCandidate,
+  type SelectionConfig,
+} from "../../src/domain/selection";
+import { resolveSelectionConfig } from "../../src/orchestration/stages/selection-stage";
+
+const NOW = 1_750_000_000;
+
+function makeConfig(overrides: Partial<SelectionConfig> = {}): SelectionConfig {
+  return {
+    strategy: "top_score",
+    topN: 3,
+    scoreThreshold: 70,
+    maxPerAuthor: null,
+    recencyHalfLifeHours: 24,
+    ...overrides,
+  };
+}
+
+function makeCandidate(postId: number, overrides: Partial<SelectionCandidate> = {}): SelectionCandidate {
+  return {
+    postId,
+    relevanceScore: 50,
+    action: "reply",
+    authorHandle: `author${postId}`,
+    publishedAt: NOW - 3600,
+    engagementVelocity: null,
+    ...overrides,
+  };
+}
+
+describe("selectCandidates", () => {
+  it("picks the highest scores for top_score and records the strategy", () => {
+    const picks = selectCandidates(
+      [
+        makeCandidate(1, { relevanceScore: 40 }),
+        makeCandidate(2, { relevanceScore: 90 }),
+        makeCandidate(3, { relevanceScore: 70 }),
+        makeCandidate(4, { relevanceScore: 80 }),
+      ],
+      makeConfig(),
+      NOW
+    );
+
+    expect(picks.map((p) => p.postId)).toEqual([2, 4, 3]);
+    expect(picks.map((p) => p.rank)).toEqual([1, 2, 3]);
+    expect(picks.every((p) => p.strategy === "top_score")).toBe(true);
+  });
+
+  it("spreads picks across authors for author_diverse", () => {
+    const picks = selectCandidates(
+      [
+        makeCandidate(1, { relevanceScore: 95, authorHandle: "loud" }),
+        makeCandidate(2, { relevanceScore: 90, authorHandle: "loud" }),
+        makeCandidate(3, { relevanceScore: 60, authorHandle: "quiet" }),
+        makeCandidate(4, { relevanceScore: 50, authorHandle: "other" }),
+      ],
+      makeConfig({ strategy: "author_diverse" }),
+      NOW
+    );
+
+    expect(picks.map((p) => p.postId)).toEqual([1, 3, 4]);
+  });
+
+  it("enforces the per-author cap on any strategy", () => {
+    const picks = selectCandidates(
+      [
+        makeCandidate(1, { relevanceScore: 95, authorHandle: "Loud" }),
+        makeCandidate(2, { relevanceScore: 90, authorHandle: "loud" }),
+        makeCandidate(3, { relevanceScore: 85, authorHandle: "LOUD" }),
+        makeCandidate(4, { relevanceScore: 20, authorHandle: "quiet" }),
+      ],
+      makeConfig({ maxPerAuthor: 2 }),
+      NOW
+    );
+
+    expect(picks.map((p) => p.postId)).toEqual([1, 2, 4]);
+  });
+
+  it("prefers reply over save for reply_first", () => {
+    const picks = selectCandidates(
+      [
+        makeCandidate(1, { relevanceScore: 80, action: "save" }),
+        makeCandidate(2, { relevanceScore: 65, action: "reply" }),
+      ],
+      makeConfig({ strategy: "reply_first", topN: 1 }),
+      NOW
+    );
+
+    expect(picks.map((p) => p.postId)).toEqual([2]);
+  });
+
+  it("boosts fast-moving posts for engagement_velocity", () => {
+    const picks = selectCandidates(
+      [
+        makeCandidate(1, { relevanceScore: 80, engagementVelocity: null }),
+        makeCandidate(2, { relevanceScore: 70, engagementVelocity: 100 }),
+      ],
+      makeConfig({ strategy: "engagement_velocity", topN: 1 }),
+      NOW
+    );
+
+    expect(picks.map((p) => p.postId)).toEqual([2]);
+  });
+
+  it("decays older posts for recency_decay", () => {
+    const picks = selectCandidates(
+      [
+        makeCandidate(1, { relevanceScore: 90, publishedAt: NOW - 48 * 3600 }),
+        makeCandidate(2, { relevanceScore: 60, publishedAt: NOW - 3600 }),
+      ],
+      makeConfig({ strategy: "recency_decay", topN: 1, recencyHalfLifeHours: 12 }),
+      NOW
+    );
+
+    expect(picks.map((p) => p.postId)).toEqual([2]);
+  });
+});
+
+describe("resolveSelectionConfig", () => {
+  it("applies overrides in order and ignores undefined fields", () => {
+    const config = resolveSelectionConfig(
+      makeConfig(),
+      { strategy: "author_diverse", topN: undefined },
+      null,
+      { maxPerAuthor: 1 }
+    );
+
+    expect(config.strategy).toBe("author_diverse");
+    expect(config.topN).toBe(3);
+    expect(config.maxPerAuthor).toBe(1);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll } from "bun:test";
+import {
+  buildCommentTree,
+  flattenCommentTree,
+  orderParentsFirst,
+  resolveSelfThreadRoots,
+} from "../../src/domain/thread-tree";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { postsRepo } from "../../src/db/repositories/posts.repo";
+import { commentsRepo } from "../../src/db/repositories/comments.repo";
+import { threadService } from "../../src/services/thread.service";
+
+describe("resolveSelfThreadRoots", () => {
+  it("maps same-author continuations to the first post and ignores replies to others", () => {
+    const roots = resolveSelfThreadRoots([
+      { id: "a1", authorHandle: "alice", replyToId: null },
+      { id: "a2", authorHandle: "alice", replyToId: "a1" },
+      { id: "a3", authorHandle: "alice", replyToId: "a2" },
+      { id: "b1", authorHandle: "bob", replyToId: "a3" },
+      { id: "b2", authorHandle: "bob", replyToId: "b1" },
+      { id: "c1", authorHandle: "carol", replyToId: "missing" },
+    ]);
+
+    expect(Object.fromEntries(roots)).toEqual({ a2: "a1", a3: "a1", b2: "b1" });
+  });
+});
+
+describe("orderParentsFirst", () => {
+  it("moves parents ahead of their replies", () => {
+    const ordered = orderParentsFirst([
+      { platformCommentId: "c", parentPlatformCommentId: "b" },
+      { platformCommentId: "a", parentPlatformCommentId: null },
+      { platformCommentId: "b", parentPlatformCommentId: "a" },
+      { platformCommentId: null, parentPlatformCommentId: "a" },
+    ]);
+
+    expect(ordered.map((comment) => comment.platformCommentId)).toEqual(["a", "b", "c", null]);
+  });
+});
+
+describe("buildCommentTree", () => {
+  const comments = [
+    { id: 1, parentCommentId: null, publishedAt: 200 },
+    { id: 2, parentCommentId: 1, publishedAt: 300 },
+    { id: 3, parentCommentId: null, publishedAt: 100 },
+    { id: 4, parentCommentId: 2, publishedAt: 400 },
+    { id: 5, parentCommentId: 99, publishedAt: 500 },
+    { id: 6, parentCommentId: 1, publishedAt: 250 },
+  ];
+
+  it("nests replies under their parent, oldest first, and keeps orphans top-level", () => {
+    const tree = buildCommentTree(comments);
+
+    expect(tree.map((node) => node.comment.id)).toEqual([3, 1, 5]);
+    expect(tree[1]!.children.map((node) => node.comment.id)).toEqual([6, 2]);
+    expect(tree[1]!.children[1]!.children.map((node) => node.comment.id)).toEqual([4]);
+  });
+
+  it("flattens depth-first with depths and a limit", () => {
+    const flat = flattenCommentTree(buildCommentTree(comments));
+    expect(flat.map(({ comment, depth }) => [comment.id, depth])).toEqual([
+      [3, 0],
+      [1, 0],
+      [6, 1],
+      [2, 1],
+      [4, 2],
+      [5, 0],
+    ]);
+    expect(flattenCommentTree(buildCommentTree(comments), 3)).toHaveLength(3);
+  });
+});
+
+describe("threadService", () => {
+  const uniqueId = Date.now();
+  let rootId: number;
+  let continuationId: number;
+
+  beforeAll(async () => {
+    const account = await accountsRepo.create({
+      platform: "threads",
+      displayName: "Thread Test",
+      handle: `thread-${uniqueId}`,
+      status: "active",
+      sessionStatePath: "./data/sessions/thread-test.json",
+      cooldownSeconds: 1,
+    });
+
+    const createPost = async (suffix: string, threadRoot: string | null, publishedAt: number) =>
+      (await postsRepo.create({
+        platform: "threads",
+        platformPostId: `thread-${uniqueId}-${suffix}`,
+        authorHandle: "alice",
+        authorDisplayName: "Alice",
+        bodyText: `part ${suffix}`,
+        contentHash: `thread-hash-${uniqueId}-${suffix}`,
+        postUrl: null,
+        threadRootPlatformPostId: threadRoot,
+        publishedAt,
+        firstSeenAt: publishedAt,
+        lastSeenAt: publishedAt,
+        sourceAccountId: account.id,
+      }))!;
+
+    const root = await createPost("1", null, 100);
+    const continuation = await createPost("2", root.platformPostId, 200);
+    rootId = root.id;
+    continuationId = continuation.id;
+
+    const createComment = async (suffix: string, parentPostId: number, parentPlatformCommentId: string | null) =>
+      commentsRepo.create({
+        platform: "threads",
+        platformCommentId: `thread-comment-${uniqueId}-${suffix}`,
+        parentPostId,
+        ...(await commentsRepo.resolveThreading(
+          "threads",
+          parentPlatformCommentId ? `thread-comment-${uniqueId}-${parentPlatformCommentId}` : null
+        )),
+        authorHandle: `user${suffix}`,
+        authorDisplayName: `User ${suffix}`,
+        bodyText: `comment ${suffix}`,
+        contentHash: `thread-comment-hash-${uniqueId}-${suffix}`,
+        commentUrl: null,
+        publishedAt: 300 + Number(suffix),
+        firstSeenAt: 300,
+        lastSeenAt: 300,
+        sourceAccountId: account.id,
+      });
+
+    await createComment("1", rootId, null);
+    await createComment("2", rootId, "1");
+    await createComment("3", rootId, "2");
+    await createComment("4", continuationId, null);
+  });
+
+  it("stitches the self-thread and nests replies for any part of it", async () => {
+    const thread = await threadService.getThread(continuationId);
+
+    expect(thread?.rootPostId).toBe(rootId);
+    expect(thread?.parts.map((part) => part.post.id)).toEqual([rootId, continuationId]);
+
+    const [first] = thread!.parts[0]!.replies;
+    expect(first?.comment.depth).toBe(0);
+    expect(first?.children[0]?.comment.depth).toBe(1);
+    expect(first?.children[0]?.children[0]?.comment.bodyText).toBe("comment 3");
+    expect(thread!.parts[1]!.replies.map((node) => node.comment.bodyText)).toEqual(["comment 4"]);
+  });
+
+  it("builds draft context with reply depth and self-thread position", async () => {
+    const conversation = await threadService.getConversation(rootId, 10);
+    expect(conversation.map((entry) => [entry.bodyText, entry.depth])).toEqual([
+      ["comment 1", 0],
+      ["comment 2", 1],
+      ["comment 3", 2],
+    ]);
+
+    const continuation = await postsRepo.findById(continuationId);
+    const selfThread = await threadService.getSelfThreadContext(continuation!);
+    expect(selfThread).toEqual([
+      { bodyText: "part 1", isReplyTarget: false },
+      { bodyText: "part 2", isReplyTarget: true },
+    ]);
+  });
+});
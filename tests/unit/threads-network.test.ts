@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseResponseBody, parseThreadsPayload, parseThreadsPostNode } from "../../src/platforms/threads/network";
+
+const loadFixture = (name: string): string =>
+  readFileSync(join(import.meta.dir, "../fixtures/threads", name), "utf-8");
+
+describe("parseThreadsPayload", () => {
+  it("extracts exact timestamps and counts for the root post and its replies", () => {
+    const [document] = parseResponseBody(loadFixture("thread-response.json"));
+    const posts = parseThreadsPayload(document);
+
+    expect(posts.map((post) => post.platformPostId)).toEqual(["DAbc123xyz", "DAdef456uvw"]);
+
+    const root = posts[0]!;
+    expect(root.authorHandle).toBe("alice");
+    expect(root.authorDisplayName).toBe("Alice Liddell");
+    expect(root.bodyText).toBe("Shipping our new onboarding flow today");
+    expect(root.postUrl).toBe("https://www.threads.com/@alice/post/DAbc123xyz");
+    expect(root.publishedAt).toBe(1750000000);
+    expect(root.isReply).toBe(false);
+    expect(root.mediaUrls).toEqual(["https://cdn.example.com/alice-1.jpg"]);
+    expect(root.metrics).toEqual({ likesCount: 1234, repliesCount: 42, repostsCount: 10, viewsCount: null });
+
+    const reply = posts[1]!;
+    expect(reply.isReply).toBe(true);
+    expect(reply.replyToHandle).toBe("alice");
+    expect(reply.authorDisplayName).toBe("bob");
+    expect(reply.mediaUrls).toEqual(["https://cdn.example.com/bob-1.jpg", "https://cdn.example.com/bob-2.mp4"]);
+    expect(root.replyToPostId).toBeNull();
+    expect(reply.replyToPostId).toBe("DAbc123xyz");
+  });
+
+  it("links each thread_items entry to the one before it", () => {
+    const node = (code: string, username: string, replyTo: string | null) => ({
+      post: {
+        code,
+        taken_at: 1,
+        user: { username },
+        caption: { text: code },
+        text_post_app_info: replyTo ? { reply_to_author: { username: replyTo } } : {},
+      },
+    });
+    const posts = parseThreadsPayload({
+      thread_items: [node("A1", "alice", null), node("A2", "alice", "alice"), node("B1", "bob", "alice")],
+    });
+
+    expect(posts.map((post) => [post.platformPostId, post.replyToPostId])).toEqual([
+      ["A1", null],
+      ["A2", "A1"],
+      ["B1", "A2"],
+    ]);
+  });
+
+  it("ignores objects that merely share field names with posts", () => {
+    expect(parseThreadsPostNode({ code: "ABC", user: { username: "alice" } })).toBeNull();
+    expect(parseThreadsPostNode({ code: "ABC", taken_at: 1, user: {} })).toBeNull();
+    expect(parseThreadsPayload({ data: { viewer: { username: "me" } } })).toEqual([]);
+  });
+});
+
+describe("parseResponseBody", () => {
+  it("strips the anti-hijacking prefix and splits streamed documents", () => {
+    expect(parseResponseBody('for (;;);{"a":1}')).toEqual([{ a: 1 }]);
+    expect(parseResponseBody('{"a":1}\n{"b":2}\n{"c":')).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(parseResponseBody("")).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll } from "bun:test";
+import { classifyThreadsActivityItem } from "../../src/platforms/threads/parsers";
+import { getSourcesFromConfig, CronPipelineConfigSchema } from "../../src/domain/cron-config";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { postsRepo } from "../../src/db/repositories/posts.repo";
+import { notificationsRepo } from "../../src/db/repositories/notifications.repo";
+
+describe("classifyThreadsActivityItem", () => {
+  it("reads the activity label for quotes, mentions and replies", () => {
+    expect(
+      classifyThreadsActivityItem({ itemText: "alice quoted your post 2h", bodyText: "so true", linksOwnPost: true }, "me")
+    ).toBe("quote");
+    expect(
+      classifyThreadsActivityItem({ itemText: "bob mentioned you 5m", bodyText: "cc team", linksOwnPost: false }, "me")
+    ).toBe("mention");
+    expect(
+      classifyThreadsActivityItem(
+        { itemText: "carol replied to your post 1h", bodyText: "agreed", linksOwnPost: false },
+        "me"
+      )
+    ).toBe("reply");
+  });
+
+  it("falls back to an @handle in the body and to links of our own post", () => {
+    expect(
+      classifyThreadsActivityItem({ itemText: "dave 3h", bodyText: "thoughts @Me?", linksOwnPost: false }, "@me")
+    ).toBe("mention");
+    expect(
+      classifyThreadsActivityItem({ itemText: "erin 3h", bodyText: "thoughts @meandyou", linksOwnPost: false }, "me")
+    ).toBeNull();
+    expect(
+      classifyThreadsActivityItem({ itemText: "frank 1d", bodyText: "nice one", linksOwnPost: true }, "me")
+    ).toBe("reply");
+  });
+
+  it("ignores likes and follows", () => {
+    expect(
+      classifyThreadsActivityItem({ itemText: "gina liked your post", bodyText: "my post", linksOwnPost: true }, "me")
+    ).toBeNull();
+    expect(
+      classifyThreadsActivityItem({ itemText: "hank followed you", bodyText: null, linksOwnPost: false }, "me")
+    ).toBeNull();
+  });
+});
+
+describe("notifications cron source", () => {
+  it("enables notification collection when the source is configured", () => {
+    const config = CronPipelineConfigSchema.parse({ sources: [{ type: "home" }, { type: "notifications" }] });
+    expect(getSourcesFromConfig(config).collectNotifications).toBe(true);
+
+    const homeOnly = CronPipelineConfigSchema.parse({ sources: [{ type: "home" }] });
+    expect(getSourcesFromConfig(homeOnly).collectNotifications).toBe(false);
+  });
+});
+
+describe("notificationsRepo", () => {
+  const uniqueId = Date.now();
+  let accountId: number;
+  let postId: number;
+
+  beforeAll(async () => {
+    const account = await accountsRepo.create({
+      platform: "threads",
+      displayName: "Notifications Test",
+      handle: `notif-${uniqueId}`,
+      status: "active",
+      sessionStatePath: "./data/sessions/notif-test.json",
+      cooldownSeconds: 1,
+    });
+    accountId = account.id;
+
+    const now = Math.floor(Date.now() / 1000);
+    const post = await postsRepo.create({
+      platform: "threads",
+      platformPostId: `notif-post-${uniqueId}`,
+      authorHandle: "alice",
+      authorDisplayName: "alice",
+      bodyText: `hey @notif-${uniqueId}`,
+      contentHash: `notif-hash-${uniqueId}`,
+      postUrl: null,
+      threadRootPlatformPostId: null,
+      publishedAt: now,
+      firstSeenAt: now,
+      lastSeenAt: now,
+      sourceAccountId: accountId,
+    });
+    postId = post!.id;
+  });
+
+  it("stores each notification once per account, kind and post", async () => {
+    const data = {
+      accountId,
+      platform: "threads",
+      kind: "mention" as const,
+      actorHandle: "alice",
+      postId,
+      targetPlatformPostId: null,
+      occurredAt: null,
+      firstSeenAt: Math.floor(Date.now() / 1000),
+    };
+
+    const first = await notificationsRepo.createOrSkip(data);
+    const second = await notificationsRepo.createOrSkip(data);
+
+    expect(first.created).toBe(true);
+    expect(second.created).toBe(false);
+    expect(second.notification.id).toBe(first.notification.id);
+
+    const listed = await notificationsRepo.listByAccount(accountId, { kind: "mention" });
+    expect(listed).toHaveLength(1);
+    expect(listed[0]?.post.id).toBe(postId);
+  });
+});
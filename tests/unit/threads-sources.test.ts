@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Page, Response } from "playwright";
+import { ThreadsAdapter } from "../../src/platforms/threads";
+import { THREADS_SELECTORS } from "../../src/platforms/threads/selectors";
+import { env } from "../../src/core/config";
+
+const threadResponse = readFileSync(join(import.meta.dir, "../fixtures/threads/thread-response.json"), "utf-8");
+const HOME_URL = THREADS_SELECTORS.HOME_URL;
+
+interface DomPost {
+  platformPostId: string;
+  authorHandle: string;
+  bodyText: string | null;
+  postUrl: string;
+}
+
+/**
+ * Serves recorded GraphQL bodies as the page's responses on each navigation and a fixed DOM
+ * extraction result, so the adapter's URL building and merging run without a browser.
+ */
+class FakeThreadsPage {
+  visited: string[] = [];
+  private current = "about:blank";
+  private listeners = new Set<(response: Response) => void>();
+
+  constructor(private responseBodies: string[], private domPosts: DomPost[] = []) {}
+
+  asPage(): Page {
+    const page = {
+      url: () => this.current,
+      goto: async (url: string) => {
+        this.visited.push(url);
+        this.current = url;
+        for (const body of this.responseBodies) {
+          for (const listener of this.listeners) listener(this.response(body));
+        }
+        return null;
+      },
+      waitForLoadState: async () => undefined,
+      waitForTimeout: async () => undefined,
+      evaluate: async () => this.domPosts,
+      mouse: { wheel: async () => undefined },
+      on: (_event: "response", listener: (response: Response) => void) => this.listeners.add(listener),
+      off: (_event: "response", listener: (response: Response) => void) => this.listeners.delete(listener),
+    };
+    return page as unknown as Page;
+  }
+
+  private response(body: string): Response {
+    return {
+      url: () => `${HOME_URL}/graphql/query`,
+      headers: () => ({ "content-type": "application/json" }),
+      text: async () => body,
+    } as unknown as Response;
+  }
+}
+
+describe("ThreadsAdapter feed, tag and post URL sources", () => {
+  const { SCRAPER_ACTION_DELAY_MIN_MS, SCRAPER_ACTION_DELAY_MAX_MS, THREADS_EXTRACTION_MODE } = env;
+
+  beforeAll(() => {
+    env.SCRAPER_ACTION_DELAY_MIN_MS = 0;
+    env.SCRAPER_ACTION_DELAY_MAX_MS = 0;
+    env.THREADS_EXTRACTION_MODE = "network";
+  });
+
+  afterAll(() => {
+    env.SCRAPER_ACTION_DELAY_MIN_MS = SCRAPER_ACTION_DELAY_MIN_MS;
+    env.SCRAPER_ACTION_DELAY_MAX_MS = SCRAPER_ACTION_DELAY_MAX_MS;
+    env.THREADS_EXTRACTION_MODE = THREADS_EXTRACTION_MODE;
+  });
+
+  it("opens the tag search and feed tab URLs", async () => {
+    const fake = new FakeThreadsPage([threadResponse]);
+    const adapter = new ThreadsAdapter();
+
+    await adapter.collectTag(fake.asPage(), "#type script", { maxPosts: 10 });
+    await adapter.collectFeedTab(fake.asPage(), "following", { maxPosts: 10 });
+    await adapter.collectFeedTab(fake.asPage(), "for_you", { maxPosts: 10 });
+
+    expect(fake.visited).toEqual([
+      `${HOME_URL}/search?serp_type=tags&q=type%20script`,
+      `${HOME_URL}/following`,
+      HOME_URL,
+    ]);
+  });
+
+  it("returns each feed post once, across repeated payloads and the DOM, without replies", async () => {
+    const fake = new FakeThreadsPage(
+      [threadResponse, threadResponse],
+      [
+        { platformPostId: "DAbc123xyz", authorHandle: "alice", bodyText: "Shipping", postUrl: `${HOME_URL}/@alice/post/DAbc123xyz` },
+        { platformPostId: "DAghi789rst", authorHandle: "carol", bodyText: "DOM only", postUrl: `${HOME_URL}/@carol/post/DAghi789rst` },
+      ]
+    );
+
+    const posts = await new ThreadsAdapter().collectTag(fake.asPage(), "typescript", { maxPosts: 10 });
+
+    expect(posts.map((post) => post.platformPostId)).toEqual(["DAbc123xyz", "DAghi789rst"]);
+    expect(posts[0]?.bodyText).toBe("Shipping our new onboarding flow today");
+  });
+
+  it("keeps a listed post that is a reply and nothing else from its page", async () => {
+    const fake = new FakeThreadsPage([threadResponse]);
+
+    const posts = await new ThreadsAdapter().collectPostsByUrl(
+      fake.asPage(),
+      [`${HOME_URL}/@bob/post/DAdef456uvw`, `${HOME_URL}/@bob`],
+      {}
+    );
+
+    expect(fake.visited).toEqual([`${HOME_URL}/@bob/post/DAdef456uvw`]);
+    expect(posts).toHaveLength(1);
+    expect(posts[0]).toMatchObject({
+      platformPostId: "DAdef456uvw",
+      authorHandle: "bob",
+      bodyText: "Congrats! How long did it take?",
+      publishedAt: 1750000600,
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { env } from "../../src/core/config";
+import type { EngagementPolicyInput } from "../../src/domain/models";
+import { PostTriageBatchOutputSchema } from "../../src/domain/models";
+import { parsePipelineConfig } from "../../src/domain/cron-config";
+import { FakeLLMClient } from "../../src/llm/fake-client";
+import { llmProviderRegistry } from "../../src/llm/provider-registry";
+import { TRIAGE_BATCH_PROMPT_VERSION, TRIAGE_PROMPT_VERSION } from "../../src/llm/prompts/triage";
+import { TriageStage, triageStage } from "../../src/orchestration/stages/triage-stage";
+import { accountsRepo } from "../../src/db/repositories/accounts.repo";
+import { postsRepo } from "../../src/db/repositories/posts.repo";
+import { runsRepo } from "../../src/db/repositories/runs.repo";
+import { postTriageRepo } from "../../src/db/repositories/post-triage.repo";
+
+const policy: EngagementPolicyInput = {
+  topics: ["testing"],
+  goals: ["reply"],
+  avoidList: [],
+  toneIdentity: "friendly",
+  preferredLanguages: [],
+  llm: {
+    triage: { provider: "fake", model: null, temperature: null, maxTokens: null },
+    draft: { provider: "fake", model: null, temperature: null, maxTokens: null },
+  },
+};
+
+async function createRunWithPosts(postCount: number, contentKey?: string) {
+  const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  const now = Math.floor(Date.now() / 1000);
+
+  const account = await accountsRepo.create({
+    platform: "threads",
+    displayName: "Batch Account",
+    handle: `test-batch-${uniqueId}`,
+    status: "active",
+    sessionStatePath: "./data/sessions/test-session.json",
+    cooldownSeconds: 1,
+  });
+  const run = await runsRepo.createRun({ trigger: "manual", startedAt: now });
+  const runAccount = await runsRepo.createRunAccount({ runId: run.id, accountId: account.id, startedAt: now });
+
+  const postIds: number[] = [];
+  for (let i = 0; i < postCount; i++) {
+    const post = await postsRepo.create({
+      platform: "threads",
+      platformPostId: `test-batch-${uniqueId}-${i}`,
+      authorHandle: "author",
+      authorDisplayName: "Author",
+      bodyText: `Batch post ${i}`,
+      contentHash: `hash-batch-${contentKey ?? uniqueId}-${i}`,
+      postUrl: null,
+      publishedAt: now,
+      firstSeenAt: now,
+      lastSeenAt: now,
+      sourceAccountId: account.id,
+    });
+    if (!post) throw new Error("Failed to create test post");
+    postIds.push(post.id);
+  }
+
+  return { accountId: account.id, runAccountId: runAccount.id, postIds };
+}
+
+describe("Triage stage", () => {
+  const fake = new FakeLLMClient();
+  let triageEnabled: boolean;
+
+  beforeAll(() => {
+    triageEnabled = env.TRIAGE_ENABLED;
+    env.TRIAGE_ENABLED = true;
+    llmProviderRegistry.register("fake", () => fake);
+  });
+
+  afterAll(() => {
+    env.TRIAGE_ENABLED = triageEnabled;
+    llmProviderRegistry.register("fake", () => new FakeLLMClient());
+  });
+
+  it("scores posts in batches of the configured size", async () => {
+    const { accountId, runAccountId } = await createRunWithPosts(5);
+    const callsBefore = fake.calls.length;
+
+    const result = await triageStage.run({ runAccountId, accountId, policy, batchSize: 3 });
+
+    expect(result.triagedPosts).toBe(5);
+    expect(result.failedPosts).toBe(0);
+    // One batch of 3 plus one batch of 2.
+    expect(fake.calls.length - callsBefore).toBe(2);
+
+    const rows = await postTriageRepo.listByRunAccount(runAccountId);
+    expect(rows).toHaveLength(5);
+    expect(rows.every((row) => row.promptVersion === TRIAGE_BATCH_PROMPT_VERSION)).toBe(true);
+  });
+
+  it("falls back to single-post triage only for invalid batch items", async () => {
+    const { accountId, runAccountId, postIds } = await createRunWithPosts(3);
+    const [validId, invalidId] = postIds;
+
+    fake.setResponder(PostTriageBatchOutputSchema, () => ({
+      results: [
+        {
+          post_id: validId,
+          relevance_score: 80,
+          relevance_label: "keep",
+          reasons: ["batched"],
+          action: "reply",
+          confidence: 0.9,
+        },
+        { post_id: invalidId, relevance_score: "high" },
+      ],
+    }));
+    const callsBefore = fake.calls.length;
+
+    const result = await triageStage.run({ runAccountId, accountId, policy, batchSize: 3 });
+
+    expect(result.triagedPosts).toBe(3);
+    // One batch call plus two single-post retries.
+    expect(fake.calls.length - callsBefore).toBe(3);
+
+    const rows = await postTriageRepo.listByRunAccount(runAccountId);
+    const versions = new Map(rows.map((row) => [row.postId, row.promptVersion]));
+    expect(versions.get(validId!)).toBe(TRIAGE_BATCH_PROMPT_VERSION);
+    expect(versions.get(invalidId!)).toBe(TRIAGE_PROMPT_VERSION);
+    expect(versions.get(postIds[2]!)).toBe(TRIAGE_PROMPT_VERSION);
+  });
+
+  it("reuses verdicts for identical content under the same policy", async () => {
+    const contentKey = `cache-${Date.now()}`;
+    const first = await createRunWithPosts(2, contentKey);
+    const firstResult = await triageStage.run({ ...first, policy, batchSize: 2 });
+    expect(firstResult.cacheHits).toBe(0);
+    expect(firstResult.cacheMisses).toBe(2);
+
+    const second = await createRunWithPosts(2, contentKey);
+    const callsBefore = fake.calls.length;
+    const secondResult = await triageStage.run({ ...second, policy, batchSize: 2 });
+
+    expect(secondResult.cacheHits).toBe(2);
+    expect(secondResult.cacheMisses).toBe(0);
+    expect(secondResult.triagedPosts).toBe(2);
+    expect(fake.calls.length).toBe(callsBefore);
+    expect(await postTriageRepo.listByRunAccount(second.runAccountId)).toHaveLength(2);
+
+    const changedPolicy = { ...policy, topics: ["something else"] };
+    const third = await createRunWithPosts(2, contentKey);
+    const thirdResult = await triageStage.run({ ...third, policy: changedPolicy, batchSize: 2 });
+    expect(thirdResult.cacheHits).toBe(0);
+    expect(thirdResult.cacheMisses).toBe(2);
+  });
+
+  it("misses the cache for batch verdicts after a batch prompt version bump", async () => {
+    // A client with the default responders, so the first run really stores batch verdicts.
+    llmProviderRegistry.register("fake", () => new FakeLLMClient());
+    const contentKey = `cache-version-${Date.now()}`;
+    const first = await createRunWithPosts(2, contentKey);
+    await triageStage.run({ ...first, policy, batchSize: 2 });
+
+    const bumped = new TriageStage({ single: TRIAGE_PROMPT_VERSION, batch: `${TRIAGE_BATCH_PROMPT_VERSION}-next` });
+    const second = await createRunWithPosts(2, contentKey);
+    const secondResult = await bumped.run({ ...second, policy, batchSize: 2 });
+    expect(secondResult.cacheHits).toBe(0);
+    expect(secondResult.cacheMisses).toBe(2);
+
+    const rows = await postTriageRepo.listByRunAccount(second.runAccountId);
+    expect(rows.every((row) => row.promptVersion === `${TRIAGE_BATCH_PROMPT_VERSION}-next`)).toBe(true);
+
+    // The single-post prompt did not change, so its verdicts are not affected by the bump.
+    const third = await createRunWithPosts(1, `${contentKey}-single`);
+    await triageStage.run({ ...third, policy, batchSize: 1 });
+    const fourth = await createRunWithPosts(1, `${contentKey}-single`);
+    expect((await bumped.run({ ...fourth, policy, batchSize: 1 })).cacheHits).toBe(1);
+    llmProviderRegistry.register("fake", () => fake);
+  });
+
+  it("defaults the cron batch size for existing configs", () => {
+    const config = parsePipelineConfig(JSON.stringify({ sources: [{ type: "home" }] }));
+    expect(config?.triageBatchSize).toBe(10);
+  });
+});
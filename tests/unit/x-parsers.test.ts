@@ -0,0 +1,116 @@
+import { describe, it, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  splitXTweetArticles,
+  parseXTweetHtml,
+  parseXConversation,
+  parseXMetricsFromTweetHtml,
+  parseXCompactNumber,
+} from "../../src/platforms/x/parsers";
+
+const loadFixture = (name: string): string => readFileSync(join(import.meta.dir, "../fixtures/x", name), "utf-8");
+
+describe("X parsers", () => {
+  describe("parseXCompactNumber", () => {
+    it("should parse plain and compact counts", () => {
+      expect(parseXCompactNumber("1,204")).toBe(1204);
+      expect(parseXCompactNumber("1.2K")).toBe(1200);
+      expect(parseXCompactNumber("3M")).toBe(3_000_000);
+      expect(parseXCompactNumber("")).toBeNull();
+      expect(parseXCompactNumber("Reply")).toBeNull();
+    });
+  });
+
+  describe("home timeline fixture", () => {
+    const articles = splitXTweetArticles(loadFixture("home-timeline.html"));
+
+    it("should split every tweet article", () => {
+      expect(articles).toHaveLength(3);
+    });
+
+    it("should parse an organic tweet", () => {
+      const post = parseXTweetHtml(articles[0]!);
+      expect(post).not.toBeNull();
+      expect(post!.platformPostId).toBe("1849012345678901234");
+      expect(post!.authorHandle).toBe("indiedev_sam");
+      expect(post!.authorDisplayName).toBe("Sam Builds");
+      expect(post!.postUrl).toBe("https://x.com/indiedev_sam/status/1849012345678901234");
+      expect(post!.bodyText).toBe(
+        "Shipped the new onboarding flow today & churn already dropped 🚀 What metric do you watch first after a launch?",
+      );
+      expect(post!.publishedAt).toBe(Math.floor(Date.parse("2024-10-23T09:15:00.000Z") / 1000));
+      expect(post!.mediaUrls).toEqual(["https://pbs.twimg.com/media/GaBcDeFXcAAbc12?format=jpg&name=small"]);
+    });
+
+    it("should skip promoted tweets", () => {
+      expect(parseXTweetHtml(articles[1]!)).toBeNull();
+    });
+
+    it("should use the outer tweet rather than the quoted one", () => {
+      const post = parseXTweetHtml(articles[2]!);
+      expect(post!.platformPostId).toBe("1848877766655544433");
+      expect(post!.authorHandle).toBe("growth_notes");
+      expect(post!.bodyText).toBe("Retention beats acquisition. Every time.");
+    });
+
+    it("should read metrics from the action bar summary", () => {
+      expect(parseXMetricsFromTweetHtml(articles[0]!)).toEqual({
+        likesCount: 1204,
+        repliesCount: 14,
+        repostsCount: 6,
+        viewsCount: 48213,
+      });
+    });
+
+    it("should treat counts missing from the summary as zero", () => {
+      expect(parseXMetricsFromTweetHtml(articles[2]!)).toEqual({
+        likesCount: 9,
+        repliesCount: 2,
+        repostsCount: 0,
+        viewsCount: null,
+      });
+    });
+  });
+
+  describe("conversation fixture", () => {
+    const articles = splitXTweetArticles(loadFixture("conversation.html"));
+
+    it("should separate the focal tweet from its replies", () => {
+      const { focal, replies } = parseXConversation(articles, "1849012345678901234");
+      expect(focal?.platformPostId).toBe("1849012345678901234");
+      expect(replies.map((reply) => reply.platformCommentId)).toEqual([
+        "1849020000000000001",
+        "1849020000000000002",
+      ]);
+    });
+
+    it("should map replies to comments", () => {
+      const { replies } = parseXConversation(articles, "1849012345678901234");
+      expect(replies[0]).toMatchObject({
+        authorHandle: "pm_priya",
+        authorDisplayName: "Priya ✨",
+        bodyText: "Activation rate within the first 24h. Curious what you use.",
+        commentUrl: "https://x.com/pm_priya/status/1849020000000000001",
+      });
+      expect(replies[1]!.mediaUrls).toEqual([
+        "https://pbs.twimg.com/ext_tw_video_thumb/1849020000000000002/pu/img/thumb.jpg",
+      ]);
+    });
+
+    it("should return no replies when the focal tweet is absent", () => {
+      const { focal, replies } = parseXConversation(articles, "1");
+      expect(focal).toBeNull();
+      expect(replies).toHaveLength(0);
+    });
+
+    it("should fall back to button labels when the summary is missing", () => {
+      expect(parseXMetricsFromTweetHtml(articles[3]!)).toEqual({
+        likesCount: null,
+        repliesCount: null,
+        repostsCount: null,
+        viewsCount: null,
+      });
+    });
+  });
+});
@@ -76,6 +76,9 @@ export const api = {
       fetchJSON<void>(`/api/posts/${id}`, { method: "DELETE" }),
     workspace: (id: number) =>
       fetchJSON<PostWorkspace>(`/api/posts/${id}/workspace`),
+    thread: (id: number) => fetchJSON<PostThread>(`/api/posts/${id}/thread`),
+    metricsHistory: (id: number) =>
+      fetchJSON<PostMetricsHistory>(`/api/posts/${id}/metrics/history`),
     setEngagement: (id: number, engaged: boolean, engagedBy?: string) =>
       fetchJSON<Post>(`/api/posts/${id}/engagement`, {
         method: "PUT",
@@ -87,6 +90,26 @@ export const api = {
       }),
   },
 
+  authors: {
+    list: (params?: {
+      limit?: number;
+      offset?: number;
+      platform?: string;
+      search?: string;
+      sort?: "recent" | "followers";
+    }) => {
+      const sp = new URLSearchParams();
+      if (params?.limit) sp.set("limit", String(params.limit));
+      if (params?.offset) sp.set("offset", String(params.offset));
+      if (params?.platform) sp.set("platform", params.platform);
+      if (params?.search) sp.set("search", params.search);
+      if (params?.sort) sp.set("sort", params.sort);
+      const query = sp.toString();
+      return fetchJSON<AuthorsListResponse>(`/api/authors${query ? `?${query}` : ""}`);
+    },
+    get: (id: number) => fetchJSON<AuthorDetail>(`/api/authors/${id}`),
+  },
+
   triage: {
     list: (params?: {
       limit?: number;
@@ -107,8 +130,8 @@ export const api = {
     get: (id: number) => fetchJSON<Triage>(`/api/triage/${id}`),
     byRunAccount: (runAccountId: number) =>
       fetchJSON<Triage[]>(`/api/triage/run-account/${runAccountId}`),
-    top20: (runAccountId: number) =>
-      fetchJSON<Triage[]>(`/api/triage/run-account/${runAccountId}/top20`),
+    selection: (runAccountId: number) =>
+      fetchJSON<Triage[]>(`/api/triage/run-account/${runAccountId}/selection`),
     selected: (runAccountId: number) =>
       fetchJSON<Triage[]>(`/api/triage/run-account/${runAccountId}/selected`),
     review: (runAccountId: number, params?: { includeDismissed?: boolean; dismissedOnly?: boolean }) => {
@@ -158,7 +181,8 @@ export const api = {
         avoidList?: string[];
         toneIdentity?: string;
         preferredLanguages?: string[];
-      }
+      } & Partial<PolicyLlmOverrides> &
+        Partial<PolicyPrefilterRules> & { selection?: PolicySelectionConfig | null }
     ) =>
       fetchJSON<Policy>(`/api/policies/account/${accountId}`, {
         method: "PUT",
@@ -221,6 +245,13 @@ import type {
   PostsListResponse,
   PostWithComments,
   PostWorkspace,
+  PostMetricsHistory,
+  PostThread,
+  Author,
+  AuthorListItem,
+  AuthorsListResponse,
+  AuthorInteraction,
+  AuthorDetail,
   GenerateDraftsResult,
   Comment,
   Triage,
@@ -228,6 +259,9 @@ import type {
   DraftGenerationResult,
   ReviewRow,
   Policy,
+  PolicyLlmOverrides,
+  PolicyPrefilterRules,
+  PolicySelectionConfig,
   CronJob,
   CronJobRun,
 } from "./types";
@@ -242,6 +276,13 @@ export type {
   PostsListResponse,
   PostWithComments,
   PostWorkspace,
+  PostMetricsHistory,
+  PostThread,
+  Author,
+  AuthorListItem,
+  AuthorsListResponse,
+  AuthorInteraction,
+  AuthorDetail,
   GenerateDraftsResult,
   Comment,
   Triage,
@@ -249,6 +290,9 @@ export type {
   DraftGenerationResult,
   ReviewRow,
   Policy,
+  PolicyLlmOverrides,
+  PolicyPrefilterRules,
+  PolicySelectionConfig,
   CronJob,
   CronJobRun,
 };
@@ -7,6 +7,16 @@ export interface Run {
   notes: string | null;
 }
 
+export interface RunArtifact {
+  id: number;
+  kind: "screenshot" | "dom" | "trace";
+  contentType: string;
+  byteSize: number;
+  pageUrl: string | null;
+  createdAt: number;
+  fileUrl: string;
+}
+
 export interface RunAccount {
   id: number;
   runId: number;
@@ -16,12 +26,15 @@ export interface RunAccount {
   accountPlatform: string;
   status: string;
   postsFound: number;
+  postsNew: number;
+  postsReseen: number;
   commentsFound: number;
   snapshotsWritten: number;
   errorCode: string | null;
   errorDetail: string | null;
   startedAt: number;
   endedAt: number | null;
+  artifacts: RunArtifact[];
 }
 
 export interface RunWithAccounts extends Run {
@@ -34,8 +47,10 @@ export interface RunTriggerRequest {
   collectProfiles?: boolean;
   profileHandles?: string[];
   searchQueries?: string[];
+  collectNotifications?: boolean;
   runPipeline?: boolean;
   generateDrafts?: boolean;
+  incremental?: boolean;
 }
 
 export interface RunTriggerPipelineResult {
@@ -53,12 +68,26 @@ export interface RunTriggerResponse {
     accountsProcessed: number;
     accountsSucceeded: number;
     accountsFailed: number;
+    accountsQuotaExhausted: number;
     postsFound: number;
+    postsNew: number;
+    postsReseen: number;
     commentsFound: number;
   };
   pipeline: RunTriggerPipelineResult[];
 }
 
+export interface PostMedia {
+  id: number;
+  position: number;
+  mediaType: "image" | "video";
+  sourceUrl: string;
+  contentType: string | null;
+  byteSize: number | null;
+  isDownloaded: boolean;
+  fileUrl: string;
+}
+
 export interface Post {
   id: number;
   platformPostId: string | null;
@@ -77,6 +106,7 @@ export interface Post {
   triageScore: number | null;
   triageLabel: string | null;
   triageAction: string | null;
+  media?: PostMedia[];
 }
 
 export interface PostsListResponse {
@@ -101,6 +131,28 @@ export interface MetricSnapshot {
   runAccountId: number;
 }
 
+export type EngagementTrend = "rising" | "steady" | "cooling" | "insufficient_data";
+
+export interface MetricSeriesPoint {
+  capturedAt: number;
+  likesCount: number | null;
+  repliesCount: number | null;
+  repostsCount: number | null;
+  viewsCount: number | null;
+  engagement: number;
+  velocityPerHour: number | null;
+}
+
+export interface PostMetricsHistory {
+  postId: number;
+  publishedAt: number | null;
+  points: MetricSeriesPoint[];
+  latestVelocity: number | null;
+  previousVelocity: number | null;
+  trend: EngagementTrend;
+  isRising: boolean;
+}
+
 export interface Account {
   id: number;
   platform: string;
@@ -115,6 +167,50 @@ export interface PostWorkspace {
   triage: Triage | null;
   metrics: MetricSnapshot | null;
   drafts: Draft[];
+  media: PostMedia[];
+  author: Author | null;
+}
+
+export interface Author {
+  id: number;
+  platform: string;
+  handle: string;
+  displayName: string;
+  bio: string | null;
+  followerCount: number | null;
+  isVerified: number | null;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  profileScrapedAt: number | null;
+}
+
+export interface AuthorListItem extends Author {
+  postCount: number;
+}
+
+export interface AuthorsListResponse {
+  authors: AuthorListItem[];
+  total: number;
+  hasMore: boolean;
+}
+
+export type AuthorInteraction =
+  | { kind: "engaged"; at: number; postId: number; engagedBy: string | null }
+  | { kind: "reply_approved"; at: number; postId: number; draftId: number; draftText: string }
+  | { kind: "notification"; at: number; postId: number; accountId: number; notificationKind: "mention" | "reply" | "quote" };
+
+export interface AuthorDetail {
+  author: Author;
+  stats: {
+    postCount: number;
+    commentCount: number;
+    triagedCount: number;
+    keepCount: number;
+    avgRelevanceScore: number | null;
+  };
+  posts: Post[];
+  triage: Triage[];
+  interactions: AuthorInteraction[];
 }
 
 export interface GenerateDraftsResult {
@@ -135,6 +231,23 @@ export interface Comment {
   publishedAt: number | null;
   firstSeenAt: number;
   lastSeenAt: number;
+  parentCommentId: number | null;
+  depth: number;
+}
+
+export interface CommentTreeNode {
+  comment: Comment;
+  children: CommentTreeNode[];
+}
+
+export interface ThreadPart {
+  post: Post;
+  replies: CommentTreeNode[];
+}
+
+export interface PostThread {
+  rootPostId: number;
+  parts: ThreadPart[];
 }
 
 export interface TriagePost {
@@ -158,7 +271,8 @@ export interface Triage {
   model: string | null;
   promptVersion: string | null;
   rank: number | null;
-  isTop20: number;
+  isSelected: number;
+  selectionStrategy: string | null;
   selectedForDeepScrape: number;
   createdAt: number;
   post?: TriagePost;
@@ -202,6 +316,18 @@ export interface Policy {
   avoidListJson: string;
   toneIdentity: string;
   preferredLanguagesJson: string;
+  triageModel: string | null;
+  triageTemperature: number | null;
+  triageMaxTokens: number | null;
+  draftModel: string | null;
+  draftTemperature: number | null;
+  draftMaxTokens: number | null;
+  authorAllowListJson: string;
+  authorDenyListJson: string;
+  excludePatternsJson: string;
+  minBodyLength: number | null;
+  maxPostAgeHours: number | null;
+  selectionConfigJson: string | null;
   isActive: number;
   createdAt: number;
   updatedAt: number;
@@ -209,6 +335,44 @@ export interface Policy {
   goals: string[];
   avoidList: string[];
   preferredLanguages: string[];
+  authorAllowList: string[];
+  authorDenyList: string[];
+  excludePatterns: string[];
+  selection: PolicySelectionConfig | null;
+}
+
+export type PolicyLlmOverrides = Pick<
+  Policy,
+  "triageModel" | "triageTemperature" | "triageMaxTokens" | "draftModel" | "draftTemperature" | "draftMaxTokens"
+>;
+
+export type PolicyPrefilterRules = Pick<
+  Policy,
+  "authorAllowList" | "authorDenyList" | "excludePatterns" | "minBodyLength" | "maxPostAgeHours"
+>;
+
+export type SelectionStrategy =
+  | "top_score"
+  | "author_diverse"
+  | "engagement_velocity"
+  | "reply_first"
+  | "recency_decay";
+
+export const SELECTION_STRATEGY_OPTIONS: { value: SelectionStrategy; label: string }[] = [
+  { value: "top_score", label: "Top score" },
+  { value: "author_diverse", label: "Author diversity" },
+  { value: "engagement_velocity", label: "Engagement velocity" },
+  { value: "reply_first", label: "Reply over save" },
+  { value: "recency_decay", label: "Recency decay" },
+];
+
+// Only the fields that override the server defaults are stored.
+export interface PolicySelectionConfig {
+  strategy?: SelectionStrategy;
+  topN?: number;
+  scoreThreshold?: number;
+  maxPerAuthor?: number | null;
+  recencyHalfLifeHours?: number;
 }
 
 export interface CronJob {
@@ -238,21 +402,32 @@ export interface CronJobRun {
 }
 
 export interface CronSource {
-  type: "home" | "profile" | "search";
+  type: "home" | "profile" | "search" | "notifications" | "feed" | "tag" | "post_url";
+  // feed: "following" | "for_you"; tag: tag without #; post_url: full post URL.
   value?: string;
 }
 
+export const FEED_TAB_OPTIONS: { value: string; label: string }[] = [
+  { value: "following", label: "Following" },
+  { value: "for_you", label: "For you" },
+];
+
 export interface CronPipelineConfig {
   sources: CronSource[];
   maxPostsPerRun: number;
+  incremental?: boolean;
   clearStatusPerRun: boolean;
   generateDrafts: boolean;
+  triageBatchSize: number;
+  selection?: PolicySelectionConfig;
 }
 
 export const DEFAULT_CRON_CONFIG: CronPipelineConfig = {
   sources: [{ type: "home" }],
   maxPostsPerRun: 100,
+  incremental: false,
   clearStatusPerRun: false,
   generateDrafts: true,
+  triageBatchSize: 10,
 };
 
@@ -0,0 +1,65 @@
+import { Film } from "lucide-react";
+import type { PostMedia } from "@/api/types";
+import { cn } from "@/lib/utils";
+
+interface PostMediaGalleryProps {
+  media: PostMedia[];
+  size?: "thumb" | "full";
+  className?: string;
+}
+
+export function PostMediaGallery({ media, size = "full", className }: PostMediaGalleryProps) {
+  if (media.length === 0) return null;
+
+  if (size === "thumb") {
+    const first = media[0]!;
+    return (
+      <div className={cn("relative h-12 w-12 shrink-0 overflow-hidden rounded-md bg-muted", className)}>
+        {first.mediaType === "image" ? (
+          <img
+            src={first.fileUrl}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            className="h-full w-full object-cover"
+          />
+        ) : (
+          <div className="flex h-full w-full items-center justify-center text-muted-foreground">
+            <Film className="h-5 w-5" />
+          </div>
+        )}
+        {media.length > 1 && (
+          <span className="absolute bottom-0 right-0 rounded-tl bg-black/60 px-1 text-[10px] text-white">
+            +{media.length - 1}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("grid gap-2", media.length > 1 ? "grid-cols-2" : "grid-cols-1", className)}>
+      {media.map((item) =>
+        item.mediaType === "video" ? (
+          <video
+            key={item.id}
+            src={item.fileUrl}
+            controls
+            preload="metadata"
+            className="max-h-80 w-full rounded-md bg-black"
+          />
+        ) : (
+          <a key={item.id} href={item.fileUrl} target="_blank" rel="noreferrer" className="block">
+            <img
+              src={item.fileUrl}
+              alt={`Attachment ${item.position + 1}`}
+              loading="lazy"
+              referrerPolicy="no-referrer"
+              className="max-h-80 w-full rounded-md object-cover"
+            />
+          </a>
+        )
+      )}
+    </div>
+  );
+}
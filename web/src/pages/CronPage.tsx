@@ -1,8 +1,8 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/api/client";
-import type { CronJob, CronJobRun, CronPipelineConfig, CronSource } from "@/api/types";
-import { DEFAULT_CRON_CONFIG } from "@/api/types";
+import type { CronJob, CronJobRun, CronPipelineConfig, CronSource, SelectionStrategy } from "@/api/types";
+import { DEFAULT_CRON_CONFIG, FEED_TAB_OPTIONS, SELECTION_STRATEGY_OPTIONS } from "@/api/types";
 import {
   Table,
   TableBody,
@@ -17,6 +17,7 @@ import { Spinner } from "@/components/ui/spinner";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -47,6 +48,14 @@ function parseAccountId(value: string): number | null {
   return parsed;
 }
 
+// Sources with a free-text value; feed picks its tab from a select instead.
+const SOURCE_VALUE_PLACEHOLDERS: Partial<Record<CronSource["type"], string>> = {
+  profile: "username",
+  search: "search query",
+  tag: "tag (without #)",
+  post_url: "https://www.threads.com/@user/post/...",
+};
+
 interface CronFormData {
   accountId: string;
   name: string;
@@ -159,7 +168,7 @@ export function CronPage() {
     let config = DEFAULT_CRON_CONFIG;
     if (job.pipelineConfigJson) {
       try {
-        config = JSON.parse(job.pipelineConfigJson) as CronPipelineConfig;
+        config = { ...DEFAULT_CRON_CONFIG, ...(JSON.parse(job.pipelineConfigJson) as Partial<CronPipelineConfig>) };
       } catch {
         // use default
       }
@@ -198,12 +207,19 @@ export function CronPage() {
     }
   };
 
-  const addSource = (type: "home" | "profile" | "search") => {
+  const addSource = (type: CronSource["type"]) => {
     setFormData({
       ...formData,
       config: {
         ...formData.config,
-        sources: [...formData.config.sources, { type, value: type === "home" ? undefined : "" }],
+        sources: [
+          ...formData.config.sources,
+          {
+            type,
+            value:
+              type === "home" || type === "notifications" ? undefined : type === "feed" ? "following" : "",
+          },
+        ],
       },
     });
   };
@@ -534,20 +550,47 @@ export function CronPage() {
                   <Button variant="outline" size="sm" onClick={() => addSource("search")}>
                     + Search
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => addSource("notifications")}
+                    disabled={formData.config.sources.some((s) => s.type === "notifications")}
+                  >
+                    + Notifications
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => addSource("feed")}>
+                    + Feed
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => addSource("tag")}>
+                    + Tag
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => addSource("post_url")}>
+                    + Post URL
+                  </Button>
                 </div>
               </div>
               <div className="space-y-2">
                 {formData.config.sources.map((source, index) => (
                   <div key={index} className="flex items-center gap-2 p-2 bg-muted rounded-md">
                     <Badge variant="outline">{source.type}</Badge>
-                    {source.type !== "home" && (
+                    {source.type in SOURCE_VALUE_PLACEHOLDERS && (
                       <Input
                         value={source.value || ""}
                         onChange={(e) => updateSource(index, { value: e.target.value })}
-                        placeholder={source.type === "profile" ? "username" : "search query"}
+                        placeholder={SOURCE_VALUE_PLACEHOLDERS[source.type]}
                         className="flex-1 h-8"
                       />
                     )}
+                    {source.type === "feed" && (
+                      <div className="flex-1">
+                        <Select
+                          value={source.value || "following"}
+                          onChange={(e) => updateSource(index, { value: e.target.value })}
+                          options={FEED_TAB_OPTIONS}
+                          className="h-8 py-1"
+                        />
+                      </div>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -581,6 +624,44 @@ export function CronPage() {
                   max={500}
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="triageBatchSize">Triage Batch Size</Label>
+                <Input
+                  id="triageBatchSize"
+                  type="number"
+                  value={formData.config.triageBatchSize}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      config: {
+                        ...formData.config,
+                        triageBatchSize: parseInt(e.target.value) || 1,
+                      },
+                    })
+                  }
+                  min={1}
+                  max={50}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="selectionStrategy">Selection Strategy</Label>
+                <Select
+                  id="selectionStrategy"
+                  value={formData.config.selection?.strategy ?? ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      config: {
+                        ...formData.config,
+                        selection: e.target.value
+                          ? { ...formData.config.selection, strategy: e.target.value as SelectionStrategy }
+                          : undefined,
+                      },
+                    })
+                  }
+                  options={[{ value: "", label: "Policy default" }, ...SELECTION_STRATEGY_OPTIONS]}
+                />
+              </div>
               <div className="space-y-2 pt-6">
                 <div className="flex items-center space-x-2">
                   <Checkbox
@@ -597,6 +678,21 @@ export function CronPage() {
                     Generate reply drafts
                   </label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="incremental"
+                    checked={formData.config.incremental ?? false}
+                    onCheckedChange={(checked: boolean) =>
+                      setFormData({
+                        ...formData,
+                        config: { ...formData.config, incremental: checked },
+                      })
+                    }
+                  />
+                  <label htmlFor="incremental" className="text-sm">
+                    Incremental (stop at already-seen posts)
+                  </label>
+                </div>
               </div>
             </div>
 
@@ -273,6 +273,9 @@ function DraftPostSection({
           <Badge variant="outline">Score: {triage.relevanceScore}</Badge>
           <Badge variant="outline">{triage.relevanceLabel}</Badge>
           <Badge variant="outline">{triage.action}</Badge>
+          {triage.selectionStrategy && (
+            <Badge variant="secondary">Picked by: {triage.selectionStrategy}</Badge>
+          )}
           {reasons.length > 0 && (
             <span className="text-xs text-muted-foreground">
               {reasons.join(", ")}
@@ -15,6 +15,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Spinner } from "@/components/ui/spinner";
 import { Badge } from "@/components/ui/badge";
+import { Select } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -24,11 +25,91 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Save, Trash2 } from "lucide-react";
+import type { PolicyLlmOverrides, PolicyPrefilterRules, PolicySelectionConfig } from "@/api/client";
+import { SELECTION_STRATEGY_OPTIONS, type SelectionStrategy } from "@/api/types";
 
 function formatDate(ts: number) {
   return new Date(ts * 1000).toLocaleString();
 }
 
+const EMPTY_LLM_FORM = {
+  triageModel: "",
+  triageTemperature: "",
+  triageMaxTokens: "",
+  draftModel: "",
+  draftTemperature: "",
+  draftMaxTokens: "",
+};
+
+type LlmFormData = typeof EMPTY_LLM_FORM;
+
+const EMPTY_PREFILTER_FORM = {
+  authorAllowList: "",
+  authorDenyList: "",
+  excludePatterns: "",
+  minBodyLength: "",
+  maxPostAgeHours: "",
+};
+
+type PrefilterFormData = typeof EMPTY_PREFILTER_FORM;
+
+const EMPTY_SELECTION_FORM = {
+  selectionStrategy: "",
+  selectionTopN: "",
+  selectionThreshold: "",
+  maxPerAuthor: "",
+  recencyHalfLifeHours: "",
+};
+
+type SelectionFormData = typeof EMPTY_SELECTION_FORM;
+
+function splitList(value: string, separator: string): string[] {
+  return value.split(separator).map((t) => t.trim()).filter(Boolean);
+}
+
+function toOptionalNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toPrefilterRules(form: PrefilterFormData): PolicyPrefilterRules {
+  return {
+    authorAllowList: splitList(form.authorAllowList, ","),
+    authorDenyList: splitList(form.authorDenyList, ","),
+    // One pattern per line, since regexes may contain commas.
+    excludePatterns: splitList(form.excludePatterns, "\n"),
+    minBodyLength: toOptionalNumber(form.minBodyLength),
+    maxPostAgeHours: toOptionalNumber(form.maxPostAgeHours),
+  };
+}
+
+function toSelectionConfig(form: SelectionFormData): PolicySelectionConfig | null {
+  const config: PolicySelectionConfig = {};
+  if (form.selectionStrategy) config.strategy = form.selectionStrategy as SelectionStrategy;
+  const topN = toOptionalNumber(form.selectionTopN);
+  if (topN !== null) config.topN = topN;
+  const scoreThreshold = toOptionalNumber(form.selectionThreshold);
+  if (scoreThreshold !== null) config.scoreThreshold = scoreThreshold;
+  const maxPerAuthor = toOptionalNumber(form.maxPerAuthor);
+  if (maxPerAuthor !== null) config.maxPerAuthor = maxPerAuthor;
+  const recencyHalfLifeHours = toOptionalNumber(form.recencyHalfLifeHours);
+  if (recencyHalfLifeHours !== null) config.recencyHalfLifeHours = recencyHalfLifeHours;
+  return Object.keys(config).length > 0 ? config : null;
+}
+
+function toLlmOverrides(form: LlmFormData): PolicyLlmOverrides {
+  return {
+    triageModel: form.triageModel.trim() || null,
+    triageTemperature: toOptionalNumber(form.triageTemperature),
+    triageMaxTokens: toOptionalNumber(form.triageMaxTokens),
+    draftModel: form.draftModel.trim() || null,
+    draftTemperature: toOptionalNumber(form.draftTemperature),
+    draftMaxTokens: toOptionalNumber(form.draftMaxTokens),
+  };
+}
+
 export function PolicyPage() {
   const queryClient = useQueryClient();
   const [accountId, setAccountId] = useState<string>("1");
@@ -41,13 +122,16 @@ export function PolicyPage() {
     avoidList: string;
     toneIdentity: string;
     preferredLanguages: string;
-  }>({
+  } & LlmFormData & PrefilterFormData & SelectionFormData>({
     name: "",
     topics: "",
     goals: "",
     avoidList: "",
     toneIdentity: "",
     preferredLanguages: "",
+    ...EMPTY_LLM_FORM,
+    ...EMPTY_PREFILTER_FORM,
+    ...EMPTY_SELECTION_FORM,
   });
 
   const { data: policy, isLoading } = useQuery({
@@ -65,6 +149,22 @@ export function PolicyPage() {
         avoidList: policy.avoidList?.join(", ") || "",
         toneIdentity: policy.toneIdentity || "",
         preferredLanguages: policy.preferredLanguages?.join(", ") || "",
+        triageModel: policy.triageModel ?? "",
+        triageTemperature: policy.triageTemperature?.toString() ?? "",
+        triageMaxTokens: policy.triageMaxTokens?.toString() ?? "",
+        draftModel: policy.draftModel ?? "",
+        draftTemperature: policy.draftTemperature?.toString() ?? "",
+        draftMaxTokens: policy.draftMaxTokens?.toString() ?? "",
+        authorAllowList: policy.authorAllowList?.join(", ") || "",
+        authorDenyList: policy.authorDenyList?.join(", ") || "",
+        excludePatterns: policy.excludePatterns?.join("\n") || "",
+        minBodyLength: policy.minBodyLength?.toString() ?? "",
+        maxPostAgeHours: policy.maxPostAgeHours?.toString() ?? "",
+        selectionStrategy: policy.selection?.strategy ?? "",
+        selectionTopN: policy.selection?.topN?.toString() ?? "",
+        selectionThreshold: policy.selection?.scoreThreshold?.toString() ?? "",
+        maxPerAuthor: policy.selection?.maxPerAuthor?.toString() ?? "",
+        recencyHalfLifeHours: policy.selection?.recencyHalfLifeHours?.toString() ?? "",
       });
     }
   }, [policy]);
@@ -77,7 +177,8 @@ export function PolicyPage() {
       avoidList?: string[];
       toneIdentity?: string;
       preferredLanguages?: string[];
-    }) => api.policies.update(parseInt(accountId), data),
+    } & PolicyLlmOverrides & PolicyPrefilterRules & { selection: PolicySelectionConfig | null }) =>
+      api.policies.update(parseInt(accountId), data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["policy", accountId] });
     },
@@ -95,6 +196,9 @@ export function PolicyPage() {
         avoidList: "",
         toneIdentity: "",
         preferredLanguages: "",
+        ...EMPTY_LLM_FORM,
+        ...EMPTY_PREFILTER_FORM,
+        ...EMPTY_SELECTION_FORM,
       });
     },
   });
@@ -115,6 +219,9 @@ export function PolicyPage() {
       preferredLanguages: formData.preferredLanguages
         ? formData.preferredLanguages.split(",").map((t) => t.trim()).filter(Boolean)
         : undefined,
+      ...toLlmOverrides(formData),
+      ...toPrefilterRules(formData),
+      selection: toSelectionConfig(formData),
     });
   };
 
@@ -248,6 +355,246 @@ export function PolicyPage() {
             />
           </div>
 
+          <div className="space-y-3">
+            <div>
+              <Label>Pre-filter Rules</Label>
+              <p className="text-xs text-muted-foreground">
+                Posts failing these checks, matching a topic to avoid, or detected in a non-preferred language are dropped before triage without an LLM call.
+              </p>
+            </div>
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="authorAllowList">Always Allow Authors (comma-separated)</Label>
+                <Input
+                  id="authorAllowList"
+                  value={formData.authorAllowList}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, authorAllowList: e.target.value }))
+                  }
+                  placeholder="friend1, friend2"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="authorDenyList">Blocked Authors (comma-separated)</Label>
+                <Input
+                  id="authorDenyList"
+                  value={formData.authorDenyList}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, authorDenyList: e.target.value }))
+                  }
+                  placeholder="spammer1, spammer2"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="excludePatterns">Exclude Patterns (one regex per line)</Label>
+              <Textarea
+                id="excludePatterns"
+                value={formData.excludePatterns}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, excludePatterns: e.target.value }))
+                }
+                placeholder={"giveaway|airdrop\nlink in bio"}
+                rows={3}
+              />
+            </div>
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="minBodyLength">Min Body Length</Label>
+                <Input
+                  id="minBodyLength"
+                  type="number"
+                  min="0"
+                  value={formData.minBodyLength}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, minBodyLength: e.target.value }))
+                  }
+                  placeholder="no minimum"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxPostAgeHours">Max Post Age (hours)</Label>
+                <Input
+                  id="maxPostAgeHours"
+                  type="number"
+                  min="1"
+                  value={formData.maxPostAgeHours}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, maxPostAgeHours: e.target.value }))
+                  }
+                  placeholder="no limit"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <Label>Selection Strategy</Label>
+              <p className="text-xs text-muted-foreground">
+                Decides which triaged posts are picked for drafting. Leave blank to use the server defaults.
+              </p>
+            </div>
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="selectionStrategy">Strategy</Label>
+                <Select
+                  id="selectionStrategy"
+                  value={formData.selectionStrategy}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, selectionStrategy: e.target.value }))
+                  }
+                  options={[{ value: "", label: "Server default" }, ...SELECTION_STRATEGY_OPTIONS]}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="selectionTopN">Posts to Select</Label>
+                <Input
+                  id="selectionTopN"
+                  type="number"
+                  min="1"
+                  max="200"
+                  value={formData.selectionTopN}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, selectionTopN: e.target.value }))
+                  }
+                  placeholder="default"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="selectionThreshold">Deep Scrape Threshold</Label>
+                <Input
+                  id="selectionThreshold"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.selectionThreshold}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, selectionThreshold: e.target.value }))
+                  }
+                  placeholder="default"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxPerAuthor">Max Posts per Author</Label>
+                <Input
+                  id="maxPerAuthor"
+                  type="number"
+                  min="1"
+                  value={formData.maxPerAuthor}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, maxPerAuthor: e.target.value }))
+                  }
+                  placeholder="no cap"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recencyHalfLifeHours">Recency Half-life (hours)</Label>
+                <Input
+                  id="recencyHalfLifeHours"
+                  type="number"
+                  min="1"
+                  value={formData.recencyHalfLifeHours}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, recencyHalfLifeHours: e.target.value }))
+                  }
+                  placeholder="default"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div>
+              <Label>Model Settings</Label>
+              <p className="text-xs text-muted-foreground">
+                Leave blank to use the provider and stage defaults. Settings are frozen into each run's policy snapshot.
+              </p>
+            </div>
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="triageModel">Triage Model</Label>
+                <Input
+                  id="triageModel"
+                  value={formData.triageModel}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, triageModel: e.target.value }))
+                  }
+                  placeholder="provider default"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="triageTemperature">Triage Temperature</Label>
+                <Input
+                  id="triageTemperature"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="2"
+                  value={formData.triageTemperature}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, triageTemperature: e.target.value }))
+                  }
+                  placeholder="0.3"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="triageMaxTokens">Triage Max Tokens</Label>
+                <Input
+                  id="triageMaxTokens"
+                  type="number"
+                  min="1"
+                  value={formData.triageMaxTokens}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, triageMaxTokens: e.target.value }))
+                  }
+                  placeholder="512"
+                />
+              </div>
+            </div>
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="draftModel">Draft Model</Label>
+                <Input
+                  id="draftModel"
+                  value={formData.draftModel}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, draftModel: e.target.value }))
+                  }
+                  placeholder="provider default"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="draftTemperature">Draft Temperature</Label>
+                <Input
+                  id="draftTemperature"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="2"
+                  value={formData.draftTemperature}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, draftTemperature: e.target.value }))
+                  }
+                  placeholder="0.7"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="draftMaxTokens">Draft Max Tokens</Label>
+                <Input
+                  id="draftMaxTokens"
+                  type="number"
+                  min="1"
+                  value={formData.draftMaxTokens}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, draftMaxTokens: e.target.value }))
+                  }
+                  placeholder="1024"
+                />
+              </div>
+            </div>
+          </div>
+
           <div className="flex gap-2 pt-4">
             <Button onClick={handleSave} disabled={updateMutation.isPending}>
               <Save className="h-4 w-4 mr-2" />
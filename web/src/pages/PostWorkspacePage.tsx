@@ -2,9 +2,19 @@ import { useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/api/client";
-import type { PostWorkspace, Draft } from "@/api/types";
+import type {
+  PostWorkspace,
+  Draft,
+  PostMetricsHistory,
+  MetricSeriesPoint,
+  PostThread,
+  CommentTreeNode,
+  Author,
+  AuthorInteraction,
+} from "@/api/types";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { PostMediaGallery } from "@/components/PostMediaGallery";
 import { Spinner } from "@/components/ui/spinner";
 import {
   Card,
@@ -36,6 +46,9 @@ import {
   Heart,
   MessageSquare,
   Eye,
+  TrendingUp,
+  BadgeCheck,
+  Users,
 } from "lucide-react";
 
 function formatDate(ts: number | null) {
@@ -73,6 +86,18 @@ export function PostWorkspacePage() {
     enabled: !!postId && !isNaN(postId),
   });
 
+  const { data: metricsHistory } = useQuery({
+    queryKey: ["post", postId, "metrics-history"],
+    queryFn: () => api.posts.metricsHistory(postId),
+    enabled: !!postId && !isNaN(postId),
+  });
+
+  const { data: thread } = useQuery({
+    queryKey: ["post", postId, "thread"],
+    queryFn: () => api.posts.thread(postId),
+    enabled: !!postId && !isNaN(postId),
+  });
+
   const generateDraftsMutation = useMutation({
     mutationFn: () => api.posts.generateDrafts(postId),
     onSuccess: () => {
@@ -171,7 +196,11 @@ export function PostWorkspacePage() {
         <TriageCard workspace={workspace} />
       </div>
 
-      <MetricsCard workspace={workspace} />
+      {workspace.author && <AuthorCard author={workspace.author} />}
+
+      <MetricsCard workspace={workspace} history={metricsHistory} />
+
+      {thread && <ConversationCard thread={thread} postId={postId} />}
 
       <DraftsSection
         workspace={workspace}
@@ -235,6 +264,84 @@ export function PostWorkspacePage() {
   );
 }
 
+function countReplies(nodes: CommentTreeNode[]): number {
+  return nodes.reduce((total, node) => total + 1 + countReplies(node.children), 0);
+}
+
+function ConversationCard({ thread, postId }: { thread: PostThread; postId: number }) {
+  const isSelfThread = thread.parts.length > 1;
+  const replyCount = thread.parts.reduce((total, part) => total + countReplies(part.replies), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          Conversation
+          <span className="text-sm font-normal text-muted-foreground">
+            {replyCount} {replyCount === 1 ? "reply" : "replies"}
+            {isSelfThread && ` across a ${thread.parts.length}-part thread`}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {thread.parts.map((part, index) => (
+          <div key={part.post.id} className="space-y-3">
+            {isSelfThread && (
+              <div
+                className={`text-sm rounded-md p-3 ${
+                  part.post.id === postId ? "border border-primary/40 bg-primary/5" : "bg-muted/50"
+                }`}
+              >
+                <div className="mb-1 flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>
+                    {index + 1}/{thread.parts.length} · @{part.post.authorHandle}
+                  </span>
+                  {part.post.id !== postId && (
+                    <Link to={`/posts/${part.post.id}`} className="underline">
+                      Open
+                    </Link>
+                  )}
+                </div>
+                <div className="whitespace-pre-wrap">{part.post.bodyText || "(no text)"}</div>
+              </div>
+            )}
+            <CommentList nodes={part.replies} />
+          </div>
+        ))}
+        {replyCount === 0 && (
+          <p className="text-sm text-muted-foreground">No replies collected yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CommentList({ nodes }: { nodes: CommentTreeNode[] }) {
+  if (nodes.length === 0) return null;
+
+  return (
+    <ul className="space-y-3">
+      {nodes.map((node) => (
+        <li key={node.comment.id}>
+          <div className="text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">@{node.comment.authorHandle}</span>
+              <span className="text-xs text-muted-foreground">{formatDate(node.comment.publishedAt)}</span>
+            </div>
+            <div className="whitespace-pre-wrap">{node.comment.bodyText || "(no text)"}</div>
+          </div>
+          {node.children.length > 0 && (
+            <div className="mt-3 ml-2 border-l pl-4">
+              <CommentList nodes={node.children} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function EngagementToggle({
   engaged,
   onToggle,
@@ -293,6 +400,8 @@ function PostCard({ workspace }: { workspace: PostWorkspace }) {
           </div>
         )}
 
+        <PostMediaGallery media={workspace.media} />
+
         <div className="grid grid-cols-2 gap-2 text-sm">
           <div>
             <span className="text-muted-foreground">Source Account: </span>
@@ -382,6 +491,9 @@ function TriageCard({ workspace }: { workspace: PostWorkspace }) {
           <Badge variant="outline">{triage.relevanceLabel}</Badge>
           <Badge variant="outline">Action: {triage.action}</Badge>
           <Badge variant="outline">Confidence: {triage.confidence}%</Badge>
+          {triage.selectionStrategy && (
+            <Badge variant="secondary">Picked by: {triage.selectionStrategy}</Badge>
+          )}
         </div>
         {reasons.length > 0 && (
           <div className="text-sm">
@@ -397,7 +509,130 @@ function TriageCard({ workspace }: { workspace: PostWorkspace }) {
   );
 }
 
-function MetricsCard({ workspace }: { workspace: PostWorkspace }) {
+function describeInteraction(interaction: AuthorInteraction): string {
+  switch (interaction.kind) {
+    case "engaged":
+      return `Engaged with post #${interaction.postId}${interaction.engagedBy ? ` (${interaction.engagedBy})` : ""}`;
+    case "reply_approved":
+      return `Approved reply on post #${interaction.postId}: "${interaction.draftText}"`;
+    case "notification":
+      return `Sent us a ${interaction.notificationKind} (post #${interaction.postId})`;
+  }
+}
+
+function AuthorCard({ author }: { author: Author }) {
+  const { data: detail } = useQuery({
+    queryKey: ["author", author.id],
+    queryFn: () => api.authors.get(author.id),
+  });
+
+  const recentInteractions = detail?.interactions.slice(0, 5) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Author</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-1 font-medium">
+              {author.displayName}
+              {author.isVerified === 1 && <BadgeCheck className="h-4 w-4 text-blue-500" aria-label="Verified" />}
+            </div>
+            <div className="text-sm text-muted-foreground">@{author.handle}</div>
+          </div>
+          <div className="flex items-center gap-1 text-sm">
+            <Users className="h-4 w-4 text-muted-foreground" />
+            {formatNumber(author.followerCount)} followers
+          </div>
+        </div>
+
+        {author.bio && <p className="text-sm whitespace-pre-wrap">{author.bio}</p>}
+
+        {detail && (
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">Posts: {detail.stats.postCount}</Badge>
+            <Badge variant="outline">Comments: {detail.stats.commentCount}</Badge>
+            <Badge variant="outline">
+              Kept: {detail.stats.keepCount}/{detail.stats.triagedCount} triaged
+            </Badge>
+            {detail.stats.avgRelevanceScore !== null && (
+              <Badge variant="outline">Avg score: {detail.stats.avgRelevanceScore}</Badge>
+            )}
+          </div>
+        )}
+
+        {recentInteractions.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <div className="text-muted-foreground">Past interactions</div>
+            {recentInteractions.map((interaction, index) => (
+              <div key={`${interaction.kind}-${interaction.postId}-${index}`} className="flex justify-between gap-4">
+                <Link to={`/posts/${interaction.postId}`} className="truncate hover:underline">
+                  {describeInteraction(interaction)}
+                </Link>
+                <span className="shrink-0 text-muted-foreground">{formatDate(interaction.at)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="text-sm text-muted-foreground">
+          First seen {formatDate(author.firstSeenAt)} · Profile{" "}
+          {author.profileScrapedAt ? `checked ${formatDate(author.profileScrapedAt)}` : "not scraped yet"}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function Sparkline({ points }: { points: MetricSeriesPoint[] }) {
+  const width = 240;
+  const height = 40;
+  const values = points.map((p) => p.engagement);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const path = values
+    .map((value, i) => {
+      const x = (i / (values.length - 1)) * width;
+      const y = height - ((value - min) / range) * (height - 4) - 2;
+      return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="text-primary">
+      <path d={path} fill="none" stroke="currentColor" strokeWidth={2} />
+    </svg>
+  );
+}
+
+function EngagementTrendRow({ history }: { history: PostMetricsHistory }) {
+  if (history.points.length < 2) return null;
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-4">
+      <Sparkline points={history.points} />
+      <div className="flex flex-col gap-1 text-xs text-muted-foreground">
+        <span>
+          {history.points.length} snapshots, weighted engagement (likes + 2×replies + 3×reposts)
+        </span>
+        {history.latestVelocity !== null && (
+          <span>{history.latestVelocity.toFixed(1)} engagements/hour since last capture</span>
+        )}
+      </div>
+      {history.isRising && (
+        <Badge variant="success">
+          <TrendingUp className="h-3 w-3 mr-1" />
+          Rising — reply early
+        </Badge>
+      )}
+      {history.trend === "cooling" && <Badge variant="outline">Cooling</Badge>}
+    </div>
+  );
+}
+
+function MetricsCard({ workspace, history }: { workspace: PostWorkspace; history?: PostMetricsHistory }) {
   const { metrics } = workspace;
 
   if (!metrics) {
@@ -446,6 +681,7 @@ function MetricsCard({ workspace }: { workspace: PostWorkspace }) {
         <div className="mt-3 text-xs text-muted-foreground">
           Captured: {formatDate(metrics.capturedAt)}
         </div>
+        {history && <EngagementTrendRow history={history} />}
       </CardContent>
     </Card>
   );
@@ -2,7 +2,8 @@ import { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Link } from "react-router-dom";
 import { api } from "@/api/client";
-import type { Post, PostWorkspace } from "@/api/types";
+import type { Post, PostMedia, PostWorkspace } from "@/api/types";
+import { PostMediaGallery } from "@/components/PostMediaGallery";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Spinner } from "@/components/ui/spinner";
@@ -80,6 +81,18 @@ function formatRelativeTime(ts: number | null) {
   return new Date(ts * 1000).toLocaleDateString();
 }
 
+function mediaSummary(media: PostMedia[] | undefined): string | null {
+  if (!media || media.length === 0) return null;
+  const videos = media.filter((item) => item.mediaType === "video").length;
+  const images = media.length - videos;
+  return [
+    images > 0 ? `${images} image${images === 1 ? "" : "s"}` : null,
+    videos > 0 ? `${videos} video${videos === 1 ? "" : "s"}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
 function truncate(text: string | null, max: number) {
   if (!text) return "-";
   if (text.length <= max) return text;
@@ -214,9 +227,12 @@ function PostCard({
             Open
           </Button>
         </div>
-        <p className="text-sm text-muted-foreground line-clamp-2 mt-2 break-words">
-          {post.bodyText || <span className="italic">No content</span>}
-        </p>
+        <div className="flex gap-2 mt-2">
+          <PostMediaGallery media={post.media ?? []} size="thumb" />
+          <p className="text-sm text-muted-foreground line-clamp-2 break-words">
+            {post.bodyText || <span className="italic">{mediaSummary(post.media) ?? "No content"}</span>}
+          </p>
+        </div>
         <div className="flex items-center justify-between mt-3 text-xs text-muted-foreground">
           <span>{formatRelativeTime(post.firstSeenAt)}</span>
           <div className="flex items-center gap-0.5">
@@ -693,7 +709,12 @@ export function PostsListPage() {
                         <p className="font-medium truncate">@{post.authorHandle}</p>
                         <p className="text-xs text-muted-foreground truncate">{post.authorDisplayName}</p>
                       </div>
-                      <p className="text-sm text-muted-foreground line-clamp-2">{truncate(post.bodyText, 120)}</p>
+                      <div className="flex gap-2 min-w-0">
+                        <PostMediaGallery media={post.media ?? []} size="thumb" />
+                        <p className="text-sm text-muted-foreground line-clamp-2">
+                          {post.bodyText ? truncate(post.bodyText, 120) : mediaSummary(post.media) ?? truncate(null, 120)}
+                        </p>
+                      </div>
                       <div className="min-w-0">
                         <div className="flex items-center gap-1.5 mb-1">
                           {post.triageScore !== null ? (
@@ -824,10 +845,13 @@ export function PostsListPage() {
                       )}
                     </div>
 
-                    <div className="bg-muted/50 rounded-lg p-3">
-                      <p className="text-sm break-words whitespace-pre-wrap">
-                        {selectedPost.bodyText || <span className="italic text-muted-foreground">No content</span>}
-                      </p>
+                    <div className="bg-muted/50 rounded-lg p-3 space-y-3">
+                      {(selectedPost.bodyText || !selectedPost.media?.length) && (
+                        <p className="text-sm break-words whitespace-pre-wrap">
+                          {selectedPost.bodyText || <span className="italic text-muted-foreground">No content</span>}
+                        </p>
+                      )}
+                      <PostMediaGallery media={selectedPost.media ?? []} />
                     </div>
 
                     <div className="space-y-1 text-xs text-muted-foreground">
@@ -989,10 +1013,13 @@ export function PostsListPage() {
               )}
             </div>
 
-            <div className="bg-muted/50 rounded-lg p-3">
-              <p className="text-sm break-words whitespace-pre-wrap">
-                {selectedPost?.bodyText || <span className="italic text-muted-foreground">No content</span>}
-              </p>
+            <div className="bg-muted/50 rounded-lg p-3 space-y-3">
+              {(selectedPost?.bodyText || !selectedPost?.media?.length) && (
+                <p className="text-sm break-words whitespace-pre-wrap">
+                  {selectedPost?.bodyText || <span className="italic text-muted-foreground">No content</span>}
+                </p>
+              )}
+              <PostMediaGallery media={selectedPost?.media ?? []} />
             </div>
 
             <div className="rounded-lg border p-3">
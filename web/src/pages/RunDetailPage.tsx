@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/api/client";
-import type { RunAccount } from "@/api/types";
+import type { RunAccount, RunArtifact } from "@/api/types";
 import {
   Card,
   CardContent,
@@ -29,7 +29,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { ArrowLeft, Trash2 } from "lucide-react";
+import { ArrowLeft, FileArchive, FileCode, Image, Trash2 } from "lucide-react";
 
 function formatDate(ts: number) {
   return new Date(ts * 1000).toLocaleString();
@@ -47,6 +47,41 @@ function StatusBadge({ status }: { status: string }) {
   return <Badge variant={variant}>{status}</Badge>;
 }
 
+const ARTIFACT_LABELS: Record<RunArtifact["kind"], string> = {
+  screenshot: "Screenshot",
+  dom: "DOM",
+  trace: "Trace",
+};
+
+function ArtifactIcon({ kind }: { kind: RunArtifact["kind"] }) {
+  if (kind === "screenshot") return <Image className="h-3 w-3" />;
+  if (kind === "dom") return <FileCode className="h-3 w-3" />;
+  return <FileArchive className="h-3 w-3" />;
+}
+
+function ArtifactLinks({ artifacts }: { artifacts: RunArtifact[] }) {
+  if (artifacts.length === 0) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+  return (
+    <div className="flex flex-wrap gap-2">
+      {artifacts.map((artifact) => (
+        <a
+          key={artifact.id}
+          href={artifact.fileUrl}
+          target="_blank"
+          rel="noreferrer"
+          title={artifact.pageUrl ?? undefined}
+          className="flex items-center gap-1 text-xs text-primary hover:underline"
+        >
+          <ArtifactIcon kind={artifact.kind} />
+          {ARTIFACT_LABELS[artifact.kind]}
+        </a>
+      ))}
+    </div>
+  );
+}
+
 export function RunDetailPage() {
   const { id } = useParams<{ id: string }>();
   const runId = parseInt(id || "0");
@@ -127,6 +162,9 @@ export function RunDetailPage() {
                 <TableHead>Platform</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Posts Found</TableHead>
+                <TableHead>New / Re-seen</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead>Artifacts</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -143,6 +181,18 @@ export function RunDetailPage() {
                       <StatusBadge status={account.status} />
                     </TableCell>
                     <TableCell>{account.postsFound}</TableCell>
+                    <TableCell>
+                      {account.postsNew} / {account.postsReseen}
+                    </TableCell>
+                    <TableCell
+                      className="max-w-xs truncate text-xs text-muted-foreground"
+                      title={account.errorDetail ?? undefined}
+                    >
+                      {account.errorCode ?? "-"}
+                    </TableCell>
+                    <TableCell>
+                      <ArtifactLinks artifacts={account.artifacts ?? []} />
+                    </TableCell>
                     <TableCell className="text-right">
                       <Button
                         variant="ghost"
@@ -156,7 +206,7 @@ export function RunDetailPage() {
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center">
+                  <TableCell colSpan={9} className="text-center">
                     No accounts
                   </TableCell>
                 </TableRow>